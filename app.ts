@@ -8,14 +8,50 @@ import { readFileSync } from "fs";
 import swaggerUi from "swagger-ui-express";
 import yaml from "js-yaml";
 import { createPrismaClient } from "./src/infrastructure/config/prisma";
-import { createAuthRouter, createTransactionRouter, createUserRouter } from "./src/api/routes";
+import {
+  createAnalyticsRouter,
+  createAttachmentRouter,
+  createAuthRouter,
+  createBudgetRouter,
+  createCategoryRouter,
+  createExchangeRateRouter,
+  createRecurringTransactionRouter,
+  createSigningKeyRouter,
+  createTagRouter,
+  createTransactionImportRouter,
+  createTransactionRouter,
+  createUserRouter,
+  createWellKnownRouter,
+} from "./src/api/routes";
 import errorHandler from "./src/api/middleware/error.middleware";
-import { loggingHandler } from "@src/api/middleware/index.js";
+import { logger, loggingHandler } from "@src/api/middleware/index.js";
 import { healthcheckProvider } from "@src/infrastructure/healthchecks/healthcheckProvider";
 import helmet from "helmet";
+import {
+  AttachmentService,
+  ExchangeRateService,
+  IdempotencyService,
+  RecurringTransactionService,
+  TransactionService,
+} from "@src/application/services";
+import {
+  AttachmentRepository,
+  CategoryRepository,
+  ExchangeRateRepository,
+  IdempotencyKeyRepository,
+  RecurringTransactionRepository,
+  TagRepository,
+  TransactionHistoryRepository,
+  TransactionRepository,
+  UserRepository,
+} from "@src/infrastructure/repositories";
+import { createIntervalJob } from "@src/infrastructure/services/scheduler";
+import { createFileStorage } from "@src/infrastructure/storage";
+import { parseExpiryToMs } from "@src/api/utils/timeUtils";
 
 interface ApplicationWithSwagger extends Application {
   useSwaggerDocumentation: () => void;
+  startBackgroundJobs: () => void;
 }
 
 export function createApp(): ApplicationWithSwagger {
@@ -30,6 +66,14 @@ export function createApp(): ApplicationWithSwagger {
 
   const prismaClient = createPrismaClient();
 
+  if (ENVIRONMENT_CONFIG.EXCHANGE_RATES_FILE) {
+    const ratesFile = ENVIRONMENT_CONFIG.EXCHANGE_RATES_FILE;
+    new ExchangeRateService(new ExchangeRateRepository(prismaClient))
+      .importFromFile(ratesFile)
+      .then(({ imported }) => logger.info(`Imported ${imported} exchange rates from ${ratesFile}`))
+      .catch((error) => logger.error(`Failed to import exchange rates from ${ratesFile}`, { error }));
+  }
+
   const app: ApplicationWithSwagger = express() as unknown as ApplicationWithSwagger;
 
   app.useSwaggerDocumentation = () => {
@@ -38,6 +82,79 @@ export function createApp(): ApplicationWithSwagger {
     }
   };
 
+  app.startBackgroundJobs = () => {
+    const categoryRepository = new CategoryRepository(prismaClient);
+    const userRepository = new UserRepository(prismaClient);
+    const transactionRepository = new TransactionRepository(prismaClient);
+    const transactionService = new TransactionService(
+      transactionRepository,
+      categoryRepository,
+      userRepository,
+      new ExchangeRateService(new ExchangeRateRepository(prismaClient)),
+      new TagRepository(prismaClient),
+      new AttachmentService(
+        transactionRepository,
+        new AttachmentRepository(prismaClient),
+        createFileStorage(),
+      ),
+      new TransactionHistoryRepository(prismaClient),
+    );
+
+    if (ENVIRONMENT_CONFIG.RECURRING_SCHEDULER_ENABLED === "true") {
+      const recurringTransactionService = new RecurringTransactionService(
+        new RecurringTransactionRepository(prismaClient),
+        categoryRepository,
+        userRepository,
+        transactionService,
+      );
+
+      createIntervalJob(
+        "recurring-transactions",
+        parseExpiryToMs(ENVIRONMENT_CONFIG.RECURRING_SCHEDULER_INTERVAL),
+        async () => {
+          const { processed, failures } =
+            await recurringTransactionService.processDueOccurrences();
+          if (processed > 0) {
+            logger.info(`Generated ${processed} recurring transactions`);
+          }
+          for (const { recurringTransactionId, error } of failures) {
+            logger.error(`Failed to generate recurring transaction ${recurringTransactionId}`, {
+              error,
+            });
+          }
+        },
+      ).start();
+    }
+
+    if (ENVIRONMENT_CONFIG.TRASH_PURGE_ENABLED === "true") {
+      const retentionMs = parseExpiryToMs(ENVIRONMENT_CONFIG.TRASH_RETENTION);
+
+      createIntervalJob(
+        "trash-purge",
+        parseExpiryToMs(ENVIRONMENT_CONFIG.TRASH_PURGE_INTERVAL),
+        async () => {
+          const purged = await transactionService.purgeTrash(new Date(Date.now() - retentionMs));
+          if (purged > 0) {
+            logger.info(`Purged ${purged} transactions from the trash`);
+          }
+        },
+      ).start();
+    }
+
+    const idempotencyService = new IdempotencyService(new IdempotencyKeyRepository(prismaClient));
+
+    createIntervalJob(
+      "idempotency-key-purge",
+      parseExpiryToMs(ENVIRONMENT_CONFIG.IDEMPOTENCY_KEY_TTL),
+      async () => {
+        const purged = await idempotencyService.purgeExpired();
+        if (purged > 0) {
+          logger.info(`Purged ${purged} expired idempotency keys`);
+        }
+      },
+    ).start();
+  };
+
   app.use(
     helmet({
       contentSecurityPolicy: {
@@ -58,16 +175,25 @@ export function createApp(): ApplicationWithSwagger {
     cors({
       origin: ENVIRONMENT_CONFIG.CLIENT_ORIGIN,
       credentials: true,
-      methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
+      methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
       allowedHeaders: [
         "Content-Type",
         "Authorization",
         "User-Agent",
         "X-Forwarded-For",
         "X-Test-Token",
+        "If-Match",
+        "If-None-Match",
+        "Idempotency-Key",
       ],
+      exposedHeaders: ["ETag", "Idempotent-Replayed"],
     }),
   );
+  // Statements are uploaded inside the JSON body, so imports get a larger limit than other routes
+  app.use(
+    "/api/transactions/import",
+    express.json({ limit: ENVIRONMENT_CONFIG.IMPORT_MAX_FILE_SIZE }),
+  );
   app.use(express.json({ strict: false }));
   app.use(cookieParser());
   app.useSwaggerDocumentation();
@@ -83,9 +209,22 @@ export function createApp(): ApplicationWithSwagger {
     res.status(200).json({ id: 1, data: "Welcome to the ExpenseIt-API" });
   });
 
+  app.use("/.well-known", createWellKnownRouter());
   app.use("/api/auth", createAuthRouter(prismaClient));
+  app.use("/api/transactions/import", createTransactionImportRouter(prismaClient));
+  app.use(
+    "/api/transactions/:transactionId/attachments",
+    createAttachmentRouter(prismaClient),
+  );
   app.use("/api/transactions", createTransactionRouter(prismaClient));
+  app.use("/api/recurring", createRecurringTransactionRouter(prismaClient));
+  app.use("/api/categories", createCategoryRouter(prismaClient));
+  app.use("/api/tags", createTagRouter(prismaClient));
+  app.use("/api/budgets", createBudgetRouter(prismaClient));
+  app.use("/api/analytics", createAnalyticsRouter(prismaClient));
+  app.use("/api/exchange-rates", createExchangeRateRouter(prismaClient));
   app.use("/api/profile", createUserRouter(prismaClient));
+  app.use("/api/signing-keys", createSigningKeyRouter());
 
   app.use(errorHandler);
 
@@ -14,15 +14,52 @@ function loadEnvironmentConfig(): EnvironmentConfig {
   }
   const PORT = isRequiredEnv("PORT", "4000");
   const CLIENT_ORIGIN = isRequiredEnv("CLIENT_ORIGIN", "http://localhost:3000");
+  const APP_BASE_URL = isRequiredEnv("APP_BASE_URL", `http://localhost:${PORT}`);
   const JWT_ACCESS_SECRET = isRequiredEnv("JWT_ACCESS_SECRET");
   const JWT_REFRESH_SECRET = isRequiredEnv("JWT_REFRESH_SECRET");
   const ACCESS_TOKEN_EXPIRATION = isRequiredEnv("ACCESS_TOKEN_EXPIRATION", "15m");
   const REFRESH_TOKEN_EXPIRATION = isRequiredEnv("REFRESH_TOKEN_EXPIRATION", "7d");
+  const MFA_TOKEN_EXPIRATION = isRequiredEnv("MFA_TOKEN_EXPIRATION", "5m");
+  const JWT_SIGNING_ALGORITHM = isRequiredEnv("JWT_SIGNING_ALGORITHM", "RS256");
+  const JWT_KEY_RETIREMENT_PERIOD = isRequiredEnv("JWT_KEY_RETIREMENT_PERIOD", "1d");
+  const JWT_KEY_ENCRYPTION_SECRET = isRequiredEnv("JWT_KEY_ENCRYPTION_SECRET");
+  const TOTP_ENCRYPTION_SECRET = isRequiredEnv("TOTP_ENCRYPTION_SECRET");
   const COOKIE_SECURE = isRequiredEnv("COOKIE_SECURE", "false");
   const DATABASE_URL = isRequiredEnv("DATABASE_URL");
   const EMAIL_USERNAME = isRequiredEnv("EMAIL_USERNAME", "test@example.com");
   const EMAIL_PASSWORD = isRequiredEnv("EMAIL_PASSWORD", "testpassword");
   const VERIFICATION_TOKEN_EXPIRATION = isRequiredEnv("VERIFICATION_TOKEN_EXPIRATION", "1h");
+  const VERIFICATION_RESEND_COOLDOWN = isRequiredEnv("VERIFICATION_RESEND_COOLDOWN", "1m");
+  const REQUIRE_EMAIL_VERIFICATION = isRequiredEnv("REQUIRE_EMAIL_VERIFICATION", "false");
+  const SECURITY_ALERT_EMAILS_ENABLED = isRequiredEnv("SECURITY_ALERT_EMAILS_ENABLED", "true");
+  const PASSWORD_RESET_TOKEN_EXPIRATION = isRequiredEnv("PASSWORD_RESET_TOKEN_EXPIRATION", "1h");
+  const LOGIN_MAX_ACCOUNT_FAILURES = isRequiredEnv("LOGIN_MAX_ACCOUNT_FAILURES", "5");
+  const LOGIN_MAX_IP_FAILURES = isRequiredEnv("LOGIN_MAX_IP_FAILURES", "20");
+  const LOGIN_FAILURE_WINDOW = isRequiredEnv("LOGIN_FAILURE_WINDOW", "15m");
+  const LOGIN_LOCKOUT_DURATION = isRequiredEnv("LOGIN_LOCKOUT_DURATION", "15m");
+  const LOGIN_FAILURE_DELAY = isRequiredEnv("LOGIN_FAILURE_DELAY", "1s");
+  const DEFAULT_CURRENCY = isRequiredEnv("DEFAULT_CURRENCY", "USD");
+  const DEFAULT_TIMEZONE = isRequiredEnv("DEFAULT_TIMEZONE", "UTC");
+  const DEFAULT_LOCALE = isRequiredEnv("DEFAULT_LOCALE", "en-US");
+  const EXCHANGE_RATE_PIVOT_CURRENCY = isRequiredEnv("EXCHANGE_RATE_PIVOT_CURRENCY", "EUR");
+  const EXCHANGE_RATES_FILE = process.env.EXCHANGE_RATES_FILE; // Optional, loaded on startup when set
+  const ADMIN_API_KEY = process.env.ADMIN_API_KEY; // Optional, admin endpoints are disabled without it
+  const RECURRING_SCHEDULER_ENABLED = isRequiredEnv("RECURRING_SCHEDULER_ENABLED", "true");
+  const RECURRING_SCHEDULER_INTERVAL = isRequiredEnv("RECURRING_SCHEDULER_INTERVAL", "1m");
+  const BUDGET_ALERT_THRESHOLDS = isRequiredEnv("BUDGET_ALERT_THRESHOLDS", "80,100");
+  const TRASH_RETENTION = isRequiredEnv("TRASH_RETENTION", "30d");
+  const TRASH_PURGE_ENABLED = isRequiredEnv("TRASH_PURGE_ENABLED", "true");
+  const TRASH_PURGE_INTERVAL = isRequiredEnv("TRASH_PURGE_INTERVAL", "1h");
+  const IDEMPOTENCY_KEY_TTL = isRequiredEnv("IDEMPOTENCY_KEY_TTL", "24h");
+  const IMPORT_MAX_FILE_SIZE = isRequiredEnv("IMPORT_MAX_FILE_SIZE", "5mb");
+  const ATTACHMENT_MAX_FILE_SIZE = isRequiredEnv("ATTACHMENT_MAX_FILE_SIZE", "10mb");
+  const STORAGE_DRIVER = isRequiredEnv("STORAGE_DRIVER", "local");
+  const STORAGE_LOCAL_PATH = isRequiredEnv("STORAGE_LOCAL_PATH", "./storage");
+  const S3_ENDPOINT = process.env.S3_ENDPOINT; // Required when STORAGE_DRIVER is "s3"
+  const S3_REGION = isRequiredEnv("S3_REGION", "us-east-1");
+  const S3_BUCKET = process.env.S3_BUCKET; // Required when STORAGE_DRIVER is "s3"
+  const S3_ACCESS_KEY_ID = process.env.S3_ACCESS_KEY_ID; // Required when STORAGE_DRIVER is "s3"
+  const S3_SECRET_ACCESS_KEY = process.env.S3_SECRET_ACCESS_KEY; // Required when STORAGE_DRIVER is "s3"
   const LOG_LEVEL = isRequiredEnv("LOG_LEVEL", "info");
   const COOKIE_HTTP_ONLY = isRequiredEnv("COOKIE_HTTP_ONLY", "true");
   const COOKIE_SAME_SITE = isRequiredEnv("COOKIE_SAME_SITE", "lax");
@@ -32,15 +69,52 @@ function loadEnvironmentConfig(): EnvironmentConfig {
   const config: EnvironmentConfig = {
     PORT,
     CLIENT_ORIGIN,
+    APP_BASE_URL,
     JWT_ACCESS_SECRET,
     JWT_REFRESH_SECRET,
     ACCESS_TOKEN_EXPIRATION,
     REFRESH_TOKEN_EXPIRATION,
+    MFA_TOKEN_EXPIRATION,
+    JWT_SIGNING_ALGORITHM,
+    JWT_KEY_RETIREMENT_PERIOD,
+    JWT_KEY_ENCRYPTION_SECRET,
+    TOTP_ENCRYPTION_SECRET,
     COOKIE_SECURE,
     DATABASE_URL,
     EMAIL_USERNAME,
     EMAIL_PASSWORD,
     VERIFICATION_TOKEN_EXPIRATION,
+    VERIFICATION_RESEND_COOLDOWN,
+    REQUIRE_EMAIL_VERIFICATION,
+    SECURITY_ALERT_EMAILS_ENABLED,
+    PASSWORD_RESET_TOKEN_EXPIRATION,
+    LOGIN_MAX_ACCOUNT_FAILURES,
+    LOGIN_MAX_IP_FAILURES,
+    LOGIN_FAILURE_WINDOW,
+    LOGIN_LOCKOUT_DURATION,
+    LOGIN_FAILURE_DELAY,
+    DEFAULT_CURRENCY,
+    DEFAULT_TIMEZONE,
+    DEFAULT_LOCALE,
+    EXCHANGE_RATE_PIVOT_CURRENCY,
+    EXCHANGE_RATES_FILE,
+    ADMIN_API_KEY,
+    RECURRING_SCHEDULER_ENABLED,
+    RECURRING_SCHEDULER_INTERVAL,
+    BUDGET_ALERT_THRESHOLDS,
+    TRASH_RETENTION,
+    TRASH_PURGE_ENABLED,
+    TRASH_PURGE_INTERVAL,
+    IDEMPOTENCY_KEY_TTL,
+    IMPORT_MAX_FILE_SIZE,
+    ATTACHMENT_MAX_FILE_SIZE,
+    STORAGE_DRIVER,
+    STORAGE_LOCAL_PATH,
+    S3_ENDPOINT,
+    S3_REGION,
+    S3_BUCKET,
+    S3_ACCESS_KEY_ID,
+    S3_SECRET_ACCESS_KEY,
     LOG_LEVEL,
     COOKIE_HTTP_ONLY,
     COOKIE_SAME_SITE,
@@ -52,8 +126,12 @@ function loadEnvironmentConfig(): EnvironmentConfig {
     ...config,
     JWT_ACCESS_SECRET: "****",
     JWT_REFRESH_SECRET: "****",
+    JWT_KEY_ENCRYPTION_SECRET: "****",
+    TOTP_ENCRYPTION_SECRET: "****",
     DATABASE_URL: "****",
     EMAIL_PASSWORD: "****",
+    ADMIN_API_KEY: ADMIN_API_KEY ? "****" : undefined,
+    S3_SECRET_ACCESS_KEY: S3_SECRET_ACCESS_KEY ? "****" : undefined,
   });
 
   return config;
@@ -62,10 +140,16 @@ function loadEnvironmentConfig(): EnvironmentConfig {
 export interface EnvironmentConfig {
   PORT: string;
   CLIENT_ORIGIN: string;
+  APP_BASE_URL: string;
   JWT_ACCESS_SECRET: string;
   JWT_REFRESH_SECRET: string;
   ACCESS_TOKEN_EXPIRATION: string;
   REFRESH_TOKEN_EXPIRATION: string;
+  MFA_TOKEN_EXPIRATION: string;
+  JWT_SIGNING_ALGORITHM: string;
+  JWT_KEY_RETIREMENT_PERIOD: string;
+  JWT_KEY_ENCRYPTION_SECRET: string;
+  TOTP_ENCRYPTION_SECRET: string;
   COOKIE_SECURE: string;
   COOKIE_HTTP_ONLY: string;
   COOKIE_SAME_SITE: string;
@@ -73,6 +157,37 @@ export interface EnvironmentConfig {
   EMAIL_USERNAME: string;
   EMAIL_PASSWORD: string;
   VERIFICATION_TOKEN_EXPIRATION: string;
+  VERIFICATION_RESEND_COOLDOWN: string;
+  REQUIRE_EMAIL_VERIFICATION: string;
+  SECURITY_ALERT_EMAILS_ENABLED: string;
+  PASSWORD_RESET_TOKEN_EXPIRATION: string;
+  LOGIN_MAX_ACCOUNT_FAILURES: string;
+  LOGIN_MAX_IP_FAILURES: string;
+  LOGIN_FAILURE_WINDOW: string;
+  LOGIN_LOCKOUT_DURATION: string;
+  LOGIN_FAILURE_DELAY: string;
+  DEFAULT_CURRENCY: string;
+  DEFAULT_TIMEZONE: string;
+  DEFAULT_LOCALE: string;
+  EXCHANGE_RATE_PIVOT_CURRENCY: string;
+  EXCHANGE_RATES_FILE?: string;
+  ADMIN_API_KEY?: string;
+  RECURRING_SCHEDULER_ENABLED: string;
+  RECURRING_SCHEDULER_INTERVAL: string;
+  BUDGET_ALERT_THRESHOLDS: string;
+  TRASH_RETENTION: string;
+  TRASH_PURGE_ENABLED: string;
+  TRASH_PURGE_INTERVAL: string;
+  IDEMPOTENCY_KEY_TTL: string;
+  IMPORT_MAX_FILE_SIZE: string;
+  ATTACHMENT_MAX_FILE_SIZE: string;
+  STORAGE_DRIVER: string;
+  STORAGE_LOCAL_PATH: string;
+  S3_ENDPOINT?: string;
+  S3_REGION: string;
+  S3_BUCKET?: string;
+  S3_ACCESS_KEY_ID?: string;
+  S3_SECRET_ACCESS_KEY?: string;
   LOG_LEVEL: string;
   TEST_TOKEN?: string;
   NODE_ENV: string;
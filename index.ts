@@ -7,6 +7,7 @@ const app = createApp();
 
 app.listen(ENVIRONMENT_CONFIG.PORT, async (error) => {
   if (error) throw error;
+  app.startBackgroundJobs();
   logger.info(`£££ ExpenseIt API running on http://localhost:${ENVIRONMENT_CONFIG.PORT}/ £££`);
   logger.info(
     `Swagger docs available at http://localhost:${ENVIRONMENT_CONFIG.PORT}/api-docs (not in production)`,
@@ -0,0 +1,116 @@
+/*
+  Converts free-text transaction categories into per-user Category rows.
+
+  - Category names are deduplicated per user ignoring case and surrounding/repeated whitespace,
+    so "Food", "food" and "Food " become a single category. The earliest spelling is kept as the display name.
+  - A category's kind is "income" when most of its transactions are income, otherwise "expense".
+  - Blank categories are collected under "Uncategorized".
+  - Every existing user also receives the default category set.
+  - The `category` column on `Transaction` is replaced by the required `categoryId` foreign key.
+  - Category references use NO ACTION rather than RESTRICT so deleting a user can cascade through
+    transactions and categories in a single statement.
+*/
+
+-- CreateTable
+CREATE TABLE "Category" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "normalizedName" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "parentId" TEXT,
+    "color" TEXT,
+    "icon" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Category_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Category_userId_idx" ON "Category"("userId");
+
+-- CreateIndex
+CREATE INDEX "Category_parentId_idx" ON "Category"("parentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Category_userId_normalizedName_key" ON "Category"("userId", "normalizedName");
+
+-- Migrate existing free-text categories
+INSERT INTO "Category" ("id", "userId", "name", "normalizedName", "kind", "updatedAt")
+SELECT
+    gen_random_uuid()::text,
+    grouped."userId",
+    grouped."name",
+    grouped."normalizedName",
+    grouped."kind",
+    CURRENT_TIMESTAMP
+FROM (
+    SELECT
+        "userId",
+        (array_agg(cleaned."name" ORDER BY cleaned."createdAt"))[1] AS "name",
+        lower(cleaned."name") AS "normalizedName",
+        CASE
+            WHEN count(*) FILTER (WHERE lower(cleaned."type") = 'income') * 2 > count(*) THEN 'income'
+            ELSE 'expense'
+        END AS "kind"
+    FROM (
+        SELECT
+            "userId",
+            "type",
+            "createdAt",
+            COALESCE(NULLIF(regexp_replace(trim("category"), '\s+', ' ', 'g'), ''), 'Uncategorized') AS "name"
+        FROM "Transaction"
+    ) AS cleaned
+    GROUP BY "userId", lower(cleaned."name")
+) AS grouped;
+
+-- Seed the default categories for every existing user
+INSERT INTO "Category" ("id", "userId", "name", "normalizedName", "kind", "updatedAt")
+SELECT gen_random_uuid()::text, u."id", d."name", lower(d."name"), d."kind", CURRENT_TIMESTAMP
+FROM "User" u
+CROSS JOIN (
+    VALUES
+        ('Groceries', 'expense'),
+        ('Eating Out', 'expense'),
+        ('Housing', 'expense'),
+        ('Utilities', 'expense'),
+        ('Transport', 'expense'),
+        ('Health', 'expense'),
+        ('Entertainment', 'expense'),
+        ('Shopping', 'expense'),
+        ('Travel', 'expense'),
+        ('Other', 'expense'),
+        ('Salary', 'income'),
+        ('Freelance', 'income'),
+        ('Investments', 'income'),
+        ('Gifts', 'income'),
+        ('Other Income', 'income')
+) AS d("name", "kind")
+ON CONFLICT ("userId", "normalizedName") DO NOTHING;
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN "categoryId" TEXT;
+
+-- Point every transaction at its migrated category
+UPDATE "Transaction" t
+SET "categoryId" = c."id"
+FROM "Category" c
+WHERE c."userId" = t."userId"
+  AND c."normalizedName" = lower(COALESCE(NULLIF(regexp_replace(trim(t."category"), '\s+', ' ', 'g'), ''), 'Uncategorized'));
+
+-- AlterTable
+ALTER TABLE "Transaction" ALTER COLUMN "categoryId" SET NOT NULL;
+ALTER TABLE "Transaction" DROP COLUMN "category";
+
+-- CreateIndex
+CREATE INDEX "Transaction_categoryId_idx" ON "Transaction"("categoryId");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Category" ADD CONSTRAINT "Category_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Category" ADD CONSTRAINT "Category_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Category"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
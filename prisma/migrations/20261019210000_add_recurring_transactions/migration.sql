@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "occurrenceDate" TIMESTAMP(3),
+ADD COLUMN     "recurringTransactionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "RecurringTransaction" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "frequency" TEXT NOT NULL,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3),
+    "maxOccurrences" INTEGER,
+    "nextOccurrenceIndex" INTEGER NOT NULL DEFAULT 0,
+    "nextRunAt" TIMESTAMP(3),
+    "lastOccurrenceAt" TIMESTAMP(3),
+    "isPaused" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RecurringTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RecurringTransaction_userId_idx" ON "RecurringTransaction"("userId");
+
+-- CreateIndex
+CREATE INDEX "RecurringTransaction_nextRunAt_idx" ON "RecurringTransaction"("nextRunAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Transaction_recurringTransactionId_occurrenceDate_key" ON "Transaction"("recurringTransactionId", "occurrenceDate");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_recurringTransactionId_fkey" FOREIGN KEY ("recurringTransactionId") REFERENCES "RecurringTransaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringTransaction" ADD CONSTRAINT "RecurringTransaction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringTransaction" ADD CONSTRAINT "RecurringTransaction_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "TransactionHistory" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "action" TEXT NOT NULL,
+    "actorId" TEXT,
+    "changes" JSONB NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TransactionHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TransactionHistory_transactionId_version_key" ON "TransactionHistory"("transactionId", "version");
+
+-- CreateIndex
+CREATE INDEX "TransactionHistory_actorId_idx" ON "TransactionHistory"("actorId");
+
+-- AddForeignKey
+ALTER TABLE "TransactionHistory" ADD CONSTRAINT "TransactionHistory_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransactionHistory" ADD CONSTRAINT "TransactionHistory_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- DropIndex
+DROP INDEX "RefreshToken_userId_key";
+
+-- AlterTable
+ALTER TABLE "RefreshToken" ADD COLUMN "sessionId" TEXT;
+
+-- Each existing token becomes a session of its own
+UPDATE "RefreshToken" SET "sessionId" = "id";
+
+ALTER TABLE "RefreshToken" ALTER COLUMN "sessionId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "RefreshToken_userId_idx" ON "RefreshToken"("userId");
+
+-- CreateIndex
+CREATE INDEX "RefreshToken_sessionId_idx" ON "RefreshToken"("sessionId");
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "SigningKey" (
+    "kid" TEXT NOT NULL,
+    "algorithm" TEXT NOT NULL,
+    "publicKey" TEXT NOT NULL,
+    "encryptedPrivateKey" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "retiredAt" TIMESTAMP(3),
+
+    CONSTRAINT "SigningKey_pkey" PRIMARY KEY ("kid")
+);
+
+-- CreateIndex
+CREATE INDEX "SigningKey_retiredAt_idx" ON "SigningKey"("retiredAt");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "TransactionSplit" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(14,2);
+
+-- AlterTable
+ALTER TABLE "RecurringTransaction" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(14,2);
+
+-- AlterTable
+ALTER TABLE "Budget" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(14,2);
@@ -0,0 +1,94 @@
+import type { Request, Response, NextFunction } from "express";
+import type { AnalyticsService } from "src/application/services";
+import type {
+  AnalyticsRangeDto,
+  AnalyticsSummaryResponseDto,
+  ApiResponse,
+  CashFlowQueryDto,
+  CashFlowResponseDto,
+  CategoryBreakdownQueryDto,
+  CategoryBreakdownResponseDto,
+} from "src/application/dtos";
+import { UnauthorizedError } from "@src/application/errors";
+
+export class AnalyticsController {
+  analyticsService: AnalyticsService;
+  constructor(analyticsService: AnalyticsService) {
+    this.analyticsService = analyticsService;
+  }
+
+  async getSummary(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const summary = await this.analyticsService.getSummary(
+        req.query as unknown as AnalyticsRangeDto,
+        userId,
+      );
+
+      const response: ApiResponse<AnalyticsSummaryResponseDto> = {
+        ok: true,
+        code: 200,
+        message: "Summary fetched successfully",
+        data: summary,
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async getCategoryBreakdown(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const breakdown = await this.analyticsService.getCategoryBreakdown(
+        req.query as unknown as CategoryBreakdownQueryDto,
+        userId,
+      );
+
+      const response: ApiResponse<CategoryBreakdownResponseDto> = {
+        ok: true,
+        code: 200,
+        message: "Category breakdown fetched successfully",
+        data: breakdown,
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async getCashFlow(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const cashFlow = await this.analyticsService.getCashFlow(
+        req.query as unknown as CashFlowQueryDto,
+        userId,
+      );
+
+      const response: ApiResponse<CashFlowResponseDto> = {
+        ok: true,
+        code: 200,
+        message: "Cash flow fetched successfully",
+        data: cashFlow,
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import type { Request, Response, NextFunction } from "express";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { AttachmentService } from "src/application/services";
+import type {
+  ApiResponse,
+  AttachmentFileDto,
+  AttachmentResponseDto,
+} from "src/application/dtos";
+import {
+  BadRequestError,
+  UnauthorizedError,
+  UnsupportedMediaTypeError,
+} from "@src/application/errors";
+import { readMultipartFile } from "../utils/multipartUtils";
+
+// Name of the multipart form field carrying the uploaded file
+const FILE_FIELD = "file";
+
+export class AttachmentController {
+  attachmentService: AttachmentService;
+  constructor(attachmentService: AttachmentService) {
+    this.attachmentService = attachmentService;
+  }
+
+  async getAttachments(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const attachments = await this.attachmentService.fetchAttachments(
+        req.params.transactionId,
+        userId,
+      );
+
+      const response: ApiResponse<AttachmentResponseDto[]> = {
+        ok: true,
+        code: 200,
+        message: "Attachments fetched successfully",
+        data: attachments,
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async uploadAttachment(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      // The raw body parser only runs for multipart requests
+      if (!Buffer.isBuffer(req.body)) {
+        throw new UnsupportedMediaTypeError("Attachments must be uploaded as multipart/form-data");
+      }
+
+      const file = await readMultipartFile(req.body, req.get("Content-Type") ?? "", FILE_FIELD);
+      if (!file) {
+        throw new BadRequestError(`Expected a file in the "${FILE_FIELD}" form field`);
+      }
+
+      const { transactionId } = req.params;
+      const attachment = await this.attachmentService.uploadAttachment(transactionId, file, userId);
+
+      const response: ApiResponse<{ attachment: AttachmentResponseDto }> = {
+        ok: true,
+        code: 201,
+        message: "Attachment uploaded successfully",
+        data: { attachment },
+      };
+
+      res.setHeader("Location", `/transactions/${transactionId}/attachments/${attachment.id}`);
+      res.status(201).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async downloadAttachment(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const file = await this.attachmentService.fetchAttachmentFile(
+        req.params.transactionId,
+        req.params.attachmentId,
+        userId,
+      );
+      await this.sendFile(res, file);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async downloadThumbnail(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const file = await this.attachmentService.fetchAttachmentFile(
+        req.params.transactionId,
+        req.params.attachmentId,
+        userId,
+        "thumbnail",
+      );
+      await this.sendFile(res, file);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async deleteAttachment(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      await this.attachmentService.deleteAttachment(
+        req.params.transactionId,
+        req.params.attachmentId,
+        userId,
+      );
+
+      const response: ApiResponse<null> = {
+        ok: true,
+        code: 200,
+        message: "Attachment deleted successfully",
+        data: null,
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  private async sendFile(res: Response, file: AttachmentFileDto) {
+    // ASCII fallback for old clients, the exact name in RFC 5987 form for everyone else
+    const asciiName = file.fileName.replace(/[^\x20-\x7e]|["\\]/g, "_");
+    const encodedName = encodeURIComponent(file.fileName);
+
+    res.status(200);
+    res.setHeader("Content-Type", file.contentType);
+    res.setHeader("Content-Length", String(file.size));
+    res.setHeader(
+      "Content-Disposition",
+      `inline; filename="${asciiName}"; filename*=UTF-8''${encodedName}`,
+    );
+    await pipeline(Readable.from(file.content), res);
+  }
+}
@@ -2,15 +2,24 @@ import type {
   ApiResponse,
   AuthResponseDto,
   CreateUserDto,
+  ForgotPasswordDto,
   LoginUserDto,
+  MfaChallengeResponseDto,
+  MfaLoginDto,
+  ResendVerificationDto,
+  ResetPasswordDto,
+  SecurityEventResponseDto,
+  SessionResponseDto,
   TokenResponseDto,
+  UnlockAccountDto,
   UserResponseDto,
+  VerifyEmailDto,
 } from "src/application/dtos";
 import type { AuthenticationService } from "src/application/services";
 import type { NextFunction, Request, Response } from "express";
 import { REFRESH_TOKEN_COOKIE_OPTIONS } from "../config";
 import { ENVIRONMENT_CONFIG } from "@config";
-import { ForbiddenError } from "@src/application/errors";
+import { ForbiddenError, UnauthorizedError } from "@src/application/errors";
 import { logger } from "../middleware/index.js";
 
 export class AuthenticationController {
@@ -53,16 +62,107 @@ export class AuthenticationController {
     }
   }
 
+  async VerifyEmail(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token } = req.query as unknown as VerifyEmailDto;
+
+      await this.authenticationService.verifyEmail(token);
+
+      const response: ApiResponse<void> = {
+        ok: true,
+        code: 200,
+        message: "Email address verified successfully",
+      };
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+
+  async ResendVerification(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { email } = req.body as ResendVerificationDto;
+
+      await this.authenticationService.resendVerificationEmail(email);
+
+      // Same response whether or not the email is registered or already verified
+      const response: ApiResponse<void> = {
+        ok: true,
+        code: 200,
+        message: "If an unverified account exists for this email, a verification link has been sent",
+      };
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+
+  async UnlockAccount(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token } = req.query as unknown as UnlockAccountDto;
+
+      await this.authenticationService.unlockAccount(token, {
+        ip: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      const response: ApiResponse<void> = {
+        ok: true,
+        code: 200,
+        message: "Account unlocked, you can sign in again",
+      };
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+
   async Login(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { email, password } = req.body as LoginUserDto;
 
-      // In a future enhancement, we could log the IP address and user agent for security monitoring and anomaly detection.
+      // The IP address and user agent are stored with the session, so users can recognise it
       const ip = req.ip;
-      const userAgent = req.get("User-Agent") ?? "";
+      const userAgent = req.get("User-Agent");
       logger.info(`Login attempt for email: ${email} from IP: ${ip} with user agent: ${userAgent}`);
 
-      const authResult = await this.authenticationService.login(email, password);
+      const authResult = await this.authenticationService.login(email, password, {
+        ip,
+        userAgent,
+      });
+
+      if (authResult.mfaToken) {
+        const challenge: ApiResponse<MfaChallengeResponseDto> = {
+          ok: true,
+          code: 200,
+          message: "Two-factor authentication required",
+          data: { mfaRequired: true, mfaToken: authResult.mfaToken },
+        };
+        res.status(200).json(challenge);
+        return;
+      }
+
+      const response: ApiResponse<AuthResponseDto> = {
+        ok: true,
+        code: 200,
+        data: authResult.authUser,
+      };
+
+      res.cookie("refreshToken", authResult.refreshToken, REFRESH_TOKEN_COOKIE_OPTIONS);
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+
+  async LoginMfa(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { mfaToken, code } = req.body as MfaLoginDto;
+
+      const authResult = await this.authenticationService.completeMfaLogin(mfaToken, code, {
+        ip: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
       const response: ApiResponse<AuthResponseDto> = {
         ok: true,
         code: 200,
@@ -82,7 +182,11 @@ export class AuthenticationController {
 
       logger.info(`Refresh token attempt with refresh token: ${rawRefresh}`);
 
-      const refreshResult = await this.authenticationService.refresh({ rawRefresh });
+      const refreshResult = await this.authenticationService.refresh({
+        rawRefresh,
+        ip: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
 
       const response: ApiResponse<TokenResponseDto> = {
         ok: true,
@@ -114,6 +218,124 @@ export class AuthenticationController {
     }
   }
 
+  async GetSessions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const sessions = await this.authenticationService.listSessions(userId, req.user?.sid);
+      const response: ApiResponse<SessionResponseDto[]> = {
+        ok: true,
+        code: 200,
+        data: sessions,
+      };
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+
+  async RevokeSession(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      await this.authenticationService.revokeSession(userId, req.params.sessionId);
+
+      const response: ApiResponse<void> = {
+        ok: true,
+        code: 200,
+        message: "Session signed out",
+      };
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+
+  async RevokeOtherSessions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const revoked = await this.authenticationService.revokeOtherSessions(
+        userId,
+        req.user?.sid,
+      );
+
+      const response: ApiResponse<{ revoked: number }> = {
+        ok: true,
+        code: 200,
+        message: "Signed out of every other session",
+        data: { revoked },
+      };
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+
+  async GetSecurityEvents(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const events = await this.authenticationService.listSecurityEvents(userId);
+      const response: ApiResponse<SecurityEventResponseDto[]> = {
+        ok: true,
+        code: 200,
+        data: events,
+      };
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+
+  async ForgotPassword(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { email } = req.body as ForgotPasswordDto;
+
+      await this.authenticationService.requestPasswordReset(email);
+
+      // Same response whether or not the email is registered
+      const response: ApiResponse<void> = {
+        ok: true,
+        code: 200,
+        message: "If an account exists for this email, a password reset link has been sent",
+      };
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+
+  async ResetPassword(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token, password } = req.body as ResetPasswordDto;
+
+      await this.authenticationService.resetPassword(token, password);
+
+      const response: ApiResponse<void> = {
+        ok: true,
+        code: 200,
+        message: "Password has been reset. Please log in with your new password",
+      };
+      res.clearCookie("refreshToken", REFRESH_TOKEN_COOKIE_OPTIONS);
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+
   /**
    * This endpoint is for testing purposes only. It allows us to generate a token for a user without going through the login process.
    * Requires a special header "x-test-token" with a value that matches ENVIRONMENT_CONFIG.TEST_TOKEN. If the header is missing or the value does not match, it returns a 403 Forbidden response.
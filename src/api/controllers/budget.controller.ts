@@ -0,0 +1,183 @@
+import type { Request, Response, NextFunction } from "express";
+import type { BudgetService } from "src/application/services";
+import type {
+  ApiResponse,
+  BudgetResponseDto,
+  BudgetStatusQueryDto,
+  BudgetStatusResponseDto,
+  CreateBudgetDto,
+  UpdateBudgetDto,
+} from "src/application/dtos";
+import { UnauthorizedError } from "@src/application/errors";
+
+export class BudgetController {
+  budgetService: BudgetService;
+  constructor(budgetService: BudgetService) {
+    this.budgetService = budgetService;
+  }
+
+  async getBudgets(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const budgets = await this.budgetService.fetchBudgets(userId);
+
+      const response: ApiResponse<BudgetResponseDto[]> = {
+        ok: true,
+        code: 200,
+        message: "Budgets fetched successfully",
+        data: budgets,
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async getBudgetStatuses(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const { date } = req.query as unknown as BudgetStatusQueryDto;
+      const statuses = await this.budgetService.fetchBudgetStatuses(userId, date);
+
+      const response: ApiResponse<BudgetStatusResponseDto[]> = {
+        ok: true,
+        code: 200,
+        message: "Budget statuses fetched successfully",
+        data: statuses,
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async getBudgetById(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const budget = await this.budgetService.fetchBudgetById(req.params.budgetId, userId);
+
+      const response: ApiResponse<{ budget: BudgetResponseDto }> = {
+        ok: true,
+        code: 200,
+        message: "Budget fetched successfully",
+        data: { budget },
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async getBudgetStatus(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const { date } = req.query as unknown as BudgetStatusQueryDto;
+      const status = await this.budgetService.fetchBudgetStatus(
+        req.params.budgetId,
+        userId,
+        date,
+      );
+
+      const response: ApiResponse<{ status: BudgetStatusResponseDto }> = {
+        ok: true,
+        code: 200,
+        message: "Budget status fetched successfully",
+        data: { status },
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async createBudget(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const budget = await this.budgetService.createBudget(req.body as CreateBudgetDto, userId);
+
+      const response: ApiResponse<{ budget: BudgetResponseDto }> = {
+        ok: true,
+        code: 201,
+        message: "Budget created successfully",
+        data: { budget },
+      };
+
+      res.setHeader("Location", `/budgets/${budget.id}`);
+      res.status(201).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async updateBudget(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const budget = await this.budgetService.updateBudget(
+        req.params.budgetId,
+        req.body as UpdateBudgetDto,
+        userId,
+      );
+
+      const response: ApiResponse<{ budget: BudgetResponseDto }> = {
+        ok: true,
+        code: 200,
+        message: "Budget updated successfully",
+        data: { budget },
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async deleteBudget(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      await this.budgetService.deleteBudget(req.params.budgetId, userId);
+
+      const response: ApiResponse<null> = {
+        ok: true,
+        code: 200,
+        message: "Budget deleted successfully",
+        data: null,
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+}
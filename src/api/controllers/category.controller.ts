@@ -0,0 +1,139 @@
+import type { Request, Response, NextFunction } from "express";
+import type { CategoryService } from "src/application/services";
+import type {
+  ApiResponse,
+  CategoryQueryDto,
+  CategoryResponseDto,
+  CreateCategoryDto,
+  UpdateCategoryDto,
+} from "src/application/dtos";
+import { UnauthorizedError } from "@src/application/errors";
+
+export class CategoryController {
+  categoryService: CategoryService;
+  constructor(categoryService: CategoryService) {
+    this.categoryService = categoryService;
+  }
+
+  async getCategories(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const { kind } = req.query as unknown as CategoryQueryDto;
+      const categories = await this.categoryService.fetchCategories(userId, kind);
+
+      const response: ApiResponse<CategoryResponseDto[]> = {
+        ok: true,
+        code: 200,
+        message: "Categories fetched successfully",
+        data: categories,
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async getCategoryById(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const category = await this.categoryService.fetchCategoryById(
+        req.params.categoryId,
+        userId,
+      );
+
+      const response: ApiResponse<{ category: CategoryResponseDto }> = {
+        ok: true,
+        code: 200,
+        message: "Category fetched successfully",
+        data: { category },
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async createCategory(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const category = await this.categoryService.createCategory(
+        req.body as CreateCategoryDto,
+        userId,
+      );
+
+      const response: ApiResponse<{ category: CategoryResponseDto }> = {
+        ok: true,
+        code: 201,
+        message: "Category created successfully",
+        data: { category },
+      };
+
+      res.setHeader("Location", `/categories/${category.id}`);
+      res.status(201).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async updateCategory(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const category = await this.categoryService.updateCategory(
+        req.params.categoryId,
+        req.body as UpdateCategoryDto,
+        userId,
+      );
+
+      const response: ApiResponse<{ category: CategoryResponseDto }> = {
+        ok: true,
+        code: 200,
+        message: "Category updated successfully",
+        data: { category },
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async deleteCategory(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      await this.categoryService.deleteCategory(req.params.categoryId, userId);
+
+      const response: ApiResponse<null> = {
+        ok: true,
+        code: 200,
+        message: "Category deleted successfully",
+        data: null,
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import type { Request, Response, NextFunction } from "express";
+import type { ExchangeRateService } from "src/application/services";
+import type {
+  ApiResponse,
+  ExchangeRateQueryDto,
+  ExchangeRateResponseDto,
+  ImportExchangeRatesDto,
+  ImportExchangeRatesResponseDto,
+} from "src/application/dtos";
+
+export class ExchangeRateController {
+  exchangeRateService: ExchangeRateService;
+  constructor(exchangeRateService: ExchangeRateService) {
+    this.exchangeRateService = exchangeRateService;
+  }
+
+  async getRates(req: Request, res: Response, next: NextFunction) {
+    try {
+      const query = req.query as unknown as ExchangeRateQueryDto;
+      const rates = await this.exchangeRateService.fetchRates(query);
+
+      const response: ApiResponse<ExchangeRateResponseDto[]> = {
+        ok: true,
+        code: 200,
+        message: "Exchange rates fetched successfully",
+        data: rates,
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async importRates(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { snapshots } = req.body as ImportExchangeRatesDto;
+      const result = await this.exchangeRateService.importRates(snapshots);
+
+      const response: ApiResponse<ImportExchangeRatesResponseDto> = {
+        ok: true,
+        code: 200,
+        message: "Exchange rates imported successfully",
+        data: result,
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+}
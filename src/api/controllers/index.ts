@@ -1,3 +1,13 @@
 export { AuthenticationController } from "./authentication.controller.js";
 export { UserController } from "./user.controller.js";
 export { TransactionController } from "./transaction.controller.js";
+export { CategoryController } from "./category.controller.js";
+export { ExchangeRateController } from "./exchangeRate.controller.js";
+export { RecurringTransactionController } from "./recurringTransaction.controller.js";
+export { BudgetController } from "./budget.controller.js";
+export { AnalyticsController } from "./analytics.controller.js";
+export { TransactionImportController } from "./transactionImport.controller.js";
+export { TagController } from "./tag.controller.js";
+export { AttachmentController } from "./attachment.controller.js";
+export { MfaController } from "./mfa.controller.js";
+export { SigningKeyController } from "./signingKey.controller.js";
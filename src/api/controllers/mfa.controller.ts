@@ -0,0 +1,123 @@
+import type {
+  ApiResponse,
+  ConfirmTotpDto,
+  DisableMfaDto,
+  MfaStatusResponseDto,
+  RecoveryCodesResponseDto,
+  RegenerateRecoveryCodesDto,
+  TotpSetupResponseDto,
+} from "src/application/dtos";
+import type { MfaService } from "src/application/services";
+import type { NextFunction, Request, Response } from "express";
+import { UnauthorizedError } from "@src/application/errors";
+
+export class MfaController {
+  private mfaService: MfaService;
+  constructor(mfaService: MfaService) {
+    this.mfaService = mfaService;
+  }
+
+  async GetStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const status = await this.mfaService.getStatus(userId);
+      const response: ApiResponse<MfaStatusResponseDto> = {
+        ok: true,
+        code: 200,
+        data: status,
+      };
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+
+  async SetupTotp(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const setup = await this.mfaService.setupTotp(userId);
+      const response: ApiResponse<TotpSetupResponseDto> = {
+        ok: true,
+        code: 200,
+        message: "Add the secret to an authenticator app, then confirm with a code from it",
+        data: setup,
+      };
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+
+  async ConfirmTotp(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const { code } = req.body as ConfirmTotpDto;
+
+      const recoveryCodes = await this.mfaService.confirmTotp(userId, code);
+      const response: ApiResponse<RecoveryCodesResponseDto> = {
+        ok: true,
+        code: 200,
+        message: "Two-factor authentication enabled. Store the recovery codes somewhere safe",
+        data: recoveryCodes,
+      };
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+
+  async Disable(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const { password, code } = req.body as DisableMfaDto;
+
+      await this.mfaService.disable(userId, password, code);
+      const response: ApiResponse<void> = {
+        ok: true,
+        code: 200,
+        message: "Two-factor authentication disabled",
+      };
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+
+  async RegenerateRecoveryCodes(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const { code } = req.body as RegenerateRecoveryCodesDto;
+
+      const recoveryCodes = await this.mfaService.regenerateRecoveryCodes(userId, code);
+      const response: ApiResponse<RecoveryCodesResponseDto> = {
+        ok: true,
+        code: 200,
+        message: "New recovery codes issued. The previous codes no longer work",
+        data: recoveryCodes,
+      };
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+}
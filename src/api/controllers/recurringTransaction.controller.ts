@@ -0,0 +1,215 @@
+import type { Request, Response, NextFunction } from "express";
+import type { RecurringTransactionService } from "src/application/services";
+import type {
+  ApiResponse,
+  CreateRecurringTransactionDto,
+  RecurringTransactionResponseDto,
+  UpdateRecurringTransactionDto,
+} from "src/application/dtos";
+import { UnauthorizedError } from "@src/application/errors";
+
+export class RecurringTransactionController {
+  recurringTransactionService: RecurringTransactionService;
+  constructor(recurringTransactionService: RecurringTransactionService) {
+    this.recurringTransactionService = recurringTransactionService;
+  }
+
+  async getRecurringTransactions(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const recurring = await this.recurringTransactionService.fetchRecurringTransactions(userId);
+
+      const response: ApiResponse<RecurringTransactionResponseDto[]> = {
+        ok: true,
+        code: 200,
+        message: "Recurring transactions fetched successfully",
+        data: recurring,
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async getRecurringTransactionById(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const recurring = await this.recurringTransactionService.fetchRecurringTransactionById(
+        req.params.recurringId,
+        userId,
+      );
+
+      const response: ApiResponse<{ recurring: RecurringTransactionResponseDto }> = {
+        ok: true,
+        code: 200,
+        message: "Recurring transaction fetched successfully",
+        data: { recurring },
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async createRecurringTransaction(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const recurring = await this.recurringTransactionService.createRecurringTransaction(
+        req.body as CreateRecurringTransactionDto,
+        userId,
+      );
+
+      const response: ApiResponse<{ recurring: RecurringTransactionResponseDto }> = {
+        ok: true,
+        code: 201,
+        message: "Recurring transaction created successfully",
+        data: { recurring },
+      };
+
+      res.setHeader("Location", `/recurring/${recurring.id}`);
+      res.status(201).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async updateRecurringTransaction(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const recurring = await this.recurringTransactionService.updateRecurringTransaction(
+        req.params.recurringId,
+        req.body as UpdateRecurringTransactionDto,
+        userId,
+      );
+
+      const response: ApiResponse<{ recurring: RecurringTransactionResponseDto }> = {
+        ok: true,
+        code: 200,
+        message: "Recurring transaction updated successfully",
+        data: { recurring },
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async pauseRecurringTransaction(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const recurring = await this.recurringTransactionService.pauseRecurringTransaction(
+        req.params.recurringId,
+        userId,
+      );
+
+      const response: ApiResponse<{ recurring: RecurringTransactionResponseDto }> = {
+        ok: true,
+        code: 200,
+        message: "Recurring transaction paused successfully",
+        data: { recurring },
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async resumeRecurringTransaction(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const recurring = await this.recurringTransactionService.resumeRecurringTransaction(
+        req.params.recurringId,
+        userId,
+      );
+
+      const response: ApiResponse<{ recurring: RecurringTransactionResponseDto }> = {
+        ok: true,
+        code: 200,
+        message: "Recurring transaction resumed successfully",
+        data: { recurring },
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async skipNextOccurrence(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const recurring = await this.recurringTransactionService.skipNextOccurrence(
+        req.params.recurringId,
+        userId,
+      );
+
+      const response: ApiResponse<{ recurring: RecurringTransactionResponseDto }> = {
+        ok: true,
+        code: 200,
+        message: "Next occurrence skipped successfully",
+        data: { recurring },
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async deleteRecurringTransaction(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      await this.recurringTransactionService.deleteRecurringTransaction(
+        req.params.recurringId,
+        userId,
+      );
+
+      const response: ApiResponse<null> = {
+        ok: true,
+        code: 200,
+        message: "Recurring transaction deleted successfully",
+        data: null,
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import type { ApiResponse, SigningKeyResponseDto } from "src/application/dtos";
+import type { SigningKeyService } from "src/application/services";
+import type { NextFunction, Request, Response } from "express";
+
+export class SigningKeyController {
+  private readonly JWKS_MAX_AGE_SECONDS = 5 * 60;
+
+  private signingKeyService: SigningKeyService;
+  constructor(signingKeyService: SigningKeyService) {
+    this.signingKeyService = signingKeyService;
+  }
+
+  /**
+   * Serves the keyset as a plain JWK Set (RFC 7517) rather than an ApiResponse, as JWT libraries
+   * expect. Verifiers should fetch it again when they meet a key id they have not cached.
+   */
+  async GetJwks(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const jwks = await this.signingKeyService.getJwks();
+      res.set("Cache-Control", `public, max-age=${this.JWKS_MAX_AGE_SECONDS}`);
+      res.status(200).json(jwks);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+
+  async RotateKeys(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const key = await this.signingKeyService.rotate();
+      const response: ApiResponse<SigningKeyResponseDto> = {
+        ok: true,
+        code: 201,
+        message: "Signing key rotated successfully",
+        data: { kid: key.kid, algorithm: key.algorithm, createdAt: key.createdAt },
+      };
+      res.status(201).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+}
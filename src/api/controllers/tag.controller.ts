@@ -0,0 +1,137 @@
+import type { Request, Response, NextFunction } from "express";
+import type { TagService } from "src/application/services";
+import type {
+  ApiResponse,
+  TagResponseDto,
+  CreateTagDto,
+  UpdateTagDto,
+} from "src/application/dtos";
+import { UnauthorizedError } from "@src/application/errors";
+
+export class TagController {
+  tagService: TagService;
+  constructor(tagService: TagService) {
+    this.tagService = tagService;
+  }
+
+  async getTags(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const tags = await this.tagService.fetchTags(userId);
+
+      const response: ApiResponse<TagResponseDto[]> = {
+        ok: true,
+        code: 200,
+        message: "Tags fetched successfully",
+        data: tags,
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async getTagById(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const tag = await this.tagService.fetchTagById(
+        req.params.tagId,
+        userId,
+      );
+
+      const response: ApiResponse<{ tag: TagResponseDto }> = {
+        ok: true,
+        code: 200,
+        message: "Tag fetched successfully",
+        data: { tag },
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async createTag(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const tag = await this.tagService.createTag(
+        req.body as CreateTagDto,
+        userId,
+      );
+
+      const response: ApiResponse<{ tag: TagResponseDto }> = {
+        ok: true,
+        code: 201,
+        message: "Tag created successfully",
+        data: { tag },
+      };
+
+      res.setHeader("Location", `/tags/${tag.id}`);
+      res.status(201).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async updateTag(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const tag = await this.tagService.updateTag(
+        req.params.tagId,
+        req.body as UpdateTagDto,
+        userId,
+      );
+
+      const response: ApiResponse<{ tag: TagResponseDto }> = {
+        ok: true,
+        code: 200,
+        message: "Tag updated successfully",
+        data: { tag },
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async deleteTag(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      await this.tagService.deleteTag(req.params.tagId, userId);
+
+      const response: ApiResponse<null> = {
+        ok: true,
+        code: 200,
+        message: "Tag deleted successfully",
+        data: null,
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+}
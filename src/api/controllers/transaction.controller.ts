@@ -1,11 +1,26 @@
 import type { Request, Response, NextFunction } from "express";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
 import type { TransactionService } from "src/application/services";
+import type { AuditContext } from "src/core/interfaces";
 import type {
   ApiResponse,
   CreateTransactionDto,
+  ReplaceTransactionDto,
+  TransactionExportQueryDto,
+  TransactionHistoryEntryResponseDto,
+  TransactionQueryDto,
   TransactionResponseDto,
+  TrashedTransactionResponseDto,
+  UpdateTransactionDto,
 } from "src/application/dtos";
-import { NotFoundError, UnauthorizedError, UnknownError } from "@src/application/errors";
+import {
+  BadRequestError,
+  NotFoundError,
+  UnauthorizedError,
+  UnknownError,
+} from "@src/application/errors";
+import { matchesIfNoneMatch, toETag } from "@src/application/utils/etagUtils";
 
 export class TransactionController {
   transactionService: TransactionService;
@@ -20,13 +35,19 @@ export class TransactionController {
     }
 
     try {
-      const transactions = await this.transactionService.fetchTransactions({ userId });
+      // The query string has already been validated and coerced by TransactionQuerySchema
+      const query = req.query as unknown as TransactionQueryDto;
+      const { transactions, nextCursor } = await this.transactionService.fetchTransactions({
+        userId,
+        query,
+      });
 
       const response: ApiResponse<TransactionResponseDto[]> = {
         ok: true,
         code: 200,
         message: "Transactions fetched successfully",
-        data: transactions ,
+        data: transactions,
+        nextCursor,
       };
 
       return res.status(200).json(response);
@@ -35,6 +56,26 @@ export class TransactionController {
     }
   }
 
+  async exportTransactions(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      // The query string has already been validated and coerced by TransactionExportQuerySchema
+      const query = req.query as unknown as TransactionExportQueryDto;
+      const file = await this.transactionService.exportTransactions({ userId, query });
+
+      res.status(200);
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${file.fileName}"`);
+      await pipeline(Readable.from(file.content), res);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
   async getTransactionById(req: Request, res: Response, next: NextFunction) {
     const { transactionId } = req.params;
     const userId = req.user?.sub;
@@ -52,6 +93,13 @@ export class TransactionController {
         throw new NotFoundError("Transaction not found");
       }
 
+      const etag = toETag(result.version, result);
+      res.setHeader("ETag", etag);
+      const ifNoneMatch = req.get("If-None-Match");
+      if (ifNoneMatch && matchesIfNoneMatch(ifNoneMatch, etag)) {
+        return res.status(304).end();
+      }
+
       const response: ApiResponse<{ transaction: TransactionResponseDto }> = {
         ok: true,
         code: 200,
@@ -73,7 +121,12 @@ export class TransactionController {
     const transactionData = req.body as CreateTransactionDto;
 
     try {
-      const result = await this.transactionService.createTransaction(transactionData, userId);
+      const result = await this.transactionService.createTransaction(
+        transactionData,
+        userId,
+        undefined,
+        this.auditContextOf(req, userId),
+      );
 
       const response: ApiResponse<{ transaction: TransactionResponseDto }> = {
         ok: true,
@@ -86,14 +139,46 @@ export class TransactionController {
         // Set Location header to the URL of the newly created transaction so the client can easily access it and follow RESTful conventions
         res.setHeader("Location", `/transactions/${result.id}`);
       }
+      res.setHeader("ETag", toETag(result.version, result));
       res.status(201).json(response);
     } catch (err) {
       next(err instanceof Error ? err : new Error("Unknown error"));
     }
   }
 
+  async replaceTransaction(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const transactionId = req.params.transactionId;
+      const transactionData = req.body as ReplaceTransactionDto;
+
+      const result = await this.transactionService.replaceTransaction(
+        transactionId,
+        transactionData,
+        userId,
+        this.auditContextOf(req, userId),
+        req.get("If-Match"),
+      );
+
+      const response: ApiResponse<{ transaction: TransactionResponseDto }> = {
+        ok: true,
+        code: 200,
+        message: "Transaction replaced successfully",
+        data: { transaction: result },
+      };
+
+      res.setHeader("ETag", toETag(result.version, result));
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new UnknownError());
+    }
+  }
+
   async updateTransaction(req: Request, res: Response, next: NextFunction) {
-    // Implementation for updating a transaction will go here
     const userId = req.user?.sub;
     if (!userId) {
       throw new UnauthorizedError();
@@ -101,12 +186,14 @@ export class TransactionController {
 
     try {
       const transactionId = req.params.transactionId;
-      const transactionData = req.body as Partial<CreateTransactionDto>;
+      const transactionData = req.body as UpdateTransactionDto;
 
       const result = await this.transactionService.updateTransaction(
         transactionId,
         transactionData,
         userId,
+        this.auditContextOf(req, userId),
+        req.get("If-Match"),
       );
 
       const response: ApiResponse<{ transaction: TransactionResponseDto }> = {
@@ -116,6 +203,7 @@ export class TransactionController {
         data: { transaction: result },
       };
 
+      res.setHeader("ETag", toETag(result.version, result));
       res.status(200).json(response);
     } catch (err) {
       next(err instanceof Error ? err : new UnknownError());
@@ -130,12 +218,17 @@ export class TransactionController {
 
     try {
       const transactionId = req.params.transactionId;
-      await this.transactionService.deleteTransaction(transactionId, userId);
+      await this.transactionService.deleteTransaction(
+        transactionId,
+        userId,
+        this.auditContextOf(req, userId),
+        req.get("If-Match"),
+      );
 
       const response: ApiResponse<null> = {
         ok: true,
         code: 200,
-        message: "Transaction deleted successfully",
+        message: "Transaction moved to the trash",
         data: null,
       };
 
@@ -144,4 +237,117 @@ export class TransactionController {
       next(err instanceof Error ? err : new UnknownError());
     }
   }
+
+  async getTrash(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const transactions = await this.transactionService.fetchTrash(userId);
+
+      const response: ApiResponse<TrashedTransactionResponseDto[]> = {
+        ok: true,
+        code: 200,
+        message: "Trash fetched successfully",
+        data: transactions,
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new UnknownError());
+    }
+  }
+
+  async restoreTransaction(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const transaction = await this.transactionService.restoreTransaction(
+        req.params.transactionId,
+        userId,
+        this.auditContextOf(req, userId),
+      );
+
+      const response: ApiResponse<{ transaction: TransactionResponseDto }> = {
+        ok: true,
+        code: 200,
+        message: "Transaction restored successfully",
+        data: { transaction },
+      };
+
+      res.setHeader("ETag", toETag(transaction.version, transaction));
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new UnknownError());
+    }
+  }
+
+  async getHistory(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const history = await this.transactionService.fetchHistory(req.params.transactionId, userId);
+
+      const response: ApiResponse<TransactionHistoryEntryResponseDto[]> = {
+        ok: true,
+        code: 200,
+        message: "Transaction history fetched successfully",
+        data: history,
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new UnknownError());
+    }
+  }
+
+  async revertTransaction(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const version = Number(req.params.version);
+      if (!Number.isInteger(version) || version < 1) {
+        throw new BadRequestError("Version must be a positive integer");
+      }
+
+      const transaction = await this.transactionService.revertTransaction(
+        req.params.transactionId,
+        version,
+        userId,
+        this.auditContextOf(req, userId),
+      );
+
+      const response: ApiResponse<{ transaction: TransactionResponseDto }> = {
+        ok: true,
+        code: 200,
+        message: `Transaction reverted to version ${version}`,
+        data: { transaction },
+      };
+
+      res.setHeader("ETag", toETag(transaction.version, transaction));
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new UnknownError());
+    }
+  }
+
+  // Who is making the change and from where, for the transaction's history
+  private auditContextOf(req: Request, userId: string): AuditContext {
+    return {
+      actorId: userId,
+      ipAddress: req.ip ?? null,
+      userAgent: req.get("User-Agent") ?? null,
+    };
+  }
 }
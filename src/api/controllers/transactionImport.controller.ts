@@ -0,0 +1,203 @@
+import type { Request, Response, NextFunction } from "express";
+import type { TransactionImportService } from "src/application/services";
+import type { AuditContext } from "src/core/interfaces";
+import type {
+  ApiResponse,
+  CreateImportMappingDto,
+  ImportBatchResponseDto,
+  ImportMappingResponseDto,
+  ImportPreviewResponseDto,
+  ImportTransactionsDto,
+} from "src/application/dtos";
+import { UnauthorizedError } from "@src/application/errors";
+
+export class TransactionImportController {
+  transactionImportService: TransactionImportService;
+  constructor(transactionImportService: TransactionImportService) {
+    this.transactionImportService = transactionImportService;
+  }
+
+  async importTransactions(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const result = await this.transactionImportService.importTransactions(
+        req.body as ImportTransactionsDto,
+        userId,
+        this.auditContextOf(req, userId),
+      );
+
+      if (result.dryRun) {
+        const response: ApiResponse<ImportPreviewResponseDto> = {
+          ok: true,
+          code: 200,
+          message: "Import preview generated successfully",
+          data: result,
+        };
+        return res.status(200).json(response);
+      }
+
+      const response: ApiResponse<ImportPreviewResponseDto> = {
+        ok: true,
+        code: 201,
+        message: `Imported ${result.validRows} transactions successfully`,
+        data: result,
+      };
+
+      res.setHeader("Location", `/transactions/import/${result.batchId}`);
+      res.status(201).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async getImportBatches(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const batches = await this.transactionImportService.fetchImportBatches(userId);
+
+      const response: ApiResponse<ImportBatchResponseDto[]> = {
+        ok: true,
+        code: 200,
+        message: "Import batches fetched successfully",
+        data: batches,
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async getImportBatchById(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const batch = await this.transactionImportService.fetchImportBatchById(
+        req.params.batchId,
+        userId,
+      );
+
+      const response: ApiResponse<{ batch: ImportBatchResponseDto }> = {
+        ok: true,
+        code: 200,
+        message: "Import batch fetched successfully",
+        data: { batch },
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async undoImport(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const deleted = await this.transactionImportService.undoImport(req.params.batchId, userId);
+
+      const response: ApiResponse<{ deleted: number }> = {
+        ok: true,
+        code: 200,
+        message: "Import undone successfully",
+        data: { deleted },
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async getImportMappings(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const mappings = await this.transactionImportService.fetchImportMappings(userId);
+
+      const response: ApiResponse<ImportMappingResponseDto[]> = {
+        ok: true,
+        code: 200,
+        message: "Import mappings fetched successfully",
+        data: mappings,
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async createImportMapping(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      const mapping = await this.transactionImportService.createImportMapping(
+        req.body as CreateImportMappingDto,
+        userId,
+      );
+
+      const response: ApiResponse<{ mapping: ImportMappingResponseDto }> = {
+        ok: true,
+        code: 201,
+        message: "Import mapping created successfully",
+        data: { mapping },
+      };
+
+      res.status(201).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  async deleteImportMapping(req: Request, res: Response, next: NextFunction) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedError();
+    }
+
+    try {
+      await this.transactionImportService.deleteImportMapping(req.params.mappingId, userId);
+
+      const response: ApiResponse<null> = {
+        ok: true,
+        code: 200,
+        message: "Import mapping deleted successfully",
+        data: null,
+      };
+
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error("Unknown error"));
+    }
+  }
+
+  // Who is importing and from where, for the history of the imported transactions
+  private auditContextOf(req: Request, userId: string): AuditContext {
+    return {
+      actorId: userId,
+      ipAddress: req.ip ?? null,
+      userAgent: req.get("User-Agent") ?? null,
+    };
+  }
+}
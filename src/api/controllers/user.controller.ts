@@ -1,5 +1,80 @@
+import type { NextFunction, Request, Response } from "express";
+import type {
+  ApiResponse,
+  UpdateUserDto,
+  UpdateUserResponseDto,
+  UserResponseDto,
+} from "src/application/dtos";
+import type { UserService } from "src/application/services";
+import { UnauthorizedError } from "@src/application/errors";
+import { REFRESH_TOKEN_COOKIE_OPTIONS } from "../config";
+
 export class UserController {
-  constructor() {
-    // Initialize any necessary services or dependencies here
+  private userService: UserService;
+  constructor(userService: UserService) {
+    this.userService = userService;
+  }
+
+  async GetProfile(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        throw new UnauthorizedError();
+      }
+
+      const user = await this.userService.GetUserById(userId);
+
+      const response: ApiResponse<UserResponseDto> = {
+        ok: true,
+        code: 200,
+        data: user ?? undefined,
+      };
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+
+  async UpdateProfile(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        throw new UnauthorizedError();
+      }
+
+      const updatedUser = await this.userService.UpdateUser(userId, req.body as UpdateUserDto);
+
+      const response: ApiResponse<UpdateUserResponseDto> = {
+        ok: true,
+        code: 200,
+        message: "Profile updated successfully",
+        data: updatedUser,
+      };
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+
+  async DeleteProfile(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        throw new UnauthorizedError();
+      }
+
+      // Transactions, account and tokens are removed along with the user
+      await this.userService.DeleteUser(userId);
+
+      const response: ApiResponse<void> = {
+        ok: true,
+        code: 200,
+        message: "Profile deleted successfully",
+      };
+      res.clearCookie("refreshToken", REFRESH_TOKEN_COOKIE_OPTIONS);
+      res.status(200).json(response);
+    } catch (err) {
+      next(err instanceof Error ? err : new Error(String(err)));
+    }
   }
 }
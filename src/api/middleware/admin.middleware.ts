@@ -0,0 +1,31 @@
+import type { Request, Response, NextFunction } from "express";
+import { timingSafeEqual } from "crypto";
+import { ENVIRONMENT_CONFIG } from "@config";
+import { hashToken } from "@src/application/utils/tokenUtils";
+
+/**
+ * Admin Middleware
+ *
+ * Guards operator-only endpoints with the shared ADMIN_API_KEY, passed in the `X-Admin-Key` header.
+ * Admin endpoints are disabled entirely when no key is configured.
+ */
+export default function adminHandler(req: Request, res: Response, next: NextFunction) {
+  const adminKey = ENVIRONMENT_CONFIG.ADMIN_API_KEY;
+  if (!adminKey) {
+    return res.status(403).json({ error: "Forbidden: Admin API is not enabled" });
+  }
+
+  const providedKey = req.headers["x-admin-key"];
+  if (!providedKey || typeof providedKey !== "string") {
+    return res.status(401).json({ error: "Unauthorized: Missing X-Admin-Key header" });
+  }
+
+  // Compare digests so the check takes the same time whatever the key length
+  const expected = Buffer.from(hashToken(adminKey), "hex");
+  const provided = Buffer.from(hashToken(providedKey), "hex");
+  if (!timingSafeEqual(expected, provided)) {
+    return res.status(401).json({ error: "Unauthorized: Invalid admin key" });
+  }
+
+  next();
+}
@@ -1,7 +1,6 @@
 import type { Request, Response, NextFunction } from "express";
-import { verifyJwt } from "../utils/jwtUtils";
-import { ENVIRONMENT_CONFIG } from "@config";
 import { logger } from "@src/api/middleware/index.js";
+import { createSigningKeyService } from "@src/infrastructure/config/signingKeys";
 
 export default async function authenticationHandler(
   req: Request,
@@ -20,15 +19,9 @@ export default async function authenticationHandler(
     }
     const token = parts[1];
 
-    const jwtSecret = ENVIRONMENT_CONFIG.JWT_ACCESS_SECRET;
+    const payload = await createSigningKeyService().verify(token);
 
-    if (!jwtSecret) {
-      logger.error("JWT_ACCESS_SECRET is not defined in environment variables");
-      return res.status(500).json({ error: "Internal Server Error: JWT secret not configured" });
-    }
-    const payload = await verifyJwt(token, jwtSecret);
-
-    if (typeof payload !== "object" || !payload.sub) {
+    if (typeof payload !== "object" || !payload.sub || payload.typ !== undefined) {
       return res.status(401).json({ error: "Unauthorized: Invalid token payload" });
     }
 
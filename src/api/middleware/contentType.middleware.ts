@@ -0,0 +1,20 @@
+import type { Request, Response, NextFunction } from "express";
+import { UnsupportedMediaTypeError } from "@src/application/errors";
+
+/**
+ * Content Type Middleware
+ *
+ * Refuses request bodies that are not of one of the given media types with 415. PATCH requests
+ * are answered with an `Accept-Patch` header listing the patch formats the endpoint understands.
+ */
+export default function contentTypeHandler(...types: string[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.method === "PATCH") {
+      res.setHeader("Accept-Patch", types.join(", "));
+    }
+    if (!req.is(types)) {
+      return next(new UnsupportedMediaTypeError(`Request body must be ${types.join(" or ")}`));
+    }
+    next();
+  };
+}
@@ -10,6 +10,12 @@ function getHttpStatusCode(error: AppError): number {
     return error.code;
   }
 
+  // Errors raised by Express' body parsers, e.g. an upload over the size limit, carry a status
+  const { status } = error as AppError & { status?: unknown };
+  if (typeof status === "number" && status >= 400 && status < 600) {
+    return status;
+  }
+
   // Map error codes to HTTP status codes
   const errorCodeMap: Record<string, number> = {
     ECONNREFUSED: 503,
@@ -33,6 +39,10 @@ export default function errorHandler(
   next: NextFunction,
 ) {
   logger.error("Middleware handling error:", { code: err.code, message: err.message });
+  // A streamed response has already started, so Express can only abort the connection
+  if (res.headersSent) {
+    return next(err);
+  }
   const errorStatus = getHttpStatusCode(err);
   const errorMessage = err.message || "Internal Server Error";
   res.status(errorStatus).json({
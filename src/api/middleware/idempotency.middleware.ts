@@ -0,0 +1,95 @@
+import type { Request, Response, NextFunction } from "express";
+import { createHash } from "crypto";
+import type { IdempotencyService } from "@src/application/services";
+import { BadRequestError } from "@src/application/errors";
+import { logger } from "@src/api/middleware/index.js";
+
+const MAX_KEY_LENGTH = 255;
+// Headers of the first response that are replayed along with its status and body
+const REPLAYED_HEADERS = ["Location", "ETag"];
+
+/**
+ * Idempotency Middleware
+ *
+ * Makes a creating request safe to retry. The first request with a given `Idempotency-Key` header
+ * is processed and its response stored for the user; repeats within IDEMPOTENCY_KEY_TTL get that
+ * response back, marked `Idempotent-Replayed: true`, without being processed again. Reusing a key
+ * for a different request is refused with 422. Requests without the header are unaffected.
+ * Must run after authentication, since keys are scoped to the user.
+ */
+export default function idempotencyHandler(idempotencyService: IdempotencyService) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = req.get("Idempotency-Key");
+    const userId = req.user?.sub;
+    if (key === undefined || !userId) {
+      return next();
+    }
+
+    try {
+      if (key.trim().length === 0 || key.length > MAX_KEY_LENGTH) {
+        throw new BadRequestError(
+          `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`,
+        );
+      }
+
+      const stored = await idempotencyService.begin(userId, key, hashRequest(req));
+      if (stored) {
+        res.set(stored.headers);
+        res.set("Idempotent-Replayed", "true");
+        res.status(stored.status);
+        return stored.body === null ? res.end() : res.json(stored.body);
+      }
+
+      let body: unknown = null;
+      const json = res.json.bind(res);
+      res.json = (payload: unknown) => {
+        body = payload;
+        return json(payload);
+      };
+
+      // Server errors and dropped connections free the key so the request can be retried
+      res.on("close", () => {
+        const settle =
+          res.writableFinished && res.statusCode < 500
+            ? idempotencyService.complete(userId, key, {
+                status: res.statusCode,
+                headers: replayedHeadersOf(res),
+                body,
+              })
+            : idempotencyService.release(userId, key);
+        settle.catch((error) => {
+          logger.error("Failed to settle idempotency key", { error });
+        });
+      });
+
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
+}
+
+/**
+ * Fingerprints a request by method, URL and body, to tell a retry from a different request
+ * reusing the same key. Binary bodies are hashed as they are.
+ */
+function hashRequest(req: Request): string {
+  const hash = createHash("sha256").update(`${req.method} ${req.originalUrl}\n`);
+  if (Buffer.isBuffer(req.body)) {
+    hash.update(req.body);
+  } else {
+    hash.update(JSON.stringify(req.body ?? null));
+  }
+  return hash.digest("hex");
+}
+
+function replayedHeadersOf(res: Response): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const name of REPLAYED_HEADERS) {
+    const value = res.get(name);
+    if (value !== undefined) {
+      headers[name] = value;
+    }
+  }
+  return headers;
+}
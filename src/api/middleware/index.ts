@@ -3,3 +3,6 @@ export { default as errorHandler } from "./error.middleware.js";
 export { default as validationHandler } from "./validation.middleware.js";
 export { default as loggingHandler, logger } from "./logger.middleware.js";
 export { default as rateHandler } from "./rate.middleware.js";
+export { default as adminHandler } from "./admin.middleware.js";
+export { default as contentTypeHandler } from "./contentType.middleware.js";
+export { default as idempotencyHandler } from "./idempotency.middleware.js";
@@ -2,14 +2,26 @@ import { ZodObject } from "zod";
 import type { Request, Response, NextFunction } from "express";
 import { ValidationError } from "@src/application/errors";
 
-export default function validationHandler(schema: ZodObject<any>) {
+type RequestSource = "body" | "query";
+
+export default function validationHandler(schema: ZodObject<any>, source: RequestSource = "body") {
   return (req: Request, res: Response, next: NextFunction) => {
     try {
-      const result = schema.safeParse(req.body);
+      const result = schema.safeParse(req[source]);
       if (!result.success) {
         return next(ValidationError.fromZodErrors(result.error));
       }
-      req.body = result.data;
+      if (source === "query") {
+        // Express 5 exposes req.query as a getter, so the parsed value has to be redefined on the request
+        Object.defineProperty(req, "query", {
+          value: result.data,
+          writable: true,
+          configurable: true,
+          enumerable: true,
+        });
+      } else {
+        req.body = result.data;
+      }
       next();
     } catch (err) {
       next(err);
@@ -0,0 +1,56 @@
+import { Router } from "express";
+import { AnalyticsController } from "../controllers";
+import { authenticationHandler, rateHandler, validationHandler } from "../middleware/index.js";
+import type { PrismaClient } from "@prisma/client";
+import { AnalyticsService, ExchangeRateService } from "@src/application/services";
+import {
+  CategoryRepository,
+  ExchangeRateRepository,
+  TransactionRepository,
+  UserRepository,
+} from "@src/infrastructure/repositories";
+import {
+  AnalyticsRangeSchema,
+  CashFlowQuerySchema,
+  CategoryBreakdownQuerySchema,
+} from "@src/application/dtos/analytics";
+
+export default function createAnalyticsRouter(prisma: PrismaClient) {
+  const analyticsRouter = Router();
+
+  const analyticsController = new AnalyticsController(
+    new AnalyticsService(
+      new TransactionRepository(prisma),
+      new CategoryRepository(prisma),
+      new UserRepository(prisma),
+      new ExchangeRateService(new ExchangeRateRepository(prisma)),
+    ),
+  );
+
+  const rateLimit = rateHandler(50, 15 * 60 * 1000);
+
+  analyticsRouter.use(rateLimit);
+
+  analyticsRouter.get(
+    "/summary",
+    authenticationHandler,
+    validationHandler(AnalyticsRangeSchema, "query"),
+    analyticsController.getSummary.bind(analyticsController),
+  );
+
+  analyticsRouter.get(
+    "/categories",
+    authenticationHandler,
+    validationHandler(CategoryBreakdownQuerySchema, "query"),
+    analyticsController.getCategoryBreakdown.bind(analyticsController),
+  );
+
+  analyticsRouter.get(
+    "/cash-flow",
+    authenticationHandler,
+    validationHandler(CashFlowQuerySchema, "query"),
+    analyticsController.getCashFlow.bind(analyticsController),
+  );
+
+  return analyticsRouter as Router;
+}
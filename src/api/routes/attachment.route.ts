@@ -0,0 +1,70 @@
+import express, { Router } from "express";
+import { AttachmentController } from "../controllers";
+import { authenticationHandler, idempotencyHandler, rateHandler } from "../middleware/index.js";
+import type { PrismaClient } from "@prisma/client";
+import { ENVIRONMENT_CONFIG } from "@config";
+import { AttachmentService, IdempotencyService } from "@src/application/services";
+import {
+  AttachmentRepository,
+  IdempotencyKeyRepository,
+  TransactionRepository,
+} from "@src/infrastructure/repositories";
+import { createFileStorage } from "@src/infrastructure/storage";
+
+export default function createAttachmentRouter(prisma: PrismaClient) {
+  // Mounted under /api/transactions/:transactionId/attachments, so the transaction id is merged in
+  const attachmentRouter = Router({ mergeParams: true });
+
+  const attachmentController = new AttachmentController(
+    new AttachmentService(
+      new TransactionRepository(prisma),
+      new AttachmentRepository(prisma),
+      createFileStorage(),
+    ),
+  );
+
+  const rateLimit = rateHandler(50, 15 * 60 * 1000);
+  const idempotency = idempotencyHandler(
+    new IdempotencyService(new IdempotencyKeyRepository(prisma)),
+  );
+
+  attachmentRouter.use(rateLimit);
+
+  attachmentRouter.get(
+    "/",
+    authenticationHandler,
+    attachmentController.getAttachments.bind(attachmentController),
+  );
+
+  // The multipart body is buffered as is; the controller picks the file out of it
+  attachmentRouter.post(
+    "/",
+    authenticationHandler,
+    express.raw({
+      type: "multipart/form-data",
+      limit: ENVIRONMENT_CONFIG.ATTACHMENT_MAX_FILE_SIZE,
+    }),
+    idempotency,
+    attachmentController.uploadAttachment.bind(attachmentController),
+  );
+
+  attachmentRouter.get(
+    "/:attachmentId",
+    authenticationHandler,
+    attachmentController.downloadAttachment.bind(attachmentController),
+  );
+
+  attachmentRouter.get(
+    "/:attachmentId/thumbnail",
+    authenticationHandler,
+    attachmentController.downloadThumbnail.bind(attachmentController),
+  );
+
+  attachmentRouter.delete(
+    "/:attachmentId",
+    authenticationHandler,
+    attachmentController.deleteAttachment.bind(attachmentController),
+  );
+
+  return attachmentRouter as Router;
+}
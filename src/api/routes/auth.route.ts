@@ -1,23 +1,60 @@
 import { Router } from "express";
-import { AuthenticationController } from "../controllers";
+import { AuthenticationController, MfaController } from "../controllers";
 import type { PrismaClient } from "@prisma/client";
 import { AuthenticationService } from "@src/application/services/authentication.service";
-import { TokenRepository, UserRepository } from "@src/infrastructure/repositories";
+import { MfaService } from "@src/application/services/mfa.service";
+import { LoginThrottleService } from "@src/application/services/loginThrottle.service";
+import {
+  CategoryRepository,
+  LoginThrottleRepository,
+  MfaRepository,
+  SecurityEventRepository,
+  TokenRepository,
+  UserRepository,
+} from "@src/infrastructure/repositories";
 import { authenticationHandler, rateHandler, validationHandler } from "../middleware/index.js";
 import {
+  ConfirmTotpSchema,
   CreateUserSchema,
+  DisableMfaSchema,
+  ForgotPasswordSchema,
   LoginUserSchema,
+  MfaLoginSchema,
   RefreshTokenSchema,
+  RegenerateRecoveryCodesSchema,
+  ResetPasswordSchema,
+  ResendVerificationSchema,
+  UnlockAccountSchema,
+  VerifyEmailSchema,
 } from "@src/application/dtos/authentication";
+import { emailService } from "@src/infrastructure/services/emailService";
+import { createSigningKeyService } from "@src/infrastructure/config/signingKeys";
 
 export default function createAuthRouter(prisma: PrismaClient) {
   const authRouter = Router();
 
+  const userRepository = new UserRepository(prisma);
+  const mfaService = new MfaService(new MfaRepository(prisma), userRepository);
+
   const authenticationController = new AuthenticationController(
-    new AuthenticationService(new UserRepository(prisma), new TokenRepository(prisma)),
+    new AuthenticationService(
+      userRepository,
+      new TokenRepository(prisma),
+      emailService(prisma),
+      new CategoryRepository(prisma),
+      new SecurityEventRepository(prisma),
+      mfaService,
+      new LoginThrottleService(new LoginThrottleRepository(prisma)),
+      createSigningKeyService(),
+    ),
   );
+  const mfaController = new MfaController(mfaService);
 
   const rateLimit = rateHandler(100, 15 * 60 * 1000);
+  const forgotPasswordRateLimit = rateHandler(5, 15 * 60 * 1000);
+  const resetPasswordRateLimit = rateHandler(5, 15 * 60 * 1000);
+  const resendVerificationRateLimit = rateHandler(5, 15 * 60 * 1000);
+  const mfaRateLimit = rateHandler(10, 15 * 60 * 1000);
 
   authRouter.use(rateLimit);
 
@@ -33,6 +70,25 @@ export default function createAuthRouter(prisma: PrismaClient) {
     authenticationController.Register.bind(authenticationController),
   );
 
+  authRouter.get(
+    "/verify",
+    validationHandler(VerifyEmailSchema, "query"),
+    authenticationController.VerifyEmail.bind(authenticationController),
+  );
+
+  authRouter.get(
+    "/unlock",
+    validationHandler(UnlockAccountSchema, "query"),
+    authenticationController.UnlockAccount.bind(authenticationController),
+  );
+
+  authRouter.post(
+    "/verify/resend",
+    resendVerificationRateLimit,
+    validationHandler(ResendVerificationSchema),
+    authenticationController.ResendVerification.bind(authenticationController),
+  );
+
   authRouter.post(
     "/refresh",
     validationHandler(RefreshTokenSchema),
@@ -45,8 +101,85 @@ export default function createAuthRouter(prisma: PrismaClient) {
     authenticationController.Login.bind(authenticationController),
   );
 
+  authRouter.post(
+    "/login/mfa",
+    mfaRateLimit,
+    validationHandler(MfaLoginSchema),
+    authenticationController.LoginMfa.bind(authenticationController),
+  );
+
   authRouter.post("/logout", authenticationController.Logout.bind(authenticationController));
 
+  authRouter.get(
+    "/sessions",
+    authenticationHandler,
+    authenticationController.GetSessions.bind(authenticationController),
+  );
+
+  authRouter.post(
+    "/sessions/revoke-others",
+    authenticationHandler,
+    authenticationController.RevokeOtherSessions.bind(authenticationController),
+  );
+
+  authRouter.delete(
+    "/sessions/:sessionId",
+    authenticationHandler,
+    authenticationController.RevokeSession.bind(authenticationController),
+  );
+
+  authRouter.get(
+    "/security-events",
+    authenticationHandler,
+    authenticationController.GetSecurityEvents.bind(authenticationController),
+  );
+
+  authRouter.get("/mfa", authenticationHandler, mfaController.GetStatus.bind(mfaController));
+
+  authRouter.post(
+    "/mfa/totp/setup",
+    authenticationHandler,
+    mfaController.SetupTotp.bind(mfaController),
+  );
+
+  authRouter.post(
+    "/mfa/totp/confirm",
+    authenticationHandler,
+    mfaRateLimit,
+    validationHandler(ConfirmTotpSchema),
+    mfaController.ConfirmTotp.bind(mfaController),
+  );
+
+  authRouter.post(
+    "/mfa/disable",
+    authenticationHandler,
+    mfaRateLimit,
+    validationHandler(DisableMfaSchema),
+    mfaController.Disable.bind(mfaController),
+  );
+
+  authRouter.post(
+    "/mfa/recovery-codes",
+    authenticationHandler,
+    mfaRateLimit,
+    validationHandler(RegenerateRecoveryCodesSchema),
+    mfaController.RegenerateRecoveryCodes.bind(mfaController),
+  );
+
+  authRouter.post(
+    "/forgot-password",
+    forgotPasswordRateLimit,
+    validationHandler(ForgotPasswordSchema),
+    authenticationController.ForgotPassword.bind(authenticationController),
+  );
+
+  authRouter.post(
+    "/reset-password",
+    resetPasswordRateLimit,
+    validationHandler(ResetPasswordSchema),
+    authenticationController.ResetPassword.bind(authenticationController),
+  );
+
   /**
    * This endpoint is for testing purposes only. It allows us to generate a token for a user without going through the login process.
    * In production, this should be removed or protected with additional authentication.
@@ -0,0 +1,97 @@
+import { Router } from "express";
+import { BudgetController } from "../controllers";
+import {
+  authenticationHandler,
+  idempotencyHandler,
+  rateHandler,
+  validationHandler,
+} from "../middleware/index.js";
+import type { PrismaClient } from "@prisma/client";
+import {
+  BudgetService,
+  ExchangeRateService,
+  IdempotencyService,
+} from "@src/application/services";
+import {
+  BudgetRepository,
+  CategoryRepository,
+  ExchangeRateRepository,
+  IdempotencyKeyRepository,
+  TransactionRepository,
+  UserRepository,
+} from "@src/infrastructure/repositories";
+import {
+  BudgetStatusQuerySchema,
+  CreateBudgetSchema,
+  UpdateBudgetSchema,
+} from "@src/application/dtos/budget";
+
+export default function createBudgetRouter(prisma: PrismaClient) {
+  const budgetRouter = Router();
+
+  const budgetController = new BudgetController(
+    new BudgetService(
+      new BudgetRepository(prisma),
+      new CategoryRepository(prisma),
+      new TransactionRepository(prisma),
+      new UserRepository(prisma),
+      new ExchangeRateService(new ExchangeRateRepository(prisma)),
+    ),
+  );
+
+  const rateLimit = rateHandler(50, 15 * 60 * 1000);
+  const idempotency = idempotencyHandler(
+    new IdempotencyService(new IdempotencyKeyRepository(prisma)),
+  );
+
+  budgetRouter.use(rateLimit);
+
+  budgetRouter.get(
+    "/",
+    authenticationHandler,
+    budgetController.getBudgets.bind(budgetController),
+  );
+
+  budgetRouter.get(
+    "/status",
+    authenticationHandler,
+    validationHandler(BudgetStatusQuerySchema, "query"),
+    budgetController.getBudgetStatuses.bind(budgetController),
+  );
+
+  budgetRouter.get(
+    "/:budgetId",
+    authenticationHandler,
+    budgetController.getBudgetById.bind(budgetController),
+  );
+
+  budgetRouter.get(
+    "/:budgetId/status",
+    authenticationHandler,
+    validationHandler(BudgetStatusQuerySchema, "query"),
+    budgetController.getBudgetStatus.bind(budgetController),
+  );
+
+  budgetRouter.post(
+    "/",
+    authenticationHandler,
+    idempotency,
+    validationHandler(CreateBudgetSchema),
+    budgetController.createBudget.bind(budgetController),
+  );
+
+  budgetRouter.put(
+    "/:budgetId",
+    authenticationHandler,
+    validationHandler(UpdateBudgetSchema),
+    budgetController.updateBudget.bind(budgetController),
+  );
+
+  budgetRouter.delete(
+    "/:budgetId",
+    authenticationHandler,
+    budgetController.deleteBudget.bind(budgetController),
+  );
+
+  return budgetRouter as Router;
+}
@@ -0,0 +1,70 @@
+import { Router } from "express";
+import { CategoryController } from "../controllers";
+import {
+  authenticationHandler,
+  idempotencyHandler,
+  rateHandler,
+  validationHandler,
+} from "../middleware/index.js";
+import type { PrismaClient } from "@prisma/client";
+import { CategoryService, IdempotencyService } from "@src/application/services";
+import {
+  CategoryRepository,
+  IdempotencyKeyRepository,
+} from "@src/infrastructure/repositories";
+import {
+  CategoryQuerySchema,
+  CreateCategorySchema,
+  UpdateCategorySchema,
+} from "@src/application/dtos/category";
+
+export default function createCategoryRouter(prisma: PrismaClient) {
+  const categoryRouter = Router();
+
+  const categoryController = new CategoryController(
+    new CategoryService(new CategoryRepository(prisma)),
+  );
+
+  const rateLimit = rateHandler(50, 15 * 60 * 1000);
+  const idempotency = idempotencyHandler(
+    new IdempotencyService(new IdempotencyKeyRepository(prisma)),
+  );
+
+  categoryRouter.use(rateLimit);
+
+  categoryRouter.get(
+    "/",
+    authenticationHandler,
+    validationHandler(CategoryQuerySchema, "query"),
+    categoryController.getCategories.bind(categoryController),
+  );
+
+  categoryRouter.get(
+    "/:categoryId",
+    authenticationHandler,
+    categoryController.getCategoryById.bind(categoryController),
+  );
+
+  categoryRouter.post(
+    "/",
+    authenticationHandler,
+    idempotency,
+    validationHandler(CreateCategorySchema),
+    categoryController.createCategory.bind(categoryController),
+  );
+
+  categoryRouter.put(
+    "/:categoryId",
+    authenticationHandler,
+    validationHandler(UpdateCategorySchema),
+    categoryController.updateCategory.bind(categoryController),
+  );
+
+  categoryRouter.delete(
+    "/:categoryId",
+    authenticationHandler,
+    categoryController.deleteCategory.bind(categoryController),
+  );
+
+  return categoryRouter as Router;
+}
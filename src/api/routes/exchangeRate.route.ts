@@ -0,0 +1,43 @@
+import { Router } from "express";
+import { ExchangeRateController } from "../controllers";
+import {
+  adminHandler,
+  authenticationHandler,
+  rateHandler,
+  validationHandler,
+} from "../middleware/index.js";
+import type { PrismaClient } from "@prisma/client";
+import { ExchangeRateService } from "@src/application/services";
+import { ExchangeRateRepository } from "@src/infrastructure/repositories";
+import {
+  ExchangeRateQuerySchema,
+  ImportExchangeRatesSchema,
+} from "@src/application/dtos/exchangeRate";
+
+export default function createExchangeRateRouter(prisma: PrismaClient) {
+  const exchangeRateRouter = Router();
+
+  const exchangeRateController = new ExchangeRateController(
+    new ExchangeRateService(new ExchangeRateRepository(prisma)),
+  );
+
+  const rateLimit = rateHandler(50, 15 * 60 * 1000);
+
+  exchangeRateRouter.use(rateLimit);
+
+  exchangeRateRouter.get(
+    "/",
+    authenticationHandler,
+    validationHandler(ExchangeRateQuerySchema, "query"),
+    exchangeRateController.getRates.bind(exchangeRateController),
+  );
+
+  exchangeRateRouter.post(
+    "/",
+    adminHandler,
+    validationHandler(ImportExchangeRatesSchema),
+    exchangeRateController.importRates.bind(exchangeRateController),
+  );
+
+  return exchangeRateRouter as Router;
+}
@@ -1,3 +1,13 @@
 export { default as createAuthRouter } from "./auth.route.js";
 export { default as createUserRouter } from "./user.route.js";
 export { default as createTransactionRouter } from "./transaction.route.js";
+export { default as createCategoryRouter } from "./category.route.js";
+export { default as createTagRouter } from "./tag.route.js";
+export { default as createExchangeRateRouter } from "./exchangeRate.route.js";
+export { default as createRecurringTransactionRouter } from "./recurring.route.js";
+export { default as createBudgetRouter } from "./budget.route.js";
+export { default as createAnalyticsRouter } from "./analytics.route.js";
+export { default as createTransactionImportRouter } from "./transactionImport.route.js";
+export { default as createAttachmentRouter } from "./attachment.route.js";
+export { default as createSigningKeyRouter } from "./signingKey.route.js";
+export { default as createWellKnownRouter } from "./wellKnown.route.js";
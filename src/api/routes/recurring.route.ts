@@ -0,0 +1,120 @@
+import { Router } from "express";
+import { RecurringTransactionController } from "../controllers";
+import {
+  authenticationHandler,
+  idempotencyHandler,
+  rateHandler,
+  validationHandler,
+} from "../middleware/index.js";
+import type { PrismaClient } from "@prisma/client";
+import {
+  AttachmentService,
+  ExchangeRateService,
+  IdempotencyService,
+  RecurringTransactionService,
+  TransactionService,
+} from "@src/application/services";
+import {
+  AttachmentRepository,
+  CategoryRepository,
+  ExchangeRateRepository,
+  IdempotencyKeyRepository,
+  RecurringTransactionRepository,
+  TagRepository,
+  TransactionHistoryRepository,
+  TransactionRepository,
+  UserRepository,
+} from "@src/infrastructure/repositories";
+import { createFileStorage } from "@src/infrastructure/storage";
+import {
+  CreateRecurringTransactionSchema,
+  UpdateRecurringTransactionSchema,
+} from "@src/application/dtos/recurring";
+
+export default function createRecurringTransactionRouter(prisma: PrismaClient) {
+  const recurringRouter = Router();
+
+  const categoryRepository = new CategoryRepository(prisma);
+  const userRepository = new UserRepository(prisma);
+  const transactionRepository = new TransactionRepository(prisma);
+  const recurringController = new RecurringTransactionController(
+    new RecurringTransactionService(
+      new RecurringTransactionRepository(prisma),
+      categoryRepository,
+      userRepository,
+      new TransactionService(
+        transactionRepository,
+        categoryRepository,
+        userRepository,
+        new ExchangeRateService(new ExchangeRateRepository(prisma)),
+        new TagRepository(prisma),
+        new AttachmentService(
+          transactionRepository,
+          new AttachmentRepository(prisma),
+          createFileStorage(),
+        ),
+        new TransactionHistoryRepository(prisma),
+      ),
+    ),
+  );
+
+  const rateLimit = rateHandler(50, 15 * 60 * 1000);
+  const idempotency = idempotencyHandler(
+    new IdempotencyService(new IdempotencyKeyRepository(prisma)),
+  );
+
+  recurringRouter.use(rateLimit);
+
+  recurringRouter.get(
+    "/",
+    authenticationHandler,
+    recurringController.getRecurringTransactions.bind(recurringController),
+  );
+
+  recurringRouter.get(
+    "/:recurringId",
+    authenticationHandler,
+    recurringController.getRecurringTransactionById.bind(recurringController),
+  );
+
+  recurringRouter.post(
+    "/",
+    authenticationHandler,
+    idempotency,
+    validationHandler(CreateRecurringTransactionSchema),
+    recurringController.createRecurringTransaction.bind(recurringController),
+  );
+
+  recurringRouter.put(
+    "/:recurringId",
+    authenticationHandler,
+    validationHandler(UpdateRecurringTransactionSchema),
+    recurringController.updateRecurringTransaction.bind(recurringController),
+  );
+
+  recurringRouter.post(
+    "/:recurringId/pause",
+    authenticationHandler,
+    recurringController.pauseRecurringTransaction.bind(recurringController),
+  );
+
+  recurringRouter.post(
+    "/:recurringId/resume",
+    authenticationHandler,
+    recurringController.resumeRecurringTransaction.bind(recurringController),
+  );
+
+  recurringRouter.post(
+    "/:recurringId/skip",
+    authenticationHandler,
+    recurringController.skipNextOccurrence.bind(recurringController),
+  );
+
+  recurringRouter.delete(
+    "/:recurringId",
+    authenticationHandler,
+    recurringController.deleteRecurringTransaction.bind(recurringController),
+  );
+
+  return recurringRouter as Router;
+}
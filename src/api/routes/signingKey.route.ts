@@ -0,0 +1,22 @@
+import { Router } from "express";
+import { SigningKeyController } from "../controllers";
+import { adminHandler, rateHandler } from "../middleware/index.js";
+import { createSigningKeyService } from "@src/infrastructure/config/signingKeys";
+
+export default function createSigningKeyRouter() {
+  const signingKeyRouter = Router();
+
+  const signingKeyController = new SigningKeyController(createSigningKeyService());
+
+  const rateLimit = rateHandler(10, 15 * 60 * 1000);
+
+  signingKeyRouter.use(rateLimit);
+
+  signingKeyRouter.post(
+    "/rotate",
+    adminHandler,
+    signingKeyController.RotateKeys.bind(signingKeyController),
+  );
+
+  return signingKeyRouter as Router;
+}
@@ -0,0 +1,52 @@
+import { Router } from "express";
+import { TagController } from "../controllers";
+import {
+  authenticationHandler,
+  idempotencyHandler,
+  rateHandler,
+  validationHandler,
+} from "../middleware/index.js";
+import type { PrismaClient } from "@prisma/client";
+import { IdempotencyService, TagService } from "@src/application/services";
+import { IdempotencyKeyRepository, TagRepository } from "@src/infrastructure/repositories";
+import { CreateTagSchema, UpdateTagSchema } from "@src/application/dtos/tag";
+
+export default function createTagRouter(prisma: PrismaClient) {
+  const tagRouter = Router();
+
+  const tagController = new TagController(new TagService(new TagRepository(prisma)));
+
+  const rateLimit = rateHandler(50, 15 * 60 * 1000);
+  const idempotency = idempotencyHandler(
+    new IdempotencyService(new IdempotencyKeyRepository(prisma)),
+  );
+
+  tagRouter.use(rateLimit);
+
+  tagRouter.get(
+    "/",
+    authenticationHandler,
+    tagController.getTags.bind(tagController),
+  );
+
+  tagRouter.get("/:tagId", authenticationHandler, tagController.getTagById.bind(tagController));
+
+  tagRouter.post(
+    "/",
+    authenticationHandler,
+    idempotency,
+    validationHandler(CreateTagSchema),
+    tagController.createTag.bind(tagController),
+  );
+
+  tagRouter.put(
+    "/:tagId",
+    authenticationHandler,
+    validationHandler(UpdateTagSchema),
+    tagController.updateTag.bind(tagController),
+  );
+
+  tagRouter.delete("/:tagId", authenticationHandler, tagController.deleteTag.bind(tagController));
+
+  return tagRouter as Router;
+}
@@ -1,31 +1,87 @@
-import { Router } from "express";
+import express, { Router } from "express";
 import { TransactionController } from "../controllers";
-import { authenticationHandler, rateHandler, validationHandler } from "../middleware/index.js";
+import {
+  authenticationHandler,
+  contentTypeHandler,
+  idempotencyHandler,
+  rateHandler,
+  validationHandler,
+} from "../middleware/index.js";
 import type { PrismaClient } from "@prisma/client";
-import { TransactionService } from "@src/application/services";
-import { TransactionRepository } from "@src/infrastructure/repositories";
+import {
+  AttachmentService,
+  ExchangeRateService,
+  IdempotencyService,
+  TransactionService,
+} from "@src/application/services";
+import {
+  AttachmentRepository,
+  CategoryRepository,
+  ExchangeRateRepository,
+  IdempotencyKeyRepository,
+  TagRepository,
+  TransactionHistoryRepository,
+  TransactionRepository,
+  UserRepository,
+} from "@src/infrastructure/repositories";
+import { createFileStorage } from "@src/infrastructure/storage";
 import {
   CreateTransactionSchema,
+  ReplaceTransactionSchema,
+  TransactionExportQuerySchema,
+  TransactionQuerySchema,
   UpdateTransactionSchema,
 } from "@src/application/dtos/transaction";
 
+const MERGE_PATCH = "application/merge-patch+json";
+
 export default function createTransactionRouter(prisma: PrismaClient) {
   const transactionRouter = Router();
 
+  const transactionRepository = new TransactionRepository(prisma);
   const transactionController = new TransactionController(
-    new TransactionService(new TransactionRepository(prisma)),
+    new TransactionService(
+      transactionRepository,
+      new CategoryRepository(prisma),
+      new UserRepository(prisma),
+      new ExchangeRateService(new ExchangeRateRepository(prisma)),
+      new TagRepository(prisma),
+      new AttachmentService(
+        transactionRepository,
+        new AttachmentRepository(prisma),
+        createFileStorage(),
+      ),
+      new TransactionHistoryRepository(prisma),
+    ),
   );
 
   const rateLimit = rateHandler(50, 15 * 60 * 1000);
+  const idempotency = idempotencyHandler(
+    new IdempotencyService(new IdempotencyKeyRepository(prisma)),
+  );
 
   transactionRouter.use(rateLimit);
 
   transactionRouter.get(
     "/",
     authenticationHandler,
+    validationHandler(TransactionQuerySchema, "query"),
     transactionController.getTransactions.bind(transactionController),
   );
 
+  transactionRouter.get(
+    "/export",
+    authenticationHandler,
+    validationHandler(TransactionExportQuerySchema, "query"),
+    transactionController.exportTransactions.bind(transactionController),
+  );
+
+  transactionRouter.get(
+    "/trash",
+    authenticationHandler,
+    transactionController.getTrash.bind(transactionController),
+  );
+
   transactionRouter.get(
     "/:transactionId",
     authenticationHandler,
@@ -35,6 +91,7 @@ export default function createTransactionRouter(prisma: PrismaClient) {
   transactionRouter.post(
     "/",
     authenticationHandler,
+    idempotency,
     validationHandler(CreateTransactionSchema),
     transactionController.createTransaction.bind(transactionController),
   );
@@ -42,6 +99,16 @@ export default function createTransactionRouter(prisma: PrismaClient) {
   transactionRouter.put(
     "/:transactionId",
     authenticationHandler,
+    validationHandler(ReplaceTransactionSchema),
+    transactionController.replaceTransaction.bind(transactionController),
+  );
+
+  // The app-wide JSON parser only reads application/json, so merge patches are parsed here
+  transactionRouter.patch(
+    "/:transactionId",
+    authenticationHandler,
+    contentTypeHandler(MERGE_PATCH),
+    express.json({ type: MERGE_PATCH }),
     validationHandler(UpdateTransactionSchema),
     transactionController.updateTransaction.bind(transactionController),
   );
@@ -52,5 +119,23 @@ export default function createTransactionRouter(prisma: PrismaClient) {
     transactionController.deleteTransaction.bind(transactionController),
   );
 
+  transactionRouter.post(
+    "/:transactionId/restore",
+    authenticationHandler,
+    transactionController.restoreTransaction.bind(transactionController),
+  );
+
+  transactionRouter.get(
+    "/:transactionId/history",
+    authenticationHandler,
+    transactionController.getHistory.bind(transactionController),
+  );
+
+  transactionRouter.post(
+    "/:transactionId/history/:version/revert",
+    authenticationHandler,
+    transactionController.revertTransaction.bind(transactionController),
+  );
+
   return transactionRouter as Router;
 }
@@ -0,0 +1,99 @@
+import { Router } from "express";
+import { TransactionImportController } from "../controllers";
+import {
+  authenticationHandler,
+  idempotencyHandler,
+  rateHandler,
+  validationHandler,
+} from "../middleware/index.js";
+import type { PrismaClient } from "@prisma/client";
+import {
+  AttachmentService,
+  IdempotencyService,
+  TransactionImportService,
+} from "@src/application/services";
+import {
+  AttachmentRepository,
+  CategoryRepository,
+  IdempotencyKeyRepository,
+  TransactionImportRepository,
+  TransactionRepository,
+  UserRepository,
+} from "@src/infrastructure/repositories";
+import { createFileStorage } from "@src/infrastructure/storage";
+import {
+  CreateImportMappingSchema,
+  ImportTransactionsSchema,
+} from "@src/application/dtos/import";
+
+export default function createTransactionImportRouter(prisma: PrismaClient) {
+  const transactionImportRouter = Router();
+
+  const transactionImportController = new TransactionImportController(
+    new TransactionImportService(
+      new TransactionImportRepository(prisma),
+      new CategoryRepository(prisma),
+      new UserRepository(prisma),
+      new AttachmentService(
+        new TransactionRepository(prisma),
+        new AttachmentRepository(prisma),
+        createFileStorage(),
+      ),
+    ),
+  );
+
+  const rateLimit = rateHandler(50, 15 * 60 * 1000);
+  const idempotency = idempotencyHandler(
+    new IdempotencyService(new IdempotencyKeyRepository(prisma)),
+  );
+
+  transactionImportRouter.use(rateLimit);
+
+  transactionImportRouter.post(
+    "/",
+    authenticationHandler,
+    idempotency,
+    validationHandler(ImportTransactionsSchema),
+    transactionImportController.importTransactions.bind(transactionImportController),
+  );
+
+  transactionImportRouter.get(
+    "/",
+    authenticationHandler,
+    transactionImportController.getImportBatches.bind(transactionImportController),
+  );
+
+  transactionImportRouter.get(
+    "/mappings",
+    authenticationHandler,
+    transactionImportController.getImportMappings.bind(transactionImportController),
+  );
+
+  transactionImportRouter.post(
+    "/mappings",
+    authenticationHandler,
+    idempotency,
+    validationHandler(CreateImportMappingSchema),
+    transactionImportController.createImportMapping.bind(transactionImportController),
+  );
+
+  transactionImportRouter.delete(
+    "/mappings/:mappingId",
+    authenticationHandler,
+    transactionImportController.deleteImportMapping.bind(transactionImportController),
+  );
+
+  transactionImportRouter.get(
+    "/:batchId",
+    authenticationHandler,
+    transactionImportController.getImportBatchById.bind(transactionImportController),
+  );
+
+  transactionImportRouter.delete(
+    "/:batchId",
+    authenticationHandler,
+    transactionImportController.undoImport.bind(transactionImportController),
+  );
+
+  return transactionImportRouter as Router;
+}
@@ -1,27 +1,48 @@
 import { Router } from "express";
-import { userController } from "../../controllers/userController.ts";
+import { UserController } from "../controllers";
 import type { PrismaClient } from "@prisma/client";
+import { AttachmentService, UserService } from "@src/application/services";
+import {
+  AttachmentRepository,
+  TokenRepository,
+  TransactionRepository,
+  UserRepository,
+} from "@src/infrastructure/repositories";
+import { createFileStorage } from "@src/infrastructure/storage";
 import { validationHandler, authenticationHandler, rateHandler } from "../middleware/index.js";
 import { UpdateUserSchema } from "@src/application/dtos/authentication";
+import { emailService } from "@src/infrastructure/services/emailService";
 
 export default function createUserRouter(prisma: PrismaClient) {
   const userRouter = Router();
-  const { getProfile, updateProfile, deleteUser } = userController(prisma);
+
+  const userController = new UserController(
+    new UserService(
+      new UserRepository(prisma),
+      new TokenRepository(prisma),
+      emailService(prisma),
+      new AttachmentService(
+        new TransactionRepository(prisma),
+        new AttachmentRepository(prisma),
+        createFileStorage(),
+      ),
+    ),
+  );
 
   const rateLimit = rateHandler(25, 15 * 60 * 1000);
 
   userRouter.use(rateLimit);
 
-  userRouter.get("/profile", authenticationHandler, getProfile);
+  userRouter.get("/", authenticationHandler, userController.GetProfile.bind(userController));
 
   userRouter.put(
-    "/profile",
+    "/",
     authenticationHandler,
     validationHandler(UpdateUserSchema),
-    updateProfile,
+    userController.UpdateProfile.bind(userController),
   );
 
-  userRouter.delete("/profile", authenticationHandler, deleteUser);
+  userRouter.delete("/", authenticationHandler, userController.DeleteProfile.bind(userController));
 
   return userRouter as Router;
 }
@@ -0,0 +1,18 @@
+import { Router } from "express";
+import { SigningKeyController } from "../controllers";
+import { rateHandler } from "../middleware/index.js";
+import { createSigningKeyService } from "@src/infrastructure/config/signingKeys";
+
+export default function createWellKnownRouter() {
+  const wellKnownRouter = Router();
+
+  const signingKeyController = new SigningKeyController(createSigningKeyService());
+
+  const rateLimit = rateHandler(100, 15 * 60 * 1000);
+
+  wellKnownRouter.use(rateLimit);
+
+  wellKnownRouter.get("/jwks.json", signingKeyController.GetJwks.bind(signingKeyController));
+
+  return wellKnownRouter as Router;
+}
@@ -1,8 +1,20 @@
-import type { PublicKeyInput, JsonWebKeyInput } from "crypto";
+import {
+  createPublicKey,
+  generateKeyPairSync,
+  randomBytes,
+  sign,
+  verify,
+  type JsonWebKey,
+  type JsonWebKeyInput,
+  type PublicKeyInput,
+} from "crypto";
 import jwt, { type JwtPayload, type VerifyOptions } from "jsonwebtoken";
+import type { SigningAlgorithm, SigningKey } from "src/core/interfaces";
 
 export interface AccessTokenPayload extends JwtPayload {
   sub: string; // userId
+  sid?: string; // refresh session the token was issued for
+  typ?: "mfa"; // set on tokens that are not access tokens, e.g. a login awaiting its second factor
   iat?: number;
   exp?: number;
 }
@@ -36,3 +48,136 @@ export async function verifyJwt(
     });
   });
 }
+
+// Signing with the keyset. Tokens are compact JWS (RFC 7515) with the key id in the header, so a
+// verifier can pick the right public key from the JWKS even while keys are being rotated.
+
+/**
+ * The public half of a signing key as a JSON Web Key (RFC 7517), as served from the JWKS endpoint.
+ */
+export interface PublicJwk extends JsonWebKey {
+  kid: string;
+  alg: SigningAlgorithm;
+  use: "sig";
+}
+
+interface JwtHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+}
+
+// RS256 signs a SHA-256 digest, Ed25519 signs the message itself
+const DIGESTS: Record<SigningAlgorithm, string | null> = {
+  RS256: "sha256",
+  EdDSA: null,
+};
+
+/**
+ * Generates a new RSA (2048 bit) or Ed25519 key pair, PEM encoded, with a random key id.
+ */
+export function generateSigningKeyPair(
+  algorithm: SigningAlgorithm,
+): Pick<SigningKey, "kid" | "algorithm" | "publicKey" | "privateKey"> {
+  const publicKeyEncoding = { type: "spki", format: "pem" } as const;
+  const privateKeyEncoding = { type: "pkcs8", format: "pem" } as const;
+  const { publicKey, privateKey } =
+    algorithm === "RS256"
+      ? generateKeyPairSync("rsa", { modulusLength: 2048, publicKeyEncoding, privateKeyEncoding })
+      : generateKeyPairSync("ed25519", { publicKeyEncoding, privateKeyEncoding });
+
+  return { kid: randomBytes(16).toString("base64url"), algorithm, publicKey, privateKey };
+}
+
+/**
+ * Signs a token with a key from the keyset, putting the key id in the header. `iat` is added
+ * unless the payload has one; any expiry must already be in the payload.
+ */
+export function signKeyedJwt(
+  payload: object,
+  key: Pick<SigningKey, "kid" | "algorithm" | "privateKey">,
+  now: Date = new Date(),
+): string {
+  const header: JwtHeader = { alg: key.algorithm, typ: "JWT", kid: key.kid };
+  const claims = { iat: Math.floor(now.getTime() / 1000), ...payload };
+
+  const signingInput = `${encodeSegment(header)}.${encodeSegment(claims)}`;
+  const signature = sign(DIGESTS[key.algorithm], Buffer.from(signingInput), key.privateKey);
+  return `${signingInput}.${signature.toString("base64url")}`;
+}
+
+/**
+ * Reads a token's header without verifying it, to find the key it claims to be signed with.
+ */
+export function decodeJwtHeader(token: string): JwtHeader {
+  const [header] = splitToken(token);
+  return decodeSegment<JwtHeader>(header);
+}
+
+/**
+ * Verifies a token against a key from the keyset and checks its `exp` and `nbf` claims. A token
+ * without `exp` is refused, since it would never expire. The algorithm comes from the key, never
+ * from the token, so a token cannot pick a weaker one.
+ */
+export function verifyKeyedJwt(
+  token: string,
+  key: Pick<SigningKey, "kid" | "algorithm" | "publicKey">,
+  now: Date = new Date(),
+): AccessTokenPayload {
+  const [header, payload, signature] = splitToken(token);
+  const { alg, kid } = decodeSegment<JwtHeader>(header);
+  if (alg !== key.algorithm || kid !== key.kid) {
+    throw new Error("jwt signing key mismatch");
+  }
+
+  const valid = verify(
+    DIGESTS[key.algorithm],
+    Buffer.from(`${header}.${payload}`),
+    key.publicKey,
+    Buffer.from(signature, "base64url"),
+  );
+  if (!valid) {
+    throw new Error("invalid signature");
+  }
+
+  const claims = decodeSegment<AccessTokenPayload>(payload);
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+  if (typeof claims.exp !== "number") {
+    throw new Error("jwt has no expiry");
+  }
+  if (claims.exp <= nowSeconds) {
+    throw new Error("jwt expired");
+  }
+  if (typeof claims.nbf === "number" && claims.nbf > nowSeconds) {
+    throw new Error("jwt not active");
+  }
+  return claims;
+}
+
+/**
+ * Exports the public half of a signing key for the JWKS.
+ */
+export function toPublicJwk(key: Pick<SigningKey, "kid" | "algorithm" | "publicKey">): PublicJwk {
+  const jwk = createPublicKey(key.publicKey).export({ format: "jwk" });
+  return { ...jwk, kid: key.kid, alg: key.algorithm, use: "sig" };
+}
+
+function splitToken(token: string): [string, string, string] {
+  const parts = token.split(".");
+  if (parts.length !== 3 || parts.some((part) => !part)) {
+    throw new Error("jwt malformed");
+  }
+  return parts as [string, string, string];
+}
+
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function decodeSegment<T>(segment: string): T {
+  try {
+    return JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as T;
+  } catch {
+    throw new Error("jwt malformed");
+  }
+}
@@ -0,0 +1,35 @@
+interface MultipartFile {
+  fileName: string;
+  content: Buffer;
+}
+
+/**
+ * Reads one file field out of a buffered multipart/form-data body, using the platform's form
+ * data parser.
+ *
+ * @param body The raw request body.
+ * @param contentType The request's Content-Type header, which carries the part boundary.
+ * @param field Name of the form field holding the file.
+ * @returns The file, or null when the body is not valid multipart or has no such file field.
+ */
+async function readMultipartFile(
+  body: Buffer,
+  contentType: string,
+  field: string,
+): Promise<MultipartFile | null> {
+  let form: FormData;
+  try {
+    form = await new Response(body, { headers: { "content-type": contentType } }).formData();
+  } catch {
+    return null;
+  }
+
+  const file = form.get(field);
+  if (!(file instanceof File)) {
+    return null;
+  }
+  return { fileName: file.name, content: Buffer.from(await file.arrayBuffer()) };
+}
+
+export { readMultipartFile };
+export type { MultipartFile };
@@ -0,0 +1,14 @@
+export {
+  TimeZoneSchema,
+  AnalyticsRangeSchema,
+  CategoryBreakdownQuerySchema,
+  CashFlowQuerySchema,
+} from "./request";
+export type { AnalyticsRangeDto, CategoryBreakdownQueryDto, CashFlowQueryDto } from "./request";
+export type {
+  AnalyticsSummaryResponseDto,
+  CategoryBreakdownItemDto,
+  CategoryBreakdownResponseDto,
+  CashFlowPointDto,
+  CashFlowResponseDto,
+} from "./response";
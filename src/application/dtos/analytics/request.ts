@@ -0,0 +1,38 @@
+import { z } from "zod";
+import { isValidTimeZone } from "src/application/utils/timezoneUtils";
+import { TagFilterFields } from "../tag/request";
+
+export const TimeZoneSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .refine(isValidTimeZone, {
+    message: 'Unknown time zone, expected an IANA name such as "Europe/London"',
+  });
+
+const AnalyticsRangeFields = z.object({
+  from: z.iso.date("from must be a date in YYYY-MM-DD format"),
+  to: z.iso.date("to must be a date in YYYY-MM-DD format"),
+  timezone: TimeZoneSchema.optional(), // defaults to the user's time zone
+  ...TagFilterFields,
+});
+
+const startsBeforeEnd = (range: { from: string; to: string }) => range.from <= range.to;
+
+export const AnalyticsRangeSchema = AnalyticsRangeFields.refine(startsBeforeEnd, {
+  message: "from must be on or before to",
+  path: ["from"],
+});
+
+export const CategoryBreakdownQuerySchema = AnalyticsRangeFields.extend({
+  type: z.enum(["income", "expense"]).default("expense"),
+}).refine(startsBeforeEnd, { message: "from must be on or before to", path: ["from"] });
+
+export const CashFlowQuerySchema = AnalyticsRangeFields.extend({
+  interval: z.enum(["day", "week", "month", "year"]).default("month"),
+}).refine(startsBeforeEnd, { message: "from must be on or before to", path: ["from"] });
+
+// Inferred types for use throughout the app
+export type AnalyticsRangeDto = z.infer<typeof AnalyticsRangeSchema>;
+export type CategoryBreakdownQueryDto = z.infer<typeof CategoryBreakdownQuerySchema>;
+export type CashFlowQueryDto = z.infer<typeof CashFlowQuerySchema>;
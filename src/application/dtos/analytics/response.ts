@@ -0,0 +1,42 @@
+interface AnalyticsRangeResponseDto {
+  from: string; // first day of the range, YYYY-MM-DD
+  to: string; // last day of the range (inclusive), YYYY-MM-DD
+  timezone: string;
+  currency: string; // the user's base currency all amounts are converted into
+  unconvertedCurrencies: string[]; // amounts left out because no exchange rate was available
+}
+
+export interface AnalyticsSummaryResponseDto extends AnalyticsRangeResponseDto {
+  income: number;
+  expense: number;
+  net: number; // income - expense
+  transactionCount: number;
+}
+
+export interface CategoryBreakdownItemDto {
+  categoryId: string;
+  category: string; // category name, for display
+  parentId: string | null;
+  amount: number;
+  percentage: number; // share of the total, to one decimal place
+  transactionCount: number;
+}
+
+export interface CategoryBreakdownResponseDto extends AnalyticsRangeResponseDto {
+  type: "income" | "expense";
+  total: number;
+  categories: CategoryBreakdownItemDto[]; // largest first
+}
+
+export interface CashFlowPointDto {
+  period: string; // first day of the bucket, YYYY-MM-DD
+  income: number;
+  expense: number;
+  net: number;
+  cumulativeNet: number; // running net from the start of the range
+}
+
+export interface CashFlowResponseDto extends AnalyticsRangeResponseDto {
+  interval: "day" | "week" | "month" | "year";
+  series: CashFlowPointDto[]; // one point per bucket in the range, including empty ones
+}
@@ -0,0 +1,2 @@
+export type { UploadAttachmentDto } from "./request";
+export type { AttachmentResponseDto, AttachmentFileDto } from "./response";
@@ -0,0 +1,6 @@
+// Uploads arrive as multipart/form-data rather than JSON, so the controller extracts the file and
+// there is no zod schema; the content type is sniffed from the bytes, not taken from the client
+export interface UploadAttachmentDto {
+  fileName: string;
+  content: Buffer;
+}
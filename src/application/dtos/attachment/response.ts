@@ -0,0 +1,16 @@
+export interface AttachmentResponseDto {
+  id: string;
+  transactionId: string;
+  fileName: string;
+  contentType: string;
+  size: number; // in bytes
+  hasThumbnail: boolean; // true for images a preview could be generated for
+  createdAt: Date;
+}
+
+export interface AttachmentFileDto {
+  fileName: string;
+  contentType: string;
+  size: number;
+  content: AsyncIterable<Uint8Array>;
+}
@@ -1,8 +1,43 @@
-export { CreateUserSchema, LoginUserSchema, UpdateUserSchema, RefreshTokenSchema } from "./request";
-export type { CreateUserDto, LoginUserDto, UpdateUserDto, RefreshTokenDto } from "./request";
+export {
+  CreateUserSchema,
+  LoginUserSchema,
+  UpdateUserSchema,
+  RefreshTokenSchema,
+  ForgotPasswordSchema,
+  ResetPasswordSchema,
+  VerifyEmailSchema,
+  ResendVerificationSchema,
+  UnlockAccountSchema,
+  MfaLoginSchema,
+  ConfirmTotpSchema,
+  DisableMfaSchema,
+  RegenerateRecoveryCodesSchema,
+} from "./request";
+export type {
+  CreateUserDto,
+  LoginUserDto,
+  UpdateUserDto,
+  RefreshTokenDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  VerifyEmailDto,
+  ResendVerificationDto,
+  UnlockAccountDto,
+  MfaLoginDto,
+  ConfirmTotpDto,
+  DisableMfaDto,
+  RegenerateRecoveryCodesDto,
+} from "./request";
 export type {
   UserResponseDto,
   AuthResponseDto,
   UpdateUserResponseDto,
   TokenResponseDto,
+  SessionResponseDto,
+  SecurityEventResponseDto,
+  SigningKeyResponseDto,
+  MfaChallengeResponseDto,
+  MfaStatusResponseDto,
+  TotpSetupResponseDto,
+  RecoveryCodesResponseDto,
 } from "./response";
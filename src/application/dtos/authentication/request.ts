@@ -1,10 +1,16 @@
 import { z } from 'zod';
+import { CurrencyCodeSchema } from '../exchangeRate/request';
+import { TimeZoneSchema } from '../analytics/request';
+import { LocaleSchema } from '../transaction/request';
 
 export const CreateUserSchema = z.object({
   email: z.email('Invalid email format'),
   password: z.string().min(8, 'Password must be at least 8 characters'),
   firstName: z.string().min(1, 'First name is required'),
   lastName: z.string().min(1, 'Last name is required'),
+  baseCurrency: CurrencyCodeSchema.optional(),
+  timezone: TimeZoneSchema.optional(),
+  locale: LocaleSchema.optional(),
 });
 
 export const LoginUserSchema = z.object({
@@ -18,14 +24,68 @@ export const UpdateUserSchema = z.object({
   email: z.email().optional(),
   profilePicture: z.string().optional(),
   profileName: z.string().optional(),
+  baseCurrency: CurrencyCodeSchema.optional(),
+  timezone: TimeZoneSchema.optional(),
+  locale: LocaleSchema.optional(),
 });
 
 export const RefreshTokenSchema = z.object({
   token: z.string().min(1, 'Token is required'),
 });
 
+export const ForgotPasswordSchema = z.object({
+  email: z.email('Invalid email format'),
+});
+
+export const ResetPasswordSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+});
+
+export const VerifyEmailSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+});
+
+export const UnlockAccountSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+});
+
+export const ResendVerificationSchema = z.object({
+  email: z.email('Invalid email format'),
+});
+
+// A code from the authenticator app
+const TotpCodeSchema = z.string().regex(/^\d{6}$/, 'Code must be 6 digits');
+
+export const MfaLoginSchema = z.object({
+  mfaToken: z.string().min(1, 'MFA token is required'),
+  code: z.string().min(1, 'Code is required'), // authenticator or recovery code
+});
+
+export const ConfirmTotpSchema = z.object({
+  code: TotpCodeSchema,
+});
+
+export const DisableMfaSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+  code: z.string().min(1, 'Code is required'), // authenticator or recovery code
+});
+
+export const RegenerateRecoveryCodesSchema = z.object({
+  code: TotpCodeSchema,
+});
+
 // Inferred types for use throughout the app
 export type CreateUserDto = z.infer<typeof CreateUserSchema>;
 export type LoginUserDto = z.infer<typeof LoginUserSchema>;
 export type UpdateUserDto = z.infer<typeof UpdateUserSchema>;
 export type RefreshTokenDto = z.infer<typeof RefreshTokenSchema>;
+export type ForgotPasswordDto = z.infer<typeof ForgotPasswordSchema>;
+export type ResetPasswordDto = z.infer<typeof ResetPasswordSchema>;
+export type VerifyEmailDto = z.infer<typeof VerifyEmailSchema>;
+export type ResendVerificationDto = z.infer<typeof ResendVerificationSchema>;
+export type UnlockAccountDto = z.infer<typeof UnlockAccountSchema>;
+export type MfaLoginDto = z.infer<typeof MfaLoginSchema>;
+export type ConfirmTotpDto = z.infer<typeof ConfirmTotpSchema>;
+export type DisableMfaDto = z.infer<typeof DisableMfaSchema>;
+export type RegenerateRecoveryCodesDto = z.infer<typeof RegenerateRecoveryCodesSchema>;
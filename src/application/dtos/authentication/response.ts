@@ -5,6 +5,10 @@ export interface UserResponseDto {
   email: string;
   profilePicture?: string;
   profileName?: string;
+  isVerified?: boolean;
+  baseCurrency?: string;
+  timezone?: string;
+  locale?: string;
 }
 
 export interface AuthResponseDto extends UserResponseDto {
@@ -16,3 +20,50 @@ export type UpdateUserResponseDto = UserResponseDto;
 export interface TokenResponseDto {
   token: string;
 }
+
+export interface SessionResponseDto {
+  id: string;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean; // the session the request was made from
+}
+
+export interface SecurityEventResponseDto {
+  id: string;
+  type: string; // e.g. "account_locked", "account_unlocked", "refresh_token_reuse"
+  ip: string | null;
+  userAgent: string | null;
+  details: Record<string, unknown> | null;
+  createdAt: Date;
+}
+
+// A newly rotated-in signing key; only its public half ever leaves the API, through the JWKS
+export interface SigningKeyResponseDto {
+  kid: string;
+  algorithm: string; // "RS256" or "EdDSA"
+  createdAt: Date;
+}
+
+// Returned by login instead of credentials when the account has two-factor authentication
+export interface MfaChallengeResponseDto {
+  mfaRequired: true;
+  mfaToken: string;
+}
+
+export interface MfaStatusResponseDto {
+  enabled: boolean;
+  pending: boolean; // an authenticator app is being set up but has not been confirmed
+  recoveryCodesRemaining: number;
+}
+
+export interface TotpSetupResponseDto {
+  secret: string; // base32, for entering into the app by hand
+  otpauthUri: string; // for rendering as a QR code
+}
+
+export interface RecoveryCodesResponseDto {
+  recoveryCodes: string[];
+}
@@ -0,0 +1,3 @@
+export { CreateBudgetSchema, UpdateBudgetSchema, BudgetStatusQuerySchema } from "./request";
+export type { CreateBudgetDto, UpdateBudgetDto, BudgetStatusQueryDto } from "./request";
+export type { BudgetResponseDto, BudgetStatusResponseDto } from "./response";
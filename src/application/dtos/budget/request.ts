@@ -0,0 +1,41 @@
+import { z } from "zod";
+import { CreateTransactionSchema } from "../transaction/request";
+
+const AlertThresholdsSchema = z
+  .array(
+    z
+      .number()
+      .int("Thresholds must be whole percentages")
+      .min(1, "Thresholds must be at least 1%")
+      .max(1000, "Thresholds must be at most 1000%"),
+  )
+  .max(10, "At most 10 thresholds are allowed");
+
+export const CreateBudgetSchema = z.object({
+  categoryId: CreateTransactionSchema.shape.categoryId,
+  amount: CreateTransactionSchema.shape.amount,
+  currency: CreateTransactionSchema.shape.currency, // defaults to the user's base currency
+  period: z.enum(["weekly", "monthly", "yearly"], {
+    message: 'Period must be one of "weekly", "monthly" or "yearly"',
+  }),
+  startDate: z.coerce
+    .date()
+    .refine((date) => !isNaN(date.getTime()), { message: "Invalid start date" })
+    .optional(), // defaults to now
+  rollover: z.boolean().optional(),
+  alertThresholds: AlertThresholdsSchema.optional(), // defaults to BUDGET_ALERT_THRESHOLDS
+});
+
+export const UpdateBudgetSchema = CreateBudgetSchema.partial();
+
+export const BudgetStatusQuerySchema = z.object({
+  date: z.coerce
+    .date()
+    .refine((date) => !isNaN(date.getTime()), { message: "Invalid date" })
+    .optional(),
+});
+
+// Inferred types for use throughout the app
+export type CreateBudgetDto = z.infer<typeof CreateBudgetSchema>;
+export type UpdateBudgetDto = z.infer<typeof UpdateBudgetSchema>;
+export type BudgetStatusQueryDto = z.infer<typeof BudgetStatusQuerySchema>;
@@ -0,0 +1,25 @@
+export interface BudgetResponseDto {
+  id: string;
+  categoryId: string;
+  category: string; // category name, for display
+  amount: number;
+  currency: string;
+  period: "weekly" | "monthly" | "yearly";
+  startDate: Date;
+  rollover: boolean;
+  alertThresholds: number[];
+}
+
+export interface BudgetStatusResponseDto {
+  budget: BudgetResponseDto;
+  periodStart: Date;
+  periodEnd: Date; // exclusive
+  rolledOver: number; // unspent amount carried over from earlier periods
+  available: number; // amount + rolledOver
+  spent: number;
+  remaining: number; // negative when overspent
+  percentage: number; // spent as a percentage of available
+  thresholdsCrossed: number[];
+  status: "ok" | "warning" | "exceeded";
+  unconvertedCurrencies: string[]; // spending left out because no exchange rate was available
+}
@@ -0,0 +1,3 @@
+export { CreateCategorySchema, UpdateCategorySchema, CategoryQuerySchema } from "./request";
+export type { CreateCategoryDto, UpdateCategoryDto, CategoryQueryDto } from "./request";
+export type { CategoryResponseDto } from "./response";
@@ -0,0 +1,26 @@
+import { z } from "zod";
+
+const HEX_COLOUR = /^#[0-9a-fA-F]{6}$/;
+
+export const CreateCategorySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(50, "Name must be at most 50 characters"),
+  kind: z.enum(["income", "expense"], { message: 'Kind must be either "income" or "expense"' }),
+  parentId: z.uuid("Invalid parent category id").nullable().optional(),
+  color: z
+    .string()
+    .regex(HEX_COLOUR, "Color must be a hex value such as #FF8800")
+    .nullable()
+    .optional(),
+  icon: z.string().trim().min(1).max(50).nullable().optional(),
+});
+
+export const UpdateCategorySchema = CreateCategorySchema.partial();
+
+export const CategoryQuerySchema = z.object({
+  kind: CreateCategorySchema.shape.kind.optional(),
+});
+
+// Inferred types for use throughout the app
+export type CreateCategoryDto = z.infer<typeof CreateCategorySchema>;
+export type UpdateCategoryDto = z.infer<typeof UpdateCategorySchema>;
+export type CategoryQueryDto = z.infer<typeof CategoryQuerySchema>;
@@ -0,0 +1,8 @@
+export interface CategoryResponseDto {
+  id: string;
+  name: string;
+  kind: "income" | "expense";
+  parentId: string | null;
+  color: string | null;
+  icon: string | null;
+}
@@ -3,6 +3,7 @@ export interface ApiResponse<T> {
   code: number;
   data?: T;
   message?: string;
+  nextCursor?: string | null; // Only present on paginated list responses
 }
 
 export interface ApiErrorResponse<T> extends ApiResponse<T> {
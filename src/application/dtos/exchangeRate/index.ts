@@ -0,0 +1,8 @@
+export {
+  CurrencyCodeSchema,
+  ExchangeRateSnapshotSchema,
+  ImportExchangeRatesSchema,
+  ExchangeRateQuerySchema,
+} from "./request";
+export type { ExchangeRateSnapshotDto, ImportExchangeRatesDto, ExchangeRateQueryDto } from "./request";
+export type { ExchangeRateResponseDto, ImportExchangeRatesResponseDto } from "./response";
@@ -0,0 +1,38 @@
+import { z } from "zod";
+import { isSupportedCurrency } from "src/application/utils/currencyUtils";
+
+export const CurrencyCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .refine(isSupportedCurrency, { message: "Currency must be a valid ISO 4217 code" });
+
+export const ExchangeRateSnapshotSchema = z
+  .object({
+    base: CurrencyCodeSchema,
+    date: z.iso.date("Date must be formatted as YYYY-MM-DD"),
+    rates: z.record(CurrencyCodeSchema, z.number().positive("Rates must be positive")),
+  })
+  .refine((snapshot) => !(snapshot.base in snapshot.rates), {
+    message: "A snapshot cannot quote its own base currency",
+    path: ["rates"],
+  })
+  .refine((snapshot) => Object.keys(snapshot.rates).length > 0, {
+    message: "At least one rate is required",
+    path: ["rates"],
+  });
+
+export const ImportExchangeRatesSchema = z.object({
+  snapshots: z.array(ExchangeRateSnapshotSchema).min(1, "At least one snapshot is required"),
+});
+
+export const ExchangeRateQuerySchema = z.object({
+  base: CurrencyCodeSchema.optional(),
+  quote: CurrencyCodeSchema.optional(),
+  date: z.iso.date("Date must be formatted as YYYY-MM-DD").optional(),
+});
+
+// Inferred types for use throughout the app
+export type ExchangeRateSnapshotDto = z.infer<typeof ExchangeRateSnapshotSchema>;
+export type ImportExchangeRatesDto = z.infer<typeof ImportExchangeRatesSchema>;
+export type ExchangeRateQueryDto = z.infer<typeof ExchangeRateQuerySchema>;
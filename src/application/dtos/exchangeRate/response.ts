@@ -0,0 +1,10 @@
+export interface ExchangeRateResponseDto {
+  base: string;
+  quote: string;
+  rate: number;
+  date: string; // YYYY-MM-DD the rate applies from
+}
+
+export interface ImportExchangeRatesResponseDto {
+  imported: number;
+}
@@ -0,0 +1,19 @@
+export {
+  CsvMappingSchema,
+  StatementOptionsSchema,
+  ImportTransactionsSchema,
+  CreateImportMappingSchema,
+} from "./request";
+export type {
+  CsvMappingDto,
+  StatementOptionsDto,
+  ImportTransactionsDto,
+  CreateImportMappingDto,
+} from "./request";
+export type {
+  ImportRowErrorDto,
+  ImportRowDto,
+  ImportPreviewResponseDto,
+  ImportBatchResponseDto,
+  ImportMappingResponseDto,
+} from "./response";
@@ -0,0 +1,110 @@
+import { z } from "zod";
+import { CurrencyCodeSchema } from "../exchangeRate/request";
+import { STATEMENT_DATE_FORMATS } from "src/application/utils/statementUtils";
+
+// Columns are referenced by header name, or by zero-based position when there is no header
+const ColumnSchema = z.union([
+  z.string().trim().min(1, "Column names must not be empty"),
+  z.number().int().nonnegative("Column positions must not be negative"),
+]);
+
+// Fallbacks for values a statement does not carry, shared by every format
+const StatementDefaultsShape = {
+  currency: CurrencyCodeSchema.optional(), // fallback, defaults to the user's base currency
+  expenseCategoryId: z.uuid("Invalid category id").optional(), // used for rows without a category
+  incomeCategoryId: z.uuid("Invalid category id").optional(),
+};
+
+export const CsvMappingSchema = z
+  .object({
+    delimiter: z.enum([",", ";", "\t", "|"]).default(","),
+    hasHeader: z.boolean().default(true),
+    columns: z.object({
+      date: ColumnSchema,
+      description: ColumnSchema,
+      amount: ColumnSchema.optional(), // one signed amount column...
+      debit: ColumnSchema.optional(), // ...or separate money-out / money-in columns
+      credit: ColumnSchema.optional(),
+      currency: ColumnSchema.optional(),
+      category: ColumnSchema.optional(), // matched against category names
+    }),
+    dateFormat: z.enum(STATEMENT_DATE_FORMATS).default("YYYY-MM-DD"),
+    decimalSeparator: z.enum([".", ","]).default("."),
+    amountSign: z
+      .enum(["negative-is-expense", "positive-is-expense"], {
+        message: 'amountSign must be either "negative-is-expense" or "positive-is-expense"',
+      })
+      .default("negative-is-expense"),
+    ...StatementDefaultsShape,
+  })
+  .refine(
+    ({ columns }) =>
+      columns.amount !== undefined || columns.debit !== undefined || columns.credit !== undefined,
+    { message: "Map either an amount column or debit/credit columns", path: ["columns"] },
+  )
+  .refine(
+    ({ columns }) =>
+      columns.amount === undefined || (columns.debit === undefined && columns.credit === undefined),
+    { message: "An amount column cannot be combined with debit/credit columns", path: ["columns"] },
+  )
+  .refine(
+    ({ hasHeader, columns }) =>
+      hasHeader || Object.values(columns).every((column) => typeof column !== "string"),
+    {
+      message: "Columns must be referenced by position when there is no header",
+      path: ["columns"],
+    },
+  );
+
+// OFX dates and amounts are unambiguous; QIF follows the exporting program's locale
+export const StatementOptionsSchema = z.object({
+  dateFormat: z.enum(STATEMENT_DATE_FORMATS).default("MM/DD/YYYY"), // QIF only
+  decimalSeparator: z.enum([".", ","]).default("."), // QIF only
+  ...StatementDefaultsShape,
+});
+
+export const ImportTransactionsSchema = z
+  .object({
+    format: z
+      .enum(["csv", "ofx", "qfx", "qif"], {
+        message: 'Format must be one of "csv", "ofx", "qfx" or "qif"',
+      })
+      .default("csv"),
+    content: z.string().min(1, "File content is required"),
+    fileName: z.string().trim().min(1).max(255).optional(),
+    mapping: CsvMappingSchema.optional(), // CSV only
+    options: StatementOptionsSchema.optional(), // OFX, QFX and QIF only
+    mappingId: z.uuid("Invalid mapping id").optional(),
+    saveMappingAs: z.string().trim().min(1).max(100).optional(),
+    dryRun: z.boolean().default(true),
+    skipInvalidRows: z.boolean().default(false),
+  })
+  .refine(
+    (data) =>
+      data.format === "csv"
+        ? (data.mapping === undefined) !== (data.mappingId === undefined)
+        : data.mapping === undefined && data.mappingId === undefined,
+    {
+      message: "CSV imports need either a mapping or a mappingId; other formats take neither",
+      path: ["mapping"],
+    },
+  )
+  .refine((data) => data.format !== "csv" || data.options === undefined, {
+    message: "CSV imports take their options from the mapping",
+    path: ["options"],
+  })
+  .refine((data) => data.saveMappingAs === undefined || data.mapping !== undefined, {
+    message: "saveMappingAs requires an inline mapping",
+    path: ["saveMappingAs"],
+  });
+
+export const CreateImportMappingSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  mapping: CsvMappingSchema,
+});
+
+// Inferred types for use throughout the app
+export type CsvMappingDto = z.infer<typeof CsvMappingSchema>;
+export type StatementOptionsDto = z.infer<typeof StatementOptionsSchema>;
+export type ImportTransactionsDto = z.infer<typeof ImportTransactionsSchema>;
+export type CreateImportMappingDto = z.infer<typeof CreateImportMappingSchema>;
@@ -0,0 +1,41 @@
+import type { CreateTransactionDto } from "../transaction/request";
+import type { CsvMappingDto } from "./request";
+
+export interface ImportRowErrorDto {
+  field: string;
+  message: string;
+}
+
+export interface ImportRowDto {
+  row: number; // record number in the file; CSV files count the header
+  transaction: CreateTransactionDto | null; // null when the row has errors
+  duplicate: boolean; // already imported, matched by the bank's transaction id; skipped
+  errors: ImportRowErrorDto[];
+}
+
+export interface ImportPreviewResponseDto {
+  dryRun: boolean;
+  batchId: string | null; // set once the rows have been committed
+  mappingId: string | null; // set when the mapping was saved
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  duplicateRows: number;
+  rows: ImportRowDto[];
+}
+
+export interface ImportBatchResponseDto {
+  id: string;
+  source: string;
+  fileName: string | null;
+  transactionCount: number;
+  createdAt: Date;
+}
+
+export interface ImportMappingResponseDto {
+  id: string;
+  name: string;
+  mapping: CsvMappingDto;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -1,10 +1,80 @@
 export type { ApiResponse, ApiErrorResponse } from "./common";
-export type { CreateUserDto, LoginUserDto, UpdateUserDto } from "./authentication";
+export type {
+  CreateUserDto,
+  LoginUserDto,
+  UpdateUserDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  VerifyEmailDto,
+  ResendVerificationDto,
+  UnlockAccountDto,
+  MfaLoginDto,
+  ConfirmTotpDto,
+  DisableMfaDto,
+  RegenerateRecoveryCodesDto,
+} from "./authentication";
 export type {
   UserResponseDto,
   AuthResponseDto,
   UpdateUserResponseDto,
   TokenResponseDto,
+  SessionResponseDto,
+  SecurityEventResponseDto,
+  SigningKeyResponseDto,
+  MfaChallengeResponseDto,
+  MfaStatusResponseDto,
+  TotpSetupResponseDto,
+  RecoveryCodesResponseDto,
 } from "./authentication";
-export type { CreateTransactionDto, UpdateTransactionDto } from "./transaction";
-export type { TransactionResponseDto, UpdateTransactionResponseDto } from "./transaction";
+export type {
+  TransactionSplitDto,
+  CreateTransactionDto,
+  ReplaceTransactionDto,
+  UpdateTransactionDto,
+  TransactionQueryDto,
+  TransactionExportQueryDto,
+} from "./transaction";
+export type {
+  TransactionResponseDto,
+  TransactionSplitResponseDto,
+  UpdateTransactionResponseDto,
+  TrashedTransactionResponseDto,
+  TransactionHistoryEntryResponseDto,
+  TransactionExportDto,
+} from "./transaction";
+export type { CreateCategoryDto, UpdateCategoryDto, CategoryQueryDto } from "./category";
+export type { CategoryResponseDto } from "./category";
+export type { CreateTagDto, UpdateTagDto, TagResponseDto } from "./tag";
+export type { UploadAttachmentDto } from "./attachment";
+export type { AttachmentResponseDto, AttachmentFileDto } from "./attachment";
+export type {
+  ExchangeRateSnapshotDto,
+  ImportExchangeRatesDto,
+  ExchangeRateQueryDto,
+} from "./exchangeRate";
+export type { ExchangeRateResponseDto, ImportExchangeRatesResponseDto } from "./exchangeRate";
+export type { CreateRecurringTransactionDto, UpdateRecurringTransactionDto } from "./recurring";
+export type { RecurringTransactionResponseDto } from "./recurring";
+export type { CreateBudgetDto, UpdateBudgetDto, BudgetStatusQueryDto } from "./budget";
+export type { BudgetResponseDto, BudgetStatusResponseDto } from "./budget";
+export type { AnalyticsRangeDto, CategoryBreakdownQueryDto, CashFlowQueryDto } from "./analytics";
+export type {
+  AnalyticsSummaryResponseDto,
+  CategoryBreakdownItemDto,
+  CategoryBreakdownResponseDto,
+  CashFlowPointDto,
+  CashFlowResponseDto,
+} from "./analytics";
+export type {
+  CsvMappingDto,
+  StatementOptionsDto,
+  ImportTransactionsDto,
+  CreateImportMappingDto,
+} from "./import";
+export type {
+  ImportRowErrorDto,
+  ImportRowDto,
+  ImportPreviewResponseDto,
+  ImportBatchResponseDto,
+  ImportMappingResponseDto,
+} from "./import";
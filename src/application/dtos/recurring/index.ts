@@ -0,0 +1,3 @@
+export { CreateRecurringTransactionSchema, UpdateRecurringTransactionSchema } from "./request";
+export type { CreateRecurringTransactionDto, UpdateRecurringTransactionDto } from "./request";
+export type { RecurringTransactionResponseDto } from "./response";
@@ -0,0 +1,43 @@
+import { z } from "zod";
+import { CreateTransactionSchema } from "../transaction/request";
+
+const IntervalSchema = z.number().int().min(1, "Interval must be at least 1").max(366);
+
+const RecurringTransactionFields = z.object({
+  amount: CreateTransactionSchema.shape.amount,
+  currency: CreateTransactionSchema.shape.currency,
+  type: CreateTransactionSchema.shape.type,
+  categoryId: CreateTransactionSchema.shape.categoryId,
+  description: CreateTransactionSchema.shape.description,
+  frequency: z.enum(["daily", "weekly", "monthly", "yearly"], {
+    message: 'Frequency must be one of "daily", "weekly", "monthly" or "yearly"',
+  }),
+  interval: IntervalSchema.default(1),
+  startDate: z.coerce
+    .date()
+    .refine((date) => !isNaN(date.getTime()), { message: "Invalid start date" }),
+  endDate: z.coerce
+    .date()
+    .refine((date) => !isNaN(date.getTime()), { message: "Invalid end date" })
+    .nullable()
+    .optional(),
+  maxOccurrences: z.number().int().positive("maxOccurrences must be positive").nullable().optional(),
+});
+
+const endsAfterStart = (rule: { startDate?: Date; endDate?: Date | null }) =>
+  !rule.startDate || !rule.endDate || rule.endDate >= rule.startDate;
+
+export const CreateRecurringTransactionSchema = RecurringTransactionFields.refine(endsAfterStart, {
+  message: "endDate must be on or after startDate",
+  path: ["endDate"],
+});
+
+export const UpdateRecurringTransactionSchema = RecurringTransactionFields.extend({
+  interval: IntervalSchema, // no default, so a partial update leaves the interval alone
+})
+  .partial()
+  .refine(endsAfterStart, { message: "endDate must be on or after startDate", path: ["endDate"] });
+
+// Inferred types for use throughout the app
+export type CreateRecurringTransactionDto = z.infer<typeof CreateRecurringTransactionSchema>;
+export type UpdateRecurringTransactionDto = z.infer<typeof UpdateRecurringTransactionSchema>;
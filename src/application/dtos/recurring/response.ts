@@ -0,0 +1,17 @@
+export interface RecurringTransactionResponseDto {
+  id: string;
+  amount: number;
+  currency: string;
+  type: "income" | "expense";
+  categoryId: string;
+  category: string; // category name, for display
+  description: string;
+  frequency: "daily" | "weekly" | "monthly" | "yearly";
+  interval: number;
+  startDate: Date;
+  endDate: Date | null;
+  maxOccurrences: number | null;
+  nextRunAt: Date | null;
+  lastOccurrenceAt: Date | null;
+  status: "active" | "paused" | "completed";
+}
@@ -0,0 +1,9 @@
+export {
+  CreateTagSchema,
+  UpdateTagSchema,
+  TagNameSchema,
+  TagNamesSchema,
+  TagFilterFields,
+} from "./request";
+export type { CreateTagDto, UpdateTagDto } from "./request";
+export type { TagResponseDto } from "./response";
@@ -0,0 +1,47 @@
+import { z } from "zod";
+
+const HEX_COLOUR = /^#[0-9a-fA-F]{6}$/;
+
+// Commas separate tags in the `tag` query parameter, so they cannot be part of a name
+export const TagNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Tag name is required")
+  .max(50, "Tag name must be at most 50 characters")
+  .regex(/^[^,]+$/, "Tag name cannot contain commas");
+
+export const CreateTagSchema = z.object({
+  name: TagNameSchema,
+  color: z
+    .string()
+    .regex(HEX_COLOUR, "Color must be a hex value such as #FF8800")
+    .nullable()
+    .optional(),
+});
+
+export const UpdateTagSchema = CreateTagSchema.partial();
+
+// Tag names given to a transaction; tags the user does not have yet are created
+export const TagNamesSchema = z.array(TagNameSchema).max(20, "At most 20 tags can be given");
+
+/**
+ * Query fields filtering by tag. `tag` takes a comma-separated list or repeats; `tagMatch` decides
+ * whether a transaction needs any or all of the listed tags.
+ */
+export const TagFilterFields = {
+  tag: z
+    .union([z.string(), z.array(z.string())])
+    .transform((value) =>
+      (Array.isArray(value) ? value : [value])
+        .flatMap((names) => names.split(","))
+        .map((name) => name.trim())
+        .filter((name) => name.length > 0),
+    )
+    .pipe(TagNamesSchema.min(1, "tag must name at least one tag"))
+    .optional(),
+  tagMatch: z.enum(["any", "all"]).optional(), // defaults to "any"
+};
+
+// Inferred types for use throughout the app
+export type CreateTagDto = z.infer<typeof CreateTagSchema>;
+export type UpdateTagDto = z.infer<typeof UpdateTagSchema>;
@@ -0,0 +1,5 @@
+export interface TagResponseDto {
+  id: string;
+  name: string;
+  color: string | null;
+}
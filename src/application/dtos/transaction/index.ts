@@ -1,3 +1,25 @@
-export { CreateTransactionSchema, UpdateTransactionSchema } from "./request";
-export type { CreateTransactionDto, UpdateTransactionDto } from "./request";
-export type { TransactionResponseDto, UpdateTransactionResponseDto } from "./response";
+export {
+  CreateTransactionSchema,
+  ReplaceTransactionSchema,
+  UpdateTransactionSchema,
+  TransactionQuerySchema,
+  TransactionExportQuerySchema,
+  LocaleSchema,
+  EXPORT_COLUMNS,
+} from "./request";
+export type {
+  TransactionSplitDto,
+  CreateTransactionDto,
+  ReplaceTransactionDto,
+  UpdateTransactionDto,
+  TransactionQueryDto,
+  TransactionExportQueryDto,
+} from "./request";
+export type {
+  TransactionResponseDto,
+  TransactionSplitResponseDto,
+  UpdateTransactionResponseDto,
+  TrashedTransactionResponseDto,
+  TransactionHistoryEntryResponseDto,
+  TransactionExportDto,
+} from "./response";
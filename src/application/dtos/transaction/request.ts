@@ -1,26 +1,150 @@
 import { date, z } from "zod";
+import { CurrencyCodeSchema } from "../exchangeRate/request";
+import { TimeZoneSchema } from "../analytics/request";
+import { isSupportedLocale } from "src/application/utils/localeUtils";
+import { TagFilterFields, TagNamesSchema } from "../tag/request";
+
+export const TransactionSplitSchema = z.object({
+  categoryId: z.uuid("Invalid category id"),
+  amount: z.number().positive("Split amount must be positive"),
+  note: z.string().max(200, "Note must be at most 200 characters").optional(),
+});
+
+// Whether the lines add up to the transaction amount is checked by the Transaction entity
+const TransactionSplitsSchema = z
+  .array(TransactionSplitSchema)
+  .max(50, "A transaction can be split into at most 50 lines")
+  .refine((splits) => splits.length !== 1, {
+    message: "A split transaction needs at least two lines",
+  });
 
 export const CreateTransactionSchema = z.object({
   amount: z.number().positive("Amount must be positive"),
+  currency: CurrencyCodeSchema.optional(), // defaults to the user's base currency
   type: z.enum(["income", "expense"], { message: 'Type must be either "income" or "expense"' }),
-  category: z.string().min(1, "Category is required"),
+  categoryId: z.uuid("Invalid category id"),
   description: z.string().min(1, "Description is required"),
-  date: z.coerce
-    .date()
-    .refine((date) => !isNaN(date.getTime()), { message: "Invalid date format" }),
+  // z.coerce.date() turns null into 1970-01-01, while undefined becomes an invalid date
+  date: z.preprocess(
+    (value) => (value === null ? undefined : value),
+    z.coerce.date().refine((date) => !isNaN(date.getTime()), { message: "Invalid date format" }),
+  ),
+  splits: TransactionSplitsSchema.optional(),
+  tags: TagNamesSchema.optional(), // tag names; tags the user does not have yet are created
 });
 
-export const UpdateTransactionSchema = z.object({
-  amount: z.number().positive().optional(),
-  type: z.enum(["income", "expense"]).optional(),
-  category: z.string().min(1).optional(),
-  description: z.string().min(1).optional(),
-  date: z.coerce
+// PUT replaces the whole transaction, so it takes the same fields as a creation
+export const ReplaceTransactionSchema = CreateTransactionSchema;
+
+// A JSON Merge Patch (RFC 7396) of the creation fields: omitted fields are kept and null clears
+// an optional one, resetting the currency to the base currency or removing the split or the tags.
+// null is refused for the required fields
+export const UpdateTransactionSchema = CreateTransactionSchema.partial()
+  .extend({
+    currency: CurrencyCodeSchema.nullable().optional(),
+    splits: TransactionSplitsSchema.nullable().optional(), // replaces the lines
+    tags: TagNamesSchema.nullable().optional(), // replaces the tags
+    addTags: TagNamesSchema.optional(),
+    removeTags: TagNamesSchema.optional(), // applied before addTags, so a tag in both is kept
+  })
+  .refine((patch) => patch.tags === undefined || (!patch.addTags && !patch.removeTags), {
+    message: "tags cannot be combined with addTags or removeTags",
+    path: ["tags"],
+  });
+
+export const LocaleSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .refine(isSupportedLocale, { message: 'Unknown locale, expected a BCP 47 tag such as "en-GB"' });
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Filters and sort order shared by the list and export endpoints
+const TransactionFilterFields = {
+  from: z.coerce
     .date()
-    .refine((date) => !isNaN(date.getTime()), { message: "Invalid date format" })
+    .refine((date) => !isNaN(date.getTime()), { message: "Invalid from date" })
     .optional(),
-});
+  // A date without a time covers that whole day, so it is moved to the day's last millisecond
+  to: z
+    .preprocess(
+      (value) =>
+        typeof value === "string" && DATE_ONLY.test(value) ? `${value}T23:59:59.999Z` : value,
+      z.coerce.date().refine((date) => !isNaN(date.getTime()), { message: "Invalid to date" }),
+    )
+    .optional(),
+  type: CreateTransactionSchema.shape.type.optional(),
+  categoryId: z.uuid("Invalid category id").optional(),
+  currency: CurrencyCodeSchema.optional(),
+  minAmount: z.coerce.number().nonnegative("minAmount must not be negative").optional(),
+  maxAmount: z.coerce.number().nonnegative("maxAmount must not be negative").optional(),
+  search: z.string().trim().min(1).max(100).optional(),
+  ...TagFilterFields,
+  sortBy: z.enum(["date", "amount", "createdAt"]).default("date"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+};
+
+const hasOrderedDates = (query: { from?: Date; to?: Date }) =>
+  !query.from || !query.to || query.from <= query.to;
+
+const hasOrderedAmounts = (query: { minAmount?: number; maxAmount?: number }) =>
+  query.minAmount === undefined ||
+  query.maxAmount === undefined ||
+  query.minAmount <= query.maxAmount;
+
+export const TransactionQuerySchema = z
+  .object({
+    ...TransactionFilterFields,
+    limit: z.coerce.number().int().min(1).max(100).default(25),
+    cursor: z.string().min(1).optional(),
+  })
+  .refine(hasOrderedDates, { message: "from must be on or before to", path: ["from"] })
+  .refine(hasOrderedAmounts, {
+    message: "minAmount must be less than or equal to maxAmount",
+    path: ["minAmount"],
+  });
+
+export const EXPORT_COLUMNS = [
+  "date",
+  "description",
+  "category",
+  "type",
+  "amount",
+  "currency",
+  "convertedAmount",
+  "baseCurrency",
+  "note",
+  "id",
+] as const;
+
+export const TransactionExportQuerySchema = z
+  .object({
+    ...TransactionFilterFields,
+    format: z.enum(["csv", "json", "xlsx"]).default("csv"),
+    // Comma-separated, in the order the columns should appear; defaults to every column but the id
+    columns: z
+      .string()
+      .transform((value) => value.split(",").map((column) => column.trim()))
+      .pipe(
+        z
+          .array(z.enum(EXPORT_COLUMNS, { message: `Columns must be among ${EXPORT_COLUMNS}` }))
+          .min(1),
+      )
+      .optional(),
+    locale: LocaleSchema.optional(), // defaults to the user's locale
+    timezone: TimeZoneSchema.optional(), // defaults to the user's time zone
+  })
+  .refine(hasOrderedDates, { message: "from must be on or before to", path: ["from"] })
+  .refine(hasOrderedAmounts, {
+    message: "minAmount must be less than or equal to maxAmount",
+    path: ["minAmount"],
+  });
 
 // Inferred types for use throughout the app
+export type TransactionSplitDto = z.infer<typeof TransactionSplitSchema>;
 export type CreateTransactionDto = z.infer<typeof CreateTransactionSchema>;
+export type ReplaceTransactionDto = z.infer<typeof ReplaceTransactionSchema>;
 export type UpdateTransactionDto = z.infer<typeof UpdateTransactionSchema>;
+export type TransactionQueryDto = z.infer<typeof TransactionQuerySchema>;
+export type TransactionExportQueryDto = z.infer<typeof TransactionExportQuerySchema>;
@@ -1,10 +1,49 @@
+export interface TransactionSplitResponseDto {
+  categoryId: string;
+  category: string; // category name, for display
+  amount: number;
+  convertedAmount: number | null; // amount in the parent's baseCurrency
+  note: string | null;
+}
+
 export interface TransactionResponseDto {
   id: string;
   amount: number;
+  currency: string;
+  baseCurrency: string; // the user's reporting currency
+  convertedAmount: number | null; // amount in baseCurrency, null when no exchange rate is available
+  exchangeRate: number | null;
   type: "income" | "expense";
-  category: string;
+  categoryId: string;
+  category: string; // category name, for display
   description: string;
   date: Date;
+  recurringTransactionId: string | null; // set when generated by a recurring transaction
+  importBatchId: string | null; // set when created by a statement import
+  splits: TransactionSplitResponseDto[]; // empty unless the amount is split across categories
+  tags: string[]; // tag names, alphabetically
+  version: number; // starts the ETag; changes whenever the transaction is saved
 }
 
 export type UpdateTransactionResponseDto = TransactionResponseDto;
+
+export interface TrashedTransactionResponseDto extends TransactionResponseDto {
+  deletedAt: Date; // purged once it is older than the trash retention period
+}
+
+export interface TransactionHistoryEntryResponseDto {
+  version: number;
+  action: "created" | "updated" | "deleted" | "restored" | "reverted";
+  actorId: string | null; // null for changes made by background jobs
+  changes: Record<string, { from: unknown; to: unknown }>; // only the fields that changed
+  snapshot: Record<string, unknown>; // the transaction as it was after the change
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+}
+
+export interface TransactionExportDto {
+  fileName: string;
+  contentType: string;
+  content: AsyncIterable<string | Buffer>; // produced as it is read, one database page at a time
+}
@@ -47,6 +47,20 @@ export class ConflictError extends AppError {
   }
 }
 
+export class PreconditionFailedError extends AppError {
+  constructor(message: string = "Precondition Failed") {
+    super(message, 412);
+    Object.setPrototypeOf(this, PreconditionFailedError.prototype);
+  }
+}
+
+export class UnprocessableEntityError extends AppError {
+  constructor(message: string = "Unprocessable Entity") {
+    super(message, 422);
+    Object.setPrototypeOf(this, UnprocessableEntityError.prototype);
+  }
+}
+
 export class InternalServerError extends AppError {
   constructor(message: string = "Internal Server Error") {
     super(message, 500);
@@ -61,6 +75,13 @@ export class BadRequestError extends AppError {
   }
 }
 
+export class UnsupportedMediaTypeError extends AppError {
+  constructor(message: string = "Unsupported Media Type") {
+    super(message, 415);
+    Object.setPrototypeOf(this, UnsupportedMediaTypeError.prototype);
+  }
+}
+
 export class ServiceUnavailableError extends AppError {
   constructor(message: string = "Service Unavailable") {
     super(message, 503);
@@ -0,0 +1,42 @@
+import { Attachment } from "src/core/entities";
+import type { AttachmentResponseDto } from "../dtos";
+
+export class AttachmentMapper {
+  public static toDomainFromPersistence(raw: any): Attachment {
+    return Attachment.fromStorage({
+      id: raw.id,
+      transactionId: raw.transactionId,
+      fileName: raw.fileName,
+      contentType: raw.contentType,
+      size: raw.size,
+      storageKey: raw.storageKey,
+      thumbnailKey: raw.thumbnailKey ?? null,
+      createdAt: raw.createdAt,
+    });
+  }
+
+  public static toPersistence(domain: Attachment): any {
+    return {
+      id: domain.id,
+      transactionId: domain.transactionId,
+      fileName: domain.fileName,
+      contentType: domain.contentType,
+      size: domain.size,
+      storageKey: domain.storageKey,
+      thumbnailKey: domain.thumbnailKey,
+      createdAt: domain.createdAt,
+    };
+  }
+
+  public static toDto(domain: Attachment): AttachmentResponseDto {
+    return {
+      id: domain.id!,
+      transactionId: domain.transactionId,
+      fileName: domain.fileName,
+      contentType: domain.contentType,
+      size: domain.size,
+      hasThumbnail: domain.thumbnailKey !== null,
+      createdAt: domain.createdAt!,
+    };
+  }
+}
@@ -1,5 +1,6 @@
 import { Account, User } from "src/core/entities";
-import type { UserResponseDto } from "../dtos";
+import type { RefreshSession, SecurityEvent } from "src/core/interfaces";
+import type { SecurityEventResponseDto, SessionResponseDto, UserResponseDto } from "../dtos";
 
 export class AuthenticationMapper {
   public static toDomain(raw: any): User {
@@ -7,6 +8,9 @@ export class AuthenticationMapper {
       email: raw.email,
       firstName: raw.firstName,
       lastName: raw.lastName,
+      baseCurrency: raw.baseCurrency,
+      timezone: raw.timezone,
+      locale: raw.locale,
       ...(raw.password && { account: new Account(raw.password) }),
     });
   }
@@ -17,7 +21,12 @@ export class AuthenticationMapper {
       email: raw.email,
       firstName: raw.firstName,
       lastName: raw.lastName,
-      account: new Account(raw.account?.password || "", true),
+      account: new Account(raw.account?.password || "", true, raw.account?.isVerified ?? false),
+      profilePicture: raw.profilePicture ?? undefined,
+      profileName: raw.profileName ?? undefined,
+      baseCurrency: raw.baseCurrency,
+      timezone: raw.timezone,
+      locale: raw.locale,
       createdAt: raw.createdAt,
       updatedAt: raw.updatedAt,
     });
@@ -30,6 +39,11 @@ export class AuthenticationMapper {
       firstName: domain.firstName,
       lastName: domain.lastName,
       password: domain.account.getHashedPassword(),
+      profilePicture: domain.profilePicture ?? null,
+      profileName: domain.profileName ?? null,
+      baseCurrency: domain.baseCurrency,
+      timezone: domain.timezone,
+      locale: domain.locale,
       createdAt: domain.createdAt,
       updatedAt: domain.updatedAt,
     };
@@ -41,6 +55,38 @@ export class AuthenticationMapper {
       email: domain.email,
       firstName: domain.firstName,
       lastName: domain.lastName,
+      profilePicture: domain.profilePicture,
+      profileName: domain.profileName,
+      isVerified: domain.account?.isVerified,
+      baseCurrency: domain.baseCurrency,
+      timezone: domain.timezone,
+      locale: domain.locale,
+    };
+  }
+
+  public static toSessionDto(
+    session: RefreshSession,
+    currentSessionId?: string,
+  ): SessionResponseDto {
+    return {
+      id: session.id,
+      ip: session.ip,
+      userAgent: session.userAgent,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: session.id === currentSessionId,
+    };
+  }
+
+  public static toSecurityEventDto(event: SecurityEvent): SecurityEventResponseDto {
+    return {
+      id: event.id,
+      type: event.type,
+      ip: event.ip,
+      userAgent: event.userAgent,
+      details: event.details,
+      createdAt: event.createdAt,
     };
   }
 }
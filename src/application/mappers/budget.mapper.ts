@@ -0,0 +1,52 @@
+import { Budget } from "src/core/entities";
+import type { BudgetResponseDto } from "../dtos";
+import { CategoryMapper } from "./category.mapper";
+
+export class BudgetMapper {
+  public static toDomainFromPersistence(raw: any): Budget {
+    return Budget.fromStorage({
+      id: raw.id,
+      userId: raw.userId,
+      categoryId: raw.categoryId,
+      category: raw.category ? CategoryMapper.toDomainFromPersistence(raw.category) : undefined,
+      amount: Number(raw.amount), // stored as Decimal
+      currency: raw.currency,
+      period: raw.period,
+      startDate: raw.startDate,
+      rollover: raw.rollover,
+      alertThresholds: raw.alertThresholds ?? [],
+      createdAt: raw.createdAt,
+      updatedAt: raw.updatedAt,
+    });
+  }
+
+  public static toPersistence(domain: Budget): any {
+    return {
+      id: domain.id,
+      userId: domain.userId,
+      categoryId: domain.categoryId,
+      amount: domain.amount,
+      currency: domain.currency,
+      period: domain.period,
+      startDate: domain.startDate,
+      rollover: domain.rollover,
+      alertThresholds: domain.alertThresholds,
+      createdAt: domain.createdAt,
+      updatedAt: domain.updatedAt,
+    };
+  }
+
+  public static toDto(domain: Budget): BudgetResponseDto {
+    return {
+      id: domain.id!,
+      categoryId: domain.categoryId,
+      category: domain.category?.name ?? "",
+      amount: domain.amount,
+      currency: domain.currency,
+      period: domain.period,
+      startDate: domain.startDate,
+      rollover: domain.rollover,
+      alertThresholds: domain.alertThresholds,
+    };
+  }
+}
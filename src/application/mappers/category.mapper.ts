@@ -0,0 +1,44 @@
+import { Category } from "src/core/entities";
+import type { CategoryResponseDto } from "../dtos";
+
+export class CategoryMapper {
+  public static toDomainFromPersistence(raw: any): Category {
+    return Category.fromStorage({
+      id: raw.id,
+      userId: raw.userId,
+      name: raw.name,
+      kind: raw.kind,
+      parentId: raw.parentId ?? null,
+      color: raw.color ?? null,
+      icon: raw.icon ?? null,
+      createdAt: raw.createdAt,
+      updatedAt: raw.updatedAt,
+    });
+  }
+
+  public static toPersistence(domain: Category): any {
+    return {
+      id: domain.id,
+      userId: domain.userId,
+      name: domain.name,
+      normalizedName: domain.normalizedName,
+      kind: domain.kind,
+      parentId: domain.parentId,
+      color: domain.color,
+      icon: domain.icon,
+      createdAt: domain.createdAt,
+      updatedAt: domain.updatedAt,
+    };
+  }
+
+  public static toDto(domain: Category): CategoryResponseDto {
+    return {
+      id: domain.id!,
+      name: domain.name,
+      kind: domain.kind,
+      parentId: domain.parentId,
+      color: domain.color,
+      icon: domain.icon,
+    };
+  }
+}
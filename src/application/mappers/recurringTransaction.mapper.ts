@@ -0,0 +1,72 @@
+import { RecurringTransaction } from "src/core/entities";
+import type { RecurringTransactionResponseDto } from "../dtos";
+import { CategoryMapper } from "./category.mapper";
+
+export class RecurringTransactionMapper {
+  public static toDomainFromPersistence(raw: any): RecurringTransaction {
+    return RecurringTransaction.fromStorage({
+      id: raw.id,
+      userId: raw.userId,
+      amount: Number(raw.amount), // stored as Decimal
+      currency: raw.currency,
+      type: raw.type,
+      categoryId: raw.categoryId,
+      category: raw.category ? CategoryMapper.toDomainFromPersistence(raw.category) : undefined,
+      description: raw.description,
+      frequency: raw.frequency,
+      interval: raw.interval,
+      startDate: raw.startDate,
+      endDate: raw.endDate ?? null,
+      maxOccurrences: raw.maxOccurrences ?? null,
+      nextOccurrenceIndex: raw.nextOccurrenceIndex,
+      nextRunAt: raw.nextRunAt ?? null,
+      lastOccurrenceAt: raw.lastOccurrenceAt ?? null,
+      isPaused: raw.isPaused,
+      createdAt: raw.createdAt,
+      updatedAt: raw.updatedAt,
+    });
+  }
+
+  public static toPersistence(domain: RecurringTransaction): any {
+    return {
+      id: domain.id,
+      userId: domain.userId,
+      amount: domain.amount,
+      currency: domain.currency,
+      type: domain.type,
+      categoryId: domain.categoryId,
+      description: domain.description,
+      frequency: domain.frequency,
+      interval: domain.interval,
+      startDate: domain.startDate,
+      endDate: domain.endDate,
+      maxOccurrences: domain.maxOccurrences,
+      nextOccurrenceIndex: domain.nextOccurrenceIndex,
+      nextRunAt: domain.nextRunAt,
+      lastOccurrenceAt: domain.lastOccurrenceAt,
+      isPaused: domain.isPaused,
+      createdAt: domain.createdAt,
+      updatedAt: domain.updatedAt,
+    };
+  }
+
+  public static toDto(domain: RecurringTransaction): RecurringTransactionResponseDto {
+    return {
+      id: domain.id!,
+      amount: domain.amount,
+      currency: domain.currency,
+      type: domain.type?.toString() as "income" | "expense",
+      categoryId: domain.categoryId,
+      category: domain.category?.name ?? "",
+      description: domain.description,
+      frequency: domain.frequency,
+      interval: domain.interval,
+      startDate: domain.startDate,
+      endDate: domain.endDate,
+      maxOccurrences: domain.maxOccurrences,
+      nextRunAt: domain.nextRunAt,
+      lastOccurrenceAt: domain.lastOccurrenceAt,
+      status: domain.isCompleted ? "completed" : domain.isPaused ? "paused" : "active",
+    };
+  }
+}
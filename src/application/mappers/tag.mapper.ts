@@ -0,0 +1,52 @@
+import { Tag } from "src/core/entities";
+import type { TagFilter } from "src/core/interfaces";
+import type { TagResponseDto } from "../dtos";
+
+export class TagMapper {
+  public static toDomainFromPersistence(raw: any): Tag {
+    return Tag.fromStorage({
+      id: raw.id,
+      userId: raw.userId,
+      name: raw.name,
+      color: raw.color ?? null,
+      createdAt: raw.createdAt,
+      updatedAt: raw.updatedAt,
+    });
+  }
+
+  public static toPersistence(domain: Tag): any {
+    return {
+      id: domain.id,
+      userId: domain.userId,
+      name: domain.name,
+      normalizedName: domain.normalizedName,
+      color: domain.color,
+      createdAt: domain.createdAt,
+      updatedAt: domain.updatedAt,
+    };
+  }
+
+  /**
+   * Turns the `tag` and `tagMatch` query fields into a filter on normalized tag names.
+   */
+  public static toFilter(query: {
+    tag?: string[];
+    tagMatch?: TagFilter["match"];
+  }): TagFilter | undefined {
+    if (!query.tag) {
+      return undefined;
+    }
+    return {
+      names: [...new Set(query.tag.map(Tag.normalizeName))],
+      match: query.tagMatch ?? "any",
+    };
+  }
+
+  public static toDto(domain: Tag): TagResponseDto {
+    return {
+      id: domain.id!,
+      name: domain.name,
+      color: domain.color,
+    };
+  }
+}
@@ -1,15 +1,49 @@
-import { Transaction } from "src/core/entities";
-import type { TransactionResponseDto, UpdateTransactionDto } from "../dtos";
+import { Transaction, type TransactionSplit } from "src/core/entities";
+import { roundAmount } from "src/application/utils/currencyUtils";
+import type {
+  AuditContext,
+  TransactionChanges,
+  TransactionHistoryAction,
+  TransactionHistoryEntry,
+  TransactionSnapshot,
+} from "src/core/interfaces";
+import type {
+  TransactionHistoryEntryResponseDto,
+  TransactionResponseDto,
+  UpdateTransactionDto,
+} from "../dtos";
+import { CategoryMapper } from "./category.mapper";
+import { TagMapper } from "./tag.mapper";
+
+export interface TransactionConversion {
+  baseCurrency: string;
+  convertedAmount: number | null;
+  exchangeRate: number | null;
+}
 
 export class TransactionMapper {
   public static toDomain(raw: any): Transaction {
     return Transaction.create({
       userId: raw.userId,
       amount: raw.amount,
+      currency: raw.currency,
       type: raw.type,
-      category: raw.category,
+      categoryId: raw.categoryId,
       description: raw.description,
       date: raw.date,
+      recurringTransactionId: raw.recurringTransactionId,
+      occurrenceDate: raw.occurrenceDate,
+      importBatchId: raw.importBatchId,
+      externalId: raw.externalId,
+      splits: (raw.splits ?? []).map(
+        (split: any): TransactionSplit => ({
+          categoryId: split.categoryId,
+          category: split.category,
+          amount: split.amount,
+          note: split.note ?? null,
+        }),
+      ),
+      tags: raw.tags ?? [],
     });
   }
 
@@ -17,11 +51,30 @@ export class TransactionMapper {
     return Transaction.fromStorage({
       id: raw.id,
       userId: raw.userId,
-      amount: raw.amount,
+      amount: Number(raw.amount), // stored as Decimal
+      currency: raw.currency,
       type: raw.type,
-      category: raw.category,
+      categoryId: raw.categoryId,
+      category: raw.category ? CategoryMapper.toDomainFromPersistence(raw.category) : undefined,
       description: raw.description,
       date: raw.date,
+      recurringTransactionId: raw.recurringTransactionId ?? null,
+      occurrenceDate: raw.occurrenceDate ?? null,
+      importBatchId: raw.importBatchId ?? null,
+      externalId: raw.externalId ?? null,
+      splits: (raw.splits ?? []).map(
+        (split: any): TransactionSplit => ({
+          categoryId: split.categoryId,
+          category: split.category
+            ? CategoryMapper.toDomainFromPersistence(split.category)
+            : undefined,
+          amount: Number(split.amount), // stored as Decimal
+          note: split.note ?? null,
+        }),
+      ),
+      tags: (raw.tags ?? []).map((link: any) => TagMapper.toDomainFromPersistence(link.tag)),
+      deletedAt: raw.deletedAt ?? null,
+      version: raw.version,
       createdAt: raw.createdAt,
       updatedAt: raw.updatedAt,
     });
@@ -32,23 +85,137 @@ export class TransactionMapper {
       id: domain.id,
       userId: domain.userId,
       amount: domain.amount,
+      currency: domain.currency,
       type: domain.type,
-      category: domain.category,
+      categoryId: domain.categoryId,
       description: domain.description,
       date: domain.date,
+      recurringTransactionId: domain.recurringTransactionId,
+      occurrenceDate: domain.occurrenceDate,
+      importBatchId: domain.importBatchId,
+      externalId: domain.externalId,
+      deletedAt: domain.deletedAt,
+      version: domain.version,
       createdAt: domain.createdAt,
       updatedAt: domain.updatedAt,
     };
   }
 
-  public static toDto(domain: Transaction): TransactionResponseDto | UpdateTransactionDto {
+  /**
+   * The split lines as nested create input; the position keeps them in the order they were given.
+   */
+  public static toSplitPersistence(domain: Transaction): any[] {
+    return domain.splits.map((split, position) => ({
+      categoryId: split.categoryId,
+      amount: split.amount,
+      note: split.note,
+      position,
+    }));
+  }
+
+  public static toTagPersistence(domain: Transaction): any[] {
+    return domain.tags.map((tag) => ({ tagId: tag.id }));
+  }
+
+  public static toDto(
+    domain: Transaction,
+    conversion?: TransactionConversion,
+  ): TransactionResponseDto | UpdateTransactionDto {
     return {
-      id: domain.id,
+      id: domain.id!,
       amount: domain.amount,
+      currency: domain.currency,
+      baseCurrency: conversion?.baseCurrency ?? domain.currency,
+      convertedAmount: conversion ? conversion.convertedAmount : domain.amount,
+      exchangeRate: conversion ? conversion.exchangeRate : 1,
       type: domain.type?.toString() as "income" | "expense",
-      category: domain.category.toString(),
+      categoryId: domain.categoryId,
+      category: domain.category?.name ?? "",
       description: domain.description,
       date: domain.date,
+      recurringTransactionId: domain.recurringTransactionId,
+      importBatchId: domain.importBatchId,
+      splits: domain.splits.map((split) => ({
+        categoryId: split.categoryId,
+        category: split.category?.name ?? "",
+        amount: split.amount,
+        convertedAmount: !conversion
+          ? split.amount
+          : conversion.exchangeRate === null
+            ? null
+            : roundAmount(split.amount * conversion.exchangeRate),
+        note: split.note,
+      })),
+      tags: domain.tags.map((tag) => tag.name),
+      version: domain.version,
+    };
+  }
+
+  /**
+   * The user-editable state of a transaction, as recorded in its change history.
+   */
+  public static toSnapshot(domain: Transaction): TransactionSnapshot {
+    return {
+      amount: domain.amount,
+      currency: domain.currency,
+      type: domain.type?.toString(),
+      categoryId: domain.categoryId,
+      description: domain.description,
+      date: domain.date ? new Date(domain.date).toISOString() : null,
+      splits: domain.splits.map((split) => ({
+        categoryId: split.categoryId,
+        amount: split.amount,
+        note: split.note,
+      })),
+      tags: domain.tags.map((tag) => tag.name).sort((a, b) => a.localeCompare(b)),
+      deletedAt: domain.deletedAt ? domain.deletedAt.toISOString() : null,
+    };
+  }
+
+  /**
+   * The history entry of a change: the transaction's new state and the fields that differ from
+   * `before`. Null when the change leaves every recorded field as it was.
+   */
+  public static toHistoryEntry(
+    action: TransactionHistoryAction,
+    before: TransactionSnapshot | null,
+    transaction: Transaction,
+    context: AuditContext,
+  ): Omit<TransactionHistoryEntry, "id" | "createdAt"> | null {
+    const snapshot = TransactionMapper.toSnapshot(transaction);
+    const changes: TransactionChanges = {};
+    for (const field of Object.keys(snapshot) as (keyof TransactionSnapshot)[]) {
+      const from = before ? before[field] : null;
+      if (JSON.stringify(from) !== JSON.stringify(snapshot[field])) {
+        changes[field] = { from, to: snapshot[field] };
+      }
+    }
+    if (before && Object.keys(changes).length === 0) {
+      return null;
+    }
+
+    return {
+      transactionId: transaction.id!,
+      version: transaction.version,
+      action,
+      changes,
+      snapshot,
+      actorId: context.actorId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    };
+  }
+
+  public static toHistoryDto(entry: TransactionHistoryEntry): TransactionHistoryEntryResponseDto {
+    return {
+      version: entry.version,
+      action: entry.action,
+      actorId: entry.actorId,
+      changes: entry.changes,
+      snapshot: { ...entry.snapshot },
+      ipAddress: entry.ipAddress,
+      userAgent: entry.userAgent,
+      createdAt: entry.createdAt,
     };
   }
 }
@@ -0,0 +1,24 @@
+import type { ImportBatch, ImportMapping } from "src/core/interfaces";
+import type { CsvMappingDto, ImportBatchResponseDto, ImportMappingResponseDto } from "../dtos";
+
+export class TransactionImportMapper {
+  public static toBatchDto(batch: ImportBatch): ImportBatchResponseDto {
+    return {
+      id: batch.id,
+      source: batch.source,
+      fileName: batch.fileName,
+      transactionCount: batch.transactionCount,
+      createdAt: batch.createdAt,
+    };
+  }
+
+  public static toMappingDto(mapping: ImportMapping): ImportMappingResponseDto {
+    return {
+      id: mapping.id,
+      name: mapping.name,
+      mapping: mapping.mapping as unknown as CsvMappingDto,
+      createdAt: mapping.createdAt,
+      updatedAt: mapping.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,250 @@
+import type {
+  ICategoryRepository,
+  ITransactionRepository,
+  IUserRepository,
+  TransactionBucket,
+  TransactionRange,
+  TransactionTypeTotal,
+} from "src/core/interfaces";
+import type {
+  AnalyticsRangeDto,
+  AnalyticsSummaryResponseDto,
+  CashFlowPointDto,
+  CashFlowQueryDto,
+  CashFlowResponseDto,
+  CategoryBreakdownQueryDto,
+  CategoryBreakdownResponseDto,
+} from "../dtos";
+import { BadRequestError, NotFoundError } from "../errors";
+import { nextDay, startOfDayInZone, toDay } from "src/application/utils/timezoneUtils";
+import { periodStart, shiftPeriod, type CalendarPeriod } from "src/application/utils/periodUtils";
+import { roundAmount } from "src/application/utils/currencyUtils";
+import type { CurrencyConverter, ExchangeRateService } from "./exchangeRate.service";
+import { TagMapper } from "../mappers/tag.mapper";
+
+const BUCKET_PERIODS: Record<TransactionBucket, CalendarPeriod> = {
+  day: "daily",
+  week: "weekly",
+  month: "monthly",
+  year: "yearly",
+};
+
+interface AnalyticsContext {
+  range: TransactionRange;
+  from: string;
+  to: string;
+  timezone: string;
+  currency: string;
+  convert: CurrencyConverter;
+  unconverted: Set<string>;
+}
+
+/**
+ * Reporting over a user's transactions. Totals are aggregated in the database per currency and converted
+ * into the user's base currency at the rate on the last day of each range or bucket.
+ */
+export class AnalyticsService {
+  // Keeps a cash flow series to a size a chart can use, e.g. a little under three years of days
+  private readonly MAX_SERIES_POINTS = 1000;
+
+  private transactionRepository: ITransactionRepository;
+  private categoryRepository: ICategoryRepository;
+  private userRepository: IUserRepository;
+  private exchangeRateService: ExchangeRateService;
+  constructor(
+    transactionRepository: ITransactionRepository,
+    categoryRepository: ICategoryRepository,
+    userRepository: IUserRepository,
+    exchangeRateService: ExchangeRateService,
+  ) {
+    this.transactionRepository = transactionRepository;
+    this.categoryRepository = categoryRepository;
+    this.userRepository = userRepository;
+    this.exchangeRateService = exchangeRateService;
+  }
+
+  async getSummary(
+    query: AnalyticsRangeDto,
+    userId: string,
+  ): Promise<AnalyticsSummaryResponseDto> {
+    const context = await this.createContext(query, userId);
+    const totals = await this.transactionRepository.sumByType(context.range);
+
+    const rateDate = this.rateDateFor(context.range.to);
+    const income = await this.sumConverted(context, totals, "income", rateDate);
+    const expense = await this.sumConverted(context, totals, "expense", rateDate);
+
+    return {
+      ...this.describeRange(context),
+      income,
+      expense,
+      net: roundAmount(income - expense),
+      transactionCount: totals.reduce((count, total) => count + total.count, 0),
+    };
+  }
+
+  async getCategoryBreakdown(
+    query: CategoryBreakdownQueryDto,
+    userId: string,
+  ): Promise<CategoryBreakdownResponseDto> {
+    const context = await this.createContext(query, userId);
+    const [totals, categories] = await Promise.all([
+      this.transactionRepository.sumByCategory(context.range, query.type),
+      this.categoryRepository.getByUserId(userId),
+    ]);
+
+    const rateDate = this.rateDateFor(context.range.to);
+    const byCategory = new Map<string, { amount: number; count: number }>();
+    for (const total of totals) {
+      const entry = byCategory.get(total.categoryId) ?? { amount: 0, count: 0 };
+      entry.amount += await this.convertTotal(context, total, rateDate);
+      entry.count += total.count;
+      byCategory.set(total.categoryId, entry);
+    }
+
+    const grandTotal = roundAmount(
+      [...byCategory.values()].reduce((sum, entry) => sum + entry.amount, 0),
+    );
+    const categoriesById = new Map(categories.map((category) => [category.id!, category]));
+
+    return {
+      ...this.describeRange(context),
+      type: query.type,
+      total: grandTotal,
+      categories: [...byCategory.entries()]
+        .map(([categoryId, entry]) => ({
+          categoryId,
+          category: categoriesById.get(categoryId)?.name ?? "",
+          parentId: categoriesById.get(categoryId)?.parentId ?? null,
+          amount: roundAmount(entry.amount),
+          percentage: grandTotal > 0 ? Math.round((entry.amount / grandTotal) * 1000) / 10 : 0,
+          transactionCount: entry.count,
+        }))
+        .sort((a, b) => b.amount - a.amount),
+    };
+  }
+
+  async getCashFlow(query: CashFlowQueryDto, userId: string): Promise<CashFlowResponseDto> {
+    const context = await this.createContext(query, userId);
+    const period = BUCKET_PERIODS[query.interval];
+
+    // Bucket starts as UTC-based calendar dates, matching the local dates the database groups by
+    const first = periodStart(period, new Date(`${context.from}T00:00:00Z`));
+    const last = new Date(`${context.to}T00:00:00Z`);
+    const buckets: string[] = [];
+    for (let start = first; start <= last; start = shiftPeriod(period, start, 1)) {
+      if (buckets.length === this.MAX_SERIES_POINTS) {
+        const limit = `${this.MAX_SERIES_POINTS} ${query.interval}s`;
+        throw new BadRequestError(`The range has more than ${limit}, use a longer interval`);
+      }
+      buckets.push(toDay(start));
+    }
+
+    const totals = await this.transactionRepository.sumByBucket(
+      context.range,
+      query.interval,
+      context.timezone,
+    );
+
+    let cumulativeNet = 0;
+    const series: CashFlowPointDto[] = [];
+    for (const bucket of buckets) {
+      const bucketTotals = totals.filter((total) => total.bucket === bucket);
+      const bucketEnd = startOfDayInZone(
+        toDay(shiftPeriod(period, new Date(`${bucket}T00:00:00Z`), 1)),
+        context.timezone,
+      );
+      const rateDate = this.rateDateFor(
+        bucketEnd < context.range.to ? bucketEnd : context.range.to,
+      );
+
+      const income = await this.sumConverted(context, bucketTotals, "income", rateDate);
+      const expense = await this.sumConverted(context, bucketTotals, "expense", rateDate);
+      const net = roundAmount(income - expense);
+      cumulativeNet = roundAmount(cumulativeNet + net);
+
+      series.push({ period: bucket, income, expense, net, cumulativeNet });
+    }
+
+    return {
+      ...this.describeRange(context),
+      interval: query.interval,
+      series,
+    };
+  }
+
+  /**
+   * Resolves the user's currency and time zone and turns the requested calendar days into UTC instants,
+   * so the range covers whole days in the user's time zone. A tag filter narrows every total.
+   */
+  private async createContext(
+    query: AnalyticsRangeDto,
+    userId: string,
+  ): Promise<AnalyticsContext> {
+    const user = await this.userRepository.getById(userId);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    const timezone = query.timezone ?? user.timezone;
+    return {
+      range: {
+        userId,
+        from: startOfDayInZone(query.from, timezone),
+        to: startOfDayInZone(nextDay(query.to), timezone),
+        tags: TagMapper.toFilter(query),
+      },
+      from: query.from,
+      to: query.to,
+      timezone,
+      currency: user.baseCurrency,
+      convert: this.exchangeRateService.createConverter(user.baseCurrency),
+      unconverted: new Set<string>(),
+    };
+  }
+
+  private describeRange(context: AnalyticsContext) {
+    return {
+      from: context.from,
+      to: context.to,
+      timezone: context.timezone,
+      currency: context.currency,
+      unconvertedCurrencies: [...context.unconverted].sort(),
+    };
+  }
+
+  private async sumConverted(
+    context: AnalyticsContext,
+    totals: TransactionTypeTotal[],
+    type: "income" | "expense",
+    on: Date,
+  ): Promise<number> {
+    let sum = 0;
+    for (const total of totals) {
+      if (total.type === type) {
+        sum += await this.convertTotal(context, total, on);
+      }
+    }
+    return roundAmount(sum);
+  }
+
+  private async convertTotal(
+    context: AnalyticsContext,
+    total: TransactionTypeTotal,
+    on: Date,
+  ): Promise<number> {
+    const conversion = await context.convert(total.amount, total.currency, on);
+    if (!conversion) {
+      context.unconverted.add(total.currency);
+      return 0;
+    }
+    return conversion.amount;
+  }
+
+  /**
+   * Rates are taken on the last day of a range or bucket, or today while it is still running.
+   */
+  private rateDateFor(end: Date): Date {
+    return new Date(Math.min(end.getTime() - 1, Date.now()));
+  }
+}
@@ -0,0 +1,194 @@
+import { randomUUID } from "crypto";
+import type {
+  IAttachmentRepository,
+  IFileStorage,
+  ITransactionRepository,
+} from "src/core/interfaces";
+import { Attachment } from "src/core/entities";
+import type { AttachmentFileDto, AttachmentResponseDto, UploadAttachmentDto } from "../dtos";
+import { AttachmentMapper } from "../mappers/attachment.mapper";
+import { BadRequestError, NotFoundError, UnsupportedMediaTypeError } from "../errors";
+import { ATTACHMENT_CONTENT_TYPES, detectContentType } from "src/application/utils/fileTypeUtils";
+import { createThumbnail } from "src/application/utils/thumbnailUtils";
+import { logger } from "src/api/middleware/index.js";
+
+export class AttachmentService {
+  private readonly MAX_ATTACHMENTS_PER_TRANSACTION = 10;
+
+  private transactionRepository: ITransactionRepository;
+  private attachmentRepository: IAttachmentRepository;
+  private fileStorage: IFileStorage;
+
+  constructor(
+    transactionRepository: ITransactionRepository,
+    attachmentRepository: IAttachmentRepository,
+    fileStorage: IFileStorage,
+  ) {
+    this.transactionRepository = transactionRepository;
+    this.attachmentRepository = attachmentRepository;
+    this.fileStorage = fileStorage;
+  }
+
+  async fetchAttachments(transactionId: string, userId: string): Promise<AttachmentResponseDto[]> {
+    await this.assertTransactionAccess(transactionId, userId);
+
+    const attachments = await this.attachmentRepository.getByTransactionId(transactionId);
+    return attachments.map(AttachmentMapper.toDto);
+  }
+
+  /**
+   * Stores an uploaded file against a transaction. The type is sniffed from the content and only
+   * images and PDFs are accepted; a thumbnail is generated for images where possible.
+   */
+  async uploadAttachment(
+    transactionId: string,
+    upload: UploadAttachmentDto,
+    userId: string,
+  ): Promise<AttachmentResponseDto> {
+    await this.assertTransactionAccess(transactionId, userId);
+
+    if (upload.content.length === 0) {
+      throw new BadRequestError("The uploaded file is empty");
+    }
+
+    const contentType = detectContentType(upload.content);
+    if (!contentType) {
+      throw new UnsupportedMediaTypeError(
+        `Attachments must be one of: ${ATTACHMENT_CONTENT_TYPES.join(", ")}`,
+      );
+    }
+
+    const count = await this.attachmentRepository.countByTransactionId(transactionId);
+    if (count >= this.MAX_ATTACHMENTS_PER_TRANSACTION) {
+      throw new BadRequestError(
+        `A transaction can have at most ${this.MAX_ATTACHMENTS_PER_TRANSACTION} attachments`,
+      );
+    }
+
+    const storageKey = `${userId}/${transactionId}/${randomUUID()}`;
+    const thumbnail = createThumbnail(upload.content, contentType);
+    const thumbnailKey = thumbnail ? `${storageKey}.thumbnail` : null;
+
+    await this.fileStorage.put(storageKey, upload.content, contentType);
+    if (thumbnail && thumbnailKey) {
+      await this.fileStorage.put(thumbnailKey, thumbnail, contentType);
+    }
+
+    const attachment = Attachment.create({
+      transactionId,
+      fileName: upload.fileName,
+      contentType,
+      size: upload.content.length,
+      storageKey,
+      thumbnailKey,
+    });
+
+    try {
+      const saved = await this.attachmentRepository.save(attachment);
+      return AttachmentMapper.toDto(saved);
+    } catch (error) {
+      await this.removeFiles([attachment]);
+      throw error;
+    }
+  }
+
+  /**
+   * Opens a stored attachment, or its thumbnail, for download.
+   */
+  async fetchAttachmentFile(
+    transactionId: string,
+    attachmentId: string,
+    userId: string,
+    variant: "original" | "thumbnail" = "original",
+  ): Promise<AttachmentFileDto> {
+    const attachment = await this.getAttachment(transactionId, attachmentId, userId);
+
+    const key = variant === "thumbnail" ? attachment.thumbnailKey : attachment.storageKey;
+    if (!key) {
+      throw new NotFoundError("Attachment has no thumbnail");
+    }
+
+    const file = await this.fileStorage.get(key);
+    if (!file) {
+      throw new NotFoundError("Attachment file not found");
+    }
+
+    return {
+      fileName: attachment.fileName,
+      // Thumbnails keep the format of the image they were made from
+      contentType: attachment.contentType,
+      size: file.size,
+      content: file.content,
+    };
+  }
+
+  async deleteAttachment(transactionId: string, attachmentId: string, userId: string) {
+    const attachment = await this.getAttachment(transactionId, attachmentId, userId);
+
+    await this.attachmentRepository.delete(attachment.id!);
+    await this.removeFiles([attachment]);
+  }
+
+  /**
+   * Removes every attachment of a transaction that is about to be deleted. The caller has already
+   * checked that the transaction belongs to the user.
+   */
+  async deleteTransactionAttachments(transactionId: string): Promise<void> {
+    const attachments = await this.attachmentRepository.getByTransactionId(transactionId);
+    if (attachments.length === 0) {
+      return;
+    }
+
+    await this.attachmentRepository.deleteByTransactionId(transactionId);
+    await this.removeFiles(attachments);
+  }
+
+  /**
+   * Removes every attachment of a user who is about to be deleted, so their files do not outlive
+   * the account.
+   */
+  async deleteUserAttachments(userId: string): Promise<void> {
+    const attachments = await this.attachmentRepository.getByUserId(userId);
+    if (attachments.length === 0) {
+      return;
+    }
+
+    await this.attachmentRepository.deleteByUserId(userId);
+    await this.removeFiles(attachments);
+  }
+
+  private async getAttachment(
+    transactionId: string,
+    attachmentId: string,
+    userId: string,
+  ): Promise<Attachment> {
+    await this.assertTransactionAccess(transactionId, userId);
+
+    const attachment = await this.attachmentRepository.getById(attachmentId, transactionId);
+    if (!attachment) {
+      throw new NotFoundError("Attachment not found");
+    }
+    return attachment;
+  }
+
+  // Attachments are only reachable through a transaction the user owns
+  private async assertTransactionAccess(transactionId: string, userId: string) {
+    const transaction = await this.transactionRepository.getById(transactionId, userId);
+    if (!transaction) {
+      throw new NotFoundError("Transaction not found");
+    }
+  }
+
+  // Best effort: a file that cannot be removed is logged as orphaned instead of failing the request
+  private async removeFiles(attachments: Attachment[]) {
+    const keys = attachments.flatMap(({ storageKey, thumbnailKey }) =>
+      thumbnailKey ? [storageKey, thumbnailKey] : [storageKey],
+    );
+    const results = await Promise.allSettled(keys.map((key) => this.fileStorage.delete(key)));
+    results.forEach((result, index) => {
+      if (result.status === "rejected") {
+        logger.warn(`Failed to delete stored file ${keys[index]}`, { error: result.reason });
+      }
+    });
+  }
+}
@@ -1,32 +1,94 @@
 import { randomUUID } from "crypto";
-import type { User } from "src/core/entities";
-import type { IUserRepository, ITokenRepository } from "../../core/interfaces";
-import type { AuthResponseDto, CreateUserDto, TokenResponseDto, UserResponseDto } from "../dtos";
+import { Account, DEFAULT_CATEGORIES, type User } from "src/core/entities";
+import type {
+  IUserRepository,
+  ITokenRepository,
+  IEmailService,
+  ICategoryRepository,
+  ISecurityEventRepository,
+} from "../../core/interfaces";
+import type {
+  AuthResponseDto,
+  CreateUserDto,
+  SecurityEventResponseDto,
+  SessionResponseDto,
+  TokenResponseDto,
+  UserResponseDto,
+} from "../dtos";
 import { AuthenticationMapper } from "../mappers/authentication.mapper";
+import type { MfaService } from "./mfa.service";
+import type { LoginThrottleService } from "./loginThrottle.service";
+import type { SigningKeyService } from "./signingKey.service";
 import { signJwt, verifyJwt } from "src/api/utils/jwtUtils";
 import { parseExpiryToMs } from "src/api/utils/timeUtils";
+import { generateOpaqueToken, hashToken } from "src/application/utils/tokenUtils";
 import type { JwtPayload } from "jsonwebtoken";
 import { ENVIRONMENT_CONFIG } from "@config";
-import { NotFoundError, UnauthorizedError } from "../errors";
+import { logger } from "src/api/middleware/index.js";
+import { BadRequestError, ForbiddenError, NotFoundError, UnauthorizedError } from "../errors";
 
 interface JwtPayloadWithRid extends JwtPayload {
   rid: string;
 }
 
+// The device a session is signed in from, as reported by the request
+interface ClientInfo {
+  ip?: string;
+  userAgent?: string;
+}
+
+// Either a signed-in session, or a challenge to answer with a second factor
+type LoginResult =
+  | { authUser: AuthResponseDto; refreshToken: string; mfaToken?: undefined }
+  | { mfaToken: string; authUser?: undefined; refreshToken?: undefined };
+
 export class AuthenticationService {
   private readonly CONVERT_TO_SECONDS = 1000;
   private readonly TOKEN_EXPIRY_SECONDS =
     parseExpiryToMs(ENVIRONMENT_CONFIG.ACCESS_TOKEN_EXPIRATION) / this.CONVERT_TO_SECONDS;
   private readonly REFRESH_EXPIRY_SECONDS =
     parseExpiryToMs(ENVIRONMENT_CONFIG.REFRESH_TOKEN_EXPIRATION) / this.CONVERT_TO_SECONDS;
+  private readonly MFA_TOKEN_EXPIRY_SECONDS =
+    parseExpiryToMs(ENVIRONMENT_CONFIG.MFA_TOKEN_EXPIRATION) / this.CONVERT_TO_SECONDS;
+  private readonly VERIFICATION_EXPIRY_MS = parseExpiryToMs(
+    ENVIRONMENT_CONFIG.VERIFICATION_TOKEN_EXPIRATION,
+  );
+  private readonly VERIFICATION_RESEND_COOLDOWN_MS = parseExpiryToMs(
+    ENVIRONMENT_CONFIG.VERIFICATION_RESEND_COOLDOWN,
+  );
+  private readonly PASSWORD_RESET_EXPIRY_MS = parseExpiryToMs(
+    ENVIRONMENT_CONFIG.PASSWORD_RESET_TOKEN_EXPIRATION,
+  );
+  private readonly SECURITY_EVENT_LIMIT = 50;
 
   private userRepository: IUserRepository;
   private tokenRepository: ITokenRepository;
+  private emailService: IEmailService;
+  private categoryRepository: ICategoryRepository;
+  private securityEventRepository: ISecurityEventRepository;
+  private mfaService: MfaService;
+  private loginThrottleService: LoginThrottleService;
+  private signingKeyService: SigningKeyService;
   private jwtAccessSecret: string;
   private jwtRefreshSecret: string;
-  constructor(userRepository: IUserRepository, tokenRepository: ITokenRepository) {
+  constructor(
+    userRepository: IUserRepository,
+    tokenRepository: ITokenRepository,
+    emailService: IEmailService,
+    categoryRepository: ICategoryRepository,
+    securityEventRepository: ISecurityEventRepository,
+    mfaService: MfaService,
+    loginThrottleService: LoginThrottleService,
+    signingKeyService: SigningKeyService,
+  ) {
     this.userRepository = userRepository;
     this.tokenRepository = tokenRepository;
+    this.emailService = emailService;
+    this.categoryRepository = categoryRepository;
+    this.securityEventRepository = securityEventRepository;
+    this.mfaService = mfaService;
+    this.loginThrottleService = loginThrottleService;
+    this.signingKeyService = signingKeyService;
     this.jwtAccessSecret = ENVIRONMENT_CONFIG.JWT_ACCESS_SECRET;
     this.jwtRefreshSecret = ENVIRONMENT_CONFIG.JWT_REFRESH_SECRET;
   }
@@ -46,55 +108,151 @@ export class AuthenticationService {
   }
 
   async register(user: CreateUserDto): Promise<UserResponseDto> {
-    const newUser: User = AuthenticationMapper.toDomain(user);
+    const newUser: User = AuthenticationMapper.toDomain({
+      ...user,
+      baseCurrency: user.baseCurrency ?? ENVIRONMENT_CONFIG.DEFAULT_CURRENCY,
+      timezone: user.timezone ?? ENVIRONMENT_CONFIG.DEFAULT_TIMEZONE,
+      locale: user.locale ?? ENVIRONMENT_CONFIG.DEFAULT_LOCALE,
+    });
 
     await newUser.account.hashPassword();
 
     const createdUser = await this.userRepository.save(newUser);
 
+    await this.categoryRepository.createDefaults(String(createdUser.id), DEFAULT_CATEGORIES);
+
+    await this.issueVerificationToken(createdUser);
+
     return AuthenticationMapper.toDto(createdUser);
   }
 
-  async login(
-    email: string,
-    password: string,
-  ): Promise<{ authUser: AuthResponseDto; refreshToken: string }> {
+  /**
+   * Marks the account owning the activation token as verified. Tokens are single-use.
+   *
+   * @param token - The raw activation token from the emailed link
+   */
+  async verifyEmail(token: string): Promise<void> {
+    const userId = await this.tokenRepository.consumeActivationToken(hashToken(token), new Date());
+
+    if (!userId) {
+      throw new BadRequestError("Invalid or expired verification token");
+    }
+
+    await this.userRepository.markVerified(userId);
+  }
+
+  /**
+   * Sends a fresh verification email, replacing any previous activation token.
+   * Unknown emails, verified accounts and requests inside the resend cooldown are ignored silently,
+   * so callers cannot probe for registered emails. The token is stored and emailed in the
+   * background for the same reason, as with password resets.
+   *
+   * @param email - The email address the account was registered with
+   */
+  async resendVerificationEmail(email: string): Promise<void> {
     const user = await this.userRepository.getByEmail(email);
 
-    if (!user) {
+    if (!user || user.account.isVerified) {
+      return;
+    }
+
+    void this.reissueVerificationToken(user).catch((error) => {
+      logger.error("Failed to resend a verification email", { userId: user.id, error });
+    });
+  }
+
+  /**
+   * Signs the user in on a new session. Sessions on other devices stay signed in.
+   *
+   * With two-factor authentication enabled, the password alone starts no session: the result is
+   * a short-lived MFA token instead, to be exchanged through `completeMfaLogin`.
+   *
+   * Failed attempts are throttled per account and per IP address. A locked out account or IP
+   * address gets the same error as a wrong password, so lockouts reveal nothing about the account.
+   *
+   * @param client - The IP address and user agent the session is started from
+   */
+  async login(email: string, password: string, client: ClientInfo = {}): Promise<LoginResult> {
+    const user = await this.userRepository.getByEmail(email);
+    const userId = user ? String(user.id) : undefined;
+
+    if (await this.loginThrottleService.isLocked(userId, client.ip)) {
       throw new UnauthorizedError("Invalid email or password");
     }
 
-    const isPasswordValid = await user.account.verifyPassword(password);
-    if (!isPasswordValid) {
+    if (!user || !(await user.account.verifyPassword(password))) {
+      await this.recordFailedLogin(user, client);
       throw new UnauthorizedError("Invalid email or password");
     }
 
-    const now = new Date();
+    if (ENVIRONMENT_CONFIG.REQUIRE_EMAIL_VERIFICATION === "true" && !user.account.isVerified) {
+      throw new ForbiddenError("Email address has not been verified");
+    }
 
-    const token = await signJwt(
-      {
-        sub: String(user.id),
-        exp: Math.floor(now.getTime() / this.CONVERT_TO_SECONDS) + this.TOKEN_EXPIRY_SECONDS,
-      },
-      this.jwtAccessSecret,
-    );
+    if (await this.mfaService.isEnabled(String(user.id))) {
+      // Failures are only forgotten once the second factor checks out too
+      return { mfaToken: await this.issueMfaToken(String(user.id)) };
+    }
 
-    const refreshId = randomUUID();
-    const refreshToken = await signJwt(
-      {
-        sub: String(user.id),
-        rid: refreshId,
-        exp: Math.floor(now.getTime() / this.CONVERT_TO_SECONDS) + this.REFRESH_EXPIRY_SECONDS,
-      },
-      this.jwtRefreshSecret,
-    );
+    await this.loginThrottleService.reset(String(user.id));
 
-    await this.tokenRepository.saveRefreshToken(
+    const { token, refreshToken } = await this.issueTokens(
       String(user.id),
-      refreshId,
-      new Date(now.getTime()),
-      new Date(now.getTime() + this.REFRESH_EXPIRY_SECONDS * this.CONVERT_TO_SECONDS),
+      randomUUID(),
+      new Date(),
+      client,
+    );
+
+    return {
+      authUser: { ...AuthenticationMapper.toDto(user), token } as AuthResponseDto,
+      refreshToken,
+    };
+  }
+
+  /**
+   * Finishes a login held back for a second factor, starting the session once the code from the
+   * authenticator app or a recovery code checks out. Wrong codes count as failed logins.
+   *
+   * @param mfaToken - The token returned by `login`
+   * @param code - A code from the authenticator app, or an unused recovery code
+   */
+  async completeMfaLogin(
+    mfaToken: string,
+    code: string,
+    client: ClientInfo = {},
+  ): Promise<{ authUser: AuthResponseDto; refreshToken: string }> {
+    let userId: string;
+    try {
+      const payload = await verifyJwt(mfaToken, this.jwtAccessSecret);
+      if (payload.typ !== "mfa" || !payload.sub) {
+        throw new Error("Not an MFA token");
+      }
+      userId = payload.sub;
+    } catch {
+      throw new UnauthorizedError("Invalid or expired MFA token");
+    }
+
+    const user = await this.userRepository.getById(userId);
+    if (!user) {
+      throw new UnauthorizedError("Invalid or expired MFA token");
+    }
+
+    if (await this.loginThrottleService.isLocked(userId, client.ip)) {
+      throw new UnauthorizedError("Invalid authentication code");
+    }
+
+    if (!(await this.mfaService.verifyChallenge(userId, code))) {
+      await this.recordFailedLogin(user, client);
+      throw new UnauthorizedError("Invalid authentication code");
+    }
+
+    await this.loginThrottleService.reset(userId);
+
+    const { token, refreshToken } = await this.issueTokens(
+      userId,
+      randomUUID(),
+      new Date(),
+      client,
     );
 
     return {
@@ -103,8 +261,18 @@ export class AuthenticationService {
     };
   }
 
+  /**
+   * Rotates a refresh token, keeping its session. The session records the IP address and user
+   * agent of the latest refresh, falling back to the previous ones when the request has none.
+   *
+   * The tokens rotated from one login form a family, the session. A token is only ever exchanged
+   * once, so a rotated token coming back means two parties hold the family, one of them likely
+   * an attacker with a stolen token; the whole session is then signed out.
+   */
   async refresh(params: {
     rawRefresh: string;
+    ip?: string;
+    userAgent?: string;
   }): Promise<{ token: TokenResponseDto; refreshToken: string }> {
     const { rawRefresh } = params;
 
@@ -119,12 +287,18 @@ export class AuthenticationService {
     const { rid, sub } = payload as JwtPayloadWithRid;
 
     const tokenRecord = await this.tokenRepository.findTokenRecordById(rid);
+    const client = { ip: params.ip, userAgent: params.userAgent };
+
+    if (!tokenRecord || tokenRecord.userId !== sub) {
+      throw new UnauthorizedError("Invalid refresh token");
+    }
 
-    if (!tokenRecord || tokenRecord.revokedAt) {
+    if (tokenRecord.replacedById) {
+      await this.revokeCompromisedSession(tokenRecord.userId, tokenRecord.sessionId, client);
       throw new UnauthorizedError("Invalid refresh token");
     }
 
-    if (tokenRecord.userId !== sub) {
+    if (tokenRecord.revokedAt) {
       throw new UnauthorizedError("Invalid refresh token");
     }
 
@@ -132,32 +306,23 @@ export class AuthenticationService {
       throw new UnauthorizedError("Refresh token has expired");
     }
 
-    await this.tokenRepository.revokeRefreshToken(rid);
-
-    const newToken = await signJwt(
-      {
-        sub: String(sub),
-        exp: Math.floor(now.getTime() / this.CONVERT_TO_SECONDS) + this.TOKEN_EXPIRY_SECONDS,
-      },
-      this.jwtAccessSecret,
-    );
-
     const newRefreshId = randomUUID();
+    const rotated = await this.tokenRepository.rotateRefreshToken(rid, newRefreshId);
+    if (!rotated) {
+      // Another request exchanged the same token first
+      await this.revokeCompromisedSession(tokenRecord.userId, tokenRecord.sessionId, client);
+      throw new UnauthorizedError("Invalid refresh token");
+    }
 
-    const newRefreshToken = await signJwt(
+    const { token: newToken, refreshToken: newRefreshToken } = await this.issueTokens(
+      String(sub),
+      tokenRecord.sessionId,
+      now,
       {
-        sub: String(sub),
-        rid: newRefreshId,
-        exp: Math.floor(now.getTime() / this.CONVERT_TO_SECONDS) + this.REFRESH_EXPIRY_SECONDS,
+        ip: params.ip ?? tokenRecord.ip,
+        userAgent: params.userAgent ?? tokenRecord.userAgent,
       },
-      this.jwtRefreshSecret,
-    );
-
-    await this.tokenRepository.saveRefreshToken(
-      String(sub),
       newRefreshId,
-      now,
-      new Date(now.getTime() + this.REFRESH_EXPIRY_SECONDS * this.CONVERT_TO_SECONDS),
     );
 
     return {
@@ -178,6 +343,80 @@ export class AuthenticationService {
     await this.tokenRepository.revokeRefreshToken(rid);
   }
 
+  /**
+   * Issues a single-use password reset token and emails it to the user.
+   * Resolves the same way whether or not the email belongs to an account, so callers cannot probe for registered emails.
+   * The token is stored and emailed in the background, as waiting for them would make registered emails answer
+   * measurably slower than unknown ones.
+   *
+   * @param email - The email address the reset was requested for
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.userRepository.getByEmail(email);
+
+    if (!user) {
+      return;
+    }
+
+    void this.issuePasswordResetToken(user).catch((error) => {
+      logger.error("Failed to issue a password reset token", { userId: user.id, error });
+    });
+  }
+
+  /**
+   * Sets a new password using a password reset token and signs the user out of every session.
+   *
+   * @param token - The raw reset token from the emailed link
+   * @param password - The new plain text password
+   */
+  async resetPassword(token: string, password: string): Promise<void> {
+    const userId = await this.tokenRepository.consumePasswordResetToken(
+      hashToken(token),
+      new Date(),
+    );
+
+    if (!userId) {
+      throw new BadRequestError("Invalid or expired password reset token");
+    }
+
+    const account = new Account(password);
+    const hashedPassword = await account.hashPassword();
+
+    await this.userRepository.updatePassword(userId, hashedPassword);
+    await this.tokenRepository.revokeAllRefreshTokens(userId);
+    await this.loginThrottleService.reset(userId);
+  }
+
+  /**
+   * Lifts a login lockout early, through the link emailed when the account was locked.
+   *
+   * @param token - The raw unlock token from the emailed link
+   * @param client - The IP address and user agent the link was opened from
+   */
+  async unlockAccount(token: string, client: ClientInfo = {}): Promise<void> {
+    const userId = await this.loginThrottleService.unlock(token);
+
+    if (!userId) {
+      throw new BadRequestError("Invalid or expired unlock token");
+    }
+
+    await this.securityEventRepository.record({
+      userId,
+      type: "account_unlocked",
+      ip: client.ip ?? null,
+      userAgent: client.userAgent ?? null,
+      details: null,
+    });
+  }
+
+  /**
+   * Lists the user's most recent security events, such as lockouts and signed out sessions.
+   */
+  async listSecurityEvents(userId: string): Promise<SecurityEventResponseDto[]> {
+    const events = await this.securityEventRepository.listByUser(userId, this.SECURITY_EVENT_LIMIT);
+    return events.map((event) => AuthenticationMapper.toSecurityEventDto(event));
+  }
+
   /**
    * This method is for testing purposes only. It allows us to generate a token for a user without going through the login process.
    *
@@ -194,16 +433,6 @@ export class AuthenticationService {
       throw new NotFoundError("User not found");
     }
 
-    const now = new Date();
-
-    const token = await signJwt(
-      {
-        sub: String(user.id),
-        exp: Math.floor(now.getTime() / this.CONVERT_TO_SECONDS) + this.TOKEN_EXPIRY_SECONDS,
-      },
-      this.jwtAccessSecret,
-    );
-
     if (oldRefreshToken) {
       const oldPayload = await verifyJwt(oldRefreshToken, this.jwtRefreshSecret);
       if (!oldPayload || typeof oldPayload === "string" || !("rid" in oldPayload)) {
@@ -214,26 +443,216 @@ export class AuthenticationService {
       await this.tokenRepository.revokeRefreshToken(rid);
     }
 
-    const refreshId = randomUUID();
+    return this.issueTokens(String(user.id), randomUUID(), new Date());
+  }
+
+  /**
+   * Lists the user's signed-in sessions, flagging the one the request was made from.
+   *
+   * @param currentSessionId - The `sid` of the access token the request was made with
+   */
+  async listSessions(userId: string, currentSessionId?: string): Promise<SessionResponseDto[]> {
+    const sessions = await this.tokenRepository.findActiveSessions(userId, new Date());
+    return sessions.map((session) => AuthenticationMapper.toSessionDto(session, currentSessionId));
+  }
+
+  /**
+   * Signs a session out. Its refresh token stops working at once; access tokens already issued to
+   * it stay valid until they expire.
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const revoked = await this.tokenRepository.revokeSession(userId, sessionId);
+
+    if (!revoked) {
+      throw new NotFoundError("Session not found");
+    }
+  }
+
+  /**
+   * Signs out every session except the one the request was made from.
+   *
+   * @returns The number of sessions signed out.
+   */
+  async revokeOtherSessions(userId: string, currentSessionId?: string): Promise<number> {
+    if (!currentSessionId) {
+      // Access tokens issued before sessions were tracked do not name their session
+      throw new BadRequestError("The current session is unknown, please sign in again");
+    }
+
+    return this.tokenRepository.revokeOtherSessions(userId, currentSessionId);
+  }
+
+  /**
+   * Issues an access token and a refresh token for a session and stores the refresh token. Access
+   * tokens are signed with the keyset so other services can verify them; refresh tokens are only
+   * ever read by this API and keep the shared refresh secret.
+   */
+  private async issueTokens(
+    userId: string,
+    sessionId: string,
+    now: Date,
+    client: ClientInfo = {},
+    refreshId: string = randomUUID(),
+  ): Promise<{ token: string; refreshToken: string }> {
+    const nowSeconds = Math.floor(now.getTime() / this.CONVERT_TO_SECONDS);
+
+    const token = await this.signingKeyService.sign(
+      { sub: userId, sid: sessionId, exp: nowSeconds + this.TOKEN_EXPIRY_SECONDS },
+      now,
+    );
+
     const refreshToken = await signJwt(
-      {
-        sub: String(user.id),
-        rid: refreshId,
-        exp: Math.floor(now.getTime() / this.CONVERT_TO_SECONDS) + this.REFRESH_EXPIRY_SECONDS,
-      },
+      { sub: userId, rid: refreshId, exp: nowSeconds + this.REFRESH_EXPIRY_SECONDS },
       this.jwtRefreshSecret,
     );
 
     await this.tokenRepository.saveRefreshToken(
-      String(user.id),
+      userId,
       refreshId,
-      new Date(now.getTime()),
+      sessionId,
+      now,
       new Date(now.getTime() + this.REFRESH_EXPIRY_SECONDS * this.CONVERT_TO_SECONDS),
+      client.ip,
+      client.userAgent,
     );
 
-    return {
-      token: token,
-      refreshToken,
-    };
+    return { token, refreshToken };
+  }
+
+  /**
+   * Signs the token standing in for a login that still needs its second factor. It is signed with
+   * the access token secret rather than the keyset, and typed, so it is refused wherever an access
+   * token is expected.
+   */
+  private async issueMfaToken(userId: string): Promise<string> {
+    const nowSeconds = Math.floor(Date.now() / this.CONVERT_TO_SECONDS);
+    return signJwt(
+      { sub: userId, typ: "mfa", exp: nowSeconds + this.MFA_TOKEN_EXPIRY_SECONDS },
+      this.jwtAccessSecret,
+    );
+  }
+
+  /**
+   * Signs out a session whose refresh token was used twice, records a security event and, unless
+   * SECURITY_ALERT_EMAILS_ENABLED is off, tells the user by email.
+   */
+  private async revokeCompromisedSession(
+    userId: string,
+    sessionId: string,
+    client: ClientInfo,
+  ): Promise<void> {
+    await this.tokenRepository.revokeSession(userId, sessionId);
+    await this.securityEventRepository.record({
+      userId,
+      type: "refresh_token_reuse",
+      ip: client.ip ?? null,
+      userAgent: client.userAgent ?? null,
+      details: { sessionId },
+    });
+
+    if (ENVIRONMENT_CONFIG.SECURITY_ALERT_EMAILS_ENABLED !== "true") {
+      return;
+    }
+    const user = await this.userRepository.getById(userId);
+    if (!user) {
+      return;
+    }
+
+    try {
+      await this.emailService.sendNotificationEmail(
+        user.email,
+        "A session on your ExpenseIt account was signed out",
+        "We signed out one of your sessions because its sign-in token was used twice, which " +
+          "can mean it was copied by someone else. The token was presented from IP address " +
+          `${client.ip ?? "unknown"} with user agent ${client.userAgent ?? "unknown"}.\n\n` +
+          "If you did not expect this, change your password, which signs out every session.",
+      );
+    } catch {
+      // Delivery failures are logged by the email service; the session is revoked either way
+    }
+  }
+
+  private async issuePasswordResetToken(user: User): Promise<void> {
+    const rawToken = generateOpaqueToken();
+    const now = new Date();
+
+    await this.tokenRepository.savePasswordResetToken(
+      String(user.id),
+      hashToken(rawToken),
+      new Date(now.getTime() + this.PASSWORD_RESET_EXPIRY_MS),
+    );
+    await this.emailService.sendPasswordResetEmail(user.email, rawToken);
+  }
+
+  /**
+   * Counts a failed login and holds the response back by the delay the throttle asks for. When the
+   * failure locks the account, records a security event and, unless SECURITY_ALERT_EMAILS_ENABLED
+   * is off, emails the user a link to unlock it.
+   */
+  private async recordFailedLogin(user: User | null, client: ClientInfo): Promise<void> {
+    const userId = user ? String(user.id) : undefined;
+    const { delayMs, unlockToken, lockedUntil } = await this.loginThrottleService.recordFailure(
+      userId,
+      client.ip,
+    );
+
+    // Reported in the background so the locking attempt answers as fast as any other failure
+    if (user && unlockToken && lockedUntil) {
+      void this.reportLockout(user, client, unlockToken, lockedUntil).catch((error) => {
+        logger.error("Failed to report an account lockout", { userId: user.id, error });
+      });
+    }
+
+    if (delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+
+  private async reportLockout(
+    user: User,
+    client: ClientInfo,
+    unlockToken: string,
+    lockedUntil: Date,
+  ): Promise<void> {
+    await this.securityEventRepository.record({
+      userId: String(user.id),
+      type: "account_locked",
+      ip: client.ip ?? null,
+      userAgent: client.userAgent ?? null,
+      details: { lockedUntil: lockedUntil.toISOString() },
+    });
+
+    if (ENVIRONMENT_CONFIG.SECURITY_ALERT_EMAILS_ENABLED === "true") {
+      await this.emailService.sendAccountLockedEmail(user.email, unlockToken, lockedUntil);
+    }
+  }
+
+  // Replaces the activation token unless the last one was sent within the resend cooldown
+  private async reissueVerificationToken(user: User): Promise<void> {
+    const existingToken = await this.tokenRepository.findActivationTokenByUserId(String(user.id));
+    if (
+      existingToken &&
+      Date.now() - existingToken.createdAt.getTime() < this.VERIFICATION_RESEND_COOLDOWN_MS
+    ) {
+      return;
+    }
+
+    await this.issueVerificationToken(user);
+  }
+
+  private async issueVerificationToken(user: User): Promise<void> {
+    const rawToken = generateOpaqueToken();
+
+    await this.tokenRepository.saveActivationToken(
+      String(user.id),
+      hashToken(rawToken),
+      new Date(Date.now() + this.VERIFICATION_EXPIRY_MS),
+    );
+
+    try {
+      await this.emailService.sendVerificationEmail(user.email, rawToken);
+    } catch {
+      // Delivery failures are logged by the email service; the user can request another email
+    }
   }
 }
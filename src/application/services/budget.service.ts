@@ -0,0 +1,278 @@
+import type {
+  CurrencyTotal,
+  IBudgetRepository,
+  ICategoryRepository,
+  ITransactionRepository,
+  IUserRepository,
+} from "src/core/interfaces";
+import { Budget } from "src/core/entities";
+import type { Category } from "src/core/entities";
+import type {
+  BudgetResponseDto,
+  BudgetStatusResponseDto,
+  CreateBudgetDto,
+  UpdateBudgetDto,
+} from "../dtos";
+import { BudgetMapper } from "../mappers/budget.mapper";
+import { BadRequestError, ConflictError, NotFoundError } from "../errors";
+import { periodBounds, periodStart, shiftPeriod } from "src/application/utils/periodUtils";
+import { roundAmount } from "src/application/utils/currencyUtils";
+import { ENVIRONMENT_CONFIG } from "@config";
+import type { CurrencyConverter, ExchangeRateService } from "./exchangeRate.service";
+
+export class BudgetService {
+  private readonly DEFAULT_ALERT_THRESHOLDS = ENVIRONMENT_CONFIG.BUDGET_ALERT_THRESHOLDS.split(",")
+    .map((threshold) => Number(threshold.trim()))
+    .filter((threshold) => Number.isInteger(threshold) && threshold > 0);
+  // Unspent amounts are carried over from at most this many earlier periods
+  private readonly ROLLOVER_LOOKBACK_PERIODS = 24;
+
+  private budgetRepository: IBudgetRepository;
+  private categoryRepository: ICategoryRepository;
+  private transactionRepository: ITransactionRepository;
+  private userRepository: IUserRepository;
+  private exchangeRateService: ExchangeRateService;
+  constructor(
+    budgetRepository: IBudgetRepository,
+    categoryRepository: ICategoryRepository,
+    transactionRepository: ITransactionRepository,
+    userRepository: IUserRepository,
+    exchangeRateService: ExchangeRateService,
+  ) {
+    this.budgetRepository = budgetRepository;
+    this.categoryRepository = categoryRepository;
+    this.transactionRepository = transactionRepository;
+    this.userRepository = userRepository;
+    this.exchangeRateService = exchangeRateService;
+  }
+
+  async fetchBudgets(userId: string): Promise<BudgetResponseDto[]> {
+    const budgets = await this.budgetRepository.getByUserId(userId);
+    return budgets.map(BudgetMapper.toDto);
+  }
+
+  async fetchBudgetById(id: string, userId: string): Promise<BudgetResponseDto> {
+    const budget = await this.getOwned(id, userId);
+    return BudgetMapper.toDto(budget);
+  }
+
+  async createBudget(data: CreateBudgetDto, userId: string): Promise<BudgetResponseDto> {
+    await this.resolveCategory(data.categoryId, userId);
+    await this.assertNoDuplicate(data.categoryId, data.period, userId);
+
+    const user = await this.userRepository.getById(userId);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    const budget = Budget.create({
+      userId,
+      categoryId: data.categoryId,
+      amount: data.amount,
+      currency: data.currency ?? user.baseCurrency,
+      period: data.period,
+      startDate: data.startDate ?? new Date(),
+      rollover: data.rollover ?? false,
+      alertThresholds: data.alertThresholds ?? this.DEFAULT_ALERT_THRESHOLDS,
+    });
+
+    const created = await this.budgetRepository.save(budget);
+    return BudgetMapper.toDto(created);
+  }
+
+  async updateBudget(
+    id: string,
+    data: UpdateBudgetDto,
+    userId: string,
+  ): Promise<BudgetResponseDto> {
+    const budget = await this.getOwned(id, userId);
+
+    const category = data.categoryId
+      ? await this.resolveCategory(data.categoryId, userId)
+      : undefined;
+
+    const categoryId = data.categoryId ?? budget.categoryId;
+    const period = data.period ?? budget.period;
+    if (categoryId !== budget.categoryId || period !== budget.period) {
+      await this.assertNoDuplicate(categoryId, period, userId);
+    }
+
+    budget.update({
+      category,
+      amount: data.amount,
+      currency: data.currency,
+      period: data.period,
+      startDate: data.startDate,
+      rollover: data.rollover,
+      alertThresholds: data.alertThresholds,
+    });
+
+    const saved = await this.budgetRepository.update(budget);
+    return BudgetMapper.toDto(saved);
+  }
+
+  async deleteBudget(id: string, userId: string): Promise<void> {
+    await this.getOwned(id, userId);
+    await this.budgetRepository.delete(id);
+  }
+
+  /**
+   * Computes the status of a budget for the period containing `at`.
+   */
+  async fetchBudgetStatus(
+    id: string,
+    userId: string,
+    at: Date = new Date(),
+  ): Promise<BudgetStatusResponseDto> {
+    const budget = await this.getOwned(id, userId);
+
+    if (at < periodStart(budget.period, budget.startDate)) {
+      throw new BadRequestError("The budget does not apply before its start date");
+    }
+
+    const categories = await this.categoryRepository.getByUserId(userId);
+    return this.computeStatus(budget, categories, at);
+  }
+
+  /**
+   * Computes the status of every budget of a user that applies to the period containing `at`.
+   */
+  async fetchBudgetStatuses(
+    userId: string,
+    at: Date = new Date(),
+  ): Promise<BudgetStatusResponseDto[]> {
+    const budgets = await this.budgetRepository.getByUserId(userId);
+    const applicable = budgets.filter(
+      (budget) => at >= periodStart(budget.period, budget.startDate),
+    );
+    if (applicable.length === 0) {
+      return [];
+    }
+
+    const categories = await this.categoryRepository.getByUserId(userId);
+    return Promise.all(applicable.map((budget) => this.computeStatus(budget, categories, at)));
+  }
+
+  private async computeStatus(
+    budget: Budget,
+    categories: Category[],
+    at: Date,
+  ): Promise<BudgetStatusResponseDto> {
+    const categoryIds = this.collectCategoryIds(budget.categoryId, categories);
+    const convert = this.exchangeRateService.createConverter(budget.currency);
+    const unconverted = new Set<string>();
+
+    const spentIn = async (start: Date, end: Date) => {
+      const totals = await this.transactionRepository.sumByCurrency({
+        userId: budget.userId,
+        type: "expense",
+        categoryIds,
+        from: start,
+        to: end,
+      });
+      // Convert at the end of the period, or now for the current one
+      const rateDate = new Date(Math.min(end.getTime() - 1, Date.now()));
+      return this.sumConverted(totals, convert, rateDate, unconverted);
+    };
+
+    const current = periodBounds(budget.period, at);
+
+    let rolledOver = 0;
+    if (budget.rollover) {
+      const firstPeriod = periodStart(budget.period, budget.startDate);
+      let start = shiftPeriod(budget.period, current.start, -this.ROLLOVER_LOOKBACK_PERIODS);
+      if (start < firstPeriod) {
+        start = firstPeriod;
+      }
+
+      while (start < current.start) {
+        const end = shiftPeriod(budget.period, start, 1);
+        const spent = await spentIn(start, end);
+        // Only unspent amounts carry over; overspending does not reduce the next period
+        rolledOver = Math.max(0, roundAmount(budget.amount + rolledOver - spent));
+        start = end;
+      }
+    }
+
+    const spent = await spentIn(current.start, current.end);
+    const available = roundAmount(budget.amount + rolledOver);
+    const percentage = Math.round((spent / available) * 1000) / 10;
+    const thresholdsCrossed = budget.alertThresholds.filter((threshold) => percentage >= threshold);
+
+    return {
+      budget: BudgetMapper.toDto(budget),
+      periodStart: current.start,
+      periodEnd: current.end,
+      rolledOver,
+      available,
+      spent,
+      remaining: roundAmount(available - spent),
+      percentage,
+      thresholdsCrossed,
+      status: spent > available ? "exceeded" : thresholdsCrossed.length > 0 ? "warning" : "ok",
+      unconvertedCurrencies: [...unconverted].sort(),
+    };
+  }
+
+  private async sumConverted(
+    totals: CurrencyTotal[],
+    convert: CurrencyConverter,
+    on: Date,
+    unconverted: Set<string>,
+  ): Promise<number> {
+    let sum = 0;
+    for (const total of totals) {
+      const conversion = await convert(total.amount, total.currency, on);
+      if (conversion) {
+        sum += conversion.amount;
+      } else {
+        unconverted.add(total.currency);
+      }
+    }
+    return roundAmount(sum);
+  }
+
+  /**
+   * Returns the category and all of its subcategories, so spending filed under a subcategory
+   * counts towards the parent's budget.
+   */
+  private collectCategoryIds(rootId: string, categories: Category[]): string[] {
+    const ids = [rootId];
+    for (let i = 0; i < ids.length; i++) {
+      for (const category of categories) {
+        if (category.parentId === ids[i] && !ids.includes(category.id!)) {
+          ids.push(category.id!);
+        }
+      }
+    }
+    return ids;
+  }
+
+  private async getOwned(id: string, userId: string): Promise<Budget> {
+    const budget = await this.budgetRepository.getById(id, userId);
+
+    if (!budget) {
+      throw new NotFoundError("Budget not found");
+    }
+    return budget;
+  }
+
+  private async resolveCategory(categoryId: string, userId: string): Promise<Category> {
+    const category = await this.categoryRepository.getById(categoryId, userId);
+
+    if (!category) {
+      throw new NotFoundError("Category not found");
+    }
+    if (category.kind !== "expense") {
+      throw new BadRequestError("Budgets can only be set on expense categories");
+    }
+    return category;
+  }
+
+  private async assertNoDuplicate(categoryId: string, period: Budget["period"], userId: string) {
+    const existing = await this.budgetRepository.getByCategoryAndPeriod(categoryId, period, userId);
+    if (existing) {
+      throw new ConflictError(`A ${period} budget already exists for this category`);
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import type { ICategoryRepository } from "src/core/interfaces";
+import { Category } from "src/core/entities";
+import type { CategoryKind } from "src/core/entities";
+import type { CategoryResponseDto, CreateCategoryDto, UpdateCategoryDto } from "../dtos";
+import { CategoryMapper } from "../mappers/category.mapper";
+import { BadRequestError, ConflictError, NotFoundError } from "../errors";
+
+export class CategoryService {
+  private categoryRepository: ICategoryRepository;
+  constructor(categoryRepository: ICategoryRepository) {
+    this.categoryRepository = categoryRepository;
+  }
+
+  async fetchCategories(userId: string, kind?: CategoryKind): Promise<CategoryResponseDto[]> {
+    const categories = await this.categoryRepository.getByUserId(userId, kind);
+    return categories.map(CategoryMapper.toDto);
+  }
+
+  async fetchCategoryById(id: string, userId: string): Promise<CategoryResponseDto> {
+    const category = await this.categoryRepository.getById(id, userId);
+
+    if (!category) {
+      throw new NotFoundError("Category not found");
+    }
+    return CategoryMapper.toDto(category);
+  }
+
+  async createCategory(data: CreateCategoryDto, userId: string): Promise<CategoryResponseDto> {
+    await this.assertNameAvailable(data.name, userId);
+    if (data.parentId) {
+      await this.resolveParent(data.parentId, data.kind, userId);
+    }
+
+    const category = Category.create({
+      userId,
+      name: data.name,
+      kind: data.kind,
+      parentId: data.parentId,
+      color: data.color,
+      icon: data.icon,
+    });
+
+    const created = await this.categoryRepository.save(category);
+    return CategoryMapper.toDto(created);
+  }
+
+  async updateCategory(
+    id: string,
+    data: UpdateCategoryDto,
+    userId: string,
+  ): Promise<CategoryResponseDto> {
+    const existingCategory = await this.categoryRepository.getById(id, userId);
+
+    if (!existingCategory) {
+      throw new NotFoundError("Category not found");
+    }
+
+    if (data.name !== undefined) {
+      await this.assertNameAvailable(data.name, userId, id);
+    }
+
+    const kind = data.kind ?? existingCategory.kind;
+    if (kind !== existingCategory.kind) {
+      // Changing the kind would leave existing transactions or children filed under the wrong side
+      const usage = await this.categoryRepository.countUsage(id);
+      if (usage.transactions > 0 || usage.recurring > 0 || usage.children > 0) {
+        throw new ConflictError("Cannot change the kind of a category that is in use");
+      }
+    }
+
+    const parentId = data.parentId !== undefined ? data.parentId : existingCategory.parentId;
+    if (parentId) {
+      await this.resolveParent(parentId, kind, userId);
+      await this.assertNoCycle(id, parentId, userId);
+    }
+
+    existingCategory.update({
+      name: data.name,
+      kind: data.kind,
+      parentId: data.parentId,
+      color: data.color,
+      icon: data.icon,
+    });
+
+    const saved = await this.categoryRepository.update(existingCategory);
+    return CategoryMapper.toDto(saved);
+  }
+
+  async deleteCategory(id: string, userId: string): Promise<void> {
+    const existingCategory = await this.categoryRepository.getById(id, userId);
+
+    if (!existingCategory) {
+      throw new NotFoundError("Category not found");
+    }
+
+    const usage = await this.categoryRepository.countUsage(id);
+    if (usage.transactions > 0) {
+      throw new ConflictError("Category is used by existing transactions");
+    }
+    if (usage.recurring > 0) {
+      throw new ConflictError("Category is used by recurring transactions");
+    }
+    if (usage.children > 0) {
+      throw new ConflictError("Category has subcategories");
+    }
+
+    await this.categoryRepository.delete(id);
+  }
+
+  private async assertNameAvailable(name: string, userId: string, excludeId?: string) {
+    const existing = await this.categoryRepository.getByName(name, userId);
+    if (existing && existing.id !== excludeId) {
+      throw new ConflictError(`A category named "${existing.name}" already exists`);
+    }
+  }
+
+  private async resolveParent(parentId: string, kind: CategoryKind, userId: string) {
+    const parent = await this.categoryRepository.getById(parentId, userId);
+
+    if (!parent) {
+      throw new NotFoundError("Parent category not found");
+    }
+    if (parent.kind !== kind) {
+      throw new BadRequestError("A subcategory must have the same kind as its parent");
+    }
+    return parent;
+  }
+
+  /**
+   * Walks up from the proposed parent; reaching the category itself means the move would create a loop.
+   */
+  private async assertNoCycle(id: string, parentId: string, userId: string) {
+    const visited = new Set<string>();
+    let currentId: string | null = parentId;
+
+    while (currentId && !visited.has(currentId)) {
+      if (currentId === id) {
+        throw new BadRequestError("A category cannot be nested under itself or its subcategories");
+      }
+      visited.add(currentId);
+      const current: Category | null = await this.categoryRepository.getById(currentId, userId);
+      currentId = current?.parentId ?? null;
+    }
+  }
+}
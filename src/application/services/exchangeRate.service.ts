@@ -0,0 +1,152 @@
+import { readFile } from "fs/promises";
+import type { ExchangeRate, IExchangeRateRepository } from "src/core/interfaces";
+import {
+  ImportExchangeRatesSchema,
+  type ExchangeRateQueryDto,
+  type ExchangeRateResponseDto,
+  type ExchangeRateSnapshotDto,
+  type ImportExchangeRatesResponseDto,
+} from "../dtos/exchangeRate";
+import { roundAmount, toRateDate } from "src/application/utils/currencyUtils";
+import { ENVIRONMENT_CONFIG } from "@config";
+import { ValidationError } from "../errors";
+
+export interface ConversionResult {
+  amount: number;
+  rate: number;
+}
+
+/**
+ * Converts an amount recorded on a given date into a fixed target currency.
+ */
+export type CurrencyConverter = (
+  amount: number,
+  fromCurrency: string,
+  on: Date,
+) => Promise<ConversionResult | null>;
+
+export class ExchangeRateService {
+  private exchangeRateRepository: IExchangeRateRepository;
+  private pivotCurrency: string;
+  constructor(exchangeRateRepository: IExchangeRateRepository) {
+    this.exchangeRateRepository = exchangeRateRepository;
+    this.pivotCurrency = ENVIRONMENT_CONFIG.EXCHANGE_RATE_PIVOT_CURRENCY;
+  }
+
+  async fetchRates(query: ExchangeRateQueryDto): Promise<ExchangeRateResponseDto[]> {
+    const rates = await this.exchangeRateRepository.find({
+      baseCurrency: query.base,
+      quoteCurrency: query.quote,
+      effectiveDate: query.date,
+    });
+    return rates.map((rate) => ({
+      base: rate.baseCurrency,
+      quote: rate.quoteCurrency,
+      rate: rate.rate,
+      date: rate.effectiveDate,
+    }));
+  }
+
+  async importRates(snapshots: ExchangeRateSnapshotDto[]): Promise<ImportExchangeRatesResponseDto> {
+    const rates: ExchangeRate[] = snapshots.flatMap((snapshot) =>
+      Object.entries(snapshot.rates).map(([quoteCurrency, rate]) => ({
+        baseCurrency: snapshot.base,
+        quoteCurrency,
+        rate,
+        effectiveDate: snapshot.date,
+      })),
+    );
+
+    const imported = await this.exchangeRateRepository.upsertMany(rates);
+    return { imported };
+  }
+
+  /**
+   * Imports rates from a JSON file with the same shape as the admin import endpoint body.
+   *
+   * @param filePath - Path to the file, relative to the working directory or absolute
+   */
+  async importFromFile(filePath: string): Promise<ImportExchangeRatesResponseDto> {
+    const contents = JSON.parse(await readFile(filePath, "utf8"));
+    const parsed = ImportExchangeRatesSchema.safeParse(contents);
+
+    if (!parsed.success) {
+      throw new ValidationError(
+        `Invalid exchange rate file ${filePath}: ${parsed.error.issues
+          .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+          .join("; ")}`,
+      );
+    }
+
+    return this.importRates(parsed.data.snapshots);
+  }
+
+  /**
+   * Finds the rate converting one unit of `fromCurrency` into `toCurrency` on the given day.
+   * Tries a direct rate, then the inverse of the opposite pair, then a cross rate through the pivot currency.
+   *
+   * @returns The rate, or null when the stored rates cannot bridge the two currencies.
+   */
+  async getRate(fromCurrency: string, toCurrency: string, on: Date): Promise<number | null> {
+    if (fromCurrency === toCurrency) {
+      return 1;
+    }
+
+    const day = toRateDate(on);
+    const direct = await this.findPairRate(fromCurrency, toCurrency, day);
+    if (direct !== null) {
+      return direct;
+    }
+
+    if (fromCurrency === this.pivotCurrency || toCurrency === this.pivotCurrency) {
+      return null;
+    }
+
+    const toPivot = await this.findPairRate(fromCurrency, this.pivotCurrency, day);
+    const fromPivot =
+      toPivot !== null ? await this.findPairRate(this.pivotCurrency, toCurrency, day) : null;
+
+    return toPivot !== null && fromPivot !== null ? toPivot * fromPivot : null;
+  }
+
+  async convert(
+    amount: number,
+    fromCurrency: string,
+    toCurrency: string,
+    on: Date,
+  ): Promise<ConversionResult | null> {
+    const rate = await this.getRate(fromCurrency, toCurrency, on);
+    return rate === null ? null : { amount: roundAmount(amount * rate), rate };
+  }
+
+  /**
+   * Creates a converter into `toCurrency` that remembers rates per currency and day,
+   * so converting a page of transactions or a total costs one lookup per distinct pair.
+   */
+  createConverter(toCurrency: string): CurrencyConverter {
+    const rates = new Map<string, Promise<number | null>>();
+
+    return async (amount, fromCurrency, on) => {
+      const key = `${fromCurrency}:${toRateDate(on)}`;
+      if (!rates.has(key)) {
+        rates.set(key, this.getRate(fromCurrency, toCurrency, on));
+      }
+      const rate = await rates.get(key)!;
+      return rate === null ? null : { amount: roundAmount(amount * rate), rate };
+    };
+  }
+
+  private async findPairRate(
+    baseCurrency: string,
+    quoteCurrency: string,
+    day: string,
+  ): Promise<number | null> {
+    const direct = await this.exchangeRateRepository.findLatest(baseCurrency, quoteCurrency, day);
+    if (direct) {
+      return direct.rate;
+    }
+
+    const inverse = await this.exchangeRateRepository.findLatest(quoteCurrency, baseCurrency, day);
+    return inverse ? 1 / inverse.rate : null;
+  }
+}
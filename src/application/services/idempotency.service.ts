@@ -0,0 +1,93 @@
+import type {
+  IdempotencyRecord,
+  IIdempotencyKeyRepository,
+  StoredResponse,
+} from "src/core/interfaces";
+import { parseExpiryToMs } from "src/api/utils/timeUtils";
+import { ENVIRONMENT_CONFIG } from "@config";
+import { ConflictError, UnprocessableEntityError } from "../errors";
+
+export class IdempotencyService {
+  private readonly KEY_TTL_MS = parseExpiryToMs(ENVIRONMENT_CONFIG.IDEMPOTENCY_KEY_TTL);
+  // A key claimed this long ago without a response belongs to a request that never finished,
+  // e.g. because the server stopped mid-request, and may be taken over by a retry
+  private readonly ABANDONED_AFTER_MS = 5 * 60 * 1000;
+
+  private idempotencyKeyRepository: IIdempotencyKeyRepository;
+  constructor(idempotencyKeyRepository: IIdempotencyKeyRepository) {
+    this.idempotencyKeyRepository = idempotencyKeyRepository;
+  }
+
+  /**
+   * Starts processing a request sent with an idempotency key. The first request with a key claims
+   * it; repeats of that request get its recorded response back instead of being processed again.
+   *
+   * @returns The response to replay, or null when the caller should process the request and then
+   * call `complete` or `release`.
+   * @throws UnprocessableEntityError if the key was already used for a different request.
+   * @throws ConflictError if the first request with the key is still being processed.
+   */
+  async begin(userId: string, key: string, requestHash: string): Promise<StoredResponse | null> {
+    const now = new Date();
+    let record = await this.idempotencyKeyRepository.find(userId, key);
+
+    if (record && (record.expiresAt <= now || this.isAbandoned(record))) {
+      await this.idempotencyKeyRepository.release(userId, key);
+      record = null;
+    }
+
+    if (!record) {
+      const claimed = await this.idempotencyKeyRepository.claim({
+        userId,
+        key,
+        requestHash,
+        expiresAt: new Date(now.getTime() + this.KEY_TTL_MS),
+      });
+      if (claimed) {
+        return null;
+      }
+      // Another request claimed the key in between
+      record = await this.idempotencyKeyRepository.find(userId, key);
+      if (!record) {
+        throw new ConflictError("A request with this Idempotency-Key is still being processed");
+      }
+    }
+
+    if (record.requestHash !== requestHash) {
+      throw new UnprocessableEntityError(
+        "Idempotency-Key has already been used for a different request",
+      );
+    }
+    if (!record.response) {
+      throw new ConflictError("A request with this Idempotency-Key is still being processed");
+    }
+    return record.response;
+  }
+
+  /**
+   * Records the response to a request started with `begin`, so repeats replay it.
+   */
+  async complete(userId: string, key: string, response: StoredResponse): Promise<void> {
+    await this.idempotencyKeyRepository.complete(userId, key, response);
+  }
+
+  /**
+   * Frees a key whose request failed without a response worth replaying, so it can be retried.
+   */
+  async release(userId: string, key: string): Promise<void> {
+    await this.idempotencyKeyRepository.release(userId, key);
+  }
+
+  /**
+   * Deletes the keys past their retention window.
+   *
+   * @returns The number of keys deleted.
+   */
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    return this.idempotencyKeyRepository.deleteExpired(now);
+  }
+
+  private isAbandoned(record: IdempotencyRecord): boolean {
+    return !record.response && Date.now() - record.createdAt.getTime() > this.ABANDONED_AFTER_MS;
+  }
+}
@@ -1,3 +1,15 @@
 export { AuthenticationService } from "./authentication.service";
 export { TransactionService } from "./transaction.service";
 export { UserService } from "./user.service";
+export { CategoryService } from "./category.service";
+export { TagService } from "./tag.service";
+export { ExchangeRateService } from "./exchangeRate.service";
+export { RecurringTransactionService } from "./recurringTransaction.service";
+export { BudgetService } from "./budget.service";
+export { AnalyticsService } from "./analytics.service";
+export { TransactionImportService } from "./transactionImport.service";
+export { AttachmentService } from "./attachment.service";
+export { IdempotencyService } from "./idempotency.service";
+export { MfaService } from "./mfa.service";
+export { LoginThrottleService } from "./loginThrottle.service";
+export { SigningKeyService } from "./signingKey.service";
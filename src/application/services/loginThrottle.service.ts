@@ -0,0 +1,138 @@
+import type { ILoginThrottleRepository } from "src/core/interfaces";
+import { parseExpiryToMs } from "src/api/utils/timeUtils";
+import { generateOpaqueToken, hashToken } from "src/application/utils/tokenUtils";
+import { ENVIRONMENT_CONFIG } from "@config";
+
+export interface LoginFailureResult {
+  delayMs: number; // how long to hold back the response to the failed attempt
+  unlockToken: string | null; // set when this failure locked the account, for the unlock email
+  lockedUntil: Date | null;
+}
+
+/**
+ * Tracks failed logins per account and per client IP address. Each failure slows the next response
+ * down further, and too many within the window lock the account or the IP address out for a while.
+ */
+export class LoginThrottleService {
+  private readonly MAX_ACCOUNT_FAILURES = Number(ENVIRONMENT_CONFIG.LOGIN_MAX_ACCOUNT_FAILURES);
+  private readonly MAX_IP_FAILURES = Number(ENVIRONMENT_CONFIG.LOGIN_MAX_IP_FAILURES);
+  private readonly FAILURE_WINDOW_MS = parseExpiryToMs(ENVIRONMENT_CONFIG.LOGIN_FAILURE_WINDOW);
+  private readonly LOCKOUT_MS = parseExpiryToMs(ENVIRONMENT_CONFIG.LOGIN_LOCKOUT_DURATION);
+  private readonly FAILURE_DELAY_MS = parseExpiryToMs(ENVIRONMENT_CONFIG.LOGIN_FAILURE_DELAY);
+  private readonly MAX_FAILURE_DELAY_MS = 10 * 1000;
+
+  private loginThrottleRepository: ILoginThrottleRepository;
+  constructor(loginThrottleRepository: ILoginThrottleRepository) {
+    this.loginThrottleRepository = loginThrottleRepository;
+  }
+
+  /**
+   * Whether the account or the IP address is locked out at the moment.
+   */
+  async isLocked(
+    userId: string | undefined,
+    ip: string | undefined,
+    now: Date = new Date(),
+  ): Promise<boolean> {
+    const keys = this.keysFor(userId, ip);
+    if (keys.length === 0) {
+      return false;
+    }
+
+    const throttles = await this.loginThrottleRepository.findMany(keys);
+    return throttles.some((throttle) => throttle.lockedUntil && throttle.lockedUntil > now);
+  }
+
+  /**
+   * Counts a failed login against the account, when the email belongs to one, and the IP address,
+   * locking out whichever reached its limit.
+   */
+  async recordFailure(
+    userId: string | undefined,
+    ip: string | undefined,
+    now: Date = new Date(),
+  ): Promise<LoginFailureResult> {
+    const windowStart = new Date(now.getTime() - this.FAILURE_WINDOW_MS);
+    const lockedUntil = new Date(now.getTime() + this.LOCKOUT_MS);
+    let failures = 0;
+    let unlockToken: string | null = null;
+
+    if (userId) {
+      const key = this.accountKey(userId);
+      const account = await this.loginThrottleRepository.recordFailure(key, now, windowStart);
+      failures = account.failures;
+
+      if (account.failures >= this.MAX_ACCOUNT_FAILURES) {
+        unlockToken = generateOpaqueToken();
+        await this.loginThrottleRepository.lock(key, lockedUntil, hashToken(unlockToken));
+      }
+    }
+
+    if (ip) {
+      const key = this.ipKey(ip);
+      const client = await this.loginThrottleRepository.recordFailure(key, now, windowStart);
+      failures = Math.max(failures, client.failures);
+
+      if (client.failures >= this.MAX_IP_FAILURES) {
+        // IP lockouts have nobody to email, so they only end by timing out
+        await this.loginThrottleRepository.lock(key, lockedUntil, null);
+      }
+    }
+
+    return {
+      delayMs: this.delayFor(failures),
+      unlockToken,
+      lockedUntil: unlockToken ? lockedUntil : null,
+    };
+  }
+
+  /**
+   * Forgets the account's failed logins and lifts its lockout, e.g. after a successful login or a
+   * password reset. Failures counted against IP addresses are kept.
+   */
+  async reset(userId: string): Promise<void> {
+    await this.loginThrottleRepository.clear(this.accountKey(userId));
+  }
+
+  /**
+   * Lifts an account lockout through the token from the unlock email.
+   *
+   * @returns The id of the unlocked user, or null when the token is invalid or the lockout is over.
+   */
+  async unlock(token: string, now: Date = new Date()): Promise<string | null> {
+    const key = await this.loginThrottleRepository.consumeUnlockToken(hashToken(token), now);
+    if (!key?.startsWith("user:")) {
+      return null;
+    }
+    return key.slice("user:".length);
+  }
+
+  /**
+   * No delay for the first failure, then LOGIN_FAILURE_DELAY doubling with each further one.
+   */
+  private delayFor(failures: number): number {
+    if (failures < 2) {
+      return 0;
+    }
+    return Math.min(this.FAILURE_DELAY_MS * 2 ** (failures - 2), this.MAX_FAILURE_DELAY_MS);
+  }
+
+  private keysFor(userId: string | undefined, ip: string | undefined): string[] {
+    const keys: string[] = [];
+    if (userId) {
+      keys.push(this.accountKey(userId));
+    }
+    if (ip) {
+      keys.push(this.ipKey(ip));
+    }
+    return keys;
+  }
+
+  private accountKey(userId: string): string {
+    return `user:${userId}`;
+  }
+
+  private ipKey(ip: string): string {
+    return `ip:${ip}`;
+  }
+}
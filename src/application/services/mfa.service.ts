@@ -0,0 +1,203 @@
+import { randomBytes } from "crypto";
+import type { IMfaRepository, IUserRepository, TotpFactor } from "src/core/interfaces";
+import type {
+  MfaStatusResponseDto,
+  RecoveryCodesResponseDto,
+  TotpSetupResponseDto,
+} from "../dtos";
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateTotpSecret,
+  verifyTotp,
+} from "src/application/utils/totpUtils";
+import { hashToken } from "src/application/utils/tokenUtils";
+import { decryptSecret, encryptSecret } from "src/application/utils/encryptionUtils";
+import { BadRequestError, ConflictError, NotFoundError, UnauthorizedError } from "../errors";
+import { ENVIRONMENT_CONFIG } from "@config";
+
+export class MfaService {
+  private readonly ISSUER = "ExpenseIt";
+  private readonly RECOVERY_CODE_COUNT = 10;
+  private readonly TOTP_CODE_PATTERN = /^\d{6}$/;
+
+  private mfaRepository: IMfaRepository;
+  private userRepository: IUserRepository;
+  private encryptionSecret: string;
+  constructor(mfaRepository: IMfaRepository, userRepository: IUserRepository) {
+    this.mfaRepository = mfaRepository;
+    this.userRepository = userRepository;
+    this.encryptionSecret = ENVIRONMENT_CONFIG.TOTP_ENCRYPTION_SECRET;
+  }
+
+  /**
+   * Whether logins need a second step, i.e. the user has a confirmed authenticator app.
+   */
+  async isEnabled(userId: string): Promise<boolean> {
+    const factor = await this.mfaRepository.getTotpFactor(userId);
+    return Boolean(factor?.confirmedAt);
+  }
+
+  async getStatus(userId: string): Promise<MfaStatusResponseDto> {
+    const factor = await this.mfaRepository.getTotpFactor(userId);
+    const enabled = Boolean(factor?.confirmedAt);
+
+    return {
+      enabled,
+      pending: Boolean(factor && !factor.confirmedAt),
+      recoveryCodesRemaining: enabled
+        ? await this.mfaRepository.countUnusedRecoveryCodes(userId)
+        : 0,
+    };
+  }
+
+  /**
+   * Starts enrolling an authenticator app. The secret only protects logins once a code from the
+   * app has been confirmed; starting again replaces an unconfirmed secret.
+   */
+  async setupTotp(userId: string): Promise<TotpSetupResponseDto> {
+    const user = await this.userRepository.getById(userId);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+    if (await this.isEnabled(userId)) {
+      throw new ConflictError("Two-factor authentication is already enabled");
+    }
+
+    const secret = generateTotpSecret();
+    await this.mfaRepository.saveTotpFactor(
+      userId,
+      encryptSecret(base32Encode(secret), this.encryptionSecret, userId),
+    );
+
+    return {
+      secret: base32Encode(secret),
+      otpauthUri: buildOtpauthUri(secret, this.ISSUER, user.email),
+    };
+  }
+
+  /**
+   * Finishes enrolment with a code from the authenticator app, turning two-factor authentication
+   * on, and issues the first set of recovery codes. The codes are only ever shown here.
+   */
+  async confirmTotp(userId: string, code: string): Promise<RecoveryCodesResponseDto> {
+    const factor = await this.mfaRepository.getTotpFactor(userId);
+    if (!factor) {
+      throw new BadRequestError("Two-factor authentication setup has not been started");
+    }
+    if (factor.confirmedAt) {
+      throw new ConflictError("Two-factor authentication is already enabled");
+    }
+    if (!(await this.acceptTotpCode(factor, code))) {
+      throw new BadRequestError("Invalid authentication code");
+    }
+
+    await this.mfaRepository.confirmTotpFactor(userId, new Date());
+    return { recoveryCodes: await this.issueRecoveryCodes(userId) };
+  }
+
+  /**
+   * Turns two-factor authentication off. Takes the password and a current code, authenticator or
+   * recovery, so a stolen access token alone cannot remove the protection.
+   */
+  async disable(userId: string, password: string, code: string): Promise<void> {
+    const user = await this.userRepository.getById(userId);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+    if (!(await this.isEnabled(userId))) {
+      throw new BadRequestError("Two-factor authentication is not enabled");
+    }
+    if (!(await user.account.verifyPassword(password))) {
+      throw new UnauthorizedError("Invalid password");
+    }
+    if (!(await this.verifyChallenge(userId, code))) {
+      throw new UnauthorizedError("Invalid authentication code");
+    }
+
+    await this.mfaRepository.deleteTotpFactor(userId);
+  }
+
+  /**
+   * Replaces every recovery code, used or not, with a new set. Needs a code from the
+   * authenticator app.
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<RecoveryCodesResponseDto> {
+    const factor = await this.mfaRepository.getTotpFactor(userId);
+    if (!factor?.confirmedAt) {
+      throw new BadRequestError("Two-factor authentication is not enabled");
+    }
+    if (!(await this.acceptTotpCode(factor, code))) {
+      throw new UnauthorizedError("Invalid authentication code");
+    }
+
+    return { recoveryCodes: await this.issueRecoveryCodes(userId) };
+  }
+
+  /**
+   * Checks the second factor of a login: a code from the authenticator app, or one of the
+   * recovery codes. Either can only be used once.
+   */
+  async verifyChallenge(userId: string, code: string): Promise<boolean> {
+    const factor = await this.mfaRepository.getTotpFactor(userId);
+    if (!factor?.confirmedAt) {
+      return false;
+    }
+
+    if (this.TOTP_CODE_PATTERN.test(code)) {
+      return this.acceptTotpCode(factor, code);
+    }
+    return this.mfaRepository.consumeRecoveryCode(
+      userId,
+      hashToken(this.normalizeRecoveryCode(code)),
+      new Date(),
+    );
+  }
+
+  /**
+   * Verifies an authenticator code and uses up its time step, so the same code cannot be
+   * accepted twice.
+   */
+  private async acceptTotpCode(factor: TotpFactor, code: string): Promise<boolean> {
+    const secret = this.readTotpSecret(factor);
+    const step = verifyTotp(base32Decode(secret), code, Date.now());
+    if (step === null || !(await this.mfaRepository.useTotpStep(factor.userId, step))) {
+      return false;
+    }
+
+    if (secret === factor.secret) {
+      await this.mfaRepository.replaceTotpSecret(
+        factor.userId,
+        encryptSecret(secret, this.encryptionSecret, factor.userId),
+      );
+    }
+    return true;
+  }
+
+  // Secrets stored before they were encrypted are plain base32, which never contains a "."
+  private readTotpSecret(factor: TotpFactor): string {
+    if (!factor.secret.includes(".")) {
+      return factor.secret;
+    }
+    return decryptSecret(factor.secret, this.encryptionSecret, factor.userId);
+  }
+
+  private async issueRecoveryCodes(userId: string): Promise<string[]> {
+    // 10 base32 characters each, 50 bits, shown as two groups of five, e.g. "k7qpa-3mzxd"
+    const codes = Array.from({ length: this.RECOVERY_CODE_COUNT }, () => {
+      const raw = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase();
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    await this.mfaRepository.replaceRecoveryCodes(
+      userId,
+      codes.map((code) => hashToken(this.normalizeRecoveryCode(code))),
+    );
+    return codes;
+  }
+
+  private normalizeRecoveryCode(code: string): string {
+    return code.toLowerCase().replace(/[\s-]/g, "");
+  }
+}
@@ -0,0 +1,291 @@
+import type {
+  ICategoryRepository,
+  IRecurringTransactionRepository,
+  IUserRepository,
+} from "src/core/interfaces";
+import { RecurringTransaction } from "src/core/entities";
+import type { Category } from "src/core/entities";
+import type {
+  CreateRecurringTransactionDto,
+  CreateTransactionDto,
+  RecurringTransactionResponseDto,
+  UpdateRecurringTransactionDto,
+} from "../dtos";
+import type { TransactionType } from "@src/core/entities/transactionAggregate/transactionType";
+import { RecurringTransactionMapper } from "../mappers/recurringTransaction.mapper";
+import { BadRequestError, NotFoundError } from "../errors";
+import { firstOccurrenceIndexAfter, nextOccurrence } from "src/application/utils/recurrenceUtils";
+import type { TransactionService } from "./transaction.service";
+
+export interface RecurringRunResult {
+  processed: number; // occurrences turned into transactions (or found already materialised)
+  failures: { recurringTransactionId: string; error: Error }[];
+}
+
+export class RecurringTransactionService {
+  // Bounds a single scheduler run; anything left over is picked up by the next run
+  private readonly DUE_BATCH_SIZE = 100;
+  private readonly MAX_OCCURRENCES_PER_RUN = 500;
+
+  private recurringTransactionRepository: IRecurringTransactionRepository;
+  private categoryRepository: ICategoryRepository;
+  private userRepository: IUserRepository;
+  private transactionService: TransactionService;
+  constructor(
+    recurringTransactionRepository: IRecurringTransactionRepository,
+    categoryRepository: ICategoryRepository,
+    userRepository: IUserRepository,
+    transactionService: TransactionService,
+  ) {
+    this.recurringTransactionRepository = recurringTransactionRepository;
+    this.categoryRepository = categoryRepository;
+    this.userRepository = userRepository;
+    this.transactionService = transactionService;
+  }
+
+  async fetchRecurringTransactions(userId: string): Promise<RecurringTransactionResponseDto[]> {
+    const recurring = await this.recurringTransactionRepository.getByUserId(userId);
+    return recurring.map(RecurringTransactionMapper.toDto);
+  }
+
+  async fetchRecurringTransactionById(
+    id: string,
+    userId: string,
+  ): Promise<RecurringTransactionResponseDto> {
+    const recurring = await this.getOwned(id, userId);
+    return RecurringTransactionMapper.toDto(recurring);
+  }
+
+  async createRecurringTransaction(
+    data: CreateRecurringTransactionDto,
+    userId: string,
+  ): Promise<RecurringTransactionResponseDto> {
+    await this.resolveCategory(data.categoryId, data.type, userId);
+
+    const user = await this.userRepository.getById(userId);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    const recurring = RecurringTransaction.create({
+      userId,
+      amount: data.amount,
+      currency: data.currency ?? user.baseCurrency,
+      type: data.type as TransactionType,
+      categoryId: data.categoryId,
+      description: data.description,
+      frequency: data.frequency,
+      interval: data.interval,
+      startDate: data.startDate,
+      endDate: data.endDate,
+      maxOccurrences: data.maxOccurrences,
+    });
+
+    const created = await this.recurringTransactionRepository.save(recurring);
+    return RecurringTransactionMapper.toDto(created);
+  }
+
+  async updateRecurringTransaction(
+    id: string,
+    data: UpdateRecurringTransactionDto,
+    userId: string,
+  ): Promise<RecurringTransactionResponseDto> {
+    const recurring = await this.getOwned(id, userId);
+
+    const type = (data.type ?? recurring.type) as CreateTransactionDto["type"];
+    const category =
+      data.categoryId || data.type
+        ? await this.resolveCategory(data.categoryId ?? recurring.categoryId, type, userId)
+        : undefined;
+
+    const endDate = data.endDate !== undefined ? data.endDate : recurring.endDate;
+    if (endDate && endDate < (data.startDate ?? recurring.startDate)) {
+      throw new BadRequestError("endDate must be on or after startDate");
+    }
+
+    recurring.update({
+      amount: data.amount,
+      currency: data.currency,
+      type: data.type as TransactionType,
+      category,
+      description: data.description,
+      frequency: data.frequency,
+      interval: data.interval,
+      startDate: data.startDate,
+      endDate: data.endDate,
+      maxOccurrences: data.maxOccurrences,
+    });
+
+    const scheduleChanged = [
+      data.frequency,
+      data.interval,
+      data.startDate,
+      data.endDate,
+      data.maxOccurrences,
+    ].some((value) => value !== undefined);
+    if (scheduleChanged) {
+      // Continue after the last generated occurrence so nothing is created twice
+      const index = recurring.lastOccurrenceAt
+        ? firstOccurrenceIndexAfter(recurring, recurring.lastOccurrenceAt)
+        : 0;
+      this.scheduleFrom(recurring, index);
+    }
+
+    const saved = await this.recurringTransactionRepository.update(recurring);
+    return RecurringTransactionMapper.toDto(saved);
+  }
+
+  async pauseRecurringTransaction(
+    id: string,
+    userId: string,
+  ): Promise<RecurringTransactionResponseDto> {
+    const recurring = await this.getActive(id, userId);
+
+    recurring.isPaused = true;
+
+    const saved = await this.recurringTransactionRepository.update(recurring);
+    return RecurringTransactionMapper.toDto(saved);
+  }
+
+  /**
+   * Resumes a paused schedule from the next future occurrence. Occurrences that fell due while
+   * the schedule was paused are not generated.
+   */
+  async resumeRecurringTransaction(
+    id: string,
+    userId: string,
+    now: Date = new Date(),
+  ): Promise<RecurringTransactionResponseDto> {
+    const recurring = await this.getActive(id, userId);
+
+    if (recurring.isPaused) {
+      recurring.isPaused = false;
+      this.scheduleFrom(recurring, firstOccurrenceIndexAfter(recurring, now));
+    }
+
+    const saved = await this.recurringTransactionRepository.update(recurring);
+    return RecurringTransactionMapper.toDto(saved);
+  }
+
+  /**
+   * Skips the next occurrence without creating a transaction for it.
+   * A skipped occurrence still counts towards `maxOccurrences`.
+   */
+  async skipNextOccurrence(id: string, userId: string): Promise<RecurringTransactionResponseDto> {
+    const recurring = await this.getActive(id, userId);
+
+    this.scheduleFrom(recurring, recurring.nextOccurrenceIndex + 1);
+
+    const saved = await this.recurringTransactionRepository.update(recurring);
+    return RecurringTransactionMapper.toDto(saved);
+  }
+
+  /**
+   * Deletes the schedule. Transactions it already generated are kept.
+   */
+  async deleteRecurringTransaction(id: string, userId: string): Promise<void> {
+    await this.getOwned(id, userId);
+    await this.recurringTransactionRepository.delete(id);
+  }
+
+  /**
+   * Turns every occurrence due at `now` into a transaction, catching up on occurrences missed while the
+   * scheduler was not running. Safe to call concurrently and repeatedly: each occurrence is created at most once.
+   */
+  async processDueOccurrences(now: Date = new Date()): Promise<RecurringRunResult> {
+    const result: RecurringRunResult = { processed: 0, failures: [] };
+    const due = await this.recurringTransactionRepository.findDue(now, this.DUE_BATCH_SIZE);
+
+    for (const recurring of due) {
+      try {
+        result.processed += await this.materialiseDueOccurrences(recurring, now);
+      } catch (err) {
+        // Leave the schedule where it is so the occurrence is retried on the next run
+        result.failures.push({
+          recurringTransactionId: recurring.id!,
+          error: err instanceof Error ? err : new Error(String(err)),
+        });
+      }
+    }
+
+    return result;
+  }
+
+  private async materialiseDueOccurrences(
+    recurring: RecurringTransaction,
+    now: Date,
+  ): Promise<number> {
+    let processed = 0;
+
+    while (
+      recurring.nextRunAt &&
+      recurring.nextRunAt <= now &&
+      processed < this.MAX_OCCURRENCES_PER_RUN
+    ) {
+      const occurrenceDate = recurring.nextRunAt;
+
+      // Goes through the regular create path so category and currency rules apply to generated rows too
+      await this.transactionService.createTransaction(
+        {
+          amount: recurring.amount,
+          currency: recurring.currency,
+          type: recurring.type as CreateTransactionDto["type"],
+          categoryId: recurring.categoryId,
+          description: recurring.description,
+          date: occurrenceDate,
+        },
+        recurring.userId,
+        { recurringTransactionId: recurring.id!, occurrenceDate },
+      );
+
+      recurring.lastOccurrenceAt = occurrenceDate;
+      this.scheduleFrom(recurring, recurring.nextOccurrenceIndex + 1);
+
+      const advanced = await this.recurringTransactionRepository.advance(recurring, occurrenceDate);
+      if (!advanced) {
+        break; // another scheduler instance or a user edit moved the schedule first
+      }
+      processed++;
+    }
+
+    return processed;
+  }
+
+  private scheduleFrom(recurring: RecurringTransaction, index: number) {
+    recurring.moveTo(index, nextOccurrence(recurring, index));
+  }
+
+  private async getOwned(id: string, userId: string): Promise<RecurringTransaction> {
+    const recurring = await this.recurringTransactionRepository.getById(id, userId);
+
+    if (!recurring) {
+      throw new NotFoundError("Recurring transaction not found");
+    }
+    return recurring;
+  }
+
+  private async getActive(id: string, userId: string): Promise<RecurringTransaction> {
+    const recurring = await this.getOwned(id, userId);
+
+    if (recurring.isCompleted) {
+      throw new BadRequestError("Recurring transaction has already completed");
+    }
+    return recurring;
+  }
+
+  private async resolveCategory(
+    categoryId: string,
+    type: CreateTransactionDto["type"],
+    userId: string,
+  ): Promise<Category> {
+    const category = await this.categoryRepository.getById(categoryId, userId);
+
+    if (!category) {
+      throw new NotFoundError("Category not found");
+    }
+    if (category.kind !== type) {
+      throw new BadRequestError(`Category "${category.name}" cannot be used for ${type} transactions`);
+    }
+    return category;
+  }
+}
@@ -0,0 +1,115 @@
+import type { ISigningKeyRepository, SigningAlgorithm, SigningKey } from "src/core/interfaces";
+import {
+  decodeJwtHeader,
+  generateSigningKeyPair,
+  signKeyedJwt,
+  toPublicJwk,
+  verifyKeyedJwt,
+  type AccessTokenPayload,
+  type PublicJwk,
+} from "src/api/utils/jwtUtils";
+import { parseExpiryToMs } from "src/api/utils/timeUtils";
+import { ENVIRONMENT_CONFIG } from "@config";
+import { UnauthorizedError } from "../errors";
+
+const SIGNING_ALGORITHMS: SigningAlgorithm[] = ["RS256", "EdDSA"];
+
+/**
+ * Signs and verifies access tokens with the keyset. The newest key that is not retired signs; a
+ * rotation retires it, and retired keys keep verifying tokens for JWT_KEY_RETIREMENT_PERIOD so
+ * tokens issued before the rotation stay valid until they expire.
+ *
+ * The keyset is cached in memory and reloaded every minute, or sooner when a token names a key
+ * this instance has not seen yet, e.g. one rotated in by another instance.
+ */
+export class SigningKeyService {
+  private readonly ALGORITHM = ENVIRONMENT_CONFIG.JWT_SIGNING_ALGORITHM as SigningAlgorithm;
+  private readonly RETIREMENT_PERIOD_MS = parseExpiryToMs(
+    ENVIRONMENT_CONFIG.JWT_KEY_RETIREMENT_PERIOD,
+  );
+  private readonly KEYSET_CACHE_MS = 60 * 1000;
+  private readonly MIN_RELOAD_INTERVAL_MS = 5 * 1000; // so unknown key ids cannot force a reload
+
+  private signingKeyRepository: ISigningKeyRepository;
+  private keys: SigningKey[] = [];
+  private loadedAt: number | null = null;
+  private loading: Promise<SigningKey[]> | null = null;
+
+  constructor(signingKeyRepository: ISigningKeyRepository) {
+    if (!SIGNING_ALGORITHMS.includes(this.ALGORITHM)) {
+      throw new Error(
+        `Unknown JWT_SIGNING_ALGORITHM "${this.ALGORITHM}", expected "RS256" or "EdDSA"`,
+      );
+    }
+    this.signingKeyRepository = signingKeyRepository;
+  }
+
+  /**
+   * Signs a token with the active key, generating the first key when the keyset is empty.
+   */
+  async sign(payload: object, now: Date = new Date()): Promise<string> {
+    let key = (await this.getKeys(now)).find((key) => !key.retiredAt);
+    if (!key) {
+      key = await this.signingKeyRepository.create(generateSigningKeyPair(this.ALGORITHM));
+      this.loadedAt = null;
+    }
+    return signKeyedJwt(payload, key, now);
+  }
+
+  /**
+   * Verifies a token signed with any key in the keyset, retired keys included.
+   */
+  async verify(token: string, now: Date = new Date()): Promise<AccessTokenPayload> {
+    const { kid } = decodeJwtHeader(token);
+
+    let key = (await this.getKeys(now)).find((key) => key.kid === kid);
+    // A key id this instance has not seen may have been rotated in by another one
+    if (!key && now.getTime() - (this.loadedAt ?? 0) >= this.MIN_RELOAD_INTERVAL_MS) {
+      this.loadedAt = null;
+      key = (await this.getKeys(now)).find((key) => key.kid === kid);
+    }
+    if (!key) {
+      throw new UnauthorizedError("Token signed with an unknown key");
+    }
+
+    return verifyKeyedJwt(token, key, now);
+  }
+
+  /**
+   * The public keys that verify tokens right now, for the JWKS endpoint.
+   */
+  async getJwks(now: Date = new Date()): Promise<{ keys: PublicJwk[] }> {
+    return { keys: (await this.getKeys(now)).map((key) => toPublicJwk(key)) };
+  }
+
+  /**
+   * Generates a new key to sign with and retires the others. Keys whose retirement period is over
+   * are deleted along the way.
+   */
+  async rotate(now: Date = new Date()): Promise<SigningKey> {
+    const key = await this.signingKeyRepository.create(generateSigningKeyPair(this.ALGORITHM));
+    await this.signingKeyRepository.retireAllExcept(key.kid, now);
+    await this.signingKeyRepository.deleteRetiredBefore(this.retiredAfter(now));
+    this.loadedAt = null;
+    return key;
+  }
+
+  private async getKeys(now: Date): Promise<SigningKey[]> {
+    if (this.loadedAt === null || now.getTime() - this.loadedAt >= this.KEYSET_CACHE_MS) {
+      // Requests arriving together share one load
+      this.loading ??= this.signingKeyRepository
+        .findVerifiable(this.retiredAfter(now))
+        .finally(() => (this.loading = null));
+      this.keys = await this.loading;
+      this.loadedAt = now.getTime();
+    }
+
+    // A key can reach the end of its retirement period while cached
+    const retiredAfter = this.retiredAfter(now);
+    return this.keys.filter((key) => !key.retiredAt || key.retiredAt > retiredAfter);
+  }
+
+  private retiredAfter(now: Date): Date {
+    return new Date(now.getTime() - this.RETIREMENT_PERIOD_MS);
+  }
+}
@@ -0,0 +1,69 @@
+import type { ITagRepository } from "src/core/interfaces";
+import { Tag } from "src/core/entities";
+import type { CreateTagDto, TagResponseDto, UpdateTagDto } from "../dtos";
+import { TagMapper } from "../mappers/tag.mapper";
+import { ConflictError, NotFoundError } from "../errors";
+
+export class TagService {
+  private tagRepository: ITagRepository;
+  constructor(tagRepository: ITagRepository) {
+    this.tagRepository = tagRepository;
+  }
+
+  async fetchTags(userId: string): Promise<TagResponseDto[]> {
+    const tags = await this.tagRepository.getByUserId(userId);
+    return tags.map(TagMapper.toDto);
+  }
+
+  async fetchTagById(id: string, userId: string): Promise<TagResponseDto> {
+    const tag = await this.tagRepository.getById(id, userId);
+
+    if (!tag) {
+      throw new NotFoundError("Tag not found");
+    }
+    return TagMapper.toDto(tag);
+  }
+
+  async createTag(data: CreateTagDto, userId: string): Promise<TagResponseDto> {
+    await this.assertNameAvailable(data.name, userId);
+
+    const tag = Tag.create({ userId, name: data.name, color: data.color });
+
+    const created = await this.tagRepository.save(tag);
+    return TagMapper.toDto(created);
+  }
+
+  async updateTag(id: string, data: UpdateTagDto, userId: string): Promise<TagResponseDto> {
+    const existingTag = await this.tagRepository.getById(id, userId);
+
+    if (!existingTag) {
+      throw new NotFoundError("Tag not found");
+    }
+
+    if (data.name !== undefined) {
+      await this.assertNameAvailable(data.name, userId, id);
+    }
+
+    existingTag.update({ name: data.name, color: data.color });
+
+    const saved = await this.tagRepository.update(existingTag);
+    return TagMapper.toDto(saved);
+  }
+
+  async deleteTag(id: string, userId: string): Promise<void> {
+    const existingTag = await this.tagRepository.getById(id, userId);
+
+    if (!existingTag) {
+      throw new NotFoundError("Tag not found");
+    }
+
+    await this.tagRepository.delete(id);
+  }
+
+  private async assertNameAvailable(name: string, userId: string, excludeId?: string) {
+    const existing = await this.tagRepository.getByName(name, userId);
+    if (existing && existing.id !== excludeId) {
+      throw new ConflictError(`A tag named "${existing.name}" already exists`);
+    }
+  }
+}
@@ -1,14 +1,124 @@
-import type { ITransactionRepository } from "src/core/interfaces";
-import type { CreateTransactionDto, TransactionResponseDto } from "../dtos";
+import type {
+  AuditContext,
+  ICategoryRepository,
+  ITagRepository,
+  ITransactionHistoryRepository,
+  ITransactionRepository,
+  IUserRepository,
+  TransactionHistoryAction,
+  TransactionHistoryRecorder,
+  TransactionQuery,
+  TransactionSnapshot,
+} from "src/core/interfaces";
+import type {
+  CreateTransactionDto,
+  ReplaceTransactionDto,
+  TransactionExportDto,
+  TransactionExportQueryDto,
+  TransactionHistoryEntryResponseDto,
+  TransactionQueryDto,
+  TransactionResponseDto,
+  TrashedTransactionResponseDto,
+  UpdateTransactionDto,
+} from "../dtos";
+import type { EXPORT_COLUMNS } from "../dtos/transaction";
 import type Transaction from "src/core/entities/transactionAggregate/transaction";
+import { Tag, type Category, type TransactionSplit } from "src/core/entities";
 import { TransactionMapper } from "../mappers/transaction.mapper";
+import { TagMapper } from "../mappers/tag.mapper";
 import type { TransactionType } from "@src/core/entities/transactionAggregate/transactionType";
-import { InternalServerError, NotFoundError } from "../errors";
+import {
+  BadRequestError,
+  ConflictError,
+  InternalServerError,
+  NotFoundError,
+  PreconditionFailedError,
+} from "../errors";
+import { decodeCursor, encodeCursor } from "src/application/utils/cursorUtils";
+import { matchesIfMatch, toETag } from "src/application/utils/etagUtils";
+import type { ExchangeRateService } from "./exchangeRate.service";
+import type { AttachmentService } from "./attachment.service";
+import { formatCsvRecord } from "src/application/utils/statementUtils";
+import { writeXlsx } from "src/application/utils/xlsxUtils";
+import { dayInZone, toDay } from "src/application/utils/timezoneUtils";
+import {
+  createAmountFormatter,
+  createDayFormatter,
+  decimalSeparatorOf,
+  spreadsheetDayFormatOf,
+} from "src/application/utils/localeUtils";
+
+type ExportColumn = (typeof EXPORT_COLUMNS)[number];
+
+// A string, a number, a calendar day (midnight UTC) or an empty cell
+type ExportValue = string | number | Date | null;
+
+// One exported row: a transaction, or one line of a split transaction
+type ExportLine = Omit<TransactionResponseDto, "splits"> & { note: string | null };
+
+const EXPORT_HEADERS: Record<ExportColumn, string> = {
+  date: "Date",
+  description: "Description",
+  category: "Category",
+  type: "Type",
+  amount: "Amount",
+  currency: "Currency",
+  convertedAmount: "Converted amount",
+  baseCurrency: "Base currency",
+  note: "Note",
+  id: "ID",
+};
+
+const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = [
+  "date",
+  "description",
+  "category",
+  "type",
+  "amount",
+  "currency",
+  "convertedAmount",
+  "baseCurrency",
+  "note",
+];
+
+// Changes made by background jobs, such as generated recurring occurrences
+const SYSTEM_CONTEXT: AuditContext = { actorId: null, ipAddress: null, userAgent: null };
+
+const EXPORT_CONTENT_TYPES = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
 
 export class TransactionService {
+  // Transactions read from the database per query while exporting
+  private readonly EXPORT_CHUNK_SIZE = 500;
+  // Trashed transactions removed per query while purging
+  private readonly PURGE_CHUNK_SIZE = 100;
+
   private transactionRepository: ITransactionRepository;
-  constructor(transactionRepository: ITransactionRepository) {
+  private categoryRepository: ICategoryRepository;
+  private userRepository: IUserRepository;
+  private exchangeRateService: ExchangeRateService;
+  private tagRepository: ITagRepository;
+  private attachmentService: AttachmentService;
+  private historyRepository: ITransactionHistoryRepository;
+  constructor(
+    transactionRepository: ITransactionRepository,
+    categoryRepository: ICategoryRepository,
+    userRepository: IUserRepository,
+    exchangeRateService: ExchangeRateService,
+    tagRepository: ITagRepository,
+    attachmentService: AttachmentService,
+    historyRepository: ITransactionHistoryRepository,
+  ) {
     this.transactionRepository = transactionRepository;
+    this.categoryRepository = categoryRepository;
+    this.userRepository = userRepository;
+    this.exchangeRateService = exchangeRateService;
+    this.tagRepository = tagRepository;
+    this.attachmentService = attachmentService;
+    this.historyRepository = historyRepository;
   }
   async fetchTransactionById({
     id,
@@ -22,73 +132,699 @@ export class TransactionService {
     if (!transaction) {
       throw new NotFoundError("Transaction not found");
     }
-    return TransactionMapper.toDto(transaction) as TransactionResponseDto;
+    const [dto] = await this.toConvertedDtos([transaction], userId);
+    return dto;
   }
 
-  async fetchTransactions(params: { userId: string }): Promise<TransactionResponseDto[]> {
-    const { userId } = params;
-    const transactions = await this.transactionRepository.getByUserId(userId);
-    return transactions.map(
-      (transaction: Transaction) => TransactionMapper.toDto(transaction) as TransactionResponseDto,
-    );
+  async fetchTransactions(params: {
+    userId: string;
+    query: TransactionQueryDto;
+  }): Promise<{ transactions: TransactionResponseDto[]; nextCursor: string | null }> {
+    const { userId, query } = params;
+    const sort = { field: query.sortBy, direction: query.order };
+    const sortSignature = `${sort.field}:${sort.direction}`;
+
+    let after: TransactionQuery["after"];
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor);
+      if (!cursor || cursor.sort !== sortSignature) {
+        throw new BadRequestError("Invalid cursor for the requested sort order");
+      }
+      after = { id: cursor.id, value: this.parseSortValue(cursor.value, sort.field) };
+    }
+
+    const page = await this.transactionRepository.findByQuery({
+      userId,
+      filters: this.toFilters(query),
+      sort,
+      limit: query.limit,
+      after,
+    });
+
+    const last = page.transactions[page.transactions.length - 1];
+    const nextCursor =
+      page.hasMore && last
+        ? encodeCursor({
+            id: last.id!,
+            sort: sortSignature,
+            value: this.getSortValue(last, sort.field),
+          })
+        : null;
+
+    return {
+      transactions: await this.toConvertedDtos(page.transactions, userId),
+      nextCursor,
+    };
   }
 
+  /**
+   * Exports the transactions matching the list filters as a CSV, JSON or XLSX file. The file is
+   * produced while it is read, one page of EXPORT_CHUNK_SIZE transactions at a time, so large
+   * histories are never held in memory. CSV and XLSX dates and amounts follow the user's locale
+   * and time zone; JSON keeps ISO days and plain numbers.
+   */
+  async exportTransactions(params: {
+    userId: string;
+    query: TransactionExportQueryDto;
+  }): Promise<TransactionExportDto> {
+    const { userId, query } = params;
+    const user = await this.userRepository.getById(userId);
+
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    const locale = query.locale ?? user.locale;
+    const timeZone = query.timezone ?? user.timezone;
+    const columns = query.columns ?? DEFAULT_EXPORT_COLUMNS;
+    const rows = this.readExportRows(userId, query, user.baseCurrency, columns, timeZone);
+
+    let content: AsyncIterable<string | Buffer>;
+    if (query.format === "xlsx") {
+      content = writeXlsx(
+        columns.map((column) => EXPORT_HEADERS[column]),
+        rows,
+        { name: "Transactions", dayFormat: spreadsheetDayFormatOf(locale), numberFormat: "0.00" },
+      );
+    } else if (query.format === "json") {
+      content = this.writeJson(columns, rows);
+    } else {
+      content = this.writeCsv(columns, rows, locale);
+    }
+
+    return {
+      fileName: `transactions-${dayInZone(new Date(), timeZone)}.${query.format}`,
+      contentType: EXPORT_CONTENT_TYPES[query.format],
+      content,
+    };
+  }
+
+  /**
+   * Records a new transaction. When `occurrence` is given the transaction is generated by a
+   * recurring transaction; an occurrence that was already materialised is returned as is.
+   */
   async createTransaction(
     transaction: CreateTransactionDto,
     userId: string,
+    occurrence?: { recurringTransactionId: string; occurrenceDate: Date },
+    context: AuditContext = SYSTEM_CONTEXT,
   ): Promise<TransactionResponseDto> {
+    if (occurrence) {
+      const existing = await this.transactionRepository.getByOccurrence(
+        occurrence.recurringTransactionId,
+        occurrence.occurrenceDate,
+      );
+      if (existing) {
+        const [dto] = await this.toConvertedDtos([existing], userId);
+        return dto;
+      }
+    }
+
+    await this.resolveCategory(transaction.categoryId, transaction.type, userId);
+    const splits = await this.resolveSplits(transaction.splits ?? [], transaction.type, userId);
+    const tags = await this.tagRepository.getOrCreateByNames(transaction.tags ?? [], userId);
+    const baseCurrency = await this.getBaseCurrency(userId);
+
     const newTransaction: Transaction = TransactionMapper.toDomain({
       ...transaction,
+      splits,
+      tags,
+      currency: transaction.currency ?? baseCurrency,
       userId,
+      ...occurrence,
     });
 
-    const createdTransaction = await this.transactionRepository.save(newTransaction);
+    const createdTransaction = await this.transactionRepository.save(
+      newTransaction,
+      this.recordChange("created", null, context),
+    );
 
     if (!createdTransaction) {
       throw new InternalServerError("Failed to create transaction");
     }
 
-    return TransactionMapper.toDto(createdTransaction) as TransactionResponseDto;
+    const [dto] = await this.toConvertedDtos([createdTransaction], userId, baseCurrency);
+    return dto;
+  }
+
+  /**
+   * Replaces every field of a transaction. Optional fields left out are cleared: the currency goes
+   * back to the user's base currency and the split lines and tags are removed.
+   */
+  async replaceTransaction(
+    id: string,
+    transaction: ReplaceTransactionDto,
+    userId: string,
+    context: AuditContext = SYSTEM_CONTEXT,
+    ifMatch?: string,
+  ): Promise<TransactionResponseDto> {
+    return this.updateTransaction(
+      id,
+      {
+        ...transaction,
+        currency: transaction.currency ?? null,
+        splits: transaction.splits ?? null,
+        tags: transaction.tags ?? null,
+      },
+      userId,
+      context,
+      ifMatch,
+    );
   }
 
+  /**
+   * Applies a merge patch to a transaction: fields left out are kept and null clears an optional
+   * field. With `ifMatch`, the If-Match header of the request, the update is refused unless it
+   * names the transaction's current version.
+   */
   async updateTransaction(
     id: string,
-    transaction: Partial<CreateTransactionDto>,
+    transaction: UpdateTransactionDto,
     userId: string,
+    context: AuditContext = SYSTEM_CONTEXT,
+    ifMatch?: string,
   ): Promise<TransactionResponseDto> {
     const existingTransaction = await this.transactionRepository.getById(id, userId);
 
     if (!existingTransaction) {
       throw new NotFoundError("Transaction not found");
     }
+    await this.assertIfMatch(existingTransaction, userId, ifMatch);
+    const before = TransactionMapper.toSnapshot(existingTransaction);
+
+    // Re-check the category whenever either side of the kind/type pairing changes
+    const type = (transaction.type ?? existingTransaction.type) as CreateTransactionDto["type"];
+    const category =
+      transaction.categoryId || transaction.type
+        ? await this.resolveCategory(
+            transaction.categoryId ?? existingTransaction.categoryId,
+            type,
+            userId,
+          )
+        : undefined;
+    // A type change has to be checked against the kept split lines as well
+    const splitsToCheck =
+      transaction.splits === null
+        ? []
+        : (transaction.splits ?? (transaction.type ? existingTransaction.splits : undefined));
+    const splits = splitsToCheck && (await this.resolveSplits(splitsToCheck, type, userId));
+    const tags = await this.patchTags(existingTransaction.tags, transaction, userId);
+    const currency =
+      transaction.currency === null ? await this.getBaseCurrency(userId) : transaction.currency;
 
     existingTransaction.update({
       amount: transaction.amount,
+      currency,
       type: transaction.type as TransactionType,
-      category:
-        transaction.category && transaction.category !== ""
-          ? existingTransaction.convertStringToCategory(transaction.category)
-          : undefined,
+      category,
       description: transaction.description,
       date: transaction.date,
+      splits,
+      tags,
     });
 
-    const savedTransaction = await this.transactionRepository.update(existingTransaction);
+    const savedTransaction = await this.transactionRepository.update(
+      existingTransaction,
+      this.recordChange("updated", before, context),
+    );
 
     if (!savedTransaction) {
-      throw new InternalServerError("Failed to update transaction");
+      throw this.concurrentChangeError(ifMatch);
     }
 
-    return TransactionMapper.toDto(savedTransaction) as TransactionResponseDto;
+    const [dto] = await this.toConvertedDtos([savedTransaction], userId);
+    return dto;
   }
 
-  async deleteTransaction(id: string, userId: string): Promise<void> {
+  /**
+   * Moves a transaction to the trash. It disappears from listings, totals and budgets but can be
+   * restored until the purge job removes it for good. `ifMatch` works as for updates.
+   */
+  async deleteTransaction(
+    id: string,
+    userId: string,
+    context: AuditContext = SYSTEM_CONTEXT,
+    ifMatch?: string,
+  ): Promise<void> {
     const existingTransaction = await this.transactionRepository.getById(id, userId);
 
     if (!existingTransaction) {
       throw new NotFoundError("Transaction not found");
     }
+    await this.assertIfMatch(existingTransaction, userId, ifMatch);
+    const before = TransactionMapper.toSnapshot(existingTransaction);
+
+    const moved = await this.transactionRepository.moveToTrash(
+      id,
+      new Date(),
+      existingTransaction.version,
+      this.recordChange("deleted", before, context),
+    );
+    if (!moved) {
+      throw this.concurrentChangeError(ifMatch);
+    }
+  }
+
+  async fetchTrash(userId: string): Promise<TrashedTransactionResponseDto[]> {
+    const transactions = await this.transactionRepository.getTrashByUserId(userId);
+    const dtos = await this.toConvertedDtos(transactions, userId);
+    return dtos.map((dto, index) => ({ ...dto, deletedAt: transactions[index].deletedAt! }));
+  }
+
+  async restoreTransaction(
+    id: string,
+    userId: string,
+    context: AuditContext = SYSTEM_CONTEXT,
+  ): Promise<TransactionResponseDto> {
+    const trashedTransaction = await this.transactionRepository.getTrashedById(id, userId);
+
+    if (!trashedTransaction) {
+      throw new NotFoundError("Transaction not found in the trash");
+    }
+    const before = TransactionMapper.toSnapshot(trashedTransaction);
+
+    const restored = await this.transactionRepository.restore(
+      id,
+      trashedTransaction.version,
+      this.recordChange("restored", before, context),
+    );
+    if (!restored) {
+      throw this.concurrentChangeError();
+    }
+    trashedTransaction.deletedAt = null;
+    trashedTransaction.version++;
+
+    const [dto] = await this.toConvertedDtos([trashedTransaction], userId);
+    return dto;
+  }
+
+  /**
+   * Lists the change history of a live or trashed transaction, oldest version first.
+   */
+  async fetchHistory(id: string, userId: string): Promise<TransactionHistoryEntryResponseDto[]> {
+    const transaction =
+      (await this.transactionRepository.getById(id, userId)) ??
+      (await this.transactionRepository.getTrashedById(id, userId));
+
+    if (!transaction) {
+      throw new NotFoundError("Transaction not found");
+    }
+
+    const entries = await this.historyRepository.getByTransactionId(id);
+    return entries.map(TransactionMapper.toHistoryDto);
+  }
+
+  /**
+   * Puts the amount, currency, type, category, description, date, splits and tags back the way
+   * they were at the given version. The revert is itself recorded as a new version, so it can be
+   * undone the same way. Categories are checked again; tags deleted since are created again.
+   */
+  async revertTransaction(
+    id: string,
+    version: number,
+    userId: string,
+    context: AuditContext = SYSTEM_CONTEXT,
+  ): Promise<TransactionResponseDto> {
+    const existingTransaction = await this.transactionRepository.getById(id, userId);
+
+    if (!existingTransaction) {
+      throw new NotFoundError("Transaction not found");
+    }
+
+    const entry = await this.historyRepository.getByVersion(id, version);
+
+    if (!entry) {
+      throw new NotFoundError("Transaction version not found");
+    }
+
+    const { snapshot } = entry;
+    const type = snapshot.type as CreateTransactionDto["type"];
+    const before = TransactionMapper.toSnapshot(existingTransaction);
+
+    existingTransaction.update({
+      amount: snapshot.amount,
+      currency: snapshot.currency,
+      type: type as TransactionType,
+      category: await this.resolveCategory(snapshot.categoryId, type, userId),
+      description: snapshot.description,
+      date: snapshot.date ? new Date(snapshot.date) : undefined,
+      splits: await this.resolveSplits(snapshot.splits, type, userId),
+      tags: await this.tagRepository.getOrCreateByNames(snapshot.tags, userId),
+    });
 
-    await this.transactionRepository.delete(id);
+    const savedTransaction = await this.transactionRepository.update(
+      existingTransaction,
+      this.recordChange("reverted", before, context),
+    );
+
+    if (!savedTransaction) {
+      throw this.concurrentChangeError();
+    }
+
+    const [dto] = await this.toConvertedDtos([savedTransaction], userId);
+    return dto;
+  }
+
+  /**
+   * Permanently deletes every transaction, of any user, that was trashed before `deletedBefore`,
+   * together with its attachments.
+   *
+   * @returns The number of transactions purged.
+   */
+  async purgeTrash(deletedBefore: Date): Promise<number> {
+    let purged = 0;
+    let ids: string[];
+
+    do {
+      ids = await this.transactionRepository.findTrashedBefore(
+        deletedBefore,
+        this.PURGE_CHUNK_SIZE,
+      );
+      for (const id of ids) {
+        await this.attachmentService.deleteTransactionAttachments(id);
+        await this.transactionRepository.delete(id);
+      }
+      purged += ids.length;
+    } while (ids.length === this.PURGE_CHUNK_SIZE);
+
+    return purged;
+  }
+
+  /**
+   * Records a change in the transaction's history. The repository writes the entry together with
+   * the change; a change that leaves every recorded field as it was is not recorded.
+   */
+  private recordChange(
+    action: TransactionHistoryAction,
+    before: TransactionSnapshot | null,
+    context: AuditContext,
+  ): TransactionHistoryRecorder {
+    return (transaction) => TransactionMapper.toHistoryEntry(action, before, transaction, context);
+  }
+
+  /**
+   * Refuses a change unless `ifMatch` names the ETag the transaction would be read with now.
+   */
+  private async assertIfMatch(transaction: Transaction, userId: string, ifMatch?: string) {
+    if (ifMatch === undefined) {
+      return;
+    }
+
+    const [current] = await this.toConvertedDtos([transaction], userId);
+    if (!matchesIfMatch(ifMatch, toETag(transaction.version, current))) {
+      throw new PreconditionFailedError("Transaction has been changed since it was fetched");
+    }
+  }
+
+  /**
+   * The error for a change that lost the race against another one saved after the transaction was
+   * read: a failed precondition when the client sent If-Match, a conflict otherwise.
+   */
+  private concurrentChangeError(ifMatch?: string) {
+    return ifMatch !== undefined
+      ? new PreconditionFailedError("Transaction has been changed since it was fetched")
+      : new ConflictError("Transaction was changed by another request, please retry");
+  }
+
+  private toFilters(query: TransactionQueryDto | TransactionExportQueryDto) {
+    return {
+      from: query.from,
+      to: query.to,
+      type: query.type,
+      categoryId: query.categoryId,
+      currency: query.currency,
+      minAmount: query.minAmount,
+      maxAmount: query.maxAmount,
+      search: query.search,
+      tags: TagMapper.toFilter(query),
+    };
+  }
+
+  /**
+   * Reads the matching transactions page by page, following the keyset of each page's last row,
+   * and yields the selected column values of each page.
+   */
+  private async *readExportRows(
+    userId: string,
+    query: TransactionExportQueryDto,
+    baseCurrency: string,
+    columns: ExportColumn[],
+    timeZone: string,
+  ): AsyncGenerator<ExportValue[][]> {
+    const sort = { field: query.sortBy, direction: query.order };
+    let after: TransactionQuery["after"];
+
+    do {
+      const page = await this.transactionRepository.findByQuery({
+        userId,
+        filters: this.toFilters(query),
+        sort,
+        limit: this.EXPORT_CHUNK_SIZE,
+        after,
+      });
+
+      const dtos = await this.toConvertedDtos(page.transactions, userId, baseCurrency);
+      const lines = dtos.flatMap((dto) => this.toExportLines(dto));
+      if (lines.length > 0) {
+        yield lines.map((line) =>
+          columns.map((column) => this.exportValue(line, column, timeZone)),
+        );
+      }
+
+      const last = page.transactions[page.transactions.length - 1];
+      after =
+        page.hasMore && last
+          ? {
+              id: last.id!,
+              value: this.parseSortValue(this.getSortValue(last, sort.field), sort.field),
+            }
+          : undefined;
+    } while (after);
+  }
+
+  /**
+   * Split transactions export one row per line, each with the line's category and amounts, so
+   * the rows of a file total per category the same way budgets and analytics do.
+   */
+  private toExportLines(transaction: TransactionResponseDto): ExportLine[] {
+    const { splits, ...parent } = transaction;
+    if (splits.length === 0) {
+      return [{ ...parent, note: null }];
+    }
+    return splits.map((split) => ({ ...parent, ...split }));
+  }
+
+  private exportValue(
+    transaction: ExportLine,
+    column: ExportColumn,
+    timeZone: string,
+  ): ExportValue {
+    if (column === "date") {
+      // Stored dates are instants; exports show the day they fall on for the user
+      return transaction.date
+        ? new Date(`${dayInZone(new Date(transaction.date), timeZone)}T00:00:00Z`)
+        : null;
+    }
+    return transaction[column];
+  }
+
+  private async *writeCsv(
+    columns: ExportColumn[],
+    rows: AsyncIterable<ExportValue[][]>,
+    locale: string,
+  ): AsyncGenerator<string> {
+    // Locales with a decimal comma separate cells with semicolons, as their spreadsheets expect
+    const delimiter = decimalSeparatorOf(locale) === "," ? ";" : ",";
+    const formatDay = createDayFormatter(locale);
+    const formatAmount = createAmountFormatter(locale);
+    const format = (value: ExportValue) => {
+      if (value === null) return "";
+      if (value instanceof Date) return formatDay(value);
+      if (typeof value === "number") return formatAmount(value);
+      // A leading =, +, - or @ would make spreadsheets evaluate the text as a formula
+      return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    };
+
+    // The byte order mark tells spreadsheets the file is UTF-8
+    yield "\uFEFF" + formatCsvRecord(columns.map((column) => EXPORT_HEADERS[column]), delimiter);
+    for await (const batch of rows) {
+      yield batch.map((cells) => formatCsvRecord(cells.map(format), delimiter)).join("");
+    }
+  }
+
+  private async *writeJson(
+    columns: ExportColumn[],
+    rows: AsyncIterable<ExportValue[][]>,
+  ): AsyncGenerator<string> {
+    const toRecord = (cells: ExportValue[]) =>
+      JSON.stringify(
+        Object.fromEntries(
+          columns.map((column, index) => {
+            const value = cells[index];
+            return [column, value instanceof Date ? toDay(value) : value];
+          }),
+        ),
+      );
+
+    let separator = "\n";
+    yield "[";
+    for await (const batch of rows) {
+      yield separator + batch.map(toRecord).join(",\n");
+      separator = ",\n";
+    }
+    yield "\n]\n";
+  }
+
+  private async getBaseCurrency(userId: string): Promise<string> {
+    const user = await this.userRepository.getById(userId);
+
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+    return user.baseCurrency;
+  }
+
+  /**
+   * Maps transactions to response DTOs with their amounts converted into the user's base currency,
+   * using the exchange rate in effect on each transaction's date.
+   */
+  private async toConvertedDtos(
+    transactions: Transaction[],
+    userId: string,
+    baseCurrency?: string,
+  ): Promise<TransactionResponseDto[]> {
+    if (transactions.length === 0) {
+      return [];
+    }
+
+    const targetCurrency = baseCurrency ?? (await this.getBaseCurrency(userId));
+    const convert = this.exchangeRateService.createConverter(targetCurrency);
+
+    return Promise.all(
+      transactions.map(async (transaction) => {
+        const conversion = await convert(
+          transaction.amount,
+          transaction.currency,
+          transaction.date ?? transaction.createdAt ?? new Date(),
+        );
+        return TransactionMapper.toDto(transaction, {
+          baseCurrency: targetCurrency,
+          convertedAmount: conversion?.amount ?? null,
+          exchangeRate: conversion?.rate ?? null,
+        }) as TransactionResponseDto;
+      }),
+    );
+  }
+
+  /**
+   * Loads a category owned by the user and checks it can hold a transaction of the given type.
+   */
+  private async resolveCategory(
+    categoryId: string,
+    type: CreateTransactionDto["type"],
+    userId: string,
+  ): Promise<Category> {
+    const category = await this.categoryRepository.getById(categoryId, userId);
+
+    if (!category) {
+      throw new NotFoundError("Category not found");
+    }
+    if (category.kind !== type) {
+      throw new BadRequestError(`Category "${category.name}" cannot be used for ${type} transactions`);
+    }
+    return category;
+  }
+
+  /**
+   * The tags after a patch: `tags` replaces them, null removes them all, and `addTags` and
+   * `removeTags` adjust the current ones. Undefined when the patch leaves the tags alone.
+   */
+  private async patchTags(
+    current: Tag[],
+    patch: Pick<UpdateTransactionDto, "tags" | "addTags" | "removeTags">,
+    userId: string,
+  ): Promise<Tag[] | undefined> {
+    if (patch.tags === null) {
+      return [];
+    }
+    if (patch.tags) {
+      return this.tagRepository.getOrCreateByNames(patch.tags, userId);
+    }
+    if (patch.addTags || patch.removeTags) {
+      return this.applyTagChanges(current, patch, userId);
+    }
+    return undefined;
+  }
+
+  /**
+   * Removes the tags named in `removeTags`, then adds those in `addTags`, creating missing tags.
+   */
+  private async applyTagChanges(
+    current: Tag[],
+    changes: Pick<UpdateTransactionDto, "addTags" | "removeTags">,
+    userId: string,
+  ): Promise<Tag[]> {
+    const removed = new Set((changes.removeTags ?? []).map(Tag.normalizeName));
+    const tags = new Map(
+      current.filter((tag) => !removed.has(tag.normalizedName)).map((tag) => [tag.id!, tag]),
+    );
+    for (const tag of await this.tagRepository.getOrCreateByNames(changes.addTags ?? [], userId)) {
+      tags.set(tag.id!, tag);
+    }
+    return [...tags.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Loads the category of every split line, checking each like the transaction's own category.
+   */
+  private async resolveSplits(
+    splits: { categoryId: string; amount: number; note?: string | null }[],
+    type: CreateTransactionDto["type"],
+    userId: string,
+  ): Promise<TransactionSplit[]> {
+    const categories = new Map<string, Category>();
+    for (const { categoryId } of splits) {
+      if (!categories.has(categoryId)) {
+        categories.set(categoryId, await this.resolveCategory(categoryId, type, userId));
+      }
+    }
+    return splits.map((split) => ({
+      categoryId: split.categoryId,
+      category: categories.get(split.categoryId),
+      amount: split.amount,
+      note: split.note ?? null,
+    }));
+  }
+
+  private parseSortValue(
+    value: string | number | null,
+    field: TransactionQuery["sort"]["field"],
+  ): Date | number | null {
+    if (field === "amount") {
+      if (typeof value !== "number") {
+        throw new BadRequestError("Invalid cursor for the requested sort order");
+      }
+      return value;
+    }
+    // Only the date column is nullable
+    if (value === null && field === "date") {
+      return null;
+    }
+    const parsed = typeof value === "string" ? new Date(value) : null;
+    if (!parsed || isNaN(parsed.getTime())) {
+      throw new BadRequestError("Invalid cursor for the requested sort order");
+    }
+    return parsed;
+  }
+
+  private getSortValue(
+    transaction: Transaction,
+    field: TransactionQuery["sort"]["field"],
+  ): string | number | null {
+    if (field === "amount") {
+      return transaction.amount;
+    }
+    const value = field === "date" ? transaction.date : transaction.createdAt;
+    return value ? new Date(value).toISOString() : null;
   }
 }
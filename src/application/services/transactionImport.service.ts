@@ -0,0 +1,549 @@
+import type {
+  AuditContext,
+  ICategoryRepository,
+  ITransactionImportRepository,
+  IUserRepository,
+  ImportBatch,
+} from "src/core/interfaces";
+import { Category } from "src/core/entities";
+import type { CategoryKind } from "src/core/entities";
+import type {
+  CreateImportMappingDto,
+  CsvMappingDto,
+  ImportBatchResponseDto,
+  ImportMappingResponseDto,
+  ImportPreviewResponseDto,
+  ImportRowDto,
+  ImportRowErrorDto,
+  ImportTransactionsDto,
+  StatementOptionsDto,
+} from "../dtos";
+import { CsvMappingSchema, StatementOptionsSchema } from "../dtos/import";
+import { CreateTransactionSchema } from "../dtos/transaction";
+import { TransactionMapper } from "../mappers/transaction.mapper";
+import { TransactionImportMapper } from "../mappers/transactionImport.mapper";
+import { BadRequestError, ConflictError, NotFoundError, ValidationError } from "../errors";
+import {
+  parseCsv,
+  parseStatementAmount,
+  parseStatementDate,
+} from "src/application/utils/statementUtils";
+import { parseOfx, parseOfxAmount, parseOfxDate } from "src/application/utils/ofxUtils";
+import { parseQif } from "src/application/utils/qifUtils";
+import type { AttachmentService } from "./attachment.service";
+
+// One statement line as read from the file, in any format, before it is validated
+interface StatementEntry {
+  row: number;
+  date: Date | null; // null when unreadable
+  amount: number | null; // signed; negative amounts leave the account
+  description: string;
+  currency: string | null;
+  categoryName: string | null;
+  externalId: string | null; // the bank's transaction id, when the format has one
+  errors: ImportRowErrorDto[]; // problems reading the raw values
+}
+
+type StatementDefaults = Pick<
+  StatementOptionsDto,
+  "currency" | "expenseCategoryId" | "incomeCategoryId"
+>;
+
+// Column positions after header names have been resolved
+interface ResolvedColumns {
+  date: number;
+  description: number;
+  amount?: number;
+  debit?: number;
+  credit?: number;
+  currency?: number;
+  category?: number;
+}
+
+interface RowContext {
+  currency: string; // for entries that do not name one
+  categoriesByName: Map<string, Category>;
+  defaultCategories: Partial<Record<CategoryKind, Category>>;
+}
+
+export class TransactionImportService {
+  // Bounds the work done in one request; longer statements have to be imported in parts
+  private readonly MAX_IMPORT_ROWS = 5000;
+
+  private importRepository: ITransactionImportRepository;
+  private categoryRepository: ICategoryRepository;
+  private userRepository: IUserRepository;
+  private attachmentService: AttachmentService;
+  constructor(
+    importRepository: ITransactionImportRepository,
+    categoryRepository: ICategoryRepository,
+    userRepository: IUserRepository,
+    attachmentService: AttachmentService,
+  ) {
+    this.importRepository = importRepository;
+    this.categoryRepository = categoryRepository;
+    this.userRepository = userRepository;
+    this.attachmentService = attachmentService;
+  }
+
+  /**
+   * Reads a CSV, OFX/QFX or QIF statement and validates every row against the same rules as a
+   * manually created transaction. Rows whose bank transaction id (OFX FITID) was already imported
+   * are marked as duplicates and skipped. A dry run only reports the result; otherwise the
+   * remaining valid rows are stored as one import batch, all or nothing, each starting its history
+   * with a "created" entry. Invalid rows block the import unless `skipInvalidRows` is set.
+   */
+  async importTransactions(
+    data: ImportTransactionsDto,
+    userId: string,
+    auditContext: AuditContext = { actorId: userId, ipAddress: null, userAgent: null },
+  ): Promise<ImportPreviewResponseDto> {
+    let entries: StatementEntry[];
+    let defaults: StatementDefaults;
+    let mapping: CsvMappingDto | undefined;
+    if (data.format === "csv") {
+      mapping = data.mapping ?? (await this.getSavedMapping(data.mappingId!, userId));
+      entries = this.readCsv(data.content, mapping);
+      defaults = mapping;
+    } else {
+      const options = data.options ?? StatementOptionsSchema.parse({});
+      entries =
+        data.format === "qif" ? this.readQif(data.content, options) : this.readOfx(data.content);
+      defaults = options;
+    }
+
+    if (entries.length === 0) {
+      throw new BadRequestError("The file does not contain any rows to import");
+    }
+    if (entries.length > this.MAX_IMPORT_ROWS) {
+      throw new BadRequestError(
+        `Imports are limited to ${this.MAX_IMPORT_ROWS} rows; split the file into smaller parts`,
+      );
+    }
+
+    const context = await this.createRowContext(defaults, userId);
+    const rows = entries.map((entry) => this.toImportRow(entry, context));
+    await this.markDuplicates(rows, entries, userId);
+
+    const importable = entries
+      .map((entry, index) => ({ entry, row: rows[index] }))
+      .filter(({ row }) => row.transaction !== null && !row.duplicate);
+    const duplicateRows = rows.filter((row) => row.duplicate).length;
+    const invalidRows = rows.length - importable.length - duplicateRows;
+
+    let batchId: string | null = null;
+    if (!data.dryRun) {
+      if (invalidRows > 0 && !data.skipInvalidRows) {
+        throw new ValidationError(
+          `${invalidRows} of ${rows.length} rows are invalid; ` +
+            "fix them or set skipInvalidRows to import the remaining rows",
+        );
+      }
+      if (importable.length === 0) {
+        throw new BadRequestError("The file does not contain any new valid rows to import");
+      }
+
+      const batch = await this.importRepository.createBatch(
+        { userId, source: data.format, fileName: data.fileName ?? null },
+        importable.map(({ entry, row }) =>
+          TransactionMapper.toDomain({ ...row.transaction, userId, externalId: entry.externalId }),
+        ),
+        (transaction) =>
+          TransactionMapper.toHistoryEntry("created", null, transaction, auditContext),
+      );
+      batchId = batch.id;
+    }
+
+    let mappingId = data.mappingId ?? null;
+    if (data.saveMappingAs && mapping) {
+      const saved = await this.importRepository.saveMapping({
+        userId,
+        name: data.saveMappingAs,
+        mapping,
+      });
+      mappingId = saved.id;
+    }
+
+    return {
+      dryRun: data.dryRun,
+      batchId,
+      mappingId,
+      totalRows: rows.length,
+      validRows: importable.length,
+      invalidRows,
+      duplicateRows,
+      rows,
+    };
+  }
+
+  async fetchImportBatches(userId: string): Promise<ImportBatchResponseDto[]> {
+    const batches = await this.importRepository.getBatchesByUserId(userId);
+    return batches.map(TransactionImportMapper.toBatchDto);
+  }
+
+  async fetchImportBatchById(batchId: string, userId: string): Promise<ImportBatchResponseDto> {
+    const batch = await this.getOwnedBatch(batchId, userId);
+    return TransactionImportMapper.toBatchDto(batch);
+  }
+
+  /**
+   * Undoes an import by deleting every transaction still attached to the batch, including ones
+   * edited since, together with their attachments. Returns the number of transactions deleted.
+   */
+  async undoImport(batchId: string, userId: string): Promise<number> {
+    const batch = await this.getOwnedBatch(batchId, userId);
+
+    for (const id of await this.importRepository.getBatchTransactionIds(batch.id)) {
+      await this.attachmentService.deleteTransactionAttachments(id);
+    }
+    return this.importRepository.deleteBatch(batch.id);
+  }
+
+  async fetchImportMappings(userId: string): Promise<ImportMappingResponseDto[]> {
+    const mappings = await this.importRepository.getMappingsByUserId(userId);
+    return mappings.map(TransactionImportMapper.toMappingDto);
+  }
+
+  async createImportMapping(
+    data: CreateImportMappingDto,
+    userId: string,
+  ): Promise<ImportMappingResponseDto> {
+    if (await this.importRepository.getMappingByName(data.name, userId)) {
+      throw new ConflictError(`An import mapping named "${data.name}" already exists`);
+    }
+
+    const saved = await this.importRepository.saveMapping({
+      userId,
+      name: data.name,
+      mapping: data.mapping,
+    });
+    return TransactionImportMapper.toMappingDto(saved);
+  }
+
+  async deleteImportMapping(id: string, userId: string): Promise<void> {
+    const mapping = await this.importRepository.getMappingById(id, userId);
+
+    if (!mapping) {
+      throw new NotFoundError("Import mapping not found");
+    }
+    await this.importRepository.deleteMapping(mapping.id);
+  }
+
+  private async getOwnedBatch(id: string, userId: string): Promise<ImportBatch> {
+    const batch = await this.importRepository.getBatchById(id, userId);
+
+    if (!batch) {
+      throw new NotFoundError("Import batch not found");
+    }
+    return batch;
+  }
+
+  private async getSavedMapping(id: string, userId: string): Promise<CsvMappingDto> {
+    const saved = await this.importRepository.getMappingById(id, userId);
+
+    if (!saved) {
+      throw new NotFoundError("Import mapping not found");
+    }
+    return CsvMappingSchema.parse(saved.mapping);
+  }
+
+  private async createRowContext(
+    defaults: StatementDefaults,
+    userId: string,
+  ): Promise<RowContext> {
+    const user = await this.userRepository.getById(userId);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    const categories = await this.categoryRepository.getByUserId(userId);
+    const defaultCategories: RowContext["defaultCategories"] = {};
+    for (const [kind, id] of [
+      ["expense", defaults.expenseCategoryId],
+      ["income", defaults.incomeCategoryId],
+    ] as const) {
+      if (id === undefined) continue;
+
+      const category = categories.find((candidate) => candidate.id === id);
+      if (!category) {
+        throw new NotFoundError("Category not found");
+      }
+      if (category.kind !== kind) {
+        throw new BadRequestError(
+          `Category "${category.name}" cannot be used for ${kind} transactions`,
+        );
+      }
+      defaultCategories[kind] = category;
+    }
+
+    return {
+      currency: defaults.currency ?? user.baseCurrency,
+      categoriesByName: new Map(categories.map((category) => [category.normalizedName, category])),
+      defaultCategories,
+    };
+  }
+
+  private readCsv(content: string, mapping: CsvMappingDto): StatementEntry[] {
+    const records = parseCsv(content, mapping.delimiter);
+    const header = mapping.hasHeader ? records.shift() : undefined;
+    const columns = this.resolveColumns(mapping, header);
+
+    const firstRow = mapping.hasHeader ? 2 : 1;
+    return records
+      .map((cells, index) => ({ cells, row: index + firstRow }))
+      .filter(({ cells }) => cells.some((cell) => cell.trim() !== ""))
+      .map(({ cells, row }) => this.readCsvRow(cells, row, mapping, columns));
+  }
+
+  private resolveColumns(mapping: CsvMappingDto, header: string[] | undefined): ResolvedColumns {
+    if (mapping.hasHeader && !header) {
+      throw new BadRequestError("The file does not contain a header row");
+    }
+
+    const names = header?.map((name) => name.trim().toLowerCase()) ?? [];
+    const resolve = (column: string | number | undefined): number | undefined => {
+      if (typeof column !== "string") {
+        return column;
+      }
+      const index = names.indexOf(column.trim().toLowerCase());
+      if (index === -1) {
+        throw new BadRequestError(`Column "${column}" was not found in the header row`);
+      }
+      return index;
+    };
+
+    const { columns } = mapping;
+    return {
+      date: resolve(columns.date)!,
+      description: resolve(columns.description)!,
+      amount: resolve(columns.amount),
+      debit: resolve(columns.debit),
+      credit: resolve(columns.credit),
+      currency: resolve(columns.currency),
+      category: resolve(columns.category),
+    };
+  }
+
+  private readCsvRow(
+    cells: string[],
+    row: number,
+    mapping: CsvMappingDto,
+    columns: ResolvedColumns,
+  ): StatementEntry {
+    const errors: ImportRowErrorDto[] = [];
+    const cell = (column: number | undefined) =>
+      column === undefined ? "" : (cells[column] ?? "").trim();
+    const parseAmount = (label: string, column: number | undefined, emptyAs: number | null) => {
+      const raw = cell(column);
+      const value = raw === "" ? emptyAs : parseStatementAmount(raw, mapping.decimalSeparator);
+      if (value === null) {
+        errors.push({ field: "amount", message: `${label} "${raw}" is not a number` });
+      }
+      return value;
+    };
+
+    const rawDate = cell(columns.date);
+    const date = parseStatementDate(rawDate, mapping.dateFormat);
+    if (!date) {
+      errors.push({ field: "date", message: `"${rawDate}" is not a ${mapping.dateFormat} date` });
+    }
+
+    let amount: number | null = null;
+    if (columns.amount !== undefined) {
+      const value = parseAmount("Amount", columns.amount, null);
+      if (value !== null) {
+        amount = mapping.amountSign === "negative-is-expense" ? value : -value;
+      }
+    } else {
+      // Banks differ on whether money out is shown as negative, so only the column decides the sign
+      const debit = parseAmount("Debit", columns.debit, 0);
+      const credit = parseAmount("Credit", columns.credit, 0);
+      if (debit !== null && credit !== null) {
+        if (debit !== 0 && credit !== 0) {
+          errors.push({ field: "amount", message: "Only one of debit and credit may be set" });
+        } else {
+          amount = debit !== 0 ? -Math.abs(debit) : Math.abs(credit);
+        }
+      }
+    }
+
+    return {
+      row,
+      date,
+      amount,
+      description: cell(columns.description),
+      currency: cell(columns.currency) || null,
+      categoryName: cell(columns.category) || null,
+      externalId: null,
+      errors,
+    };
+  }
+
+  private readOfx(content: string): StatementEntry[] {
+    return parseOfx(content).map((transaction) => {
+      const errors: ImportRowErrorDto[] = [];
+
+      const date = transaction.datePosted ? parseOfxDate(transaction.datePosted) : null;
+      if (!date) {
+        errors.push({
+          field: "date",
+          message: transaction.datePosted
+            ? `DTPOSTED "${transaction.datePosted}" is not an OFX date`
+            : "DTPOSTED is missing",
+        });
+      }
+
+      const amount = transaction.amount ? parseOfxAmount(transaction.amount) : null;
+      if (amount === null) {
+        errors.push({
+          field: "amount",
+          message: transaction.amount
+            ? `TRNAMT "${transaction.amount}" is not a number`
+            : "TRNAMT is missing",
+        });
+      }
+
+      return {
+        row: transaction.record,
+        date,
+        amount,
+        description: transaction.name || transaction.memo || "",
+        currency: transaction.currency,
+        categoryName: null,
+        // FITIDs are only unique within an account
+        externalId: transaction.fitId
+          ? [transaction.accountId, transaction.fitId].filter(Boolean).join(":")
+          : null,
+        errors,
+      };
+    });
+  }
+
+  private readQif(content: string, options: StatementOptionsDto): StatementEntry[] {
+    return parseQif(content).map((transaction) => {
+      const errors: ImportRowErrorDto[] = [];
+
+      const date = transaction.date
+        ? parseStatementDate(transaction.date, options.dateFormat)
+        : null;
+      if (!date) {
+        errors.push({
+          field: "date",
+          message: transaction.date
+            ? `"${transaction.date}" is not a ${options.dateFormat} date`
+            : "The date (D) line is missing",
+        });
+      }
+
+      const amount = transaction.amount
+        ? parseStatementAmount(transaction.amount, options.decimalSeparator)
+        : null;
+      if (amount === null) {
+        errors.push({
+          field: "amount",
+          message: transaction.amount
+            ? `Amount "${transaction.amount}" is not a number`
+            : "The amount (T) line is missing",
+        });
+      }
+
+      return {
+        row: transaction.record,
+        date,
+        amount,
+        description: transaction.payee || transaction.memo || "",
+        currency: null,
+        categoryName: transaction.category,
+        externalId: null,
+        errors,
+      };
+    });
+  }
+
+  /**
+   * Validates an entry as a transaction. Problems reading the raw values are reported first;
+   * CreateTransactionSchema then reports anything else, so each field carries at most one error.
+   */
+  private toImportRow(entry: StatementEntry, context: RowContext): ImportRowDto {
+    const errors = [...entry.errors];
+    const type: CategoryKind | undefined =
+      entry.amount === null ? undefined : entry.amount < 0 ? "expense" : "income";
+    const categoryId = this.readCategory(entry.categoryName, type, context, errors);
+
+    const result = CreateTransactionSchema.safeParse({
+      amount: entry.amount === null ? undefined : Math.abs(entry.amount),
+      currency: entry.currency || context.currency,
+      type,
+      categoryId,
+      description: entry.description,
+      date: entry.date ?? undefined,
+    });
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        const field = issue.path.join(".");
+        if (!errors.some((error) => error.field === field)) {
+          errors.push({ field, message: issue.message });
+        }
+      }
+    }
+
+    return {
+      row: entry.row,
+      transaction: errors.length === 0 && result.success ? result.data : null,
+      duplicate: false,
+      errors,
+    };
+  }
+
+  private readCategory(
+    name: string | null,
+    type: CategoryKind | undefined,
+    context: RowContext,
+    errors: ImportRowErrorDto[],
+  ): string | undefined {
+    if (!name && !type) {
+      return undefined; // nothing to go on until the amount can be read
+    }
+
+    const category = name
+      ? context.categoriesByName.get(Category.normalizeName(name))
+      : context.defaultCategories[type!];
+    if (!category) {
+      errors.push({
+        field: "categoryId",
+        message: name
+          ? `No category named "${name}"`
+          : `No category given and no default ${type} category`,
+      });
+      return undefined;
+    }
+    if (type && category.kind !== type) {
+      errors.push({
+        field: "categoryId",
+        message: `Category "${category.name}" cannot be used for ${type} transactions`,
+      });
+      return undefined;
+    }
+    return category.id;
+  }
+
+  /**
+   * Flags rows whose bank transaction id the user already has, or that repeat an earlier row of
+   * the same file.
+   */
+  private async markDuplicates(rows: ImportRowDto[], entries: StatementEntry[], userId: string) {
+    const externalIds = [
+      ...new Set(entries.flatMap((entry) => (entry.externalId ? [entry.externalId] : []))),
+    ];
+    const seen = new Set(
+      await this.importRepository.findExistingExternalIds(userId, externalIds),
+    );
+
+    entries.forEach((entry, index) => {
+      if (entry.externalId) {
+        rows[index].duplicate = seen.has(entry.externalId);
+        seen.add(entry.externalId);
+      }
+    });
+  }
+}
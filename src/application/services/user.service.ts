@@ -1,14 +1,37 @@
 import type { UpdateUserDto, UpdateUserResponseDto, UserResponseDto } from "../dtos";
-import type { IUserRepository } from "src/core/interfaces";
+import type { IEmailService, ITokenRepository, IUserRepository } from "src/core/interfaces";
 import { AuthenticationMapper } from "../mappers/authentication.mapper";
-import { NotFoundError } from "../errors";
+import { ConflictError, NotFoundError } from "../errors";
+import { parseExpiryToMs } from "src/api/utils/timeUtils";
+import { generateOpaqueToken, hashToken } from "src/application/utils/tokenUtils";
+import { ENVIRONMENT_CONFIG } from "@config";
+import type { AttachmentService } from "./attachment.service";
 
 export class UserService {
+  private readonly VERIFICATION_EXPIRY_MS = parseExpiryToMs(
+    ENVIRONMENT_CONFIG.VERIFICATION_TOKEN_EXPIRATION,
+  );
+
   userRepository: IUserRepository;
-  constructor(userRepository: IUserRepository) {
+  tokenRepository: ITokenRepository;
+  emailService: IEmailService;
+  attachmentService: AttachmentService;
+  constructor(
+    userRepository: IUserRepository,
+    tokenRepository: ITokenRepository,
+    emailService: IEmailService,
+    attachmentService: AttachmentService,
+  ) {
     this.userRepository = userRepository;
+    this.tokenRepository = tokenRepository;
+    this.emailService = emailService;
+    this.attachmentService = attachmentService;
   }
 
+  /**
+   * Updates the user's profile. A new email address is unverified until the user follows the link
+   * emailed to it, which also invalidates any verification link sent to the previous address.
+   */
   async UpdateUser(id: string, data: UpdateUserDto): Promise<UpdateUserResponseDto> {
     const existingUser = await this.userRepository.getById(id);
 
@@ -16,15 +39,41 @@ export class UserService {
       throw new NotFoundError("User not found");
     }
 
+    const emailChanged = data.email !== undefined && data.email !== existingUser.email;
+    if (emailChanged) {
+      await this.assertEmailAvailable(data.email!, id);
+    }
+
     existingUser.update({
       firstName: data.firstName,
       lastName: data.lastName,
+      email: data.email,
+      profilePicture: data.profilePicture,
+      profileName: data.profileName,
+      baseCurrency: data.baseCurrency,
+      timezone: data.timezone,
+      locale: data.locale,
     });
 
-    const savedUser = await this.userRepository.save(AuthenticationMapper.toDomain(existingUser));
+    const savedUser = await this.userRepository.save(existingUser);
+
+    if (emailChanged) {
+      await this.issueVerificationToken(id, savedUser.email);
+    }
 
     return AuthenticationMapper.toDto(savedUser);
   }
+  async DeleteUser(id: string): Promise<void> {
+    const existingUser = await this.userRepository.getById(id);
+
+    if (!existingUser) {
+      throw new NotFoundError("User not found");
+    }
+
+    // Deleting the user cascades to the attachment rows, but not to the stored files
+    await this.attachmentService.deleteUserAttachments(id);
+    await this.userRepository.delete(id);
+  }
   async GetUserById(id: string): Promise<UserResponseDto | null> {
     const user = await this.userRepository.getById(id);
 
@@ -42,4 +91,27 @@ export class UserService {
 
     return AuthenticationMapper.toDto(user);
   }
+
+  private async assertEmailAvailable(email: string, userId: string) {
+    const existing = await this.userRepository.getByEmail(email);
+    if (existing && existing.id !== userId) {
+      throw new ConflictError("An account with this email address already exists");
+    }
+  }
+
+  private async issueVerificationToken(userId: string, email: string): Promise<void> {
+    const rawToken = generateOpaqueToken();
+
+    await this.tokenRepository.saveActivationToken(
+      userId,
+      hashToken(rawToken),
+      new Date(Date.now() + this.VERIFICATION_EXPIRY_MS),
+    );
+
+    try {
+      await this.emailService.sendVerificationEmail(email, rawToken);
+    } catch {
+      // Delivery failures are logged by the email service; the user can request another email
+    }
+  }
 }
@@ -0,0 +1,24 @@
+const SUPPORTED_CURRENCIES = new Set(Intl.supportedValuesOf("currency"));
+
+/**
+ * Checks a code against the ISO 4217 currencies known to the runtime, e.g. "EUR" or "GBP".
+ */
+function isSupportedCurrency(code: string): boolean {
+  return SUPPORTED_CURRENCIES.has(code);
+}
+
+/**
+ * Rounds a converted amount to two decimal places, avoiding float artefacts such as 1.005 -> 1.00.
+ */
+function roundAmount(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * Formats a date as the calendar day (UTC) used to look up exchange rates.
+ */
+function toRateDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export { isSupportedCurrency, roundAmount, toRateDate };
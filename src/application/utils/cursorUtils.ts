@@ -0,0 +1,36 @@
+export interface CursorPayload {
+  id: string; // id of the last item on the previous page
+  sort: string; // sort signature the cursor was issued for, e.g. "date:desc"
+  value: string | number | null; // sort field value of that item
+}
+
+/**
+ * Encodes a pagination cursor as an opaque, URL-safe string.
+ * Clients should treat the value as a black box and pass it back unchanged.
+ */
+function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload), "utf8").toString("base64url");
+}
+
+/**
+ * Decodes a cursor produced by encodeCursor. Returns null when the value is malformed.
+ */
+function decodeCursor(cursor: string): CursorPayload | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (
+      !decoded ||
+      typeof decoded !== "object" ||
+      typeof decoded.id !== "string" ||
+      typeof decoded.sort !== "string" ||
+      (decoded.value !== null && !["string", "number"].includes(typeof decoded.value))
+    ) {
+      return null;
+    }
+    return { id: decoded.id, sort: decoded.sort, value: decoded.value };
+  } catch {
+    return null;
+  }
+}
+
+export { encodeCursor, decodeCursor };
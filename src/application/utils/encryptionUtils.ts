@@ -0,0 +1,38 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+const CIPHER = "aes-256-gcm";
+const IV_BYTES = 12;
+
+/**
+ * Encrypts a value for storage with AES-256-GCM under a key derived from `secret`. The associated
+ * data, e.g. the id of the row holding the value, is authenticated too, so a ciphertext copied to
+ * another row does not decrypt. Returns `iv.tag.ciphertext`, each part base64url encoded.
+ */
+function encryptSecret(plaintext: string, secret: string, associatedData: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(CIPHER, deriveKey(secret), iv).setAAD(Buffer.from(associatedData));
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString("base64url")).join(".");
+}
+
+/**
+ * Decrypts a value written by `encryptSecret`. Throws when the secret or the associated data do
+ * not match, or the value has been tampered with.
+ */
+function decryptSecret(encrypted: string, secret: string, associatedData: string): string {
+  const [iv, tag, ciphertext] = encrypted.split(".").map((part) => Buffer.from(part, "base64url"));
+  if (!iv || !tag || !ciphertext) {
+    throw new Error("Malformed encrypted value");
+  }
+
+  const decipher = createDecipheriv(CIPHER, deriveKey(secret), iv)
+    .setAAD(Buffer.from(associatedData))
+    .setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+}
+
+function deriveKey(secret: string): Buffer {
+  return createHash("sha256").update(secret).digest();
+}
+
+export { encryptSecret, decryptSecret };
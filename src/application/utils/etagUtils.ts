@@ -0,0 +1,40 @@
+import { createHash } from "crypto";
+
+/**
+ * Formats a resource as a strong entity tag of its version and a hash of its representation, e.g.
+ * `"3-q0Hd2fX1kLm8Zb4w"`. The representation can change without the version changing, e.g. when
+ * an amount is converted at a new rate, so the hash keeps If-None-Match from answering 304 for a
+ * stale copy and If-Match from accepting a change based on one.
+ */
+function toETag(version: number, representation: unknown): string {
+  const hash = createHash("sha256")
+    .update(JSON.stringify(representation))
+    .digest("base64url")
+    .slice(0, 16);
+  return `"${version}-${hash}"`;
+}
+
+/**
+ * Splits an If-Match or If-None-Match header into its entity tags, keeping any W/ prefix.
+ */
+function parseETags(header: string): string[] {
+  return header.match(/\*|(?:W\/)?"[^"]*"/g) ?? [];
+}
+
+/**
+ * Whether an If-Match header names the given entity tag, allowing a change to the resource.
+ * If-Match uses strong comparison, so weak tags never match; `*` matches any existing resource.
+ */
+function matchesIfMatch(header: string, etag: string): boolean {
+  return parseETags(header).some((tag) => tag === "*" || tag === etag);
+}
+
+/**
+ * Whether an If-None-Match header names the given entity tag, meaning the client's copy is
+ * current. If-None-Match uses weak comparison, so `W/"3-..."` matches `"3-..."`.
+ */
+function matchesIfNoneMatch(header: string, etag: string): boolean {
+  return parseETags(header).some((tag) => tag === "*" || tag.replace(/^W\//, "") === etag);
+}
+
+export { toETag, matchesIfMatch, matchesIfNoneMatch };
@@ -0,0 +1,45 @@
+const ATTACHMENT_CONTENT_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "application/pdf",
+] as const;
+
+type AttachmentContentType = (typeof ATTACHMENT_CONTENT_TYPES)[number];
+
+function startsWith(content: Buffer, signature: number[], offset = 0): boolean {
+  return (
+    content.length >= offset + signature.length &&
+    signature.every((byte, index) => content[offset + index] === byte)
+  );
+}
+
+function startsWithText(content: Buffer, text: string, offset = 0): boolean {
+  return startsWith(content, [...Buffer.from(text, "latin1")], offset);
+}
+
+/**
+ * Works out the type of an uploaded file from its leading bytes. The type declared by the client
+ * is not trusted, since it only reflects the file name extension.
+ *
+ * @param content The uploaded file.
+ * @returns One of ATTACHMENT_CONTENT_TYPES, or null when the file is of any other type.
+ */
+function detectContentType(content: Buffer): AttachmentContentType | null {
+  if (startsWith(content, [0xff, 0xd8, 0xff])) {
+    return "image/jpeg";
+  }
+  if (startsWith(content, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return "image/png";
+  }
+  if (startsWithText(content, "RIFF") && startsWithText(content, "WEBP", 8)) {
+    return "image/webp";
+  }
+  if (startsWithText(content, "%PDF-")) {
+    return "application/pdf";
+  }
+  return null;
+}
+
+export { ATTACHMENT_CONTENT_TYPES, detectContentType };
+export type { AttachmentContentType };
@@ -0,0 +1,74 @@
+/**
+ * Checks a BCP 47 tag against the locales the runtime can format for, e.g. "en-GB" or "de-DE".
+ */
+function isSupportedLocale(locale: string): boolean {
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the character the locale writes between whole and fractional digits, e.g. "," for de-DE.
+ */
+function decimalSeparatorOf(locale: string): string {
+  const parts = new Intl.NumberFormat(locale).formatToParts(1.5);
+  return parts.find((part) => part.type === "decimal")?.value ?? ".";
+}
+
+/**
+ * Formats calendar days (dates at midnight UTC) in the locale's numeric order, e.g. "22/11/2026"
+ * for en-GB and "11/22/2026" for en-US. Digits are always Latin so spreadsheets can read them.
+ */
+function createDayFormatter(locale: string): (day: Date) => string {
+  const format = new Intl.DateTimeFormat(locale, {
+    timeZone: "UTC",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    numberingSystem: "latn",
+  });
+  return (day) => format.format(day);
+}
+
+/**
+ * Formats amounts with two decimals and the locale's decimal separator, without grouping, e.g.
+ * "1234,50" for de-DE.
+ */
+function createAmountFormatter(locale: string): (amount: number) => string {
+  const format = new Intl.NumberFormat(locale, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+    useGrouping: false,
+    numberingSystem: "latn",
+  });
+  return (amount) => format.format(amount);
+}
+
+/**
+ * Builds a spreadsheet number format that shows a day in the locale's numeric order, e.g.
+ * `dd"/"mm"/"yyyy` for en-GB. Separators are quoted so spreadsheets treat them as literals.
+ */
+function spreadsheetDayFormatOf(locale: string): string {
+  const tokens: Partial<Record<Intl.DateTimeFormatPartTypes, string>> = {
+    day: "dd",
+    month: "mm",
+    year: "yyyy",
+  };
+  const parts = new Intl.DateTimeFormat(locale, {
+    timeZone: "UTC",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(new Date(Date.UTC(2026, 10, 22)));
+  return parts.map((part) => tokens[part.type] ?? `"${part.value}"`).join("");
+}
+
+export {
+  isSupportedLocale,
+  decimalSeparatorOf,
+  createDayFormatter,
+  createAmountFormatter,
+  spreadsheetDayFormatOf,
+};
@@ -0,0 +1,110 @@
+interface OfxTransaction {
+  record: number; // position of the <STMTTRN> in the file, starting at 1
+  fitId: string | null; // the bank's unique id for the transaction
+  accountId: string | null; // ACCTID of the statement the transaction belongs to
+  type: string | null; // TRNTYPE, e.g. DEBIT, CREDIT, POS
+  datePosted: string | null;
+  amount: string | null; // signed; negative amounts leave the account
+  name: string | null;
+  memo: string | null;
+  currency: string | null; // CURSYM of the transaction, falling back to the statement's CURDEF
+}
+
+const ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&apos;": "'",
+  "&nbsp;": " ",
+};
+
+/**
+ * Reads the transactions out of an OFX or QFX file. Handles both OFX 1.x (SGML, where leaf
+ * elements have no closing tag) and OFX 2.x (XML) by scanning tags instead of building a document
+ * tree, so a malformed file still yields every transaction that can be found. Values are returned
+ * as raw strings; see parseOfxDate and parseOfxAmount.
+ */
+function parseOfx(content: string): OfxTransaction[] {
+  const start = content.search(/<OFX>/i);
+  if (start === -1) {
+    return [];
+  }
+
+  const transactions: OfxTransaction[] = [];
+  let currency: string | null = null;
+  let accountId: string | null = null;
+  let current: Record<string, string> | null = null;
+
+  const tags = /<(\/?)([A-Za-z0-9.]+)[^>]*>([^<]*)/g;
+  for (const [, closing, rawName, rawText] of content.slice(start).matchAll(tags)) {
+    const name = rawName.toUpperCase();
+    const text = decodeEntities(rawText).trim();
+
+    if (name === "STMTTRN") {
+      if (closing && current) {
+        transactions.push({
+          record: transactions.length + 1,
+          fitId: current.FITID ?? null,
+          accountId,
+          type: current.TRNTYPE ?? null,
+          datePosted: current.DTPOSTED ?? null,
+          amount: current.TRNAMT ?? null,
+          name: current.NAME ?? current.PAYEE ?? null,
+          memo: current.MEMO ?? null,
+          currency: current.CURSYM ?? currency,
+        });
+      }
+      current = closing ? null : {};
+    } else if (!closing && text !== "") {
+      if (current) {
+        current[name] = text;
+      } else if (name === "CURDEF") {
+        currency = text;
+      } else if (name === "ACCTID") {
+        accountId = text;
+      }
+    }
+  }
+
+  return transactions;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&[a-z]+;/gi, (entity) => ENTITIES[entity.toLowerCase()] ?? entity);
+}
+
+/**
+ * Parses an OFX date (YYYYMMDD, optionally followed by a time and a time zone such as
+ * "20260305120000.000[-5:EST]") into midnight UTC of the calendar day the bank reported.
+ * Returns null when the value is not a valid OFX date.
+ */
+function parseOfxDate(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Parses an OFX amount. The specification uses a decimal point, but some banks write a decimal
+ * comma instead, so a lone comma is read as the decimal separator. Returns null for anything else.
+ */
+function parseOfxAmount(value: string): number | null {
+  const text = value.trim().replace(/\s/g, "");
+  const normalised = text.includes(",") && !text.includes(".") ? text.replace(",", ".") : text;
+  if (!/^[+-]?(\d+(\.\d*)?|\.\d+)$/.test(normalised)) {
+    return null;
+  }
+  return Number(normalised);
+}
+
+export { parseOfx, parseOfxDate, parseOfxAmount };
+export type { OfxTransaction };
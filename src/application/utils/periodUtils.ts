@@ -0,0 +1,60 @@
+import type { BudgetPeriod } from "src/core/entities";
+
+type CalendarPeriod = BudgetPeriod | "daily";
+
+interface PeriodBounds {
+  start: Date; // inclusive
+  end: Date; // exclusive
+}
+
+/**
+ * Returns the start of the calendar period containing `at`, in UTC.
+ * Weeks start on Monday; months and years on their first day.
+ */
+function periodStart(period: CalendarPeriod, at: Date): Date {
+  const year = at.getUTCFullYear();
+  const month = at.getUTCMonth();
+  const day = at.getUTCDate();
+
+  switch (period) {
+    case "daily":
+      return new Date(Date.UTC(year, month, day));
+    case "weekly": {
+      const daysSinceMonday = (at.getUTCDay() + 6) % 7;
+      return new Date(Date.UTC(year, month, day - daysSinceMonday));
+    }
+    case "monthly":
+      return new Date(Date.UTC(year, month, 1));
+    case "yearly":
+      return new Date(Date.UTC(year, 0, 1));
+  }
+}
+
+/**
+ * Returns the start of the period `offset` periods after the one starting at `start`.
+ * Negative offsets move backwards.
+ */
+function shiftPeriod(period: CalendarPeriod, start: Date, offset: number): Date {
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+  const day = start.getUTCDate();
+
+  switch (period) {
+    case "daily":
+      return new Date(Date.UTC(year, month, day + offset));
+    case "weekly":
+      return new Date(Date.UTC(year, month, day + offset * 7));
+    case "monthly":
+      return new Date(Date.UTC(year, month + offset, 1));
+    case "yearly":
+      return new Date(Date.UTC(year + offset, 0, 1));
+  }
+}
+
+function periodBounds(period: CalendarPeriod, at: Date): PeriodBounds {
+  const start = periodStart(period, at);
+  return { start, end: shiftPeriod(period, start, 1) };
+}
+
+export { periodStart, shiftPeriod, periodBounds };
+export type { CalendarPeriod, PeriodBounds };
@@ -0,0 +1,71 @@
+interface QifTransaction {
+  record: number; // position of the transaction in the file, starting at 1
+  date: string | null;
+  amount: string | null; // signed; negative amounts leave the account
+  payee: string | null;
+  memo: string | null;
+  category: string | null; // last segment of "Parent:Child"; null for transfers between accounts
+  number: string | null; // check or reference number
+}
+
+// Sections that hold transactions; everything else (!Account, !Type:Cat, !Option...) is skipped
+const TRANSACTION_SECTIONS = ["bank", "cash", "ccard", "oth a", "oth l"];
+
+/**
+ * Reads the transactions out of a QIF file. Each record is a run of lines starting with a field
+ * code and ends with a line holding "^". Split lines (S, E, $) and investment sections are ignored.
+ * Values are returned as raw strings, since QIF dates and amounts follow the exporting program's
+ * locale.
+ */
+function parseQif(content: string): QifTransaction[] {
+  const transactions: QifTransaction[] = [];
+  let inTransactions = false;
+  let fields: Record<string, string> = {};
+
+  const endRecord = () => {
+    if (inTransactions && Object.keys(fields).length > 0) {
+      const category = fields.L && !fields.L.startsWith("[") ? fields.L : null;
+      transactions.push({
+        record: transactions.length + 1,
+        date: fields.D ?? null,
+        amount: fields.T ?? fields.U ?? null,
+        payee: fields.P ?? null,
+        memo: fields.M ?? null,
+        category: category ? category.split("/")[0].split(":").pop()!.trim() : null,
+        number: fields.N ?? null,
+      });
+    }
+    fields = {};
+  };
+
+  for (const rawLine of content.replace(/^\uFEFF/, "").split(/\r?\n/)) {
+    const line = rawLine.trimEnd();
+    if (line === "") {
+      continue;
+    }
+
+    if (line.startsWith("!")) {
+      endRecord();
+      const header = line.toLowerCase();
+      if (header.startsWith("!type:")) {
+        inTransactions = TRANSACTION_SECTIONS.includes(header.slice("!type:".length).trim());
+      } else if (!header.startsWith("!option") && !header.startsWith("!clear")) {
+        inTransactions = false; // !Account and other list sections
+      }
+    } else if (line.startsWith("^")) {
+      endRecord();
+    } else {
+      const code = line[0].toUpperCase();
+      // The first occurrence wins; split lines repeat codes such as S, E and $
+      if (!(code in fields)) {
+        fields[code] = line.slice(1).trim();
+      }
+    }
+  }
+
+  endRecord(); // tolerate a missing final "^"
+  return transactions;
+}
+
+export { parseQif };
+export type { QifTransaction };
@@ -0,0 +1,103 @@
+import type { RecurrenceFrequency } from "src/core/entities";
+
+interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // e.g. 2 with "weekly" means every other week
+  startDate: Date;
+  endDate: Date | null;
+  maxOccurrences: number | null;
+}
+
+/**
+ * Returns the date of the n-th occurrence (0-based) of a rule.
+ * Occurrences are always computed from the start date rather than the previous occurrence, so a rule
+ * starting on the 31st falls on the last day of shorter months and returns to the 31st afterwards.
+ * The time of day of the start date is kept (in UTC).
+ */
+function occurrenceAt(
+  rule: Pick<RecurrenceRule, "frequency" | "interval" | "startDate">,
+  index: number,
+): Date {
+  const { frequency, interval, startDate } = rule;
+  const steps = index * interval;
+  const result = new Date(startDate.getTime());
+
+  switch (frequency) {
+    case "daily":
+      result.setUTCDate(result.getUTCDate() + steps);
+      return result;
+    case "weekly":
+      result.setUTCDate(result.getUTCDate() + steps * 7);
+      return result;
+    case "monthly":
+      return addMonthsClamped(startDate, steps);
+    case "yearly":
+      return addMonthsClamped(startDate, steps * 12);
+  }
+}
+
+/**
+ * Returns the date of the n-th occurrence, or null when the rule has ended by then
+ * because of its end date or occurrence limit.
+ */
+function nextOccurrence(rule: RecurrenceRule, index: number): Date | null {
+  if (rule.maxOccurrences !== null && index >= rule.maxOccurrences) {
+    return null;
+  }
+  const date = occurrenceAt(rule, index);
+  if (rule.endDate && date > rule.endDate) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Finds the index of the first occurrence strictly after the given instant.
+ * Used to re-align a schedule after it was edited or resumed, without regenerating past occurrences.
+ */
+function firstOccurrenceIndexAfter(
+  rule: Pick<RecurrenceRule, "frequency" | "interval" | "startDate">,
+  after: Date,
+): number {
+  if (rule.startDate > after) {
+    return 0;
+  }
+
+  // Jump close to the answer first so long-running daily rules don't need thousands of iterations
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const periodDays = { daily: 1, weekly: 7, monthly: 28, yearly: 365 }[rule.frequency];
+  const approximatePeriodMs = periodDays * DAY_MS * rule.interval;
+  let index = Math.max(
+    0,
+    Math.floor((after.getTime() - rule.startDate.getTime()) / approximatePeriodMs) - 1,
+  );
+  while (occurrenceAt(rule, index) > after && index > 0) {
+    index--;
+  }
+  while (occurrenceAt(rule, index) <= after) {
+    index++;
+  }
+  return index;
+}
+
+function addMonthsClamped(date: Date, months: number): Date {
+  const targetMonth = date.getUTCMonth() + months;
+  const year = date.getUTCFullYear() + Math.floor(targetMonth / 12);
+  const month = ((targetMonth % 12) + 12) % 12;
+  const lastDayOfMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+  return new Date(
+    Date.UTC(
+      year,
+      month,
+      Math.min(date.getUTCDate(), lastDayOfMonth),
+      date.getUTCHours(),
+      date.getUTCMinutes(),
+      date.getUTCSeconds(),
+      date.getUTCMilliseconds(),
+    ),
+  );
+}
+
+export { occurrenceAt, nextOccurrence, firstOccurrenceIndexAfter };
+export type { RecurrenceRule };
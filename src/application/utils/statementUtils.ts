@@ -0,0 +1,166 @@
+const STATEMENT_DATE_FORMATS = [
+  "YYYY-MM-DD",
+  "YYYY/MM/DD",
+  "DD/MM/YYYY",
+  "MM/DD/YYYY",
+  "DD-MM-YYYY",
+  "MM-DD-YYYY",
+  "DD.MM.YYYY",
+  "DD/MM/YY",
+  "MM/DD/YY",
+] as const;
+
+type StatementDateFormat = (typeof STATEMENT_DATE_FORMATS)[number];
+
+type DecimalSeparator = "." | ",";
+
+/**
+ * Splits CSV text into records of raw cell values, following RFC 4180: cells may be wrapped in
+ * double quotes, quoted cells may contain delimiters, line breaks and doubled quotes ("").
+ * Accepts LF and CRLF line endings and ignores a leading byte order mark. Cells are not trimmed.
+ */
+function parseCsv(text: string, delimiter: string = ","): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRecord = () => {
+    record.push(cell);
+    records.push(record);
+    record = [];
+    cell = "";
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char !== '"') {
+        cell += char;
+      } else if (text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      endRecord();
+    } else {
+      cell += char;
+    }
+  }
+
+  // The last line usually has no trailing line break
+  if (cell !== "" || record.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
+
+/**
+ * Writes one CSV record, the inverse of parseCsv. Cells holding the delimiter, a quote, a line
+ * break or surrounding spaces are quoted; the record ends with CRLF as RFC 4180 recommends.
+ */
+function formatCsvRecord(cells: string[], delimiter: string = ","): string {
+  const quoted = cells.map((cell) =>
+    cell.includes(delimiter) || /["\r\n]|^\s|\s$/.test(cell)
+      ? `"${cell.replace(/"/g, '""')}"`
+      : cell,
+  );
+  return `${quoted.join(delimiter)}\r\n`;
+}
+
+/**
+ * Parses a statement date written in the given format into midnight UTC of that day.
+ * Separators are interchangeable, including the apostrophe Quicken writes before short years
+ * ("12/31'25"), and years may be written with two or four digits whatever the format says.
+ * Two-digit years are read as 19YY from 70 upwards and 20YY otherwise.
+ * Returns null when the value does not match the format or names a day that does not exist.
+ */
+function parseStatementDate(value: string, format: StatementDateFormat): Date | null {
+  const tokens = format.split(/[-/.]/);
+  const parts = value.replace(/\s/g, "").split(/[-/.']/);
+  if (parts.length !== 3 || parts.some((part) => !/^\d+$/.test(part))) {
+    return null;
+  }
+
+  let year = NaN;
+  let month = NaN;
+  let day = NaN;
+  tokens.forEach((token, index) => {
+    const part = parts[index];
+    if (token.startsWith("Y") && part.length === 4) year = Number(part);
+    if (token.startsWith("Y") && part.length === 2) {
+      year = Number(part) + (part >= "70" ? 1900 : 2000);
+    }
+    if (token === "MM" && part.length <= 2) month = Number(part);
+    if (token === "DD" && part.length <= 2) day = Number(part);
+  });
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    isNaN(date.getTime()) ||
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Parses a signed statement amount such as "-1,234.56", "1.234,56", "(12.50)", "12.50-" or "£12.50".
+ * Currency symbols, spaces and thousands separators are ignored; the decimal separator must be given
+ * because "1,234" is ambiguous on its own. Returns null for anything that is not a number.
+ */
+function parseStatementAmount(
+  value: string,
+  decimalSeparator: DecimalSeparator = ".",
+): number | null {
+  let text = value.trim();
+  let negative = false;
+
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith("-")) {
+    negative = !negative;
+    text = text.slice(0, -1);
+  }
+
+  const thousandsSeparator = decimalSeparator === "." ? "," : ".";
+  text = text
+    .replace(/[^\d.,+-]/g, "")
+    .split(thousandsSeparator)
+    .join("")
+    .replace(decimalSeparator, ".");
+
+  if (!/^[+-]?(\d+(\.\d*)?|\.\d+)$/.test(text)) {
+    return null;
+  }
+
+  const amount = Number(text);
+  return negative ? -amount : amount;
+}
+
+export {
+  STATEMENT_DATE_FORMATS,
+  parseCsv,
+  formatCsvRecord,
+  parseStatementDate,
+  parseStatementAmount,
+};
+export type { StatementDateFormat, DecimalSeparator };
@@ -0,0 +1,312 @@
+import { crc32, deflateSync, inflateSync } from "zlib";
+
+interface PngImage {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlaced: boolean;
+  palette: Buffer | null; // PLTE, RGB triplets
+  transparency: Buffer | null; // tRNS, alpha per palette entry
+  data: Buffer; // concatenated IDAT chunks, still compressed
+}
+
+interface RgbaImage {
+  width: number;
+  height: number;
+  pixels: Buffer; // 4 bytes per pixel, row by row
+}
+
+// Longest side of a generated thumbnail, in pixels
+const THUMBNAIL_SIZE = 256;
+
+// Decoding runs inside the upload request, so larger images get no thumbnail rather than
+// blocking the event loop and allocating hundreds of megabytes for one small compressed upload
+const MAX_SOURCE_PIXELS = 4_000_000;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Samples per pixel by PNG colour type: grey, RGB, palette, grey + alpha, RGBA
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+function readPng(content: Buffer): PngImage | null {
+  let image: Omit<PngImage, "data"> | null = null;
+  const data: Buffer[] = [];
+
+  for (let offset = PNG_SIGNATURE.length; offset + 8 <= content.length; ) {
+    const length = content.readUInt32BE(offset);
+    const type = content.toString("latin1", offset + 4, offset + 8);
+    const body = content.subarray(offset + 8, offset + 8 + length);
+    offset += length + 12;
+
+    if (type === "IHDR") {
+      image = {
+        width: body.readUInt32BE(0),
+        height: body.readUInt32BE(4),
+        bitDepth: body[8],
+        colorType: body[9],
+        interlaced: body[12] !== 0,
+        palette: null,
+        transparency: null,
+      };
+    } else if (type === "PLTE" && image) {
+      image.palette = body;
+    } else if (type === "tRNS" && image) {
+      image.transparency = body;
+    } else if (type === "IDAT") {
+      data.push(body);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  return image ? { ...image, data: Buffer.concat(data) } : null;
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+  return toUp <= toUpLeft ? up : upLeft;
+}
+
+// Reverses the PNG filter of one scanline in place
+function unfilter(filter: number, row: Buffer, previous: Buffer, bytesPerPixel: number): boolean {
+  if (filter > 4) {
+    return false;
+  }
+  for (let i = 0; i < row.length; i++) {
+    const left = i >= bytesPerPixel ? row[i - bytesPerPixel] : 0;
+    const up = previous[i];
+    const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+    const predictor = [0, left, up, (left + up) >> 1, paeth(left, up, upLeft)][filter];
+    row[i] = (row[i] + predictor) & 0xff;
+  }
+  return true;
+}
+
+/**
+ * Decodes a non-interlaced PNG and shrinks it to fit `maxSize` with a box filter, one scanline at
+ * a time so the full-size image is never held in memory as pixels.
+ */
+function decodePngScaled(content: Buffer, maxSize: number): RgbaImage | null {
+  const png = readPng(content);
+  if (!png || png.interlaced) {
+    return null;
+  }
+
+  const { width, height, bitDepth, colorType, palette, transparency } = png;
+  const channels = PNG_CHANNELS[colorType];
+  if (!channels || width === 0 || height === 0 || width * height > MAX_SOURCE_PIXELS) {
+    return null;
+  }
+  if (colorType === 3 && !palette) {
+    return null;
+  }
+
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const raw = inflateSync(png.data, { maxOutputLength: (stride + 1) * height });
+  if (raw.length < (stride + 1) * height) {
+    return null;
+  }
+
+  const scale = Math.min(1, maxSize / width, maxSize / height);
+  const targetWidth = Math.max(1, Math.round(width * scale));
+  const targetHeight = Math.max(1, Math.round(height * scale));
+  const sums = new Float64Array(targetWidth * targetHeight * 4);
+  const counts = new Uint32Array(targetWidth * targetHeight);
+  const columns = Uint32Array.from({ length: width }, (_, x) =>
+    Math.min(targetWidth - 1, Math.floor((x * targetWidth) / width)),
+  );
+
+  const maxSample = (1 << bitDepth) - 1;
+  function sample(row: Buffer, index: number): number {
+    if (bitDepth === 8) return row[index];
+    if (bitDepth === 16) return row[index * 2]; // the high byte is precise enough for a preview
+    const bit = index * bitDepth;
+    return (row[bit >> 3] >> (8 - bitDepth - (bit & 7))) & maxSample;
+  }
+  function grey(row: Buffer, index: number): number {
+    return bitDepth < 8 ? Math.round((sample(row, index) * 255) / maxSample) : sample(row, index);
+  }
+
+  let previous = Buffer.alloc(stride);
+  const pixel = [0, 0, 0, 255];
+  for (let y = 0; y < height; y++) {
+    const start = y * (stride + 1);
+    const row = raw.subarray(start + 1, start + 1 + stride);
+    if (!unfilter(raw[start], row, previous, bytesPerPixel)) {
+      return null;
+    }
+
+    const targetRow = Math.min(targetHeight - 1, Math.floor((y * targetHeight) / height));
+    for (let x = 0; x < width; x++) {
+      switch (colorType) {
+        case 0:
+          pixel[0] = pixel[1] = pixel[2] = grey(row, x);
+          break;
+        case 2:
+          pixel[0] = sample(row, x * 3);
+          pixel[1] = sample(row, x * 3 + 1);
+          pixel[2] = sample(row, x * 3 + 2);
+          break;
+        case 3: {
+          const entry = sample(row, x);
+          pixel[0] = palette![entry * 3] ?? 0;
+          pixel[1] = palette![entry * 3 + 1] ?? 0;
+          pixel[2] = palette![entry * 3 + 2] ?? 0;
+          pixel[3] = transparency?.[entry] ?? 255;
+          break;
+        }
+        case 4:
+          pixel[0] = pixel[1] = pixel[2] = sample(row, x * 2);
+          pixel[3] = sample(row, x * 2 + 1);
+          break;
+        case 6:
+          pixel[0] = sample(row, x * 4);
+          pixel[1] = sample(row, x * 4 + 1);
+          pixel[2] = sample(row, x * 4 + 2);
+          pixel[3] = sample(row, x * 4 + 3);
+          break;
+      }
+
+      const cell = targetRow * targetWidth + columns[x];
+      for (let channel = 0; channel < 4; channel++) {
+        sums[cell * 4 + channel] += pixel[channel];
+      }
+      counts[cell]++;
+    }
+    previous = row;
+  }
+
+  const pixels = Buffer.alloc(targetWidth * targetHeight * 4);
+  for (let cell = 0; cell < counts.length; cell++) {
+    for (let channel = 0; channel < 4; channel++) {
+      pixels[cell * 4 + channel] = Math.round(sums[cell * 4 + channel] / counts[cell]);
+    }
+  }
+  return { width: targetWidth, height: targetHeight, pixels };
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const typeAndData = Buffer.concat([Buffer.from(type, "latin1"), data]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const checksum = Buffer.alloc(4);
+  checksum.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, checksum]);
+}
+
+/**
+ * Encodes 8-bit RGBA pixels as a PNG.
+ */
+function encodePng(image: RgbaImage): Buffer {
+  const { width, height, pixels } = image;
+  const stride = width * 4;
+  // Every scanline starts with its filter type; 0 leaves the bytes as they are
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    pixels.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 6; // RGBA
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(raw)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+// Reads the JPEG thumbnail referenced by IFD1 of an EXIF block (a TIFF structure)
+function thumbnailFromTiff(tiff: Buffer): Buffer | null {
+  const byteOrder = tiff.toString("latin1", 0, 2);
+  if (byteOrder !== "II" && byteOrder !== "MM") {
+    return null;
+  }
+  const littleEndian = byteOrder === "II";
+  const u16 = (offset: number) =>
+    littleEndian ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset);
+  const u32 = (offset: number) =>
+    littleEndian ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset);
+
+  const firstIfd = u32(4);
+  const secondIfd = u32(firstIfd + 2 + u16(firstIfd) * 12);
+  if (secondIfd === 0) {
+    return null;
+  }
+
+  let start: number | undefined;
+  let length: number | undefined;
+  for (let entry = 0; entry < u16(secondIfd); entry++) {
+    const offset = secondIfd + 2 + entry * 12;
+    const tag = u16(offset);
+    if (tag === 0x0201) start = u32(offset + 8); // JPEGInterchangeFormat
+    if (tag === 0x0202) length = u32(offset + 8); // JPEGInterchangeFormatLength
+  }
+  if (start === undefined || !length || start + length > tiff.length) {
+    return null;
+  }
+
+  const thumbnail = tiff.subarray(start, start + length);
+  return thumbnail[0] === 0xff && thumbnail[1] === 0xd8 ? Buffer.from(thumbnail) : null;
+}
+
+/**
+ * Cameras and scanners embed a small preview in the EXIF data of a JPEG; decoding the full image
+ * would need a JPEG decoder, so that preview is used as the thumbnail when there is one.
+ */
+function extractJpegThumbnail(content: Buffer): Buffer | null {
+  for (let offset = 2; offset + 4 <= content.length && content[offset] === 0xff; ) {
+    const marker = content[offset + 1];
+    // Metadata segments all come before the image data
+    if (marker === 0xda || marker === 0xd9) {
+      break;
+    }
+    const length = content.readUInt16BE(offset + 2);
+    if (marker === 0xe1 && content.toString("latin1", offset + 4, offset + 10) === "Exif\0\0") {
+      return thumbnailFromTiff(content.subarray(offset + 10, offset + 2 + length));
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+/**
+ * Creates a preview of an uploaded image, in the same format as the image: PNGs are scaled down
+ * to fit THUMBNAIL_SIZE, JPEGs yield their embedded EXIF preview.
+ *
+ * @param content The uploaded file.
+ * @param contentType The sniffed type of the file.
+ * @returns The thumbnail, or null for other types and for images it cannot be made for.
+ */
+function createThumbnail(
+  content: Buffer,
+  contentType: string,
+  maxSize: number = THUMBNAIL_SIZE,
+): Buffer | null {
+  try {
+    if (contentType === "image/png") {
+      const image = decodePngScaled(content, maxSize);
+      return image ? encodePng(image) : null;
+    }
+    if (contentType === "image/jpeg") {
+      return extractJpegThumbnail(content);
+    }
+  } catch {
+    // Truncated or corrupt image: the upload is still kept, just without a thumbnail
+  }
+  return null;
+}
+
+export { createThumbnail, encodePng, THUMBNAIL_SIZE };
+export type { RgbaImage };
@@ -0,0 +1,77 @@
+/**
+ * Checks a name against the IANA time zones known to the runtime, e.g. "Europe/London" or "UTC".
+ */
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns how far ahead of UTC the wall clock in `timeZone` is at the given instant, in milliseconds.
+ */
+function timeZoneOffsetMs(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)!.value);
+
+  const wallClockAsUtc = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second"),
+  );
+  return wallClockAsUtc - (instant.getTime() - instant.getUTCMilliseconds());
+}
+
+/**
+ * Returns the instant a calendar day (YYYY-MM-DD) starts in `timeZone`.
+ * The offset is re-checked at the result, so days starting right after a DST change come out right.
+ */
+function startOfDayInZone(day: string, timeZone: string): Date {
+  const [year, month, date] = day.split("-").map(Number);
+  const midnightUtc = Date.UTC(year, month - 1, date);
+
+  const offset = timeZoneOffsetMs(new Date(midnightUtc), timeZone);
+  const adjusted = timeZoneOffsetMs(new Date(midnightUtc - offset), timeZone);
+  return new Date(midnightUtc - adjusted);
+}
+
+/**
+ * Formats a UTC-based calendar date as YYYY-MM-DD.
+ */
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Returns the calendar day (YYYY-MM-DD) an instant falls on in `timeZone`.
+ */
+function dayInZone(instant: Date, timeZone: string): string {
+  return toDay(new Date(instant.getTime() + timeZoneOffsetMs(instant, timeZone)));
+}
+
+/**
+ * Returns the day after the given YYYY-MM-DD day.
+ */
+function nextDay(day: string): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return toDay(date);
+}
+
+export { isValidTimeZone, timeZoneOffsetMs, startOfDayInZone, toDay, dayInZone, nextDay };
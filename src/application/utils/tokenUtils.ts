@@ -0,0 +1,18 @@
+import { createHash, randomBytes } from "crypto";
+
+/**
+ * Generates a random, URL-safe token suitable for links sent by email.
+ * Only the hash of the token should ever be persisted.
+ */
+function generateOpaqueToken(bytes: number = 32): string {
+  return randomBytes(bytes).toString("base64url");
+}
+
+/**
+ * Hashes an opaque token with SHA-256 so it can be stored and looked up without keeping the raw value.
+ */
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export { generateOpaqueToken, hashToken };
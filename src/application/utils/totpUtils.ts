@@ -0,0 +1,143 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+type TotpAlgorithm = "sha1" | "sha256" | "sha512";
+
+interface TotpOptions {
+  algorithm?: TotpAlgorithm;
+  digits?: number;
+  period?: number; // seconds per time step
+}
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const DEFAULTS: Required<TotpOptions> = { algorithm: "sha1", digits: 6, period: 30 };
+
+/**
+ * Encodes bytes as unpadded RFC 4648 base32, the format authenticator apps expect secrets in.
+ */
+function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+/**
+ * Decodes RFC 4648 base32, ignoring case, spaces and padding.
+ *
+ * @throws Error if the input contains characters outside the base32 alphabet.
+ */
+function base32Decode(encoded: string): Buffer {
+  const clean = encoded.toUpperCase().replace(/[\s=]/g, "");
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character "${char}"`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generates a random TOTP secret of 160 bits, the length RFC 4226 recommends for HMAC-SHA1.
+ */
+function generateTotpSecret(): Buffer {
+  return randomBytes(20);
+}
+
+/**
+ * The time step a moment falls in, counted from the Unix epoch.
+ */
+function totpStep(timeMs: number, period: number = DEFAULTS.period): number {
+  return Math.floor(timeMs / 1000 / period);
+}
+
+/**
+ * Computes the one-time password for a time step (RFC 6238), by HOTP truncation (RFC 4226).
+ */
+function generateTotp(secret: Buffer, step: number, options: TotpOptions = {}): string {
+  const { algorithm, digits } = { ...DEFAULTS, ...options };
+
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac(algorithm, secret).update(counter).digest();
+
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** digits).padStart(digits, "0");
+}
+
+/**
+ * Checks a one-time password against the steps around the given moment, allowing `window` steps
+ * of clock drift either way.
+ *
+ * @returns The step the code matched, or null when it matches none.
+ */
+function verifyTotp(
+  secret: Buffer,
+  code: string,
+  timeMs: number,
+  window: number = 1,
+  options: TotpOptions = {},
+): number | null {
+  const { digits, period } = { ...DEFAULTS, ...options };
+  if (!new RegExp(`^\\d{${digits}}$`).test(code)) {
+    return null;
+  }
+
+  const current = totpStep(timeMs, period);
+  for (let step = current - window; step <= current + window; step++) {
+    const expected = generateTotp(secret, step, options);
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * Builds the otpauth:// URI authenticator apps import, usually by scanning it as a QR code.
+ */
+function buildOtpauthUri(secret: Buffer, issuer: string, accountName: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret: base32Encode(secret),
+    issuer,
+    algorithm: DEFAULTS.algorithm.toUpperCase(),
+    digits: String(DEFAULTS.digits),
+    period: String(DEFAULTS.period),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+export {
+  base32Encode,
+  base32Decode,
+  generateTotpSecret,
+  totpStep,
+  generateTotp,
+  verifyTotp,
+  buildOtpauthUri,
+};
+export type { TotpAlgorithm, TotpOptions };
@@ -0,0 +1,295 @@
+import { Readable, pipeline } from "stream";
+import { crc32, createDeflateRaw } from "zlib";
+
+// A string, a number, a calendar day (midnight UTC) or an empty cell
+type XlsxCell = string | number | Date | null;
+
+interface XlsxSheetOptions {
+  name: string;
+  dayFormat: string; // spreadsheet number format for Date cells, e.g. "yyyy-mm-dd"
+  numberFormat: string; // spreadsheet number format for number cells, e.g. "0.00"
+}
+
+interface ZipEntry {
+  name: Buffer;
+  offset: number;
+  crc: number;
+  size: number;
+  compressedSize: number;
+}
+
+const MAIN_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const REL_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PACKAGE_REL_NS = "http://schemas.openxmlformats.org/package/2006/relationships";
+const CONTENT_TYPES_NS = "http://schemas.openxmlformats.org/package/2006/content-types";
+const RELATIONSHIPS_TYPE = "application/vnd.openxmlformats-package.relationships+xml";
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Cell styles defined in styles.xml, by position in cellXfs
+const HEADER_STYLE = 1;
+const DAY_STYLE = 2;
+const NUMBER_STYLE = 3;
+
+// Spreadsheet days count from 1899-12-30
+const SPREADSHEET_EPOCH = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Writes a single-sheet XLSX workbook as it is read: the header row and each row of `rows` are
+ * compressed and emitted straight away, so the whole sheet is never held in memory. Rows may be
+ * produced in batches. Strings are written inline rather than through a shared string table for
+ * the same reason. The archive has no ZIP64 records, which limits the file to 4 GB.
+ */
+async function* writeXlsx(
+  headers: string[],
+  rows: AsyncIterable<XlsxCell[][]>,
+  options: XlsxSheetOptions,
+): AsyncGenerator<Buffer> {
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  // Generators are lazy, so the sheet is only read once its entry is reached
+  const files: [string, Iterable<string> | AsyncIterable<string>][] = [
+    ["[Content_Types].xml", [contentTypesXml()]],
+    ["_rels/.rels", [packageRelsXml()]],
+    ["xl/workbook.xml", [workbookXml(options.name)]],
+    ["xl/_rels/workbook.xml.rels", [workbookRelsXml()]],
+    ["xl/styles.xml", [stylesXml(options)]],
+    ["xl/worksheets/sheet1.xml", sheetXml(headers, rows)],
+  ];
+
+  for (const [name, content] of files) {
+    const entry: ZipEntry = {
+      name: Buffer.from(name, "utf8"),
+      offset,
+      crc: 0,
+      size: 0,
+      compressedSize: 0,
+    };
+    entries.push(entry);
+
+    const header = localFileHeader(entry);
+    offset += header.length;
+    yield header;
+
+    for await (const chunk of deflateEntry(content, entry)) {
+      offset += chunk.length;
+      yield chunk;
+    }
+
+    const descriptor = dataDescriptor(entry);
+    offset += descriptor.length;
+    yield descriptor;
+  }
+
+  const directory = Buffer.concat(entries.map(centralDirectoryHeader));
+  yield directory;
+  yield endOfCentralDirectory(entries.length, directory.length, offset);
+}
+
+async function* sheetXml(headers: string[], rows: AsyncIterable<XlsxCell[][]>) {
+  // The header row stays in view while scrolling
+  yield `${XML_DECLARATION}<worksheet xmlns="${MAIN_NS}">` +
+    '<sheetViews><sheetView workbookViewId="0">' +
+    '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+    "</sheetView></sheetViews><sheetData>";
+
+  let rowNumber = 1;
+  yield rowXml(rowNumber, headers, HEADER_STYLE);
+  for await (const batch of rows) {
+    yield batch.map((cells) => rowXml(++rowNumber, cells)).join("");
+  }
+
+  yield "</sheetData></worksheet>";
+}
+
+function rowXml(rowNumber: number, cells: XlsxCell[], style?: number): string {
+  const xml = cells.map((cell, index) => {
+    const ref = `${columnName(index)}${rowNumber}`;
+    if (cell === null || cell === "") {
+      return "";
+    }
+    if (cell instanceof Date) {
+      const serial = (cell.getTime() - SPREADSHEET_EPOCH) / DAY_MS;
+      return `<c r="${ref}" s="${DAY_STYLE}"><v>${serial}</v></c>`;
+    }
+    if (typeof cell === "number") {
+      return `<c r="${ref}" s="${NUMBER_STYLE}"><v>${cell}</v></c>`;
+    }
+    const styled = style === undefined ? "" : ` s="${style}"`;
+    return (
+      `<c r="${ref}" t="inlineStr"${styled}>` +
+      `<is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`
+    );
+  });
+  return `<row r="${rowNumber}">${xml.join("")}</row>`;
+}
+
+/**
+ * Returns the spreadsheet name of a zero-based column index: A, B, ... Z, AA, AB and so on.
+ */
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function escapeXml(text: string): string {
+  return (
+    text
+      // Control characters other than tab and line breaks are not allowed in XML 1.0
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, "")
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+  );
+}
+
+function contentTypesXml(): string {
+  const type = "application/vnd.openxmlformats-officedocument.spreadsheetml";
+  return (
+    `${XML_DECLARATION}<Types xmlns="${CONTENT_TYPES_NS}">` +
+    `<Default Extension="rels" ContentType="${RELATIONSHIPS_TYPE}"/>` +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    `<Override PartName="/xl/workbook.xml" ContentType="${type}.sheet.main+xml"/>` +
+    `<Override PartName="/xl/worksheets/sheet1.xml" ContentType="${type}.worksheet+xml"/>` +
+    `<Override PartName="/xl/styles.xml" ContentType="${type}.styles+xml"/>` +
+    "</Types>"
+  );
+}
+
+function packageRelsXml(): string {
+  return (
+    `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_REL_NS}">` +
+    `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+    "</Relationships>"
+  );
+}
+
+function workbookXml(sheetName: string): string {
+  return (
+    `${XML_DECLARATION}<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>` +
+    `<sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/>` +
+    "</sheets></workbook>"
+  );
+}
+
+function workbookRelsXml(): string {
+  return (
+    `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_REL_NS}">` +
+    `<Relationship Id="rId1" Type="${REL_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+    `<Relationship Id="rId2" Type="${REL_NS}/styles" Target="styles.xml"/>` +
+    "</Relationships>"
+  );
+}
+
+function stylesXml({ dayFormat, numberFormat }: XlsxSheetOptions): string {
+  const xf = (numFmtId: number, fontId: number) =>
+    `<xf numFmtId="${numFmtId}" fontId="${fontId}" fillId="0" borderId="0" xfId="0"` +
+    `${numFmtId ? ' applyNumberFormat="1"' : ""}${fontId ? ' applyFont="1"' : ""}/>`;
+  return (
+    `${XML_DECLARATION}<styleSheet xmlns="${MAIN_NS}">` +
+    `<numFmts count="2"><numFmt numFmtId="164" formatCode="${escapeXml(dayFormat)}"/>` +
+    `<numFmt numFmtId="165" formatCode="${escapeXml(numberFormat)}"/></numFmts>` +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font>' +
+    '<font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill>' +
+    '<fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    `<cellXfs count="4">${xf(0, 0)}${xf(0, 1)}${xf(164, 0)}${xf(165, 0)}</cellXfs>` +
+    "</styleSheet>"
+  );
+}
+
+/**
+ * Compresses one archive entry, recording its checksum and sizes on `entry` as the data passes.
+ */
+async function* deflateEntry(content: Iterable<string> | AsyncIterable<string>, entry: ZipEntry) {
+  async function* measure() {
+    for await (const text of content) {
+      const chunk = Buffer.from(text, "utf8");
+      entry.crc = crc32(chunk, entry.crc);
+      entry.size += chunk.length;
+      yield chunk;
+    }
+  }
+
+  // pipeline forwards a failure of the source to the deflate stream, which rethrows it below
+  const deflate = createDeflateRaw();
+  pipeline(Readable.from(measure()), deflate, () => {});
+  for await (const chunk of deflate) {
+    entry.compressedSize += chunk.length;
+    yield chunk as Buffer;
+  }
+}
+
+// Entries are written before their sizes are known, so every header sets general purpose bit 3
+// (sizes follow in a data descriptor) and bit 11 (UTF-8 names)
+const ZIP_FLAGS = 0x0808;
+const ZIP_VERSION = 20;
+const DEFLATE = 8;
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function localFileHeader(entry: ZipEntry): Buffer {
+  const header = Buffer.alloc(30);
+  const modified = dosDateTime(new Date());
+  header.writeUInt32LE(0x04034b50, 0);
+  header.writeUInt16LE(ZIP_VERSION, 4);
+  header.writeUInt16LE(ZIP_FLAGS, 6);
+  header.writeUInt16LE(DEFLATE, 8);
+  header.writeUInt16LE(modified.time, 10);
+  header.writeUInt16LE(modified.date, 12);
+  // checksum and sizes (14-25) stay zero until the data descriptor
+  header.writeUInt16LE(entry.name.length, 26);
+  return Buffer.concat([header, entry.name]);
+}
+
+function dataDescriptor(entry: ZipEntry): Buffer {
+  const descriptor = Buffer.alloc(16);
+  descriptor.writeUInt32LE(0x08074b50, 0);
+  descriptor.writeUInt32LE(entry.crc, 4);
+  descriptor.writeUInt32LE(entry.compressedSize, 8);
+  descriptor.writeUInt32LE(entry.size, 12);
+  return descriptor;
+}
+
+function centralDirectoryHeader(entry: ZipEntry): Buffer {
+  const header = Buffer.alloc(46);
+  const modified = dosDateTime(new Date());
+  header.writeUInt32LE(0x02014b50, 0);
+  header.writeUInt16LE(ZIP_VERSION, 4);
+  header.writeUInt16LE(ZIP_VERSION, 6);
+  header.writeUInt16LE(ZIP_FLAGS, 8);
+  header.writeUInt16LE(DEFLATE, 10);
+  header.writeUInt16LE(modified.time, 12);
+  header.writeUInt16LE(modified.date, 14);
+  header.writeUInt32LE(entry.crc, 16);
+  header.writeUInt32LE(entry.compressedSize, 20);
+  header.writeUInt32LE(entry.size, 24);
+  header.writeUInt16LE(entry.name.length, 28);
+  header.writeUInt32LE(entry.offset, 42);
+  return Buffer.concat([header, entry.name]);
+}
+
+function endOfCentralDirectory(count: number, size: number, offset: number): Buffer {
+  const record = Buffer.alloc(22);
+  record.writeUInt32LE(0x06054b50, 0);
+  record.writeUInt16LE(count, 8);
+  record.writeUInt16LE(count, 10);
+  record.writeUInt32LE(size, 12);
+  record.writeUInt32LE(offset, 16);
+  return record;
+}
+
+export { writeXlsx, columnName };
+export type { XlsxCell, XlsxSheetOptions };
@@ -0,0 +1,129 @@
+import BaseEntity from "../baseEntity";
+import type { Category } from "../transactionAggregate/category";
+
+export type BudgetPeriod = "weekly" | "monthly" | "yearly";
+
+/**
+ * A spending limit for an expense category, applying to that category and its subcategories
+ * for every period from the one containing `startDate` onwards.
+ */
+export class Budget extends BaseEntity {
+  userId: string;
+  categoryId: string;
+  category?: Category; // only populated when loaded from storage together with the category
+  amount: number;
+  currency: string;
+  period: BudgetPeriod;
+  startDate: Date;
+  rollover: boolean; // carry unspent amounts into the next period
+  alertThresholds: number[]; // percentages of the available amount, ascending
+
+  private constructor(
+    id: string | undefined,
+    userId: string,
+    categoryId: string,
+    amount: number,
+    currency: string,
+    period: BudgetPeriod,
+    startDate: Date,
+    rollover: boolean,
+    alertThresholds: number[],
+    category?: Category,
+    createdAt?: Date,
+    updatedAt?: Date,
+  ) {
+    super(id, createdAt, updatedAt);
+    this.userId = userId;
+    this.categoryId = categoryId;
+    this.category = category;
+    this.amount = amount;
+    this.currency = currency;
+    this.period = period;
+    this.startDate = startDate;
+    this.rollover = rollover;
+    this.alertThresholds = alertThresholds;
+  }
+
+  static create(params: {
+    userId: string;
+    categoryId: string;
+    amount: number;
+    currency: string;
+    period: BudgetPeriod;
+    startDate: Date;
+    rollover: boolean;
+    alertThresholds: number[];
+  }): Budget {
+    const { userId, categoryId, amount, currency, period, startDate, rollover } = params;
+    return new Budget(
+      undefined,
+      userId,
+      categoryId,
+      amount,
+      currency,
+      period,
+      startDate,
+      rollover,
+      Budget.normaliseThresholds(params.alertThresholds),
+    );
+  }
+
+  static fromStorage(params: {
+    id: string;
+    userId: string;
+    categoryId: string;
+    category?: Category;
+    amount: number;
+    currency: string;
+    period: BudgetPeriod;
+    startDate: Date;
+    rollover: boolean;
+    alertThresholds: number[];
+    createdAt: Date;
+    updatedAt: Date;
+  }): Budget {
+    return new Budget(
+      params.id,
+      params.userId,
+      params.categoryId,
+      params.amount,
+      params.currency,
+      params.period,
+      params.startDate,
+      params.rollover,
+      params.alertThresholds,
+      params.category,
+      params.createdAt,
+      params.updatedAt,
+    );
+  }
+
+  update(params: {
+    category?: Category;
+    amount?: number;
+    currency?: string;
+    period?: BudgetPeriod;
+    startDate?: Date;
+    rollover?: boolean;
+    alertThresholds?: number[];
+  }) {
+    const { category, amount, currency, period, startDate, rollover, alertThresholds } = params;
+    if (category !== undefined) {
+      this.categoryId = category.id!;
+      this.category = category;
+    }
+    if (amount !== undefined) this.amount = amount;
+    if (currency !== undefined) this.currency = currency;
+    if (period !== undefined) this.period = period;
+    if (startDate !== undefined) this.startDate = startDate;
+    if (rollover !== undefined) this.rollover = rollover;
+    if (alertThresholds !== undefined) {
+      this.alertThresholds = Budget.normaliseThresholds(alertThresholds);
+    }
+    this.updatedAt = new Date();
+  }
+
+  private static normaliseThresholds(thresholds: number[]): number[] {
+    return [...new Set(thresholds)].sort((a, b) => a - b);
+  }
+}
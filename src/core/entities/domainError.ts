@@ -0,0 +1,12 @@
+/**
+ * Raised by entities when a change would break one of their rules. Such changes always come from
+ * client input, so the error carries a 400 status for the error handler.
+ */
+export class DomainError extends Error {
+  code = 400;
+
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, DomainError.prototype);
+  }
+}
@@ -1,3 +1,13 @@
 export { default as Transaction } from "./transactionAggregate/transaction";
+export type { TransactionSplit } from "./transactionAggregate/transaction";
+export { DomainError } from "./domainError";
+export { Category, DEFAULT_CATEGORIES } from "./transactionAggregate/category";
+export type { CategoryKind } from "./transactionAggregate/category";
+export { Tag } from "./transactionAggregate/tag";
+export { Attachment } from "./transactionAggregate/attachment";
+export { RecurringTransaction } from "./transactionAggregate/recurringTransaction";
+export type { RecurrenceFrequency } from "./transactionAggregate/recurringTransaction";
 export { default as User } from "./userAggregate/user";
 export { Account } from "./userAggregate/account";
+export { Budget } from "./budgetAggregate/budget";
+export type { BudgetPeriod } from "./budgetAggregate/budget";
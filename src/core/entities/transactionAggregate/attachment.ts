@@ -0,0 +1,90 @@
+import BaseEntity from "../baseEntity";
+
+/**
+ * A file such as a receipt scan stored alongside a transaction. The bytes live in file storage
+ * under `storageKey`; this entity only keeps what is needed to find and serve them.
+ */
+export class Attachment extends BaseEntity {
+  static readonly MAX_FILE_NAME_LENGTH = 255;
+
+  transactionId: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  storageKey: string;
+  thumbnailKey: string | null;
+
+  private constructor(
+    id: string | undefined,
+    transactionId: string,
+    fileName: string,
+    contentType: string,
+    size: number,
+    storageKey: string,
+    thumbnailKey: string | null,
+    createdAt?: Date,
+  ) {
+    super(id, createdAt, undefined);
+    this.transactionId = transactionId;
+    this.fileName = Attachment.cleanFileName(fileName);
+    this.contentType = contentType;
+    this.size = size;
+    this.storageKey = storageKey;
+    this.thumbnailKey = thumbnailKey;
+  }
+
+  static create(params: {
+    transactionId: string;
+    fileName: string;
+    contentType: string;
+    size: number;
+    storageKey: string;
+    thumbnailKey?: string | null;
+  }): Attachment {
+    const { transactionId, fileName, contentType, size, storageKey, thumbnailKey } = params;
+    return new Attachment(
+      undefined,
+      transactionId,
+      fileName,
+      contentType,
+      size,
+      storageKey,
+      thumbnailKey ?? null,
+      undefined,
+    );
+  }
+
+  static fromStorage(params: {
+    id: string;
+    transactionId: string;
+    fileName: string;
+    contentType: string;
+    size: number;
+    storageKey: string;
+    thumbnailKey: string | null;
+    createdAt: Date;
+  }): Attachment {
+    const { id, transactionId, fileName, contentType, size, storageKey, thumbnailKey, createdAt } =
+      params;
+    return new Attachment(
+      id,
+      transactionId,
+      fileName,
+      contentType,
+      size,
+      storageKey,
+      thumbnailKey,
+      createdAt,
+    );
+  }
+
+  /**
+   * Keeps only the last path segment of an uploaded file name and drops control characters, so
+   * the name is safe to echo back in a Content-Disposition header.
+   */
+  private static cleanFileName(fileName: string): string {
+    const baseName = fileName.split(/[\\/]/).pop() ?? "";
+    const cleaned = baseName.replace(/[\u0000-\u001f\u007f"]/g, "").trim();
+    return cleaned.slice(0, Attachment.MAX_FILE_NAME_LENGTH) || "attachment";
+  }
+}
@@ -1,7 +1,125 @@
-export class Category {
+import BaseEntity from "../baseEntity";
+
+export type CategoryKind = "income" | "expense";
+
+/**
+ * Categories seeded for every new user. Names are unique per user regardless of kind.
+ */
+export const DEFAULT_CATEGORIES: ReadonlyArray<{ name: string; kind: CategoryKind }> = [
+  { name: "Groceries", kind: "expense" },
+  { name: "Eating Out", kind: "expense" },
+  { name: "Housing", kind: "expense" },
+  { name: "Utilities", kind: "expense" },
+  { name: "Transport", kind: "expense" },
+  { name: "Health", kind: "expense" },
+  { name: "Entertainment", kind: "expense" },
+  { name: "Shopping", kind: "expense" },
+  { name: "Travel", kind: "expense" },
+  { name: "Other", kind: "expense" },
+  { name: "Salary", kind: "income" },
+  { name: "Freelance", kind: "income" },
+  { name: "Investments", kind: "income" },
+  { name: "Gifts", kind: "income" },
+  { name: "Other Income", kind: "income" },
+];
+
+export class Category extends BaseEntity {
+  userId: string;
   name: string;
+  kind: CategoryKind;
+  parentId: string | null;
+  color: string | null;
+  icon: string | null;
+
+  private constructor(
+    id: string | undefined,
+    userId: string,
+    name: string,
+    kind: CategoryKind,
+    parentId: string | null,
+    color: string | null,
+    icon: string | null,
+    createdAt?: Date,
+    updatedAt?: Date,
+  ) {
+    super(id, createdAt, updatedAt);
+    this.userId = userId;
+    this.name = Category.cleanName(name);
+    this.kind = kind;
+    this.parentId = parentId;
+    this.color = color;
+    this.icon = icon;
+  }
+
+  static create(params: {
+    userId: string;
+    name: string;
+    kind: CategoryKind;
+    parentId?: string | null;
+    color?: string | null;
+    icon?: string | null;
+  }): Category {
+    const { userId, name, kind, parentId, color, icon } = params;
+    return new Category(
+      undefined,
+      userId,
+      name,
+      kind,
+      parentId ?? null,
+      color ?? null,
+      icon ?? null,
+      undefined,
+      undefined,
+    );
+  }
+
+  static fromStorage(params: {
+    id: string;
+    userId: string;
+    name: string;
+    kind: CategoryKind;
+    parentId: string | null;
+    color: string | null;
+    icon: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+  }): Category {
+    const { id, userId, name, kind, parentId, color, icon, createdAt, updatedAt } = params;
+    return new Category(id, userId, name, kind, parentId, color, icon, createdAt, updatedAt);
+  }
+
+  update(params: {
+    name?: string;
+    kind?: CategoryKind;
+    parentId?: string | null;
+    color?: string | null;
+    icon?: string | null;
+  }) {
+    const { name, kind, parentId, color, icon } = params;
+    if (name !== undefined) this.name = Category.cleanName(name);
+    if (kind !== undefined) this.kind = kind;
+    if (parentId !== undefined) this.parentId = parentId;
+    if (color !== undefined) this.color = color;
+    if (icon !== undefined) this.icon = icon;
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * Key used to detect duplicates, so "Food", "food" and "Food " are treated as the same category.
+   */
+  get normalizedName(): string {
+    return Category.normalizeName(this.name);
+  }
+
+  static normalizeName(name: string): string {
+    return Category.cleanName(name).toLowerCase();
+  }
+
+  private static cleanName(name: string): string {
+    return name.trim().replace(/\s+/g, " ");
+  }
 
-  constructor(name: string) {
-    this.name = name;
+  toString(): string {
+    return this.name;
   }
 }
@@ -0,0 +1,189 @@
+import BaseEntity from "../baseEntity";
+import type { Category } from "./category";
+import type { TransactionType } from "./transactionType";
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "yearly";
+
+/**
+ * A template that the scheduler turns into real transactions on a fixed schedule.
+ * Occurrences are numbered from 0; `nextOccurrenceIndex` points at the next one to materialise or skip.
+ */
+export class RecurringTransaction extends BaseEntity {
+  userId: string;
+  amount: number;
+  currency: string;
+  type: TransactionType;
+  categoryId: string;
+  category?: Category; // only populated when loaded from storage together with the category
+  description: string;
+  frequency: RecurrenceFrequency;
+  interval: number;
+  startDate: Date;
+  endDate: Date | null;
+  maxOccurrences: number | null;
+  nextOccurrenceIndex: number;
+  nextRunAt: Date | null; // null once the schedule has ended
+  lastOccurrenceAt: Date | null;
+  isPaused: boolean;
+
+  private constructor(
+    id: string | undefined,
+    userId: string,
+    amount: number,
+    currency: string,
+    type: TransactionType,
+    categoryId: string,
+    description: string,
+    frequency: RecurrenceFrequency,
+    interval: number,
+    startDate: Date,
+    endDate: Date | null,
+    maxOccurrences: number | null,
+    nextOccurrenceIndex: number,
+    nextRunAt: Date | null,
+    lastOccurrenceAt: Date | null,
+    isPaused: boolean,
+    category?: Category,
+    createdAt?: Date,
+    updatedAt?: Date,
+  ) {
+    super(id, createdAt, updatedAt);
+    this.userId = userId;
+    this.amount = amount;
+    this.currency = currency;
+    this.type = type;
+    this.categoryId = categoryId;
+    this.category = category;
+    this.description = description;
+    this.frequency = frequency;
+    this.interval = interval;
+    this.startDate = startDate;
+    this.endDate = endDate;
+    this.maxOccurrences = maxOccurrences;
+    this.nextOccurrenceIndex = nextOccurrenceIndex;
+    this.nextRunAt = nextRunAt;
+    this.lastOccurrenceAt = lastOccurrenceAt;
+    this.isPaused = isPaused;
+  }
+
+  static create(params: {
+    userId: string;
+    amount: number;
+    currency: string;
+    type: TransactionType;
+    categoryId: string;
+    description: string;
+    frequency: RecurrenceFrequency;
+    interval: number;
+    startDate: Date;
+    endDate?: Date | null;
+    maxOccurrences?: number | null;
+  }): RecurringTransaction {
+    const { userId, amount, currency, type, categoryId, description } = params;
+    const { frequency, interval, startDate, endDate, maxOccurrences } = params;
+    return new RecurringTransaction(
+      undefined,
+      userId,
+      amount,
+      currency,
+      type,
+      categoryId,
+      description,
+      frequency,
+      interval,
+      startDate,
+      endDate ?? null,
+      maxOccurrences ?? null,
+      0,
+      startDate,
+      null,
+      false,
+    );
+  }
+
+  static fromStorage(params: {
+    id: string;
+    userId: string;
+    amount: number;
+    currency: string;
+    type: TransactionType;
+    categoryId: string;
+    category?: Category;
+    description: string;
+    frequency: RecurrenceFrequency;
+    interval: number;
+    startDate: Date;
+    endDate: Date | null;
+    maxOccurrences: number | null;
+    nextOccurrenceIndex: number;
+    nextRunAt: Date | null;
+    lastOccurrenceAt: Date | null;
+    isPaused: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+  }): RecurringTransaction {
+    return new RecurringTransaction(
+      params.id,
+      params.userId,
+      params.amount,
+      params.currency,
+      params.type,
+      params.categoryId,
+      params.description,
+      params.frequency,
+      params.interval,
+      params.startDate,
+      params.endDate,
+      params.maxOccurrences,
+      params.nextOccurrenceIndex,
+      params.nextRunAt,
+      params.lastOccurrenceAt,
+      params.isPaused,
+      params.category,
+      params.createdAt,
+      params.updatedAt,
+    );
+  }
+
+  update(params: {
+    amount?: number;
+    currency?: string;
+    type?: TransactionType;
+    category?: Category;
+    description?: string;
+    frequency?: RecurrenceFrequency;
+    interval?: number;
+    startDate?: Date;
+    endDate?: Date | null;
+    maxOccurrences?: number | null;
+  }) {
+    const { amount, currency, type, category, description } = params;
+    const { frequency, interval, startDate, endDate, maxOccurrences } = params;
+    if (amount !== undefined) this.amount = amount;
+    if (currency !== undefined) this.currency = currency;
+    if (type !== undefined) this.type = type;
+    if (category !== undefined) {
+      this.categoryId = category.id!;
+      this.category = category;
+    }
+    if (description !== undefined) this.description = description;
+    if (frequency !== undefined) this.frequency = frequency;
+    if (interval !== undefined) this.interval = interval;
+    if (startDate !== undefined) this.startDate = startDate;
+    if (endDate !== undefined) this.endDate = endDate;
+    if (maxOccurrences !== undefined) this.maxOccurrences = maxOccurrences;
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * Moves the schedule to the given occurrence. `nextRunAt` is null when the schedule has ended.
+   */
+  moveTo(occurrenceIndex: number, nextRunAt: Date | null) {
+    this.nextOccurrenceIndex = occurrenceIndex;
+    this.nextRunAt = nextRunAt;
+  }
+
+  get isCompleted(): boolean {
+    return this.nextRunAt === null;
+  }
+}
@@ -0,0 +1,68 @@
+import BaseEntity from "../baseEntity";
+
+/**
+ * A free-form label such as "holiday-2026" or "reimbursable". Unlike categories, a transaction can
+ * carry any number of tags, so they cut across the category tree.
+ */
+export class Tag extends BaseEntity {
+  userId: string;
+  name: string;
+  color: string | null;
+
+  private constructor(
+    id: string | undefined,
+    userId: string,
+    name: string,
+    color: string | null,
+    createdAt?: Date,
+    updatedAt?: Date,
+  ) {
+    super(id, createdAt, updatedAt);
+    this.userId = userId;
+    this.name = Tag.cleanName(name);
+    this.color = color;
+  }
+
+  static create(params: { userId: string; name: string; color?: string | null }): Tag {
+    const { userId, name, color } = params;
+    return new Tag(undefined, userId, name, color ?? null, undefined, undefined);
+  }
+
+  static fromStorage(params: {
+    id: string;
+    userId: string;
+    name: string;
+    color: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+  }): Tag {
+    const { id, userId, name, color, createdAt, updatedAt } = params;
+    return new Tag(id, userId, name, color, createdAt, updatedAt);
+  }
+
+  update(params: { name?: string; color?: string | null }) {
+    const { name, color } = params;
+    if (name !== undefined) this.name = Tag.cleanName(name);
+    if (color !== undefined) this.color = color;
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * Key used to match tags, so "Business", "business" and "business " are treated as the same tag.
+   */
+  get normalizedName(): string {
+    return Tag.normalizeName(this.name);
+  }
+
+  static normalizeName(name: string): string {
+    return Tag.cleanName(name).toLowerCase();
+  }
+
+  private static cleanName(name: string): string {
+    return name.trim().replace(/\s+/g, " ");
+  }
+
+  toString(): string {
+    return this.name;
+  }
+}
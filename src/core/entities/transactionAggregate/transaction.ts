@@ -1,53 +1,119 @@
 import BaseEntity from "../baseEntity";
-import { Category } from "./category";
+import { DomainError } from "../domainError";
+import type { Category } from "./category";
+import type { Tag } from "./tag";
 import type { TransactionType } from "./transactionType";
 
+/**
+ * One line of a split transaction, filing part of the amount under its own category.
+ */
+export interface TransactionSplit {
+  categoryId: string;
+  category?: Category; // only populated when loaded from storage together with the category
+  amount: number;
+  note: string | null;
+}
+
 export default class Transaction extends BaseEntity {
+  static readonly MAX_TAGS = 20;
+
   userId: string;
   amount: number;
+  currency: string; // ISO 4217 code the amount was recorded in
   type: TransactionType;
-  category: Category;
+  categoryId: string;
+  category?: Category; // only populated when loaded from storage together with the category
   description: string;
   date: Date;
-  // future fields: location, payment method, tags, currency (which we can split as: baseCurrency and submittedCurrency), etc.
+  recurringTransactionId: string | null; // set when generated from a recurring transaction
+  occurrenceDate: Date | null; // scheduled date of that occurrence
+  importBatchId: string | null; // set when created by a statement import
+  externalId: string | null; // the bank's id for the transaction, used to skip re-imported entries
+  splits: TransactionSplit[]; // empty unless the amount is split across categories
+  tags: Tag[];
+  deletedAt: Date | null; // set while the transaction is in the trash
+  version: number; // incremented by every saved change, so concurrent edits can be detected
+  // future fields: location, payment method, etc.
 
   private constructor(
     id: string | undefined,
     userId: string,
     amount: number,
+    currency: string,
     type: TransactionType,
-    category: Category,
+    categoryId: string,
     description: string,
     date: Date,
+    recurringTransactionId: string | null,
+    occurrenceDate: Date | null,
+    importBatchId: string | null,
+    externalId: string | null,
+    splits: TransactionSplit[],
+    tags: Tag[],
+    deletedAt: Date | null,
+    version: number,
+    category?: Category,
     createdAt?: Date,
     updatedAt?: Date,
   ) {
     super(id, createdAt, updatedAt);
     this.userId = userId;
     this.amount = amount;
+    this.currency = currency;
     this.type = type;
+    this.categoryId = categoryId;
     this.category = category;
     this.description = description;
     this.date = date;
+    this.recurringTransactionId = recurringTransactionId;
+    this.occurrenceDate = occurrenceDate;
+    this.importBatchId = importBatchId;
+    this.externalId = externalId;
+    this.splits = splits;
+    this.tags = tags;
+    this.deletedAt = deletedAt;
+    this.version = version;
   }
 
   static create(params: {
     userId: string;
     amount: number;
+    currency: string;
     type: TransactionType;
-    category: Category;
+    categoryId: string;
     description: string;
     date: Date;
+    recurringTransactionId?: string | null;
+    occurrenceDate?: Date | null;
+    importBatchId?: string | null;
+    externalId?: string | null;
+    splits?: TransactionSplit[];
+    tags?: Tag[];
   }): Transaction {
-    const { userId, amount, type, category, description, date } = params;
+    const { userId, amount, currency, type, categoryId, description, date } = params;
+    const { recurringTransactionId, occurrenceDate, importBatchId, externalId } = params;
+    const splits = params.splits ?? [];
+    const tags = params.tags ?? [];
+    Transaction.assertSplits(amount, splits);
+    Transaction.assertTags(tags);
     return new Transaction(
       undefined,
       userId,
       amount,
+      currency,
       type,
-      category,
+      categoryId,
       description,
       date,
+      recurringTransactionId ?? null,
+      occurrenceDate ?? null,
+      importBatchId ?? null,
+      externalId ?? null,
+      splits,
+      tags,
+      null,
+      1,
+      undefined,
       undefined,
       undefined,
     );
@@ -57,44 +123,122 @@ export default class Transaction extends BaseEntity {
     id: string;
     userId: string;
     amount: number;
+    currency: string;
     type: TransactionType;
-    category: Category;
+    categoryId: string;
+    category?: Category;
     description: string;
     date: Date;
+    recurringTransactionId: string | null;
+    occurrenceDate: Date | null;
+    importBatchId: string | null;
+    externalId: string | null;
+    splits: TransactionSplit[];
+    tags: Tag[];
+    deletedAt?: Date | null;
+    version?: number;
     createdAt: Date;
     updatedAt: Date;
   }): Transaction {
-    const { id, userId, amount, type, category, description, date, createdAt, updatedAt } = params;
-    return new Transaction(
+    const {
       id,
       userId,
       amount,
+      currency,
       type,
+      categoryId,
       category,
       description,
       date,
+      recurringTransactionId,
+      occurrenceDate,
+      importBatchId,
+      externalId,
+      splits,
+      tags,
+      deletedAt,
+      version,
+      createdAt,
+      updatedAt,
+    } = params;
+    return new Transaction(
+      id,
+      userId,
+      amount,
+      currency,
+      type,
+      categoryId,
+      description,
+      date,
+      recurringTransactionId,
+      occurrenceDate,
+      importBatchId,
+      externalId,
+      splits,
+      tags,
+      deletedAt ?? null,
+      version ?? 1,
+      category,
       createdAt,
       updatedAt,
     );
   }
 
+  /**
+   * Applies the given changes. The split lines, whether changed or kept, have to add up to the
+   * resulting amount; an empty list of splits turns the transaction back into a single line.
+   */
   update(params: {
     amount?: number;
+    currency?: string;
     type?: TransactionType;
     category?: Category;
     description?: string;
     date?: Date;
+    splits?: TransactionSplit[];
+    tags?: Tag[];
   }) {
-    const { amount, type, category, description, date } = params;
+    const { amount, currency, type, category, description, date, splits, tags } = params;
+    Transaction.assertSplits(amount ?? this.amount, splits ?? this.splits);
+    if (tags !== undefined) Transaction.assertTags(tags);
+
     if (amount !== undefined) this.amount = amount;
+    if (splits !== undefined) this.splits = splits;
+    if (tags !== undefined) this.tags = tags;
+    if (currency !== undefined) this.currency = currency;
     if (type !== undefined) this.type = type;
-    if (category !== undefined) this.category = category;
+    if (category !== undefined) {
+      this.categoryId = category.id!;
+      this.category = category;
+    }
     if (description !== undefined) this.description = description;
     if (date !== undefined) this.date = date;
     this.updatedAt = new Date();
   }
 
-  convertStringToCategory(category: string): Category {
-    return new Category(category);
+  private static assertTags(tags: Tag[]) {
+    if (tags.length > Transaction.MAX_TAGS) {
+      throw new DomainError(`A transaction can have at most ${Transaction.MAX_TAGS} tags`);
+    }
+  }
+
+  private static assertSplits(amount: number, splits: TransactionSplit[]) {
+    if (splits.length === 0) {
+      return;
+    }
+    if (splits.length === 1) {
+      throw new DomainError("A split transaction needs at least two lines");
+    }
+    if (splits.some((split) => !(split.amount > 0))) {
+      throw new DomainError("Split amounts must be positive");
+    }
+
+    // Compare in cents so float artefacts such as 0.1 + 0.2 do not count as a mismatch
+    const total = splits.reduce((sum, split) => sum + Math.round(split.amount * 100), 0);
+    if (total !== Math.round(amount * 100)) {
+      throw new DomainError(
+        `Split amounts add up to ${total / 100} but the transaction amount is ${amount}`,
+      );
+    }
   }
 }
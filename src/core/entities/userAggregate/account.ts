@@ -3,11 +3,13 @@ import bcrypt from "bcrypt";
 export class Account {
   #password: string;
   isHashed: boolean = false;
+  isVerified: boolean = false;
 
   private readonly SALT_ROUNDS = 12;
-  constructor(password: string, isHashed: boolean = false) {
+  constructor(password: string, isHashed: boolean = false, isVerified: boolean = false) {
     this.#password = password;
     this.isHashed = isHashed;
+    this.isVerified = isVerified;
   }
 
   /**
@@ -6,12 +6,22 @@ export default class User extends BaseEntity {
   firstName: string;
   lastName: string;
   account: Account;
+  profilePicture?: string;
+  profileName?: string;
+  baseCurrency: string; // currency converted amounts and totals are reported in
+  timezone: string; // IANA time zone used to group dates into days, weeks, months and years
+  locale: string; // BCP 47 locale used to format dates and amounts in exports
   private constructor(
     id: string | undefined,
     email: string,
     firstName: string,
     lastName: string,
     account: Account,
+    profilePicture: string | undefined,
+    profileName: string | undefined,
+    baseCurrency: string,
+    timezone: string,
+    locale: string,
     createdAt?: Date,
     updatedAt?: Date,
   ) {
@@ -20,6 +30,11 @@ export default class User extends BaseEntity {
     this.firstName = firstName;
     this.lastName = lastName;
     this.account = account;
+    this.profilePicture = profilePicture;
+    this.profileName = profileName;
+    this.baseCurrency = baseCurrency;
+    this.timezone = timezone;
+    this.locale = locale;
   }
 
   static create(params: {
@@ -27,8 +42,11 @@ export default class User extends BaseEntity {
     firstName: string;
     lastName: string;
     account: Account;
+    baseCurrency: string;
+    timezone: string;
+    locale: string;
   }): User {
-    const { email, firstName, lastName, account } = params;
+    const { email, firstName, lastName, account, baseCurrency, timezone, locale } = params;
     return new User(
       undefined,
       email,
@@ -37,6 +55,11 @@ export default class User extends BaseEntity {
       account,
       undefined,
       undefined,
+      baseCurrency,
+      timezone,
+      locale,
+      undefined,
+      undefined,
     );
   }
 
@@ -46,6 +69,11 @@ export default class User extends BaseEntity {
     firstName: string;
     lastName: string;
     account: Account;
+    profilePicture?: string;
+    profileName?: string;
+    baseCurrency: string;
+    timezone: string;
+    locale: string;
     createdAt: Date;
     updatedAt: Date;
   }): User {
@@ -55,6 +83,11 @@ export default class User extends BaseEntity {
       firstName,
       lastName,
       account,
+      profilePicture,
+      profileName,
+      baseCurrency,
+      timezone,
+      locale,
       createdAt,
       updatedAt,
     } = params;
@@ -64,6 +97,11 @@ export default class User extends BaseEntity {
       firstName,
       lastName,
       account,
+      profilePicture,
+      profileName,
+      baseCurrency,
+      timezone,
+      locale,
       createdAt,
       updatedAt,
     );
@@ -74,11 +112,22 @@ export default class User extends BaseEntity {
     firstName?: string;
     lastName?: string;
     account?: Account;
+    profilePicture?: string;
+    profileName?: string;
+    baseCurrency?: string;
+    timezone?: string;
+    locale?: string;
   }): void {
-    const { email, firstName, lastName, account } = params;
+    const { email, firstName, lastName, account, profilePicture, profileName } = params;
+    const { baseCurrency, timezone, locale } = params;
     if (email) this.email = email;
     if (firstName) this.firstName = firstName;
     if (lastName) this.lastName = lastName;
     if (account) this.account = account;
+    if (profilePicture !== undefined) this.profilePicture = profilePicture;
+    if (profileName !== undefined) this.profileName = profileName;
+    if (baseCurrency) this.baseCurrency = baseCurrency;
+    if (timezone) this.timezone = timezone;
+    if (locale) this.locale = locale;
   }
 }
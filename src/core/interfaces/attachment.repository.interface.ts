@@ -0,0 +1,12 @@
+import type { Attachment } from "../entities";
+
+export interface IAttachmentRepository {
+  getById(id: string, transactionId: string): Promise<Attachment | null>;
+  getByTransactionId(transactionId: string): Promise<Attachment[]>;
+  getByUserId(userId: string): Promise<Attachment[]>;
+  countByTransactionId(transactionId: string): Promise<number>;
+  deleteByTransactionId(transactionId: string): Promise<void>;
+  deleteByUserId(userId: string): Promise<void>;
+  save(attachment: Attachment): Promise<Attachment>;
+  delete(id: string): Promise<void>;
+}
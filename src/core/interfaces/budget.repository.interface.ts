@@ -0,0 +1,14 @@
+import type { Budget, BudgetPeriod } from "../entities";
+
+export interface IBudgetRepository {
+  getById(id: string, userId: string): Promise<Budget | null>;
+  getByUserId(userId: string): Promise<Budget[]>;
+  getByCategoryAndPeriod(
+    categoryId: string,
+    period: BudgetPeriod,
+    userId: string,
+  ): Promise<Budget | null>;
+  save(budget: Budget): Promise<Budget>;
+  update(budget: Budget): Promise<Budget>;
+  delete(id: string): Promise<void>;
+}
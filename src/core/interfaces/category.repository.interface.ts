@@ -0,0 +1,15 @@
+import type { Category, CategoryKind } from "../entities";
+
+export interface ICategoryRepository {
+  getById(id: string, userId: string): Promise<Category | null>;
+  getByName(name: string, userId: string): Promise<Category | null>;
+  getByUserId(userId: string, kind?: CategoryKind): Promise<Category[]>;
+  save(category: Category): Promise<Category>;
+  update(category: Category): Promise<Category>;
+  delete(id: string): Promise<void>;
+  createDefaults(
+    userId: string,
+    categories: ReadonlyArray<{ name: string; kind: CategoryKind }>,
+  ): Promise<void>;
+  countUsage(id: string): Promise<{ transactions: number; recurring: number; children: number }>;
+}
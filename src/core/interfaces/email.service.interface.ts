@@ -0,0 +1,6 @@
+export interface IEmailService {
+  sendVerificationEmail(email: string, token: string): Promise<void>;
+  sendPasswordResetEmail(email: string, token: string): Promise<void>;
+  sendAccountLockedEmail(email: string, token: string, lockedUntil: Date): Promise<void>;
+  sendNotificationEmail(email: string, subject: string, message: string): Promise<void>;
+}
@@ -0,0 +1,22 @@
+export interface ExchangeRate {
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number; // units of quoteCurrency per one unit of baseCurrency
+  effectiveDate: string; // YYYY-MM-DD
+}
+
+export interface ExchangeRateFilter {
+  baseCurrency?: string;
+  quoteCurrency?: string;
+  effectiveDate?: string;
+}
+
+export interface IExchangeRateRepository {
+  findLatest(
+    baseCurrency: string,
+    quoteCurrency: string,
+    onOrBefore: string,
+  ): Promise<ExchangeRate | null>;
+  find(filter: ExchangeRateFilter): Promise<ExchangeRate[]>;
+  upsertMany(rates: ExchangeRate[]): Promise<number>;
+}
@@ -0,0 +1,16 @@
+export interface StoredFile {
+  content: AsyncIterable<Uint8Array>;
+  size: number;
+}
+
+/**
+ * Blob storage for uploaded files. Keys are slash-separated paths chosen by the caller; drivers
+ * decide where the bytes actually live (a local directory, an S3-compatible bucket, ...).
+ */
+export interface IFileStorage {
+  put(key: string, content: Buffer, contentType: string): Promise<void>;
+  /** Streams a stored file, or returns null when nothing is stored under the key. */
+  get(key: string): Promise<StoredFile | null>;
+  /** Removes a stored file. Deleting a missing key is not an error. */
+  delete(key: string): Promise<void>;
+}
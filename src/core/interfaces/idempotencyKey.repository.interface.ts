@@ -0,0 +1,25 @@
+/**
+ * A response recorded for an idempotency key, replayed when the request is repeated.
+ */
+export interface StoredResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface IdempotencyRecord {
+  userId: string;
+  key: string;
+  requestHash: string; // sha256 of the method, path and body of the first request
+  response: StoredResponse | null; // null while the first request is still being processed
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface IIdempotencyKeyRepository {
+  find(userId: string, key: string): Promise<IdempotencyRecord | null>;
+  claim(record: Omit<IdempotencyRecord, "response" | "createdAt">): Promise<boolean>;
+  complete(userId: string, key: string, response: StoredResponse): Promise<void>;
+  release(userId: string, key: string): Promise<void>;
+  deleteExpired(now: Date): Promise<number>;
+}
@@ -1,3 +1,63 @@
-export type { ITokenRepository } from "./token.repository.interface";
+export type { ITokenRepository, RefreshSession } from "./token.repository.interface";
+export type { IMfaRepository, TotpFactor } from "./mfa.repository.interface";
+export type {
+  ILoginThrottleRepository,
+  LoginThrottle,
+} from "./loginThrottle.repository.interface";
+export type {
+  ISigningKeyRepository,
+  SigningKey,
+  SigningAlgorithm,
+} from "./signingKey.repository.interface";
+export type {
+  ISecurityEventRepository,
+  SecurityEvent,
+  SecurityEventType,
+} from "./securityEvent.repository.interface";
 export type { IUserRepository } from "./user.repository.interface";
-export type { ITransactionRepository } from "./transaction.repository.interface";
+export type { IEmailService } from "./email.service.interface";
+export type { ICategoryRepository } from "./category.repository.interface";
+export type { ITagRepository } from "./tag.repository.interface";
+export type { IAttachmentRepository } from "./attachment.repository.interface";
+export type { IFileStorage, StoredFile } from "./fileStorage.interface";
+export type {
+  ITransactionRepository,
+  TransactionQuery,
+  TagFilter,
+  TransactionPage,
+  TransactionSortField,
+  SortDirection,
+  TransactionTotalsQuery,
+  CurrencyTotal,
+  TransactionRange,
+  TransactionBucket,
+  TransactionTypeTotal,
+  TransactionCategoryTotal,
+  TransactionBucketTotal,
+} from "./transaction.repository.interface";
+export type {
+  ITransactionHistoryRepository,
+  TransactionHistoryEntry,
+  TransactionHistoryAction,
+  TransactionSnapshot,
+  TransactionChanges,
+  TransactionHistoryRecorder,
+  AuditContext,
+} from "./transactionHistory.repository.interface";
+export type {
+  IIdempotencyKeyRepository,
+  IdempotencyRecord,
+  StoredResponse,
+} from "./idempotencyKey.repository.interface";
+export type {
+  IExchangeRateRepository,
+  ExchangeRate,
+  ExchangeRateFilter,
+} from "./exchangeRate.repository.interface";
+export type { IRecurringTransactionRepository } from "./recurringTransaction.repository.interface";
+export type { IBudgetRepository } from "./budget.repository.interface";
+export type {
+  ITransactionImportRepository,
+  ImportBatch,
+  ImportMapping,
+} from "./transactionImport.repository.interface";
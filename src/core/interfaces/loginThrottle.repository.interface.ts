@@ -0,0 +1,17 @@
+/**
+ * Failed logins counted against an account ("user:<id>") or a client IP address ("ip:<address>").
+ */
+export interface LoginThrottle {
+  key: string;
+  failures: number; // within the failure window ending at lastFailedAt
+  lastFailedAt: Date;
+  lockedUntil: Date | null;
+}
+
+export interface ILoginThrottleRepository {
+  findMany(keys: string[]): Promise<LoginThrottle[]>;
+  recordFailure(key: string, now: Date, windowStart: Date): Promise<LoginThrottle>;
+  lock(key: string, lockedUntil: Date, unlockTokenHash: string | null): Promise<void>;
+  clear(key: string): Promise<void>;
+  consumeUnlockToken(unlockTokenHash: string, now: Date): Promise<string | null>;
+}
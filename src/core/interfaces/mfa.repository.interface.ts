@@ -0,0 +1,22 @@
+/**
+ * A user's authenticator app. The factor protects logins once confirmed; until then it is an
+ * enrolment in progress.
+ */
+export interface TotpFactor {
+  userId: string;
+  secret: string; // base32, encrypted with TOTP_ENCRYPTION_SECRET
+  confirmedAt: Date | null;
+  lastUsedStep: number | null; // time step of the last accepted code, so it cannot be replayed
+}
+
+export interface IMfaRepository {
+  getTotpFactor(userId: string): Promise<TotpFactor | null>;
+  saveTotpFactor(userId: string, secret: string): Promise<void>;
+  replaceTotpSecret(userId: string, secret: string): Promise<void>;
+  confirmTotpFactor(userId: string, confirmedAt: Date): Promise<void>;
+  useTotpStep(userId: string, step: number): Promise<boolean>;
+  deleteTotpFactor(userId: string): Promise<void>;
+  replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void>;
+  consumeRecoveryCode(userId: string, codeHash: string, now: Date): Promise<boolean>;
+  countUnusedRecoveryCodes(userId: string): Promise<number>;
+}
@@ -0,0 +1,11 @@
+import type { RecurringTransaction } from "../entities";
+
+export interface IRecurringTransactionRepository {
+  getById(id: string, userId: string): Promise<RecurringTransaction | null>;
+  getByUserId(userId: string): Promise<RecurringTransaction[]>;
+  findDue(now: Date, limit: number): Promise<RecurringTransaction[]>;
+  save(recurringTransaction: RecurringTransaction): Promise<RecurringTransaction>;
+  update(recurringTransaction: RecurringTransaction): Promise<RecurringTransaction>;
+  advance(recurringTransaction: RecurringTransaction, expectedNextRunAt: Date): Promise<boolean>;
+  delete(id: string): Promise<void>;
+}
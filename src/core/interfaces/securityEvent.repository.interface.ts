@@ -0,0 +1,19 @@
+export type SecurityEventType = "refresh_token_reuse" | "account_locked" | "account_unlocked";
+
+/**
+ * Something that happened to a user's account that they may need to know about.
+ */
+export interface SecurityEvent {
+  id: string;
+  userId: string;
+  type: SecurityEventType;
+  ip: string | null;
+  userAgent: string | null;
+  details: Record<string, unknown> | null;
+  createdAt: Date;
+}
+
+export interface ISecurityEventRepository {
+  record(event: Omit<SecurityEvent, "id" | "createdAt">): Promise<SecurityEvent>;
+  listByUser(userId: string, limit: number): Promise<SecurityEvent[]>;
+}
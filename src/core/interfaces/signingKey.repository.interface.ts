@@ -0,0 +1,23 @@
+export type SigningAlgorithm = "RS256" | "EdDSA";
+
+/**
+ * A key pair from the keyset access tokens are signed with. Keys are PEM encoded. A retired key no
+ * longer signs tokens but still verifies them until the retirement period is over.
+ */
+export interface SigningKey {
+  kid: string;
+  algorithm: SigningAlgorithm;
+  publicKey: string; // SPKI
+  privateKey: string; // PKCS #8
+  createdAt: Date;
+  retiredAt: Date | null;
+}
+
+export interface ISigningKeyRepository {
+  findVerifiable(retiredAfter: Date): Promise<SigningKey[]>;
+  create(
+    key: Pick<SigningKey, "kid" | "algorithm" | "publicKey" | "privateKey">,
+  ): Promise<SigningKey>;
+  retireAllExcept(kid: string, retiredAt: Date): Promise<number>;
+  deleteRetiredBefore(retiredBefore: Date): Promise<number>;
+}
@@ -0,0 +1,12 @@
+import type { Tag } from "../entities";
+
+export interface ITagRepository {
+  getById(id: string, userId: string): Promise<Tag | null>;
+  getByName(name: string, userId: string): Promise<Tag | null>;
+  getByUserId(userId: string): Promise<Tag[]>;
+  /** Loads the user's tags with the given names, creating the ones that do not exist yet. */
+  getOrCreateByNames(names: string[], userId: string): Promise<Tag[]>;
+  save(tag: Tag): Promise<Tag>;
+  update(tag: Tag): Promise<Tag>;
+  delete(id: string): Promise<void>;
+}
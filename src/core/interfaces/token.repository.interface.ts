@@ -1,20 +1,45 @@
+/**
+ * A signed-in device. Refreshing rotates the session's refresh token but keeps the session.
+ */
+export interface RefreshSession {
+  id: string;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: Date; // when the user signed in
+  lastUsedAt: Date; // when the current refresh token was issued
+  expiresAt: Date;
+}
+
 export interface ITokenRepository {
   saveRefreshToken(
     userId: string,
     refreshTokenId: string,
+    sessionId: string,
     createdAt: Date,
     expiresAt: Date,
     ip?: string,
     userAgent?: string,
   ): Promise<void>;
   revokeRefreshToken(refreshTokenId: string): Promise<void>;
+  rotateRefreshToken(refreshTokenId: string, replacedById: string): Promise<boolean>;
+  revokeAllRefreshTokens(userId: string): Promise<void>;
   findTokenRecordById(refreshTokenId: string): Promise<{
     userId: string;
     rid: string;
+    sessionId: string;
+    replacedById?: string; // set once the token has been rotated
     createdAt: Date;
     expiresAt: Date;
     revokedAt: Date | null;
     ip?: string;
     userAgent?: string;
   } | null>;
+  findActiveSessions(userId: string, now: Date): Promise<RefreshSession[]>;
+  revokeSession(userId: string, sessionId: string): Promise<boolean>;
+  revokeOtherSessions(userId: string, sessionId: string): Promise<number>;
+  savePasswordResetToken(userId: string, tokenHash: string, expiresAt: Date): Promise<void>;
+  consumePasswordResetToken(tokenHash: string, now: Date): Promise<string | null>;
+  saveActivationToken(userId: string, tokenHash: string, expiresAt: Date): Promise<void>;
+  findActivationTokenByUserId(userId: string): Promise<{ createdAt: Date; expiresAt: Date } | null>;
+  consumeActivationToken(tokenHash: string, now: Date): Promise<string | null>;
 }
@@ -1,9 +1,135 @@
 import type Transaction from "../entities/transactionAggregate/transaction";
+import type { TransactionHistoryRecorder } from "./transactionHistory.repository.interface";
 
+export type TransactionSortField = "date" | "amount" | "createdAt";
+export type SortDirection = "asc" | "desc";
+
+/**
+ * Matches transactions carrying any, or all, of the given tags. Names are compared normalized.
+ */
+export interface TagFilter {
+  names: string[];
+  match: "any" | "all";
+}
+
+/**
+ * Specification describing which of a user's transactions to fetch and in what order.
+ * All filters are optional and combined with AND semantics.
+ */
+export interface TransactionQuery {
+  userId: string;
+  filters: {
+    from?: Date;
+    to?: Date;
+    type?: string;
+    categoryId?: string;
+    currency?: string;
+    minAmount?: number;
+    maxAmount?: number;
+    search?: string;
+    tags?: TagFilter;
+  };
+  sort: {
+    field: TransactionSortField;
+    direction: SortDirection;
+  };
+  limit: number;
+  /** Keyset position of the last transaction on the previous page. */
+  after?: {
+    id: string;
+    value: Date | number | null;
+  };
+}
+
+export interface TransactionPage {
+  transactions: Transaction[];
+  hasMore: boolean;
+}
+
+/**
+ * Selects the dated transactions of a user to total, with `from` inclusive and `to` exclusive.
+ */
+export interface TransactionTotalsQuery {
+  userId: string;
+  type: string;
+  categoryIds: string[];
+  from: Date;
+  to: Date;
+}
+
+export interface CurrencyTotal {
+  currency: string;
+  amount: number;
+}
+
+/**
+ * A user's dated transactions from `from` (inclusive) to `to` (exclusive).
+ */
+export interface TransactionRange {
+  userId: string;
+  from: Date;
+  to: Date;
+  tags?: TagFilter;
+}
+
+export type TransactionBucket = "day" | "week" | "month" | "year";
+
+export interface TransactionTypeTotal {
+  type: string;
+  currency: string;
+  amount: number;
+  count: number;
+}
+
+export interface TransactionCategoryTotal extends TransactionTypeTotal {
+  categoryId: string;
+}
+
+export interface TransactionBucketTotal extends TransactionTypeTotal {
+  bucket: string; // first day of the bucket (YYYY-MM-DD) in the requested time zone
+}
+
+/**
+ * Reads only see live transactions; trashed ones are reached through the trash methods.
+ */
 export interface ITransactionRepository {
   getById(id: string, userId: string): Promise<Transaction | null>;
   getByUserId(userId: string): Promise<Transaction[]>;
-  save(transaction: Transaction): Promise<Transaction>;
-  update(transaction: Transaction): Promise<Transaction>;
+  findByQuery(query: TransactionQuery): Promise<TransactionPage>;
+  getByOccurrence(recurringTransactionId: string, occurrenceDate: Date): Promise<Transaction | null>;
+  sumByCurrency(query: TransactionTotalsQuery): Promise<CurrencyTotal[]>;
+  sumByType(range: TransactionRange): Promise<TransactionTypeTotal[]>;
+  sumByCategory(range: TransactionRange, type?: string): Promise<TransactionCategoryTotal[]>;
+  sumByBucket(
+    range: TransactionRange,
+    bucket: TransactionBucket,
+    timeZone: string,
+  ): Promise<TransactionBucketTotal[]>;
+  /**
+   * The changing methods take the recorder of the change's history entry and write the entry
+   * atomically with the change.
+   */
+  save(transaction: Transaction, history: TransactionHistoryRecorder): Promise<Transaction>;
+  /**
+   * Saves the changes and increments the version, provided the stored version still equals
+   * `transaction.version`. Null when another change was saved in between.
+   */
+  update(
+    transaction: Transaction,
+    history: TransactionHistoryRecorder,
+  ): Promise<Transaction | null>;
+  getTrashedById(id: string, userId: string): Promise<Transaction | null>;
+  getTrashByUserId(userId: string): Promise<Transaction[]>;
+  /** Ids of transactions trashed before `deletedBefore`, at most `limit` of them. */
+  findTrashedBefore(deletedBefore: Date, limit: number): Promise<string[]>;
+  /** Like `update`, these check and increment the version; false when it no longer matches. */
+  moveToTrash(
+    id: string,
+    deletedAt: Date,
+    version: number,
+    history: TransactionHistoryRecorder,
+  ): Promise<boolean>;
+  restore(id: string, version: number, history: TransactionHistoryRecorder): Promise<boolean>;
+  /** Removes a transaction for good, whether or not it is in the trash. */
   delete(id: string): Promise<void>;
 }
@@ -0,0 +1,61 @@
+import type Transaction from "../entities/transactionAggregate/transaction";
+
+export type TransactionHistoryAction = "created" | "updated" | "deleted" | "restored" | "reverted";
+
+/**
+ * The user-editable state of a transaction at one version, as stored in its history.
+ */
+export interface TransactionSnapshot {
+  amount: number;
+  currency: string;
+  type: string;
+  categoryId: string;
+  description: string;
+  date: string | null; // ISO timestamp
+  splits: { categoryId: string; amount: number; note: string | null }[];
+  tags: string[]; // tag names, sorted
+  deletedAt: string | null; // ISO timestamp, set while the transaction is in the trash
+}
+
+// The fields that differ between two versions, with their value before and after the change
+export type TransactionChanges = Partial<
+  Record<keyof TransactionSnapshot, { from: unknown; to: unknown }>
+>;
+
+/**
+ * Who made a change and from where. Changes made by background jobs have no actor.
+ */
+export interface AuditContext {
+  actorId: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export interface TransactionHistoryEntry extends AuditContext {
+  id: string;
+  transactionId: string;
+  version: number; // the transaction's version after the change, as it starts its ETag
+  action: TransactionHistoryAction;
+  changes: TransactionChanges;
+  snapshot: TransactionSnapshot; // the state after the change
+  createdAt: Date;
+}
+
+/**
+ * Builds the history entry of a change from the transaction as saved, or returns null when there
+ * is nothing to record. The transaction repository writes the entry in the same database
+ * transaction as the change, so a change is never saved without its entry.
+ */
+export type TransactionHistoryRecorder = (
+  saved: Transaction,
+) => Omit<TransactionHistoryEntry, "id" | "createdAt"> | null;
+
+/**
+ * The change history of transactions. Entries are append-only: they are written together with the
+ * change they record, cannot be edited or removed, and only go away together with their
+ * transaction when it is purged.
+ */
+export interface ITransactionHistoryRepository {
+  getByTransactionId(transactionId: string): Promise<TransactionHistoryEntry[]>;
+  getByVersion(transactionId: string, version: number): Promise<TransactionHistoryEntry | null>;
+}
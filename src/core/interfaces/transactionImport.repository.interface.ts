@@ -0,0 +1,42 @@
+import type { Transaction } from "../entities";
+import type { TransactionHistoryRecorder } from "./transactionHistory.repository.interface";
+
+export interface ImportBatch {
+  id: string;
+  userId: string;
+  source: string; // file format the rows were read from: csv, ofx, qfx or qif
+  fileName: string | null;
+  transactionCount: number; // transactions still attached to the batch
+  createdAt: Date;
+}
+
+export interface ImportMapping {
+  id: string;
+  userId: string;
+  name: string;
+  mapping: Record<string, unknown>; // stored as JSON, validated by the application layer on use
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ITransactionImportRepository {
+  createBatch(
+    batch: { userId: string; source: string; fileName: string | null },
+    transactions: Transaction[],
+    history: TransactionHistoryRecorder,
+  ): Promise<ImportBatch>;
+  findExistingExternalIds(userId: string, externalIds: string[]): Promise<string[]>;
+  getBatchById(id: string, userId: string): Promise<ImportBatch | null>;
+  getBatchesByUserId(userId: string): Promise<ImportBatch[]>;
+  getBatchTransactionIds(id: string): Promise<string[]>;
+  deleteBatch(id: string): Promise<number>;
+  getMappingById(id: string, userId: string): Promise<ImportMapping | null>;
+  getMappingByName(name: string, userId: string): Promise<ImportMapping | null>;
+  getMappingsByUserId(userId: string): Promise<ImportMapping[]>;
+  saveMapping(mapping: {
+    userId: string;
+    name: string;
+    mapping: Record<string, unknown>;
+  }): Promise<ImportMapping>;
+  deleteMapping(id: string): Promise<void>;
+}
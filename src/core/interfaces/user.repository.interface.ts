@@ -4,5 +4,7 @@ export interface IUserRepository {
   getById(id: string): Promise<User | null>;
   getByEmail(email: string): Promise<User | null>;
   save(user: User): Promise<User>;
+  updatePassword(userId: string, hashedPassword: string): Promise<void>;
+  markVerified(userId: string): Promise<void>;
   delete(id: string): Promise<void>;
 }
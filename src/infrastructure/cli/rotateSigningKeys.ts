@@ -0,0 +1,21 @@
+import "dotenv/config";
+import { createPrismaClient } from "@src/infrastructure/config/prisma";
+import { createSigningKeyService } from "@src/infrastructure/config/signingKeys";
+
+/**
+ * Rotates the access token signing key from the command line: `npm run keys:rotate`. Does the
+ * same as POST /api/signing-keys/rotate, for deployments without ADMIN_API_KEY.
+ */
+async function main(): Promise<void> {
+  try {
+    const key = await createSigningKeyService().rotate();
+    console.log(`Rotated in ${key.algorithm} signing key ${key.kid}`);
+  } finally {
+    await createPrismaClient().$disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error("Failed to rotate the signing key", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,19 @@
+import { SigningKeyService } from "@src/application/services/signingKey.service";
+import { SigningKeyRepository } from "@src/infrastructure/repositories/signingKey.repository";
+import { createPrismaClient } from "./prisma";
+import { ENVIRONMENT_CONFIG } from "@config";
+
+let signingKeyService: SigningKeyService;
+
+/**
+ * The keyset is shared by everything that signs or verifies access tokens, so they all see a
+ * rotation at the same time.
+ */
+export function createSigningKeyService(): SigningKeyService {
+  if (!signingKeyService) {
+    signingKeyService = new SigningKeyService(
+      new SigningKeyRepository(createPrismaClient(), ENVIRONMENT_CONFIG.JWT_KEY_ENCRYPTION_SECRET),
+    );
+  }
+  return signingKeyService;
+}
@@ -0,0 +1,76 @@
+import type { PrismaClient } from "@prisma/client";
+import { AttachmentMapper } from "@src/application/mappers/attachment.mapper";
+import type { Attachment } from "@src/core/entities";
+import type { IAttachmentRepository } from "@src/core/interfaces";
+
+/**
+ * Attachment metadata. Lookups are scoped by transaction only; callers check that the transaction
+ * belongs to the user first, through `TransactionRepository.getById`.
+ */
+export class AttachmentRepository implements IAttachmentRepository {
+  private client: PrismaClient;
+
+  constructor(client: PrismaClient) {
+    this.client = client;
+  }
+
+  async getById(id: string, transactionId: string): Promise<Attachment | null> {
+    const attachment = await this.client.attachment.findFirst({
+      where: { id, transactionId },
+    });
+    return attachment ? AttachmentMapper.toDomainFromPersistence(attachment) : null;
+  }
+
+  /**
+   * Fetches the attachments of a transaction, oldest first.
+   */
+  async getByTransactionId(transactionId: string): Promise<Attachment[]> {
+    const attachments = await this.client.attachment.findMany({
+      where: { transactionId },
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    });
+    return attachments.map(AttachmentMapper.toDomainFromPersistence);
+  }
+
+  /**
+   * Fetches the attachments of every transaction the user owns, trashed ones included.
+   */
+  async getByUserId(userId: string): Promise<Attachment[]> {
+    const attachments = await this.client.attachment.findMany({
+      where: { transaction: { userId } },
+    });
+    return attachments.map(AttachmentMapper.toDomainFromPersistence);
+  }
+
+  async countByTransactionId(transactionId: string): Promise<number> {
+    return this.client.attachment.count({
+      where: { transactionId },
+    });
+  }
+
+  async save(attachment: Attachment): Promise<Attachment> {
+    const data = AttachmentMapper.toPersistence(attachment);
+    const created = await this.client.attachment.create({
+      data,
+    });
+    return AttachmentMapper.toDomainFromPersistence(created);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.client.attachment.delete({
+      where: { id },
+    });
+  }
+
+  async deleteByTransactionId(transactionId: string): Promise<void> {
+    await this.client.attachment.deleteMany({
+      where: { transactionId },
+    });
+  }
+
+  async deleteByUserId(userId: string): Promise<void> {
+    await this.client.attachment.deleteMany({
+      where: { transaction: { userId } },
+    });
+  }
+}
@@ -0,0 +1,79 @@
+import type { PrismaClient } from "@prisma/client";
+import { BudgetMapper } from "@src/application/mappers/budget.mapper";
+import type { Budget, BudgetPeriod } from "@src/core/entities";
+import type { IBudgetRepository } from "@src/core/interfaces";
+
+export class BudgetRepository implements IBudgetRepository {
+  private client: PrismaClient;
+
+  constructor(client: PrismaClient) {
+    this.client = client;
+  }
+
+  /**
+   * Fetches a budget by its ID, scoped to the owning user.
+   *
+   * @param id The unique identifier of the budget.
+   * @param userId The unique identifier of the user it must belong to.
+   * @returns The budget if found, otherwise null.
+   */
+  async getById(id: string, userId: string): Promise<Budget | null> {
+    const budget = await this.client.budget.findFirst({
+      where: { id, userId },
+      include: { category: true },
+    });
+    return budget ? BudgetMapper.toDomainFromPersistence(budget) : null;
+  }
+
+  /**
+   * Fetches all budgets of a user, oldest first.
+   */
+  async getByUserId(userId: string): Promise<Budget[]> {
+    const budgets = await this.client.budget.findMany({
+      where: { userId },
+      include: { category: true },
+      orderBy: { createdAt: "asc" },
+    });
+    return budgets.map(BudgetMapper.toDomainFromPersistence);
+  }
+
+  /**
+   * Fetches the budget a user has set for a category and period, if any. There is at most one.
+   */
+  async getByCategoryAndPeriod(
+    categoryId: string,
+    period: BudgetPeriod,
+    userId: string,
+  ): Promise<Budget | null> {
+    const budget = await this.client.budget.findUnique({
+      where: { userId_categoryId_period: { userId, categoryId, period } },
+      include: { category: true },
+    });
+    return budget ? BudgetMapper.toDomainFromPersistence(budget) : null;
+  }
+
+  async save(budget: Budget): Promise<Budget> {
+    const data = BudgetMapper.toPersistence(budget);
+    const created = await this.client.budget.create({
+      data,
+      include: { category: true },
+    });
+    return BudgetMapper.toDomainFromPersistence(created);
+  }
+
+  async update(budget: Budget): Promise<Budget> {
+    const data = BudgetMapper.toPersistence(budget);
+    const updated = await this.client.budget.update({
+      where: { id: budget.id! },
+      data,
+      include: { category: true },
+    });
+    return BudgetMapper.toDomainFromPersistence(updated);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.client.budget.delete({
+      where: { id },
+    });
+  }
+}
@@ -0,0 +1,108 @@
+import type { PrismaClient } from "@prisma/client";
+import { CategoryMapper } from "@src/application/mappers/category.mapper";
+import { Category, type CategoryKind } from "@src/core/entities";
+import type { ICategoryRepository } from "@src/core/interfaces";
+
+export class CategoryRepository implements ICategoryRepository {
+  private client: PrismaClient;
+
+  constructor(client: PrismaClient) {
+    this.client = client;
+  }
+
+  /**
+   * Fetches a category by its ID, scoped to the owning user.
+   *
+   * @param id The unique identifier of the category.
+   * @param userId The unique identifier of the user the category must belong to.
+   * @returns The category if found, otherwise null.
+   */
+  async getById(id: string, userId: string): Promise<Category | null> {
+    const category = await this.client.category.findFirst({
+      where: { id, userId },
+    });
+    return category ? CategoryMapper.toDomainFromPersistence(category) : null;
+  }
+
+  /**
+   * Fetches a category by name, ignoring case and extra whitespace.
+   *
+   * @param name The category name as entered by the user.
+   * @param userId The unique identifier of the user the category must belong to.
+   * @returns The category if found, otherwise null.
+   */
+  async getByName(name: string, userId: string): Promise<Category | null> {
+    const category = await this.client.category.findUnique({
+      where: {
+        userId_normalizedName: { userId, normalizedName: Category.normalizeName(name) },
+      },
+    });
+    return category ? CategoryMapper.toDomainFromPersistence(category) : null;
+  }
+
+  /**
+   * Fetches all categories of a user ordered by name, optionally restricted to one kind.
+   */
+  async getByUserId(userId: string, kind?: CategoryKind): Promise<Category[]> {
+    const categories = await this.client.category.findMany({
+      where: { userId, ...(kind && { kind }) },
+      orderBy: { name: "asc" },
+    });
+    return categories.map(CategoryMapper.toDomainFromPersistence);
+  }
+
+  async save(category: Category): Promise<Category> {
+    const data = CategoryMapper.toPersistence(category);
+    const created = await this.client.category.create({
+      data,
+    });
+    return CategoryMapper.toDomainFromPersistence(created);
+  }
+
+  async update(category: Category): Promise<Category> {
+    const data = CategoryMapper.toPersistence(category);
+    const updated = await this.client.category.update({
+      where: { id: category.id! },
+      data,
+    });
+    return CategoryMapper.toDomainFromPersistence(updated);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.client.category.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Creates the given categories for a user, skipping any whose name the user already has.
+   */
+  async createDefaults(
+    userId: string,
+    categories: ReadonlyArray<{ name: string; kind: CategoryKind }>,
+  ): Promise<void> {
+    await this.client.category.createMany({
+      data: categories.map((category) =>
+        CategoryMapper.toPersistence(Category.create({ userId, ...category })),
+      ),
+      skipDuplicates: true,
+    });
+  }
+
+  /**
+   * Counts the transactions, recurring transactions and child categories referencing a category.
+   * Transactions in the trash still reference it, so they are counted too.
+   */
+  async countUsage(
+    id: string,
+  ): Promise<{ transactions: number; recurring: number; children: number }> {
+    const [transactions, recurring, children] = await Promise.all([
+      this.client.transaction.count({
+        where: { OR: [{ categoryId: id }, { splits: { some: { categoryId: id } } }] },
+      }),
+      this.client.recurringTransaction.count({ where: { categoryId: id } }),
+      this.client.category.count({ where: { parentId: id } }),
+    ]);
+    return { transactions, recurring, children };
+  }
+}
@@ -0,0 +1,94 @@
+import type { PrismaClient } from "@prisma/client";
+import type {
+  ExchangeRate,
+  ExchangeRateFilter,
+  IExchangeRateRepository,
+} from "@src/core/interfaces";
+
+export class ExchangeRateRepository implements IExchangeRateRepository {
+  private client: PrismaClient;
+
+  constructor(client: PrismaClient) {
+    this.client = client;
+  }
+
+  /**
+   * Fetches the most recent rate for a currency pair that was in effect on the given day.
+   *
+   * @param baseCurrency The currency being converted from.
+   * @param quoteCurrency The currency being converted to.
+   * @param onOrBefore The day (YYYY-MM-DD) the rate must apply to. Later rates are ignored.
+   * @returns The rate if one exists for the pair on or before that day, otherwise null.
+   */
+  async findLatest(
+    baseCurrency: string,
+    quoteCurrency: string,
+    onOrBefore: string,
+  ): Promise<ExchangeRate | null> {
+    const rate = await this.client.exchangeRate.findFirst({
+      where: {
+        baseCurrency,
+        quoteCurrency,
+        effectiveDate: { lte: new Date(onOrBefore) },
+      },
+      orderBy: { effectiveDate: "desc" },
+    });
+    return rate ? this.toExchangeRate(rate) : null;
+  }
+
+  /**
+   * Fetches stored rates matching every provided filter, newest first.
+   */
+  async find(filter: ExchangeRateFilter): Promise<ExchangeRate[]> {
+    const rates = await this.client.exchangeRate.findMany({
+      where: {
+        ...(filter.baseCurrency && { baseCurrency: filter.baseCurrency }),
+        ...(filter.quoteCurrency && { quoteCurrency: filter.quoteCurrency }),
+        ...(filter.effectiveDate && { effectiveDate: new Date(filter.effectiveDate) }),
+      },
+      orderBy: [{ effectiveDate: "desc" }, { baseCurrency: "asc" }, { quoteCurrency: "asc" }],
+    });
+    return rates.map((rate: any) => this.toExchangeRate(rate));
+  }
+
+  /**
+   * Inserts the given rates, replacing any existing rate for the same pair and day.
+   * All rates are written in a single transaction so a failed import leaves the table untouched.
+   *
+   * @param rates The rates to store.
+   * @returns The number of rates written.
+   */
+  async upsertMany(rates: ExchangeRate[]): Promise<number> {
+    await this.client.$transaction(
+      rates.map((rate) => {
+        const effectiveDate = new Date(rate.effectiveDate);
+        return this.client.exchangeRate.upsert({
+          where: {
+            baseCurrency_quoteCurrency_effectiveDate: {
+              baseCurrency: rate.baseCurrency,
+              quoteCurrency: rate.quoteCurrency,
+              effectiveDate,
+            },
+          },
+          update: { rate: rate.rate },
+          create: {
+            baseCurrency: rate.baseCurrency,
+            quoteCurrency: rate.quoteCurrency,
+            rate: rate.rate,
+            effectiveDate,
+          },
+        });
+      }),
+    );
+    return rates.length;
+  }
+
+  private toExchangeRate(raw: any): ExchangeRate {
+    return {
+      baseCurrency: raw.baseCurrency,
+      quoteCurrency: raw.quoteCurrency,
+      rate: Number(raw.rate), // stored as Decimal
+      effectiveDate: new Date(raw.effectiveDate).toISOString().slice(0, 10),
+    };
+  }
+}
@@ -0,0 +1,68 @@
+import type { PrismaClient } from "@prisma/client";
+import type {
+  IdempotencyRecord,
+  IIdempotencyKeyRepository,
+  StoredResponse,
+} from "@src/core/interfaces";
+
+export class IdempotencyKeyRepository implements IIdempotencyKeyRepository {
+  private client: PrismaClient;
+
+  constructor(client: PrismaClient) {
+    this.client = client;
+  }
+
+  async find(userId: string, key: string): Promise<IdempotencyRecord | null> {
+    const record = await this.client.idempotencyKey.findUnique({
+      where: { userId_key: { userId, key } },
+    });
+    return record ? this.toRecord(record) : null;
+  }
+
+  /**
+   * Claims a key for a request that is about to be processed. The unique index on user and key
+   * makes this the lock: of two concurrent requests with the same key, only one creates the row.
+   *
+   * @returns false when the key is already taken.
+   */
+  async claim(record: Omit<IdempotencyRecord, "response" | "createdAt">): Promise<boolean> {
+    try {
+      await this.client.idempotencyKey.create({ data: record });
+      return true;
+    } catch (err) {
+      if ((err as { code?: string }).code === "P2002") {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  async complete(userId: string, key: string, response: StoredResponse): Promise<void> {
+    await this.client.idempotencyKey.update({
+      where: { userId_key: { userId, key } },
+      data: { response: response as any },
+    });
+  }
+
+  async release(userId: string, key: string): Promise<void> {
+    await this.client.idempotencyKey.deleteMany({ where: { userId, key } });
+  }
+
+  async deleteExpired(now: Date): Promise<number> {
+    const { count } = await this.client.idempotencyKey.deleteMany({
+      where: { expiresAt: { lte: now } },
+    });
+    return count;
+  }
+
+  private toRecord(raw: any): IdempotencyRecord {
+    return {
+      userId: raw.userId,
+      key: raw.key,
+      requestHash: raw.requestHash,
+      response: (raw.response as StoredResponse | null) ?? null,
+      expiresAt: raw.expiresAt,
+      createdAt: raw.createdAt,
+    };
+  }
+}
@@ -1,3 +1,16 @@
 export { TokenRepository } from "./token.repository";
 export { UserRepository } from "./user.repository";
 export { TransactionRepository } from "./transaction.repository";
+export { CategoryRepository } from "./category.repository";
+export { ExchangeRateRepository } from "./exchangeRate.repository";
+export { RecurringTransactionRepository } from "./recurringTransaction.repository";
+export { BudgetRepository } from "./budget.repository";
+export { TransactionImportRepository } from "./transactionImport.repository";
+export { TagRepository } from "./tag.repository";
+export { AttachmentRepository } from "./attachment.repository";
+export { TransactionHistoryRepository } from "./transactionHistory.repository";
+export { IdempotencyKeyRepository } from "./idempotencyKey.repository";
+export { SecurityEventRepository } from "./securityEvent.repository";
+export { MfaRepository } from "./mfa.repository";
+export { LoginThrottleRepository } from "./loginThrottle.repository";
+export { SigningKeyRepository } from "./signingKey.repository";
@@ -0,0 +1,74 @@
+import type { PrismaClient } from "@prisma/client";
+import type { ILoginThrottleRepository, LoginThrottle } from "@src/core/interfaces";
+
+export class LoginThrottleRepository implements ILoginThrottleRepository {
+  private client: PrismaClient;
+
+  constructor(client: PrismaClient) {
+    this.client = client;
+  }
+
+  async findMany(keys: string[]): Promise<LoginThrottle[]> {
+    const throttles = await this.client.loginThrottle.findMany({ where: { key: { in: keys } } });
+    return throttles.map((throttle: any) => this.toThrottle(throttle));
+  }
+
+  /**
+   * Counts a failed login, starting the count again when the previous failure is older than the
+   * window. Incrementing in place keeps concurrent failures from being lost.
+   */
+  async recordFailure(key: string, now: Date, windowStart: Date): Promise<LoginThrottle> {
+    const { count } = await this.client.loginThrottle.updateMany({
+      where: { key, lastFailedAt: { gte: windowStart } },
+      data: { failures: { increment: 1 }, lastFailedAt: now },
+    });
+
+    if (count === 0) {
+      await this.client.loginThrottle.upsert({
+        where: { key },
+        create: { key, failures: 1, lastFailedAt: now },
+        update: { failures: 1, lastFailedAt: now },
+      });
+    }
+
+    const throttle = await this.client.loginThrottle.findUniqueOrThrow({ where: { key } });
+    return this.toThrottle(throttle);
+  }
+
+  async lock(key: string, lockedUntil: Date, unlockTokenHash: string | null): Promise<void> {
+    await this.client.loginThrottle.update({
+      where: { key },
+      data: { lockedUntil, unlockTokenHash },
+    });
+  }
+
+  async clear(key: string): Promise<void> {
+    await this.client.loginThrottle.deleteMany({ where: { key } });
+  }
+
+  /**
+   * Lifts a lockout through the token emailed with it, forgetting the failures that caused it.
+   *
+   * @returns The key that was unlocked, or null when the token is unknown or the lockout is over.
+   */
+  async consumeUnlockToken(unlockTokenHash: string, now: Date): Promise<string | null> {
+    const throttle = await this.client.loginThrottle.findUnique({ where: { unlockTokenHash } });
+    if (!throttle?.lockedUntil || throttle.lockedUntil <= now) {
+      return null;
+    }
+
+    const { count } = await this.client.loginThrottle.deleteMany({
+      where: { key: throttle.key, unlockTokenHash },
+    });
+    return count > 0 ? throttle.key : null;
+  }
+
+  private toThrottle(raw: any): LoginThrottle {
+    return {
+      key: raw.key,
+      failures: raw.failures,
+      lastFailedAt: raw.lastFailedAt,
+      lockedUntil: raw.lockedUntil ?? null,
+    };
+  }
+}
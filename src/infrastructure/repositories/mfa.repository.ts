@@ -0,0 +1,102 @@
+import type { PrismaClient } from "@prisma/client";
+import type { IMfaRepository, TotpFactor } from "@src/core/interfaces";
+
+export class MfaRepository implements IMfaRepository {
+  private client: PrismaClient;
+
+  constructor(client: PrismaClient) {
+    this.client = client;
+  }
+
+  async getTotpFactor(userId: string): Promise<TotpFactor | null> {
+    const factor = await this.client.totpFactor.findUnique({ where: { userId } });
+    if (!factor) {
+      return null;
+    }
+
+    return {
+      userId: factor.userId,
+      secret: factor.secret,
+      confirmedAt: factor.confirmedAt ?? null,
+      lastUsedStep: factor.lastUsedStep ?? null,
+    };
+  }
+
+  /**
+   * Stores a new, unconfirmed secret for the user, replacing any enrolment in progress.
+   */
+  async saveTotpFactor(userId: string, secret: string): Promise<void> {
+    await this.client.totpFactor.upsert({
+      where: { userId },
+      create: { userId, secret },
+      update: { secret, confirmedAt: null, lastUsedStep: null },
+    });
+  }
+
+  /**
+   * Swaps the stored secret for the same secret in another form, keeping the enrolment as it is.
+   */
+  async replaceTotpSecret(userId: string, secret: string): Promise<void> {
+    await this.client.totpFactor.update({
+      where: { userId },
+      data: { secret },
+    });
+  }
+
+  async confirmTotpFactor(userId: string, confirmedAt: Date): Promise<void> {
+    await this.client.totpFactor.update({
+      where: { userId },
+      data: { confirmedAt },
+    });
+  }
+
+  /**
+   * Marks a time step as used, provided no later or equal step has been used before. The check
+   * and the update happen in a single statement so a code cannot be redeemed twice concurrently.
+   *
+   * @returns false when a code from this step or a later one was already accepted.
+   */
+  async useTotpStep(userId: string, step: number): Promise<boolean> {
+    const { count } = await this.client.totpFactor.updateMany({
+      where: {
+        userId,
+        OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }],
+      },
+      data: { lastUsedStep: step },
+    });
+    return count > 0;
+  }
+
+  async deleteTotpFactor(userId: string): Promise<void> {
+    await this.client.$transaction([
+      this.client.totpFactor.deleteMany({ where: { userId } }),
+      this.client.recoveryCode.deleteMany({ where: { userId } }),
+    ]);
+  }
+
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    await this.client.$transaction([
+      this.client.recoveryCode.deleteMany({ where: { userId } }),
+      this.client.recoveryCode.createMany({
+        data: codeHashes.map((codeHash) => ({ userId, codeHash })),
+      }),
+    ]);
+  }
+
+  /**
+   * Marks a recovery code as used, provided it belongs to the user and is unused.
+   *
+   * @returns false when the code cannot be used.
+   */
+  async consumeRecoveryCode(userId: string, codeHash: string, now: Date): Promise<boolean> {
+    const { count } = await this.client.recoveryCode.updateMany({
+      where: { userId, codeHash, usedAt: null },
+      data: { usedAt: now },
+    });
+    return count > 0;
+  }
+
+  async countUnusedRecoveryCodes(userId: string): Promise<number> {
+    return this.client.recoveryCode.count({ where: { userId, usedAt: null } });
+  }
+}
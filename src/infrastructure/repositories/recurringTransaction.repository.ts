@@ -0,0 +1,102 @@
+import type { PrismaClient } from "@prisma/client";
+import { RecurringTransactionMapper } from "@src/application/mappers/recurringTransaction.mapper";
+import type { RecurringTransaction } from "@src/core/entities";
+import type { IRecurringTransactionRepository } from "@src/core/interfaces";
+
+export class RecurringTransactionRepository implements IRecurringTransactionRepository {
+  private client: PrismaClient;
+
+  constructor(client: PrismaClient) {
+    this.client = client;
+  }
+
+  /**
+   * Fetches a recurring transaction by its ID, scoped to the owning user.
+   *
+   * @param id The unique identifier of the recurring transaction.
+   * @param userId The unique identifier of the user it must belong to.
+   * @returns The recurring transaction if found, otherwise null.
+   */
+  async getById(id: string, userId: string): Promise<RecurringTransaction | null> {
+    const recurring = await this.client.recurringTransaction.findFirst({
+      where: { id, userId },
+      include: { category: true },
+    });
+    return recurring ? RecurringTransactionMapper.toDomainFromPersistence(recurring) : null;
+  }
+
+  /**
+   * Fetches all recurring transactions of a user, soonest next run first. Completed schedules come last.
+   */
+  async getByUserId(userId: string): Promise<RecurringTransaction[]> {
+    const recurring = await this.client.recurringTransaction.findMany({
+      where: { userId },
+      include: { category: true },
+      orderBy: [{ nextRunAt: { sort: "asc", nulls: "last" } }, { createdAt: "asc" }],
+    });
+    return recurring.map(RecurringTransactionMapper.toDomainFromPersistence);
+  }
+
+  /**
+   * Fetches active recurring transactions with an occurrence due at or before the given instant.
+   *
+   * @param now The instant occurrences must be due by.
+   * @param limit The maximum number of recurring transactions to return, most overdue first.
+   */
+  async findDue(now: Date, limit: number): Promise<RecurringTransaction[]> {
+    const recurring = await this.client.recurringTransaction.findMany({
+      where: { isPaused: false, nextRunAt: { lte: now } },
+      orderBy: { nextRunAt: "asc" },
+      take: limit,
+    });
+    return recurring.map(RecurringTransactionMapper.toDomainFromPersistence);
+  }
+
+  async save(recurringTransaction: RecurringTransaction): Promise<RecurringTransaction> {
+    const data = RecurringTransactionMapper.toPersistence(recurringTransaction);
+    const created = await this.client.recurringTransaction.create({
+      data,
+      include: { category: true },
+    });
+    return RecurringTransactionMapper.toDomainFromPersistence(created);
+  }
+
+  async update(recurringTransaction: RecurringTransaction): Promise<RecurringTransaction> {
+    const data = RecurringTransactionMapper.toPersistence(recurringTransaction);
+    const updated = await this.client.recurringTransaction.update({
+      where: { id: recurringTransaction.id! },
+      data,
+      include: { category: true },
+    });
+    return RecurringTransactionMapper.toDomainFromPersistence(updated);
+  }
+
+  /**
+   * Persists the schedule position of a recurring transaction, but only if no one else has moved it since
+   * it was read. This lets several scheduler instances run side by side without double-processing.
+   *
+   * @param recurringTransaction The recurring transaction with its schedule already advanced.
+   * @param expectedNextRunAt The next run time that was read before advancing.
+   * @returns Whether the update was applied.
+   */
+  async advance(
+    recurringTransaction: RecurringTransaction,
+    expectedNextRunAt: Date,
+  ): Promise<boolean> {
+    const { count } = await this.client.recurringTransaction.updateMany({
+      where: { id: recurringTransaction.id!, nextRunAt: expectedNextRunAt },
+      data: {
+        nextOccurrenceIndex: recurringTransaction.nextOccurrenceIndex,
+        nextRunAt: recurringTransaction.nextRunAt,
+        lastOccurrenceAt: recurringTransaction.lastOccurrenceAt,
+      },
+    });
+    return count === 1;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.client.recurringTransaction.delete({
+      where: { id },
+    });
+  }
+}
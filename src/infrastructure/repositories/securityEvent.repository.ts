@@ -0,0 +1,41 @@
+import type { PrismaClient } from "@prisma/client";
+import type { ISecurityEventRepository, SecurityEvent } from "@src/core/interfaces";
+
+export class SecurityEventRepository implements ISecurityEventRepository {
+  private client: PrismaClient;
+
+  constructor(client: PrismaClient) {
+    this.client = client;
+  }
+
+  async record(event: Omit<SecurityEvent, "id" | "createdAt">): Promise<SecurityEvent> {
+    const created = await this.client.securityEvent.create({
+      data: { ...event, details: (event.details ?? undefined) as any },
+    });
+    return this.toEvent(created);
+  }
+
+  /**
+   * The user's most recent events, newest first.
+   */
+  async listByUser(userId: string, limit: number): Promise<SecurityEvent[]> {
+    const events = await this.client.securityEvent.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    });
+    return events.map((event: any) => this.toEvent(event));
+  }
+
+  private toEvent(raw: any): SecurityEvent {
+    return {
+      id: raw.id,
+      userId: raw.userId,
+      type: raw.type,
+      ip: raw.ip ?? null,
+      userAgent: raw.userAgent ?? null,
+      details: raw.details ?? null,
+      createdAt: raw.createdAt,
+    };
+  }
+}
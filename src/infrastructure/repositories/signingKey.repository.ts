@@ -0,0 +1,76 @@
+import type { PrismaClient } from "@prisma/client";
+import type { ISigningKeyRepository, SigningKey } from "@src/core/interfaces";
+import { decryptSecret, encryptSecret } from "@src/application/utils/encryptionUtils";
+import { logger } from "@src/api/middleware/index.js";
+
+/**
+ * The keyset. Private keys are encrypted with `encryptionSecret` before they reach the database,
+ * so reading the table alone is not enough to sign tokens.
+ */
+export class SigningKeyRepository implements ISigningKeyRepository {
+  private client: PrismaClient;
+  private encryptionSecret: string;
+
+  constructor(client: PrismaClient, encryptionSecret: string) {
+    this.client = client;
+    this.encryptionSecret = encryptionSecret;
+  }
+
+  /**
+   * Keys that still verify tokens: the ones in use and the ones retired after `retiredAfter`,
+   * newest first. Keys that do not decrypt, e.g. after the secret changed, are left out.
+   */
+  async findVerifiable(retiredAfter: Date): Promise<SigningKey[]> {
+    const keys = await this.client.signingKey.findMany({
+      where: { OR: [{ retiredAt: null }, { retiredAt: { gt: retiredAfter } }] },
+      orderBy: { createdAt: "desc" },
+    });
+    return keys.flatMap((key: any) => {
+      try {
+        return [this.toSigningKey(key)];
+      } catch (error) {
+        logger.warn(`Skipping signing key ${key.kid}, which does not decrypt`, { error });
+        return [];
+      }
+    });
+  }
+
+  async create({
+    privateKey,
+    ...key
+  }: Pick<SigningKey, "kid" | "algorithm" | "publicKey" | "privateKey">): Promise<SigningKey> {
+    const created = await this.client.signingKey.create({
+      data: {
+        ...key,
+        encryptedPrivateKey: encryptSecret(privateKey, this.encryptionSecret, key.kid),
+      },
+    });
+    return this.toSigningKey(created);
+  }
+
+  async retireAllExcept(kid: string, retiredAt: Date): Promise<number> {
+    const { count } = await this.client.signingKey.updateMany({
+      where: { kid: { not: kid }, retiredAt: null },
+      data: { retiredAt },
+    });
+    return count;
+  }
+
+  async deleteRetiredBefore(retiredBefore: Date): Promise<number> {
+    const { count } = await this.client.signingKey.deleteMany({
+      where: { retiredAt: { lte: retiredBefore } },
+    });
+    return count;
+  }
+
+  private toSigningKey(raw: any): SigningKey {
+    return {
+      kid: raw.kid,
+      algorithm: raw.algorithm,
+      publicKey: raw.publicKey,
+      privateKey: decryptSecret(raw.encryptedPrivateKey, this.encryptionSecret, raw.kid),
+      createdAt: raw.createdAt,
+      retiredAt: raw.retiredAt ?? null,
+    };
+  }
+}
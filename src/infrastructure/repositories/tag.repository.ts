@@ -0,0 +1,105 @@
+import type { PrismaClient } from "@prisma/client";
+import { TagMapper } from "@src/application/mappers/tag.mapper";
+import { Tag } from "@src/core/entities";
+import type { ITagRepository } from "@src/core/interfaces";
+
+export class TagRepository implements ITagRepository {
+  private client: PrismaClient;
+
+  constructor(client: PrismaClient) {
+    this.client = client;
+  }
+
+  /**
+   * Fetches a tag by its ID, scoped to the owning user.
+   *
+   * @param id The unique identifier of the tag.
+   * @param userId The unique identifier of the user the tag must belong to.
+   * @returns The tag if found, otherwise null.
+   */
+  async getById(id: string, userId: string): Promise<Tag | null> {
+    const tag = await this.client.tag.findFirst({
+      where: { id, userId },
+    });
+    return tag ? TagMapper.toDomainFromPersistence(tag) : null;
+  }
+
+  /**
+   * Fetches a tag by name, ignoring case and extra whitespace.
+   *
+   * @param name The tag name as entered by the user.
+   * @param userId The unique identifier of the user the tag must belong to.
+   * @returns The tag if found, otherwise null.
+   */
+  async getByName(name: string, userId: string): Promise<Tag | null> {
+    const tag = await this.client.tag.findUnique({
+      where: {
+        userId_normalizedName: { userId, normalizedName: Tag.normalizeName(name) },
+      },
+    });
+    return tag ? TagMapper.toDomainFromPersistence(tag) : null;
+  }
+
+  /**
+   * Fetches all tags of a user ordered by name.
+   */
+  async getByUserId(userId: string): Promise<Tag[]> {
+    const tags = await this.client.tag.findMany({
+      where: { userId },
+      orderBy: { name: "asc" },
+    });
+    return tags.map(TagMapper.toDomainFromPersistence);
+  }
+
+  /**
+   * Loads the user's tags with the given names, creating the missing ones first. Creation skips
+   * names that already exist, so concurrent requests adding the same new tag do not conflict.
+   *
+   * @param names The tag names as entered by the user.
+   * @param userId The unique identifier of the user the tags belong to.
+   * @returns One tag per distinct normalized name, ordered by name.
+   */
+  async getOrCreateByNames(names: string[], userId: string): Promise<Tag[]> {
+    if (names.length === 0) {
+      return [];
+    }
+
+    const tags = names.map((name) => Tag.create({ userId, name }));
+    await this.client.tag.createMany({
+      data: tags.map(TagMapper.toPersistence),
+      skipDuplicates: true,
+    });
+
+    const stored = await this.client.tag.findMany({
+      where: { userId, normalizedName: { in: tags.map((tag) => tag.normalizedName) } },
+      orderBy: { name: "asc" },
+    });
+    return stored.map(TagMapper.toDomainFromPersistence);
+  }
+
+  async save(tag: Tag): Promise<Tag> {
+    const data = TagMapper.toPersistence(tag);
+    const created = await this.client.tag.create({
+      data,
+    });
+    return TagMapper.toDomainFromPersistence(created);
+  }
+
+  async update(tag: Tag): Promise<Tag> {
+    const data = TagMapper.toPersistence(tag);
+    const updated = await this.client.tag.update({
+      where: { id: tag.id! },
+      data,
+    });
+    return TagMapper.toDomainFromPersistence(updated);
+  }
+
+  /**
+   * Deletes a tag. Transactions carrying it simply lose the tag.
+   */
+  async delete(id: string): Promise<void> {
+    await this.client.tag.delete({
+      where: { id },
+    });
+  }
+}
@@ -1,5 +1,6 @@
+import { randomUUID } from "crypto";
 import type { PrismaClient } from "@prisma/client";
-import type { ITokenRepository } from "src/core/interfaces";
+import type { ITokenRepository, RefreshSession } from "src/core/interfaces";
 
 export class TokenRepository implements ITokenRepository {
   private client: PrismaClient;
@@ -11,21 +12,17 @@ export class TokenRepository implements ITokenRepository {
   async saveRefreshToken(
     userId: string,
     refreshTokenId: string,
+    sessionId: string,
     createdAt: Date,
     expiresAt: Date,
     ip?: string,
     userAgent?: string,
   ): Promise<void> {
-    // Delete any existing token for this user (unique constraint allows only one per user)
-    await this.client.refreshToken.deleteMany({
-      where: { userId },
-    });
-
-    // Create the new refresh token
     await this.client.refreshToken.create({
       data: {
         id: refreshTokenId,
         userId,
+        sessionId,
         createdAt,
         expiresAt,
         ip: ip ?? null,
@@ -44,9 +41,35 @@ export class TokenRepository implements ITokenRepository {
     });
   }
 
+  /**
+   * Revokes a refresh token that is being exchanged for a new one, recording its replacement.
+   * Only a token that is still valid is rotated, so of two requests presenting the same token
+   * only one succeeds.
+   *
+   * @returns false when the token was already revoked.
+   */
+  async rotateRefreshToken(refreshTokenId: string, replacedById: string): Promise<boolean> {
+    const { count } = await this.client.refreshToken.updateMany({
+      where: { id: refreshTokenId, revokedAt: null },
+      data: { revokedAt: new Date(), replacedById },
+    });
+    return count > 0;
+  }
+
+  async revokeAllRefreshTokens(userId: string): Promise<void> {
+    await this.client.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: {
+        revokedAt: new Date(),
+      },
+    });
+  }
+
   async findTokenRecordById(refreshTokenId: string): Promise<{
     userId: string;
     rid: string;
+    sessionId: string;
+    replacedById?: string;
     createdAt: Date;
     expiresAt: Date;
     revokedAt: Date | null;
@@ -64,6 +87,8 @@ export class TokenRepository implements ITokenRepository {
     return {
       userId: tokenRecord.userId,
       rid: tokenRecord.id,
+      sessionId: tokenRecord.sessionId,
+      replacedById: tokenRecord.replacedById ?? undefined,
       createdAt: tokenRecord.createdAt,
       expiresAt: tokenRecord.expiresAt,
       revokedAt: tokenRecord.revokedAt,
@@ -71,4 +96,142 @@ export class TokenRepository implements ITokenRepository {
       userAgent: tokenRecord.userAgent ?? undefined,
     };
   }
+
+  /**
+   * Lists the user's signed-in sessions, most recently used first. A session is active while its
+   * latest refresh token is neither revoked nor expired.
+   */
+  async findActiveSessions(userId: string, now: Date): Promise<RefreshSession[]> {
+    const tokens = await this.client.refreshToken.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: now } },
+      orderBy: { createdAt: "desc" },
+    });
+    if (tokens.length === 0) {
+      return [];
+    }
+
+    // The session started with its oldest token, which rotation has since revoked
+    const starts = await this.client.refreshToken.groupBy({
+      by: ["sessionId"],
+      where: { sessionId: { in: tokens.map((token: any) => token.sessionId) } },
+      _min: { createdAt: true },
+    });
+    const startedAt = new Map<string, Date>(
+      starts.map((start: any) => [start.sessionId, start._min.createdAt]),
+    );
+
+    return tokens.map((token: any) => ({
+      id: token.sessionId,
+      ip: token.ip ?? null,
+      userAgent: token.userAgent ?? null,
+      createdAt: startedAt.get(token.sessionId) ?? token.createdAt,
+      lastUsedAt: token.createdAt,
+      expiresAt: token.expiresAt,
+    }));
+  }
+
+  /**
+   * Signs a session out by revoking its current refresh token.
+   *
+   * @returns false when the user has no active session with that id.
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+    const now = new Date();
+    const { count } = await this.client.refreshToken.updateMany({
+      where: { userId, sessionId, revokedAt: null, expiresAt: { gt: now } },
+      data: { revokedAt: now },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Signs out every session of the user except the given one.
+   *
+   * @returns The number of sessions signed out.
+   */
+  async revokeOtherSessions(userId: string, sessionId: string): Promise<number> {
+    const now = new Date();
+    const { count } = await this.client.refreshToken.updateMany({
+      where: { userId, sessionId: { not: sessionId }, revokedAt: null, expiresAt: { gt: now } },
+      data: { revokedAt: now },
+    });
+    return count;
+  }
+
+  async savePasswordResetToken(userId: string, tokenHash: string, expiresAt: Date): Promise<void> {
+    // Only one reset token is kept per user, so requesting a new link invalidates the previous one
+    await this.client.passwordResetToken.upsert({
+      where: { userId },
+      create: { userId, tokenHash, expiresAt },
+      update: { tokenHash, expiresAt, usedAt: null, createdAt: new Date() },
+    });
+  }
+
+  /**
+   * Marks a password reset token as used, provided it exists, is unused and has not expired.
+   * The check and the update happen in a single statement so a token cannot be redeemed twice concurrently.
+   *
+   * @returns The id of the user the token belongs to, or null if the token cannot be used.
+   */
+  async consumePasswordResetToken(tokenHash: string, now: Date): Promise<string | null> {
+    const { count } = await this.client.passwordResetToken.updateMany({
+      where: { tokenHash, usedAt: null, expiresAt: { gt: now } },
+      data: { usedAt: now },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    const tokenRecord = await this.client.passwordResetToken.findUnique({
+      where: { tokenHash },
+    });
+
+    return tokenRecord?.userId ?? null;
+  }
+
+  async saveActivationToken(userId: string, tokenHash: string, expiresAt: Date): Promise<void> {
+    // One activation token per user; issuing a new one replaces any previous link
+    await this.client.activationToken.upsert({
+      where: { userId },
+      create: { id: randomUUID(), userId, token: tokenHash, expiresAt },
+      update: { token: tokenHash, expiresAt, isExpired: false, createdAt: new Date() },
+    });
+  }
+
+  async findActivationTokenByUserId(
+    userId: string,
+  ): Promise<{ createdAt: Date; expiresAt: Date } | null> {
+    const tokenRecord = await this.client.activationToken.findUnique({
+      where: { userId },
+    });
+
+    if (!tokenRecord) {
+      return null;
+    }
+
+    return { createdAt: tokenRecord.createdAt, expiresAt: tokenRecord.expiresAt };
+  }
+
+  /**
+   * Marks an activation token as expired, provided it exists, has not been used and has not expired.
+   *
+   * @returns The id of the user the token belongs to, or null if the token cannot be used.
+   */
+  async consumeActivationToken(tokenHash: string, now: Date): Promise<string | null> {
+    const { count } = await this.client.activationToken.updateMany({
+      where: { token: tokenHash, isExpired: false, expiresAt: { gt: now } },
+      data: { isExpired: true },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    const tokenRecord = await this.client.activationToken.findUnique({
+      where: { token: tokenHash },
+    });
+
+    return tokenRecord?.userId ?? null;
+  }
 }
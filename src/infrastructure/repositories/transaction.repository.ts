@@ -1,7 +1,28 @@
 import type { PrismaClient } from "@prisma/client";
+import { Prisma } from "../../../generated/prisma/client";
 import { TransactionMapper } from "@src/application/mappers/transaction.mapper";
 import type { Transaction } from "@src/core/entities";
-import type { ITransactionRepository } from "@src/core/interfaces";
+import type {
+  CurrencyTotal,
+  ITransactionRepository,
+  TransactionPage,
+  TagFilter,
+  TransactionQuery,
+  TransactionTotalsQuery,
+  TransactionBucket,
+  TransactionBucketTotal,
+  TransactionCategoryTotal,
+  TransactionHistoryRecorder,
+  TransactionRange,
+  TransactionTypeTotal,
+} from "@src/core/interfaces";
+
+// Split lines (in the order they were entered) and tags are always loaded with the transaction
+const TRANSACTION_INCLUDE = {
+  category: true,
+  splits: { include: { category: true }, orderBy: { position: "asc" } },
+  tags: { include: { tag: true }, orderBy: { tag: { name: "asc" } } },
+} as const;
 
 export class TransactionRepository implements ITransactionRepository {
   private client: PrismaClient;
@@ -22,9 +43,11 @@ export class TransactionRepository implements ITransactionRepository {
       where: {
         id,
         userId,
+        deletedAt: null,
       },
+      include: TRANSACTION_INCLUDE,
     });
-    return transaction ? TransactionMapper.toDomain(transaction) : null;
+    return transaction ? TransactionMapper.toDomainFromPersistence(transaction) : null;
   }
 
   /**
@@ -37,40 +60,343 @@ export class TransactionRepository implements ITransactionRepository {
     const transactions = await this.client.transaction.findMany({
       where: {
         userId,
+        deletedAt: null,
+      },
+      include: TRANSACTION_INCLUDE,
+    });
+    return Array.from(transactions).length > 0
+      ? transactions.map(TransactionMapper.toDomainFromPersistence)
+      : [];
+  }
+
+  /**
+   * Fetches a single page of a user's transactions matching the given query.
+   * Pagination is keyset based: the sort field plus the id as a tie-breaker, so pages stay stable while rows are inserted.
+   * Transactions without a date always sort after dated ones, regardless of direction.
+   *
+   * @param query The filters, sort order, page size and keyset position to apply.
+   * @returns The matching transactions and whether more exist beyond this page.
+   */
+  async findByQuery(query: TransactionQuery): Promise<TransactionPage> {
+    const { userId, filters, sort, limit, after } = query;
+
+    const conditions: any[] = [{ userId, deletedAt: null }];
+
+    if (filters.from || filters.to) {
+      conditions.push({
+        date: {
+          ...(filters.from && { gte: filters.from }),
+          ...(filters.to && { lte: filters.to }),
+        },
+      });
+    }
+    if (filters.type) {
+      conditions.push({ type: filters.type });
+    }
+    if (filters.categoryId) {
+      conditions.push({
+        OR: [
+          { categoryId: filters.categoryId },
+          { splits: { some: { categoryId: filters.categoryId } } },
+        ],
+      });
+    }
+    if (filters.currency) {
+      conditions.push({ currency: filters.currency });
+    }
+    if (filters.minAmount !== undefined || filters.maxAmount !== undefined) {
+      conditions.push({
+        amount: {
+          ...(filters.minAmount !== undefined && { gte: filters.minAmount }),
+          ...(filters.maxAmount !== undefined && { lte: filters.maxAmount }),
+        },
+      });
+    }
+    if (filters.search) {
+      conditions.push({ description: { contains: filters.search, mode: "insensitive" } });
+    }
+    if (filters.tags) {
+      conditions.push(this.buildTagCondition(filters.tags));
+    }
+    if (after) {
+      conditions.push(this.buildKeysetCondition(sort.field, sort.direction, after));
+    }
+
+    const rows = await this.client.transaction.findMany({
+      where: { AND: conditions },
+      orderBy: [
+        sort.field === "date"
+          ? { date: { sort: sort.direction, nulls: "last" } }
+          : { [sort.field]: sort.direction },
+        { id: sort.direction },
+      ],
+      take: limit + 1, // fetch one extra row to find out whether another page exists
+      include: TRANSACTION_INCLUDE,
+    });
+
+    return {
+      transactions: rows.slice(0, limit).map(TransactionMapper.toDomainFromPersistence),
+      hasMore: rows.length > limit,
+    };
+  }
+
+  /**
+   * Fetches the transaction generated for one occurrence of a recurring transaction, including one
+   * in the trash, so an occurrence the user deleted is not generated again.
+   *
+   * @param recurringTransactionId The recurring transaction the occurrence belongs to.
+   * @param occurrenceDate The scheduled date of the occurrence.
+   * @returns The generated transaction, or null if the occurrence has not been materialised yet.
+   */
+  async getByOccurrence(
+    recurringTransactionId: string,
+    occurrenceDate: Date,
+  ): Promise<Transaction | null> {
+    const transaction = await this.client.transaction.findUnique({
+      where: {
+        recurringTransactionId_occurrenceDate: { recurringTransactionId, occurrenceDate },
       },
+      include: TRANSACTION_INCLUDE,
     });
-    return Array.from(transactions).length > 0 ? transactions.map(TransactionMapper.toDomain) : [];
+    return transaction ? TransactionMapper.toDomainFromPersistence(transaction) : null;
+  }
+
+  /**
+   * Totals the amounts of matching transactions in the database, one total per currency.
+   * Split transactions contribute only the lines filed under the given categories.
+   *
+   * @param query The user, type, categories and date range to total.
+   * @returns The totals, omitting currencies without matching transactions.
+   */
+  async sumByCurrency(query: TransactionTotalsQuery): Promise<CurrencyTotal[]> {
+    const rows: any[] = await this.client.$queryRaw`
+      SELECT "currency", SUM("amount")::double precision AS "amount"
+      FROM (${this.linesOf(query)}) AS "lines"
+      WHERE "type" = ${query.type}
+        AND "categoryId" = ANY(${query.categoryIds}::text[])
+      GROUP BY 1`;
+    return rows.map((row) => ({
+      currency: row.currency,
+      amount: Number(row.amount),
+    }));
   }
 
   /**
-   * Saves a new transaction to the database.
+   * Totals a user's transactions in a date range in the database, per type and currency.
+   *
+   * @param range The user and date range to total.
+   * @returns The totals, omitting combinations without transactions.
+   */
+  async sumByType(range: TransactionRange): Promise<TransactionTypeTotal[]> {
+    const groups = await this.client.transaction.groupBy({
+      by: ["type", "currency"],
+      where: this.rangeFilter(range),
+      _sum: { amount: true },
+      _count: { _all: true },
+    });
+    return groups.map((group: any) => ({
+      type: group.type,
+      currency: group.currency,
+      amount: Number(group._sum.amount ?? 0),
+      count: group._count._all,
+    }));
+  }
+
+  /**
+   * Totals a user's transactions in a date range in the database, per category, type and currency.
+   * Each split line counts against its own category; the count is of transactions, so a receipt
+   * split into two lines of the same category counts once.
+   *
+   * @param range The user and date range to total.
+   * @param type Only total transactions of this type, when given.
+   * @returns The totals, omitting combinations without transactions.
+   */
+  async sumByCategory(
+    range: TransactionRange,
+    type?: string,
+  ): Promise<TransactionCategoryTotal[]> {
+    const rows: any[] = await this.client.$queryRaw`
+      SELECT
+        "categoryId",
+        "type",
+        "currency",
+        SUM("amount")::double precision AS "amount",
+        COUNT(DISTINCT "transactionId")::integer AS "count"
+      FROM (${this.linesOf(range)}) AS "lines"
+      WHERE "type" IS NOT NULL
+        AND (${type ?? null}::text IS NULL OR "type" = ${type ?? null})
+      GROUP BY 1, 2, 3`;
+    return rows.map((row) => ({
+      categoryId: row.categoryId,
+      type: row.type,
+      currency: row.currency,
+      amount: Number(row.amount),
+      count: Number(row.count),
+    }));
+  }
+
+  /**
+   * Totals a user's transactions in a date range in the database, per calendar bucket, type and currency.
+   * Dates are stored in UTC and converted to the given time zone before truncating, so a transaction at
+   * 23:30 UTC lands on the next day for a user east of UTC.
+   *
+   * @param range The user and date range to total.
+   * @param bucket The calendar unit to group by. Weeks start on Monday.
+   * @param timeZone The IANA time zone whose calendar defines the buckets.
+   * @returns The totals ordered by bucket, omitting combinations without transactions.
+   */
+  async sumByBucket(
+    range: TransactionRange,
+    bucket: TransactionBucket,
+    timeZone: string,
+  ): Promise<TransactionBucketTotal[]> {
+    const rows: any[] = await this.client.$queryRaw`
+      SELECT
+        to_char(
+          date_trunc(${bucket}, ("date" AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone}),
+          'YYYY-MM-DD'
+        ) AS "bucket",
+        "type",
+        "currency",
+        SUM("amount")::double precision AS "amount",
+        COUNT(*)::integer AS "count"
+      FROM "Transaction" t
+      WHERE "userId" = ${range.userId}
+        AND "deletedAt" IS NULL
+        AND "type" IS NOT NULL
+        AND "date" >= ${range.from}
+        AND "date" < ${range.to}
+        ${this.tagSql(range.tags)}
+      GROUP BY 1, 2, 3
+      ORDER BY 1`;
+    return rows.map((row) => ({
+      bucket: row.bucket,
+      type: row.type,
+      currency: row.currency,
+      amount: Number(row.amount),
+      count: Number(row.count),
+    }));
+  }
+
+  /**
+   * Saves a new transaction to the database, together with its history entry.
    *
    * @param transaction The transaction entity to be saved. This should be a fully constructed Transaction object that adheres to the domain model.
+   * @param history Builds the history entry recording the creation.
    * @returns The saved transaction, including any database-generated fields such as the unique identifier and timestamps.
    */
-  async save(transaction: Transaction): Promise<Transaction> {
+  async save(transaction: Transaction, history: TransactionHistoryRecorder): Promise<Transaction> {
     const data = TransactionMapper.toPersistence(transaction);
-    const created = await this.client.transaction.create({
-      data,
+    return this.client.$transaction(async (tx: any) => {
+      const created = await tx.transaction.create({
+        data: {
+          ...data,
+          splits: { create: TransactionMapper.toSplitPersistence(transaction) },
+          tags: { create: TransactionMapper.toTagPersistence(transaction) },
+        },
+        include: TRANSACTION_INCLUDE,
+      });
+      return this.recordHistory(tx, created, history);
     });
-    return TransactionMapper.toDomain(created);
   }
 
   /**
    * Updates an existing transaction in the database.
+   * The split lines and tags are replaced wholesale in the same statement.
+   * The row is only matched while its version is still the one the transaction was read at, so a
+   * change saved by someone else in the meantime is never overwritten.
    *
    * @param transaction The transaction entity containing the updated data. The transaction must have a valid ID that corresponds to an existing record in the database.
-   * @returns The updated transaction after the changes have been persisted to the database. If the transaction does not exist, an error will be thrown by Prisma.
+   * @param history Builds the history entry recording the update.
+   * @returns The updated transaction, with its incremented version, or null if the transaction does not exist or its version has changed.
    */
-  async update(transaction: Transaction): Promise<Transaction> {
+  async update(
+    transaction: Transaction,
+    history: TransactionHistoryRecorder,
+  ): Promise<Transaction | null> {
     const data = TransactionMapper.toPersistence(transaction);
-    const updated = await this.client.transaction.update({
-      where: {
-        id: transaction.id!,
-      },
-      data,
+    try {
+      return await this.client.$transaction(async (tx: any) => {
+        const updated = await tx.transaction.update({
+          where: {
+            id: transaction.id!,
+            version: transaction.version,
+          },
+          data: {
+            ...data,
+            version: { increment: 1 },
+            splits: { deleteMany: {}, create: TransactionMapper.toSplitPersistence(transaction) },
+            tags: { deleteMany: {}, create: TransactionMapper.toTagPersistence(transaction) },
+          },
+          include: TRANSACTION_INCLUDE,
+        });
+        return this.recordHistory(tx, updated, history);
+      });
+    } catch (err) {
+      if ((err as { code?: string }).code === "P2025") {
+        return null; // no row with that id and version
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Fetches a transaction in the user's trash.
+   *
+   * @returns The trashed transaction, or null if it does not exist or has not been deleted.
+   */
+  async getTrashedById(id: string, userId: string): Promise<Transaction | null> {
+    const transaction = await this.client.transaction.findFirst({
+      where: { id, userId, deletedAt: { not: null } },
+      include: TRANSACTION_INCLUDE,
+    });
+    return transaction ? TransactionMapper.toDomainFromPersistence(transaction) : null;
+  }
+
+  /**
+   * Fetches the user's trash, most recently deleted first.
+   */
+  async getTrashByUserId(userId: string): Promise<Transaction[]> {
+    const transactions = await this.client.transaction.findMany({
+      where: { userId, deletedAt: { not: null } },
+      orderBy: [{ deletedAt: "desc" }, { id: "desc" }],
+      include: TRANSACTION_INCLUDE,
+    });
+    return transactions.map(TransactionMapper.toDomainFromPersistence);
+  }
+
+  /**
+   * Finds transactions of any user that were moved to the trash before the given time.
+   *
+   * @param deletedBefore Transactions trashed at or after this time are left alone.
+   * @param limit The maximum number of ids to return.
+   * @returns The ids, oldest deletion first.
+   */
+  async findTrashedBefore(deletedBefore: Date, limit: number): Promise<string[]> {
+    const transactions = await this.client.transaction.findMany({
+      where: { deletedAt: { lt: deletedBefore } },
+      orderBy: { deletedAt: "asc" },
+      take: limit,
+      select: { id: true },
     });
-    return TransactionMapper.toDomain(updated);
+    return transactions.map((transaction: any) => transaction.id);
+  }
+
+  async moveToTrash(
+    id: string,
+    deletedAt: Date,
+    version: number,
+    history: TransactionHistoryRecorder,
+  ): Promise<boolean> {
+    return this.setDeletedAt(id, deletedAt, version, history);
+  }
+
+  async restore(
+    id: string,
+    version: number,
+    history: TransactionHistoryRecorder,
+  ): Promise<boolean> {
+    return this.setDeletedAt(id, null, version, history);
   }
 
   async delete(id: string): Promise<void> {
@@ -80,4 +406,134 @@ export class TransactionRepository implements ITransactionRepository {
       },
     });
   }
+
+  /**
+   * Moves a transaction in or out of the trash and records it, provided its version still matches.
+   */
+  private async setDeletedAt(
+    id: string,
+    deletedAt: Date | null,
+    version: number,
+    history: TransactionHistoryRecorder,
+  ): Promise<boolean> {
+    return this.client.$transaction(async (tx: any) => {
+      const { count } = await tx.transaction.updateMany({
+        where: { id, version },
+        data: { deletedAt, version: { increment: 1 } },
+      });
+      if (count === 0) {
+        return false;
+      }
+
+      const changed = await tx.transaction.findUnique({
+        where: { id },
+        include: TRANSACTION_INCLUDE,
+      });
+      await this.recordHistory(tx, changed, history);
+      return true;
+    });
+  }
+
+  /**
+   * Writes the history entry of a change within the change's database transaction. Entries are
+   * numbered by the transaction's own optimistic-concurrency counter, which the change has just
+   * incremented, so each version is recorded at most once.
+   *
+   * @returns The saved transaction.
+   */
+  private async recordHistory(
+    tx: any,
+    saved: unknown,
+    history: TransactionHistoryRecorder,
+  ): Promise<Transaction> {
+    const transaction = TransactionMapper.toDomainFromPersistence(saved);
+    const entry = history(transaction);
+    if (entry) {
+      await tx.transactionHistory.create({ data: entry });
+    }
+    return transaction;
+  }
+
+  /**
+   * Builds the where clause selecting rows that come strictly after the given keyset position.
+   * Null dates are ordered last, so a null anchor only matches other undated rows with a later id.
+   */
+  private buildKeysetCondition(
+    field: TransactionQuery["sort"]["field"],
+    direction: TransactionQuery["sort"]["direction"],
+    after: NonNullable<TransactionQuery["after"]>,
+  ) {
+    const comparator = direction === "asc" ? "gt" : "lt";
+
+    if (after.value === null) {
+      return { [field]: null, id: { [comparator]: after.id } };
+    }
+
+    return {
+      OR: [
+        { [field]: { [comparator]: after.value } },
+        { [field]: after.value, id: { [comparator]: after.id } },
+        ...(field === "date" ? [{ date: null }] : []),
+      ],
+    };
+  }
+
+  /**
+   * Selects a user's transactions in a date range as category lines: one line per split, or the
+   * transaction itself when it is not split.
+   */
+  private linesOf(range: TransactionRange) {
+    return Prisma.sql`
+      SELECT
+        t."id" AS "transactionId",
+        COALESCE(s."categoryId", t."categoryId") AS "categoryId",
+        t."type",
+        t."currency",
+        COALESCE(s."amount", t."amount") AS "amount"
+      FROM "Transaction" t
+      LEFT JOIN "TransactionSplit" s ON s."transactionId" = t."id"
+      WHERE t."userId" = ${range.userId}
+        AND t."deletedAt" IS NULL
+        AND t."date" >= ${range.from}
+        AND t."date" < ${range.to}
+        ${this.tagSql(range.tags)}`;
+  }
+
+  /**
+   * Restricts a raw query over `"Transaction" t` to the transactions matching a tag filter.
+   * Tag names are unique per user, so carrying all of them means matching as many tags as names.
+   */
+  private tagSql(tags?: TagFilter) {
+    if (!tags) {
+      return Prisma.empty;
+    }
+    const matches = Prisma.sql`
+      SELECT COUNT(*)
+      FROM "TransactionTag" tt
+      JOIN "Tag" g ON g."id" = tt."tagId"
+      WHERE tt."transactionId" = t."id"
+        AND g."normalizedName" = ANY(${tags.names}::text[])`;
+    return tags.match === "all"
+      ? Prisma.sql`AND (${matches}) = ${tags.names.length}`
+      : Prisma.sql`AND (${matches}) > 0`;
+  }
+
+  private buildTagCondition(tags: TagFilter) {
+    if (tags.match === "all") {
+      return {
+        AND: tags.names.map((name) => ({ tags: { some: { tag: { normalizedName: name } } } })),
+      };
+    }
+    return { tags: { some: { tag: { normalizedName: { in: tags.names } } } } };
+  }
+
+  private rangeFilter(range: TransactionRange) {
+    return {
+      userId: range.userId,
+      deletedAt: null,
+      type: { not: null },
+      date: { gte: range.from, lt: range.to },
+      ...(range.tags && this.buildTagCondition(range.tags)),
+    };
+  }
 }
@@ -0,0 +1,51 @@
+import type { PrismaClient } from "@prisma/client";
+import type {
+  ITransactionHistoryRepository,
+  TransactionChanges,
+  TransactionHistoryEntry,
+  TransactionSnapshot,
+} from "@src/core/interfaces";
+
+export class TransactionHistoryRepository implements ITransactionHistoryRepository {
+  private client: PrismaClient;
+
+  constructor(client: PrismaClient) {
+    this.client = client;
+  }
+
+  /**
+   * Fetches the history of a transaction, oldest version first.
+   */
+  async getByTransactionId(transactionId: string): Promise<TransactionHistoryEntry[]> {
+    const entries = await this.client.transactionHistory.findMany({
+      where: { transactionId },
+      orderBy: { version: "asc" },
+    });
+    return entries.map((entry: any) => this.toEntry(entry));
+  }
+
+  async getByVersion(
+    transactionId: string,
+    version: number,
+  ): Promise<TransactionHistoryEntry | null> {
+    const entry = await this.client.transactionHistory.findUnique({
+      where: { transactionId_version: { transactionId, version } },
+    });
+    return entry ? this.toEntry(entry) : null;
+  }
+
+  private toEntry(raw: any): TransactionHistoryEntry {
+    return {
+      id: raw.id,
+      transactionId: raw.transactionId,
+      version: raw.version,
+      action: raw.action,
+      actorId: raw.actorId ?? null,
+      changes: raw.changes as TransactionChanges,
+      snapshot: raw.snapshot as TransactionSnapshot,
+      ipAddress: raw.ipAddress ?? null,
+      userAgent: raw.userAgent ?? null,
+      createdAt: raw.createdAt,
+    };
+  }
+}
@@ -0,0 +1,199 @@
+import type { PrismaClient } from "@prisma/client";
+import { TransactionMapper } from "@src/application/mappers/transaction.mapper";
+import type { Transaction } from "@src/core/entities";
+import type {
+  ITransactionImportRepository,
+  ImportBatch,
+  ImportMapping,
+  TransactionHistoryRecorder,
+} from "@src/core/interfaces";
+
+export class TransactionImportRepository implements ITransactionImportRepository {
+  private client: PrismaClient;
+
+  constructor(client: PrismaClient) {
+    this.client = client;
+  }
+
+  /**
+   * Records an import batch together with its transactions and their history entries.
+   * Everything is written in a single database transaction, so a failed import leaves no rows behind.
+   * Transactions whose external id the user already has are skipped, which covers a concurrent import of the same file.
+   *
+   * @param batch Who imported the file, its format and its name.
+   * @param transactions The transactions read from the file. They are attached to the new batch.
+   * @param history Builds the history entry recording the creation of each stored transaction.
+   * @returns The created batch.
+   */
+  async createBatch(
+    batch: { userId: string; source: string; fileName: string | null },
+    transactions: Transaction[],
+    history: TransactionHistoryRecorder,
+  ): Promise<ImportBatch> {
+    const created = await this.client.$transaction(async (tx: any) => {
+      const record = await tx.importBatch.create({ data: batch });
+      const stored = await tx.transaction.createManyAndReturn({
+        data: transactions.map((transaction) => ({
+          ...TransactionMapper.toPersistence(transaction),
+          importBatchId: record.id,
+        })),
+        skipDuplicates: true,
+      });
+      const entries = stored
+        .map((row: unknown) => history(TransactionMapper.toDomainFromPersistence(row)))
+        .filter((entry: unknown) => entry !== null);
+      await tx.transactionHistory.createMany({ data: entries });
+      return { ...record, _count: { transactions: stored.length } };
+    });
+    return this.toImportBatch(created);
+  }
+
+  /**
+   * Finds which of the given external ids (the bank's transaction ids) the user already has transactions for.
+   *
+   * @param userId The unique identifier of the user importing the statement.
+   * @param externalIds The external ids read from the statement.
+   * @returns The subset of externalIds that is already stored.
+   */
+  async findExistingExternalIds(userId: string, externalIds: string[]): Promise<string[]> {
+    if (externalIds.length === 0) {
+      return [];
+    }
+
+    const existing = await this.client.transaction.findMany({
+      where: { userId, externalId: { in: externalIds } },
+      select: { externalId: true },
+    });
+    return existing.map((transaction: any) => transaction.externalId);
+  }
+
+  /**
+   * Fetches an import batch owned by the given user.
+   *
+   * @returns The batch if found, otherwise null.
+   */
+  async getBatchById(id: string, userId: string): Promise<ImportBatch | null> {
+    const batch = await this.client.importBatch.findFirst({
+      where: { id, userId },
+      include: { _count: { select: { transactions: true } } },
+    });
+    return batch ? this.toImportBatch(batch) : null;
+  }
+
+  /**
+   * Fetches a user's import batches, newest first.
+   */
+  async getBatchesByUserId(userId: string): Promise<ImportBatch[]> {
+    const batches = await this.client.importBatch.findMany({
+      where: { userId },
+      include: { _count: { select: { transactions: true } } },
+      orderBy: { createdAt: "desc" },
+    });
+    return batches.map((batch: any) => this.toImportBatch(batch));
+  }
+
+  /**
+   * Fetches the ids of every transaction still attached to an import batch, trashed ones included.
+   */
+  async getBatchTransactionIds(id: string): Promise<string[]> {
+    const transactions = await this.client.transaction.findMany({
+      where: { importBatchId: id },
+      select: { id: true },
+    });
+    return transactions.map((transaction: any) => transaction.id);
+  }
+
+  /**
+   * Deletes an import batch and every transaction still attached to it, in a single database transaction.
+   *
+   * @param id The unique identifier of the batch to delete.
+   * @returns The number of transactions deleted.
+   */
+  async deleteBatch(id: string): Promise<number> {
+    const [deleted] = await this.client.$transaction([
+      this.client.transaction.deleteMany({ where: { importBatchId: id } }),
+      this.client.importBatch.delete({ where: { id } }),
+    ]);
+    return deleted.count;
+  }
+
+  /**
+   * Fetches a saved column mapping owned by the given user.
+   *
+   * @returns The mapping if found, otherwise null.
+   */
+  async getMappingById(id: string, userId: string): Promise<ImportMapping | null> {
+    const mapping = await this.client.importMapping.findFirst({ where: { id, userId } });
+    return mapping ? this.toImportMapping(mapping) : null;
+  }
+
+  /**
+   * Fetches a saved column mapping by its name, which is unique per user.
+   *
+   * @returns The mapping if found, otherwise null.
+   */
+  async getMappingByName(name: string, userId: string): Promise<ImportMapping | null> {
+    const mapping = await this.client.importMapping.findUnique({
+      where: { userId_name: { userId, name } },
+    });
+    return mapping ? this.toImportMapping(mapping) : null;
+  }
+
+  /**
+   * Fetches a user's saved column mappings, ordered by name.
+   */
+  async getMappingsByUserId(userId: string): Promise<ImportMapping[]> {
+    const mappings = await this.client.importMapping.findMany({
+      where: { userId },
+      orderBy: { name: "asc" },
+    });
+    return mappings.map((mapping: any) => this.toImportMapping(mapping));
+  }
+
+  /**
+   * Saves a column mapping under the given name, replacing any mapping the user already saved with that name.
+   *
+   * @returns The saved mapping.
+   */
+  async saveMapping(mapping: {
+    userId: string;
+    name: string;
+    mapping: Record<string, unknown>;
+  }): Promise<ImportMapping> {
+    const saved = await this.client.importMapping.upsert({
+      where: { userId_name: { userId: mapping.userId, name: mapping.name } },
+      update: { mapping: mapping.mapping },
+      create: mapping,
+    });
+    return this.toImportMapping(saved);
+  }
+
+  /**
+   * Deletes a saved column mapping. Batches imported with it are not affected.
+   */
+  async deleteMapping(id: string): Promise<void> {
+    await this.client.importMapping.delete({ where: { id } });
+  }
+
+  private toImportBatch(raw: any): ImportBatch {
+    return {
+      id: raw.id,
+      userId: raw.userId,
+      source: raw.source,
+      fileName: raw.fileName ?? null,
+      transactionCount: raw._count?.transactions ?? 0,
+      createdAt: raw.createdAt,
+    };
+  }
+
+  private toImportMapping(raw: any): ImportMapping {
+    return {
+      id: raw.id,
+      userId: raw.userId,
+      name: raw.name,
+      mapping: raw.mapping as Record<string, unknown>,
+      createdAt: raw.createdAt,
+      updatedAt: raw.updatedAt,
+    };
+  }
+}
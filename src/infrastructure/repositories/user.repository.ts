@@ -32,7 +32,8 @@ export class UserRepository implements IUserRepository {
   }
 
   async save(user: User): Promise<User> {
-    const { id, firstName, lastName, email } = user;
+    const { id, firstName, lastName, email, profilePicture, profileName } = user;
+    const { baseCurrency, timezone, locale } = user;
     const password = user.account?.getHashedPassword();
 
     if (id) {
@@ -41,12 +42,20 @@ export class UserRepository implements IUserRepository {
       });
 
       if (existingUser) {
+        // A changed email address has to be verified again
+        const emailChanged = email !== existingUser.email;
         const updatedUser = await this.client.user.update({
           where: { id },
           data: {
             firstName,
             email,
+            ...(emailChanged && { account: { update: { isVerified: false } } }),
             ...(lastName !== undefined && { lastName }),
+            ...(profilePicture !== undefined && { profilePicture }),
+            ...(profileName !== undefined && { profileName }),
+            ...(baseCurrency && { baseCurrency }),
+            ...(timezone && { timezone }),
+            ...(locale && { locale }),
           },
           include: { account: true },
         });
@@ -60,6 +69,9 @@ export class UserRepository implements IUserRepository {
         firstName,
         email,
         ...(lastName !== undefined && { lastName }),
+        ...(baseCurrency && { baseCurrency }),
+        ...(timezone && { timezone }),
+        ...(locale && { locale }),
         account: password ? { create: { password } } : undefined,
       },
       include: { account: true },
@@ -68,6 +80,25 @@ export class UserRepository implements IUserRepository {
     return AuthenticationMapper.toDomainFromPersistence(newUser);
   }
 
+  async updatePassword(userId: string, hashedPassword: string): Promise<void> {
+    await this.client.account.update({
+      where: { userId },
+      data: { password: hashedPassword },
+    });
+  }
+
+  async markVerified(userId: string): Promise<void> {
+    await this.client.account.update({
+      where: { userId },
+      data: { isVerified: true },
+    });
+  }
+
+  /**
+   * Deletes a user. Account, transactions and tokens are removed with it through cascading foreign keys.
+   *
+   * @param id The unique identifier of the user to delete.
+   */
   async delete(id: string): Promise<void> {
     await this.client.user.delete({
       where: { id },
@@ -2,8 +2,9 @@ import nodemailer from "nodemailer";
 import type { PrismaClient } from "@prisma/client";
 import { ENVIRONMENT_CONFIG } from "@config";
 import { logger } from "@src/api/middleware/index.js";
+import type { IEmailService } from "@src/core/interfaces";
 
-export function emailService(prisma: PrismaClient) {
+export function emailService(prisma: PrismaClient): IEmailService {
   const transporter = nodemailer.createTransport({
     // Configure your email service credentials here
     service: "gmail",
@@ -15,8 +16,8 @@ export function emailService(prisma: PrismaClient) {
 
   async function sendVerificationEmail(email: string, token: string): Promise<void> {
     // Implementation to send email
-    logger.info(`Sending verification email to ${email} with token ${token}`);
-    const verificationLink = `https://localhost:3001/auth/verify?token=${token}`;
+    logger.info(`Sending verification email to ${email}`);
+    const verificationLink = `${ENVIRONMENT_CONFIG.APP_BASE_URL}/api/auth/verify?token=${token}`;
     const mailOptions = {
       from: ENVIRONMENT_CONFIG.EMAIL_USERNAME,
       to: email,
@@ -33,8 +34,53 @@ export function emailService(prisma: PrismaClient) {
     }
   }
 
-  async function sendPasswordResetEmail(email: string): Promise<void> {
-    // Implementation to send password reset email
+  async function sendPasswordResetEmail(email: string, token: string): Promise<void> {
+    logger.info(`Sending password reset email to ${email}`);
+    const resetLink = `${ENVIRONMENT_CONFIG.CLIENT_ORIGIN}/auth/reset-password?token=${token}`;
+    const mailOptions = {
+      from: ENVIRONMENT_CONFIG.EMAIL_USERNAME,
+      to: email,
+      subject: "Reset your ExpenseIt password",
+      text:
+        `Click the following link to reset your password: ${resetLink}\n\n` +
+        `The link expires in ${ENVIRONMENT_CONFIG.PASSWORD_RESET_TOKEN_EXPIRATION} and can only be used once. ` +
+        `If you did not request a password reset you can ignore this email.`,
+    };
+
+    try {
+      await transporter.sendMail(mailOptions);
+      logger.info(`Password reset email sent to ${email}`);
+    } catch (error) {
+      logger.error(`Failed to send password reset email to ${email}`, { error });
+      throw error;
+    }
+  }
+
+  async function sendAccountLockedEmail(
+    email: string,
+    token: string,
+    lockedUntil: Date,
+  ): Promise<void> {
+    logger.info(`Sending account locked email to ${email}`);
+    const unlockLink = `${ENVIRONMENT_CONFIG.APP_BASE_URL}/api/auth/unlock?token=${token}`;
+    const mailOptions = {
+      from: ENVIRONMENT_CONFIG.EMAIL_USERNAME,
+      to: email,
+      subject: "Sign-in to your ExpenseIt account has been paused",
+      text:
+        `There were too many failed attempts to sign in to your account, so signing in is paused ` +
+        `until ${lockedUntil.toISOString()}.\n\n` +
+        `If these attempts were yours, click the following link to sign in again right away: ${unlockLink}\n\n` +
+        `If they were not, someone may be guessing your password. Consider changing it once you are signed in.`,
+    };
+
+    try {
+      await transporter.sendMail(mailOptions);
+      logger.info(`Account locked email sent to ${email}`);
+    } catch (error) {
+      logger.error(`Failed to send account locked email to ${email}`, { error });
+      throw error;
+    }
   }
 
   async function sendNotificationEmail(
@@ -42,8 +88,26 @@ export function emailService(prisma: PrismaClient) {
     subject: string,
     message: string,
   ): Promise<void> {
-    // Implementation to send notification email
+    const mailOptions = {
+      from: ENVIRONMENT_CONFIG.EMAIL_USERNAME,
+      to: email,
+      subject,
+      text: message,
+    };
+
+    try {
+      await transporter.sendMail(mailOptions);
+      logger.info(`Notification email "${subject}" sent to ${email}`);
+    } catch (error) {
+      logger.error(`Failed to send notification email to ${email}`, { error });
+      throw error;
+    }
   }
 
-  return { sendVerificationEmail };
+  return {
+    sendVerificationEmail,
+    sendPasswordResetEmail,
+    sendAccountLockedEmail,
+    sendNotificationEmail,
+  };
 }
@@ -0,0 +1,54 @@
+import { logger } from "@src/api/middleware/index.js";
+
+export interface IntervalJob {
+  start: () => void;
+  stop: () => void;
+}
+
+/**
+ * Runs a task in-process right away and then every `intervalMs`. A run is skipped while the previous one
+ * is still in progress, so slow runs never overlap. Errors are logged and the job keeps going.
+ */
+export function createIntervalJob(
+  name: string,
+  intervalMs: number,
+  task: () => Promise<void>,
+): IntervalJob {
+  let timer: NodeJS.Timeout | undefined;
+  let running = false;
+
+  async function run(): Promise<void> {
+    if (running) {
+      logger.warn(`Job ${name} is still running, skipping this run`);
+      return;
+    }
+
+    running = true;
+    try {
+      await task();
+    } catch (error) {
+      logger.error(`Job ${name} failed`, { error });
+    } finally {
+      running = false;
+    }
+  }
+
+  function start(): void {
+    if (timer) return;
+
+    logger.info(`Starting job ${name} every ${intervalMs}ms`);
+    void run();
+    timer = setInterval(() => void run(), intervalMs);
+    // Do not keep the process alive just for the job
+    timer.unref();
+  }
+
+  function stop(): void {
+    if (!timer) return;
+
+    clearInterval(timer);
+    timer = undefined;
+  }
+
+  return { start, stop };
+}
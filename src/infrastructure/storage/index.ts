@@ -0,0 +1,44 @@
+import { ENVIRONMENT_CONFIG } from "@config";
+import type { IFileStorage } from "@src/core/interfaces";
+import { localFileStorage } from "./localFileStorage";
+import { s3FileStorage } from "./s3FileStorage";
+
+export { localFileStorage } from "./localFileStorage";
+export { s3FileStorage, signS3Request } from "./s3FileStorage";
+export type { S3StorageOptions } from "./s3FileStorage";
+
+/**
+ * Creates the file storage driver selected by `STORAGE_DRIVER`.
+ */
+export function createFileStorage(): IFileStorage {
+  const {
+    STORAGE_DRIVER,
+    STORAGE_LOCAL_PATH,
+    S3_ENDPOINT,
+    S3_REGION,
+    S3_BUCKET,
+    S3_ACCESS_KEY_ID,
+    S3_SECRET_ACCESS_KEY,
+  } = ENVIRONMENT_CONFIG;
+
+  switch (STORAGE_DRIVER) {
+    case "local":
+      return localFileStorage(STORAGE_LOCAL_PATH);
+    case "s3":
+      if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+        throw new Error(
+          "S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required " +
+            'when STORAGE_DRIVER is "s3"',
+        );
+      }
+      return s3FileStorage({
+        endpoint: S3_ENDPOINT,
+        region: S3_REGION,
+        bucket: S3_BUCKET,
+        accessKeyId: S3_ACCESS_KEY_ID,
+        secretAccessKey: S3_SECRET_ACCESS_KEY,
+      });
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${STORAGE_DRIVER}", expected "local" or "s3"`);
+  }
+}
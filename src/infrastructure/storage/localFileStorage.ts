@@ -0,0 +1,57 @@
+import { createReadStream } from "fs";
+import { mkdir, rename, rm, stat, writeFile } from "fs/promises";
+import { randomUUID } from "crypto";
+import { dirname, resolve, sep } from "path";
+import type { IFileStorage, StoredFile } from "@src/core/interfaces";
+
+/**
+ * Stores files in a directory on the local disk, one file per key. Suited to development and
+ * single-instance deployments; use the S3 driver when several instances share storage.
+ *
+ * @param root Directory the files are kept in. It is created on the first write.
+ */
+export function localFileStorage(root: string): IFileStorage {
+  const rootPath = resolve(root);
+
+  // Keys come from the application, but never let one escape the storage directory
+  function pathOf(key: string): string {
+    const path = resolve(rootPath, key);
+    if (!path.startsWith(rootPath + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+
+  async function put(key: string, content: Buffer): Promise<void> {
+    const path = pathOf(key);
+    await mkdir(dirname(path), { recursive: true });
+    // Write next to the target and rename, so readers never see a half-written file
+    const temporaryPath = `${path}.${randomUUID()}.tmp`;
+    try {
+      await writeFile(temporaryPath, content);
+      await rename(temporaryPath, path);
+    } catch (error) {
+      await rm(temporaryPath, { force: true });
+      throw error;
+    }
+  }
+
+  async function get(key: string): Promise<StoredFile | null> {
+    const path = pathOf(key);
+    try {
+      const { size } = await stat(path);
+      return { content: createReadStream(path), size };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async function remove(key: string): Promise<void> {
+    await rm(pathOf(key), { force: true });
+  }
+
+  return { put, get, delete: remove };
+}
@@ -0,0 +1,180 @@
+import { createHash, createHmac } from "crypto";
+import type { IFileStorage, StoredFile } from "@src/core/interfaces";
+
+export interface S3StorageOptions {
+  endpoint: string; // e.g. https://s3.eu-west-1.amazonaws.com or http://localhost:9000 for MinIO
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+interface SignableRequest {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  payloadHash: string;
+}
+
+interface Credentials {
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+// Give up on a storage request instead of holding the HTTP request open indefinitely
+const REQUEST_TIMEOUT_MS = 30_000;
+
+const EMPTY_PAYLOAD_HASH = sha256Hex("");
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+// RFC 3986 encoding as required by Signature Version 4, which encodeURIComponent falls short of
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
+
+function canonicalQueryOf(url: URL): string {
+  return [...url.searchParams.entries()]
+    .map(([name, value]) => `${encodeRfc3986(name)}=${encodeRfc3986(value)}`)
+    .sort()
+    .join("&");
+}
+
+/**
+ * Signs a request with AWS Signature Version 4 and returns the headers to send, including
+ * `Authorization`. The URL path must already be encoded; S3 paths are not encoded a second time.
+ *
+ * @param request The method, URL, extra headers and hex SHA-256 of the body.
+ * @param credentials The region and key pair to sign with.
+ * @param date The signing time, normally now.
+ */
+export function signS3Request(
+  request: SignableRequest,
+  credentials: Credentials,
+  date: Date = new Date(),
+): Record<string, string> {
+  const amzDate = date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+  const day = amzDate.slice(0, 8);
+  const scope = `${day}/${credentials.region}/s3/aws4_request`;
+
+  const headers: Record<string, string> = {
+    host: request.url.host,
+    "x-amz-content-sha256": request.payloadHash,
+    "x-amz-date": amzDate,
+  };
+  for (const [name, value] of Object.entries(request.headers)) {
+    headers[name.toLowerCase()] = value.trim().replace(/\s+/g, " ");
+  }
+
+  const headerNames = Object.keys(headers).sort();
+  const signedHeaders = headerNames.join(";");
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname,
+    canonicalQueryOf(request.url),
+    headerNames.map((name) => `${name}:${headers[name]}\n`).join(""),
+    signedHeaders,
+    request.payloadHash,
+  ].join("\n");
+
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    sha256Hex(canonicalRequest),
+  ].join("\n");
+
+  const signingKey = ["s3", "aws4_request"].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${credentials.secretAccessKey}`, day), credentials.region),
+  );
+  const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+  return {
+    ...headers,
+    authorization:
+      `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope},` +
+      `SignedHeaders=${signedHeaders},Signature=${signature}`,
+  };
+}
+
+/**
+ * Stores files in a bucket of any S3-compatible service: AWS S3, or MinIO and similar servers as
+ * a local stand-in. Requests use path-style URLs (`<endpoint>/<bucket>/<key>`), which every
+ * implementation understands, and are signed with Signature Version 4.
+ */
+export function s3FileStorage(options: S3StorageOptions): IFileStorage {
+  const endpoint = options.endpoint.replace(/\/+$/, "");
+
+  function urlOf(key: string): URL {
+    const path = [options.bucket, ...key.split("/")].map(encodeRfc3986).join("/");
+    return new URL(`${endpoint}/${path}`);
+  }
+
+  async function send(
+    method: string,
+    key: string,
+    body?: Buffer,
+    headers: Record<string, string> = {},
+  ): Promise<Response> {
+    const url = urlOf(key);
+    const signedHeaders = signS3Request(
+      { method, url, headers, payloadHash: body ? sha256Hex(body) : EMPTY_PAYLOAD_HASH },
+      options,
+    );
+    // fetch sets Host itself, from the same URL the signature was computed for
+    const { host: _host, ...requestHeaders } = signedHeaders;
+    return fetch(url, {
+      method,
+      headers: requestHeaders,
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  }
+
+  async function assertOk(response: Response, action: string, key: string): Promise<void> {
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new Error(`S3 ${action} of ${key} failed with status ${response.status}: ${detail}`);
+    }
+  }
+
+  async function put(key: string, content: Buffer, contentType: string): Promise<void> {
+    const response = await send("PUT", key, content, { "content-type": contentType });
+    await assertOk(response, "upload", key);
+  }
+
+  async function get(key: string): Promise<StoredFile | null> {
+    const response = await send("GET", key);
+    if (response.status === 404) {
+      await response.body?.cancel();
+      return null;
+    }
+    await assertOk(response, "download", key);
+
+    return {
+      content: response.body as unknown as AsyncIterable<Uint8Array>,
+      size: Number(response.headers.get("content-length") ?? 0),
+    };
+  }
+
+  async function remove(key: string): Promise<void> {
+    const response = await send("DELETE", key);
+    // S3 answers 204 whether or not the key existed; some compatible servers answer 404
+    if (response.status !== 404) {
+      await assertOk(response, "delete", key);
+    }
+  }
+
+  return { put, get, delete: remove };
+}
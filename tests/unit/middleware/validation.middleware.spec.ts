@@ -0,0 +1,44 @@
+import { vi, describe, it, expect } from "vitest";
+import type { Request, Response } from "express";
+import validationHandler from "../../../src/api/middleware/validation.middleware";
+import {
+  CreateTransactionSchema,
+  UpdateTransactionSchema,
+} from "../../../src/application/dtos/transaction";
+
+const validate = (schema: Parameters<typeof validationHandler>[0], body: unknown) => {
+  const req = { body } as Request;
+  const next = vi.fn();
+  validationHandler(schema)(req, {} as Response, next);
+  return { req, error: next.mock.calls[0][0] };
+};
+
+describe("Validation Middleware", () => {
+  it("should replace the body with the parsed data", () => {
+    const { req, error } = validate(UpdateTransactionSchema, { date: "2026-10-19" });
+
+    expect(error).toBeUndefined();
+    expect(req.body.date).toEqual(new Date("2026-10-19"));
+  });
+
+  it.each([{ date: null }, { amount: null }, { type: null }])(
+    "should answer 400 to a merge patch clearing a required field: %o",
+    (body) => {
+      const { error } = validate(UpdateTransactionSchema, body);
+
+      expect(error).toMatchObject({ code: 400 });
+    },
+  );
+
+  it("should answer 400 to a transaction created with a null date", () => {
+    const { error } = validate(CreateTransactionSchema, {
+      amount: 10,
+      type: "expense",
+      categoryId: "6f1c2a54-3b8e-4d7a-9c1f-2e5b8a7d4c3f",
+      description: "Lunch",
+      date: null,
+    });
+
+    expect(error).toMatchObject({ code: 400 });
+  });
+});
@@ -0,0 +1,47 @@
+import { vi, describe, beforeEach, expect, it } from "vitest";
+import { SigningKeyRepository } from "../../../src/infrastructure/repositories";
+import { generateSigningKeyPair } from "../../../src/api/utils/jwtUtils";
+
+const SECRET = "test-encryption-secret";
+
+describe("SigningKeyRepository", () => {
+  let rows: any[];
+  let client: any;
+
+  beforeEach(() => {
+    rows = [];
+    client = {
+      signingKey: {
+        create: vi.fn(async ({ data }) => {
+          const row = { ...data, createdAt: new Date(), retiredAt: null };
+          rows.push(row);
+          return row;
+        }),
+        findMany: vi.fn(async () => rows),
+      },
+    };
+  });
+
+  it("should store the private key encrypted and hand it back decrypted", async () => {
+    const repository = new SigningKeyRepository(client, SECRET);
+    const key = generateSigningKeyPair("EdDSA");
+
+    await repository.create(key);
+
+    expect(rows[0]).not.toHaveProperty("privateKey");
+    expect(rows[0].encryptedPrivateKey).not.toContain("PRIVATE KEY");
+    const [found] = await repository.findVerifiable(new Date());
+    expect(found.privateKey).toBe(key.privateKey);
+  });
+
+  it("should leave out keys encrypted under another secret", async () => {
+    await new SigningKeyRepository(client, "old-secret").create(generateSigningKeyPair("EdDSA"));
+    const key = generateSigningKeyPair("EdDSA");
+    const repository = new SigningKeyRepository(client, SECRET);
+    await repository.create(key);
+
+    const keys = await repository.findVerifiable(new Date());
+
+    expect(keys.map(({ kid }) => kid)).toEqual([key.kid]);
+  });
+});
@@ -0,0 +1,127 @@
+import { vi, describe, beforeEach, expect, it } from "vitest";
+import { Decimal } from "@prisma/client/runtime/client";
+import { TransactionRepository } from "../../../src/infrastructure/repositories";
+import { TransactionMapper } from "../../../src/application/mappers/transaction.mapper";
+import { TransactionQuerySchema } from "../../../src/application/dtos/transaction";
+
+const USER_ID = "user-id-123";
+
+describe("TransactionRepository", () => {
+  let findMany: ReturnType<typeof vi.fn>;
+  let repository: TransactionRepository;
+
+  beforeEach(() => {
+    findMany = vi.fn().mockResolvedValue([]);
+    repository = new TransactionRepository({ transaction: { findMany } } as any);
+  });
+
+  const findByDates = async (params: { from?: string; to?: string }) => {
+    const { from, to } = TransactionQuerySchema.parse(params);
+    await repository.findByQuery({
+      userId: USER_ID,
+      filters: { from, to },
+      sort: { field: "date", direction: "desc" },
+      limit: 25,
+    });
+    return findMany.mock.calls[0][0].where.AND.find((condition: any) => condition.date)?.date;
+  };
+
+  describe("findByQuery", () => {
+    it("should include the whole day of a date-only to filter", async () => {
+      const range = await findByDates({ from: "2026-01-01", to: "2026-01-31" });
+
+      expect(range).toEqual({
+        gte: new Date("2026-01-01T00:00:00.000Z"),
+        lte: new Date("2026-01-31T23:59:59.999Z"),
+      });
+      expect(new Date("2026-01-31T18:30:00Z") <= range.lte).toBe(true);
+    });
+
+    it("should keep the time of a to filter that has one", async () => {
+      const range = await findByDates({ to: "2026-01-31T12:00:00Z" });
+
+      expect(range).toEqual({ lte: new Date("2026-01-31T12:00:00.000Z") });
+    });
+
+    it("should accept a date-only range of a single day", () => {
+      expect(
+        TransactionQuerySchema.safeParse({ from: "2026-01-31", to: "2026-01-31" }).success,
+      ).toBe(true);
+    });
+  });
+
+  describe("getByUserId", () => {
+    it("should read split amounts with cents back as numbers", async () => {
+      findMany.mockResolvedValue([
+        {
+          id: "transaction-id",
+          userId: USER_ID,
+          amount: new Decimal("12.50"),
+          currency: "GBP",
+          type: "expense",
+          categoryId: "category-1",
+          description: "Lunch",
+          date: new Date("2026-03-05"),
+          splits: [
+            { categoryId: "category-1", amount: new Decimal("7.25"), note: null },
+            { categoryId: "category-2", amount: new Decimal("5.25"), note: null },
+          ],
+          version: 1,
+        },
+      ]);
+
+      const [transaction] = await repository.getByUserId(USER_ID);
+
+      expect(transaction.amount).toBe(12.5);
+      expect(transaction.splits.map((split) => split.amount)).toEqual([7.25, 5.25]);
+    });
+  });
+
+  describe("update", () => {
+    const stored = {
+      id: "transaction-id",
+      userId: USER_ID,
+      amount: new Decimal("12.50"),
+      currency: "GBP",
+      type: "expense",
+      categoryId: "category-1",
+      description: "Lunch",
+      date: new Date("2026-03-05"),
+      splits: [],
+      tags: [],
+      version: 2,
+    };
+    let tx: any;
+
+    beforeEach(() => {
+      tx = {
+        transaction: { update: vi.fn().mockResolvedValue({ ...stored, version: 3 }) },
+        transactionHistory: { create: vi.fn() },
+      };
+      repository = new TransactionRepository({
+        $transaction: (work: (tx: any) => Promise<unknown>) => work(tx),
+      } as any);
+    });
+
+    it("should write the history entry in the same database transaction as the change", async () => {
+      const transaction = await repository.update(
+        TransactionMapper.toDomainFromPersistence(stored),
+        (saved) => ({ version: saved.version, action: "updated" }) as any,
+      );
+
+      expect(transaction?.version).toBe(3);
+      expect(tx.transactionHistory.create).toHaveBeenCalledWith({
+        data: { version: 3, action: "updated" },
+      });
+    });
+
+    it("should record nothing when the version no longer matches", async () => {
+      tx.transaction.update.mockRejectedValue({ code: "P2025" });
+
+      await expect(
+        repository.update(TransactionMapper.toDomainFromPersistence(stored), () => ({}) as any),
+      ).resolves.toBeNull();
+      expect(tx.transactionHistory.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { vi, describe, beforeEach, expect, it } from "vitest";
+import { AnalyticsService, ExchangeRateService } from "../../../src/application/services";
+import type {
+  ExchangeRate,
+  ICategoryRepository,
+  IExchangeRateRepository,
+  ITransactionRepository,
+  IUserRepository,
+} from "../../../src/core/interfaces";
+import { Category } from "../../../src/core/entities";
+
+const USER_ID = "user-id-123";
+
+const makeCategory = (id: string, name: string): Category =>
+  Category.fromStorage({
+    id,
+    userId: USER_ID,
+    name,
+    kind: "expense",
+    parentId: null,
+    color: null,
+    icon: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+const RATES: ExchangeRate[] = [
+  { baseCurrency: "EUR", quoteCurrency: "USD", rate: 1.1, effectiveDate: "2026-01-01" },
+];
+
+describe("AnalyticsService", () => {
+  let mockTransactionRepository: ITransactionRepository;
+  let analyticsService: AnalyticsService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockTransactionRepository = {
+      sumByType: vi.fn().mockResolvedValue([
+        { type: "income", currency: "USD", amount: 3000, count: 1 },
+        { type: "expense", currency: "USD", amount: 1200, count: 5 },
+        { type: "expense", currency: "EUR", amount: 100, count: 2 },
+        { type: "expense", currency: "JPY", amount: 5000, count: 1 },
+      ]),
+      sumByCategory: vi.fn().mockResolvedValue([
+        { categoryId: "rent", type: "expense", currency: "USD", amount: 900, count: 1 },
+        { categoryId: "food", type: "expense", currency: "USD", amount: 190, count: 4 },
+        { categoryId: "food", type: "expense", currency: "EUR", amount: 100, count: 2 },
+      ]),
+      sumByBucket: vi.fn().mockResolvedValue([
+        { bucket: "2026-01-01", type: "income", currency: "USD", amount: 3000, count: 1 },
+        { bucket: "2026-01-01", type: "expense", currency: "USD", amount: 1000, count: 3 },
+        { bucket: "2026-03-01", type: "expense", currency: "USD", amount: 500, count: 2 },
+      ]),
+    } as unknown as ITransactionRepository;
+
+    const mockExchangeRateRepository = {
+      findLatest: vi.fn(async (base: string, quote: string) =>
+        RATES.find((rate) => rate.baseCurrency === base && rate.quoteCurrency === quote) ?? null,
+      ),
+    } as unknown as IExchangeRateRepository;
+
+    analyticsService = new AnalyticsService(
+      mockTransactionRepository,
+      {
+        getByUserId: vi
+          .fn()
+          .mockResolvedValue([makeCategory("rent", "Housing"), makeCategory("food", "Groceries")]),
+      } as unknown as ICategoryRepository,
+      {
+        getById: vi.fn().mockResolvedValue({ baseCurrency: "USD", timezone: "Asia/Tokyo" }),
+      } as unknown as IUserRepository,
+      new ExchangeRateService(mockExchangeRateRepository),
+    );
+  });
+
+  describe("getSummary", () => {
+    it("should convert totals into the base currency and report unconvertible ones", async () => {
+      const summary = await analyticsService.getSummary(
+        { from: "2026-01-01", to: "2026-01-31" },
+        USER_ID,
+      );
+
+      expect(summary).toMatchObject({
+        timezone: "Asia/Tokyo",
+        currency: "USD",
+        income: 3000,
+        expense: 1310,
+        net: 1690,
+        transactionCount: 9,
+        unconvertedCurrencies: ["JPY"],
+      });
+    });
+
+    it("should query whole days in the user's time zone", async () => {
+      await analyticsService.getSummary({ from: "2026-01-01", to: "2026-01-31" }, USER_ID);
+
+      expect(mockTransactionRepository.sumByType).toHaveBeenCalledWith({
+        userId: USER_ID,
+        from: new Date("2025-12-31T15:00:00Z"),
+        to: new Date("2026-01-31T15:00:00Z"),
+      });
+    });
+  });
+
+  describe("getCategoryBreakdown", () => {
+    it("should merge currencies per category and order by amount", async () => {
+      const breakdown = await analyticsService.getCategoryBreakdown(
+        { from: "2026-01-01", to: "2026-01-31", type: "expense" },
+        USER_ID,
+      );
+
+      expect(breakdown.total).toBe(1200);
+      expect(breakdown.categories).toEqual([
+        expect.objectContaining({ category: "Housing", amount: 900, percentage: 75 }),
+        expect.objectContaining({
+          category: "Groceries",
+          amount: 300,
+          percentage: 25,
+          transactionCount: 6,
+        }),
+      ]);
+    });
+  });
+
+  describe("getCashFlow", () => {
+    it("should return a point for every bucket, including empty ones", async () => {
+      const cashFlow = await analyticsService.getCashFlow(
+        { from: "2026-01-15", to: "2026-03-10", interval: "month", timezone: "UTC" },
+        USER_ID,
+      );
+
+      expect(mockTransactionRepository.sumByBucket).toHaveBeenCalledWith(
+        expect.anything(),
+        "month",
+        "UTC",
+      );
+      expect(cashFlow.series).toEqual([
+        { period: "2026-01-01", income: 3000, expense: 1000, net: 2000, cumulativeNet: 2000 },
+        { period: "2026-02-01", income: 0, expense: 0, net: 0, cumulativeNet: 2000 },
+        { period: "2026-03-01", income: 0, expense: 500, net: -500, cumulativeNet: 1500 },
+      ]);
+    });
+
+    it("should reject series with too many points", async () => {
+      await expect(
+        analyticsService.getCashFlow(
+          { from: "2020-01-01", to: "2026-01-01", interval: "day" },
+          USER_ID,
+        ),
+      ).rejects.toThrow("use a longer interval");
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { vi, describe, beforeEach, expect, it } from "vitest";
+import { Readable } from "stream";
+import { AttachmentService } from "../../../src/application/services";
+import type {
+  IAttachmentRepository,
+  IFileStorage,
+  ITransactionRepository,
+} from "../../../src/core/interfaces";
+import { Attachment } from "../../../src/core/entities";
+import { encodePng } from "../../../src/application/utils/thumbnailUtils";
+
+const USER_ID = "user-id-123";
+const TRANSACTION_ID = "transaction-1";
+
+const PNG = encodePng({ width: 600, height: 300, pixels: Buffer.alloc(600 * 300 * 4, 200) });
+const PDF = Buffer.from("%PDF-1.7\n1 0 obj\n<<>>\nendobj\n");
+
+describe("AttachmentService", () => {
+  let stored: Map<string, Buffer>;
+  let mockFileStorage: IFileStorage;
+  let mockAttachmentRepository: IAttachmentRepository;
+  let attachmentService: AttachmentService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    stored = new Map();
+    mockFileStorage = {
+      put: vi.fn(async (key: string, content: Buffer) => {
+        stored.set(key, content);
+      }),
+      get: vi.fn(async (key: string) => {
+        const content = stored.get(key);
+        return content ? { content: Readable.from([content]), size: content.length } : null;
+      }),
+      delete: vi.fn(async (key: string) => {
+        stored.delete(key);
+      }),
+    };
+
+    mockAttachmentRepository = {
+      getById: vi.fn().mockResolvedValue(null),
+      getByTransactionId: vi.fn().mockResolvedValue([]),
+      getByUserId: vi.fn().mockResolvedValue([]),
+      countByTransactionId: vi.fn().mockResolvedValue(0),
+      deleteByTransactionId: vi.fn(),
+      deleteByUserId: vi.fn(),
+      save: vi.fn(async (attachment: Attachment) =>
+        Attachment.fromStorage({
+          ...attachment,
+          id: "attachment-1",
+          createdAt: new Date("2026-10-20T12:00:00Z"),
+        }),
+      ),
+      delete: vi.fn(),
+    };
+
+    // Only the owner finds the transaction, as TransactionRepository.getById scopes by user
+    const mockTransactionRepository = {
+      getById: vi.fn(async (id: string, userId: string) =>
+        id === TRANSACTION_ID && userId === USER_ID ? { id } : null,
+      ),
+    } as unknown as ITransactionRepository;
+
+    attachmentService = new AttachmentService(
+      mockTransactionRepository,
+      mockAttachmentRepository,
+      mockFileStorage,
+    );
+  });
+
+  describe("uploadAttachment", () => {
+    it("should store an image with a thumbnail under the sniffed type", async () => {
+      const attachment = await attachmentService.uploadAttachment(
+        TRANSACTION_ID,
+        { fileName: "C:\\scans\\receipt.jpg", content: PNG },
+        USER_ID,
+      );
+
+      expect(attachment).toMatchObject({
+        id: "attachment-1",
+        fileName: "receipt.jpg",
+        contentType: "image/png",
+        size: PNG.length,
+        hasThumbnail: true,
+      });
+      const [original, thumbnail] = [...stored.keys()];
+      expect(original).toMatch(new RegExp(`^${USER_ID}/${TRANSACTION_ID}/`));
+      expect(thumbnail).toBe(`${original}.thumbnail`);
+      expect(stored.get(thumbnail)!.readUInt32BE(16)).toBe(256);
+    });
+
+    it("should store a PDF without a thumbnail", async () => {
+      const attachment = await attachmentService.uploadAttachment(
+        TRANSACTION_ID,
+        { fileName: "invoice.pdf", content: PDF },
+        USER_ID,
+      );
+
+      expect(attachment).toMatchObject({ contentType: "application/pdf", hasThumbnail: false });
+      expect(stored.size).toBe(1);
+    });
+
+    it("should reject files that are not images or PDFs", async () => {
+      await expect(
+        attachmentService.uploadAttachment(
+          TRANSACTION_ID,
+          { fileName: "receipt.png", content: Buffer.from("<html></html>") },
+          USER_ID,
+        ),
+      ).rejects.toMatchObject({ code: 415 });
+      expect(mockFileStorage.put).not.toHaveBeenCalled();
+    });
+
+    it("should not attach files to another user's transaction", async () => {
+      await expect(
+        attachmentService.uploadAttachment(
+          TRANSACTION_ID,
+          { fileName: "receipt.pdf", content: PDF },
+          "someone-else",
+        ),
+      ).rejects.toThrow("Transaction not found");
+    });
+
+    it("should remove the stored files when the metadata cannot be saved", async () => {
+      (mockAttachmentRepository.save as any).mockRejectedValue(new Error("database down"));
+
+      await expect(
+        attachmentService.uploadAttachment(
+          TRANSACTION_ID,
+          { fileName: "receipt.png", content: PNG },
+          USER_ID,
+        ),
+      ).rejects.toThrow("database down");
+      expect(stored.size).toBe(0);
+    });
+  });
+
+  describe("deleteTransactionAttachments", () => {
+    it("should delete the rows and every stored file", async () => {
+      stored.set("a", PNG).set("a.thumbnail", PNG).set("b", PDF);
+      (mockAttachmentRepository.getByTransactionId as any).mockResolvedValue([
+        Attachment.create({
+          transactionId: TRANSACTION_ID,
+          fileName: "a.png",
+          contentType: "image/png",
+          size: PNG.length,
+          storageKey: "a",
+          thumbnailKey: "a.thumbnail",
+        }),
+        Attachment.create({
+          transactionId: TRANSACTION_ID,
+          fileName: "b.pdf",
+          contentType: "application/pdf",
+          size: PDF.length,
+          storageKey: "b",
+        }),
+      ]);
+
+      await attachmentService.deleteTransactionAttachments(TRANSACTION_ID);
+
+      expect(mockAttachmentRepository.deleteByTransactionId).toHaveBeenCalledWith(TRANSACTION_ID);
+      expect(stored.size).toBe(0);
+    });
+  });
+
+  describe("deleteUserAttachments", () => {
+    it("should delete the rows and the stored files of every transaction the user owns", async () => {
+      stored.set("a", PNG).set("a.thumbnail", PNG);
+      (mockAttachmentRepository.getByUserId as any).mockResolvedValue([
+        Attachment.create({
+          transactionId: TRANSACTION_ID,
+          fileName: "a.png",
+          contentType: "image/png",
+          size: PNG.length,
+          storageKey: "a",
+          thumbnailKey: "a.thumbnail",
+        }),
+      ]);
+
+      await attachmentService.deleteUserAttachments(USER_ID);
+
+      expect(mockAttachmentRepository.deleteByUserId).toHaveBeenCalledWith(USER_ID);
+      expect(stored.size).toBe(0);
+    });
+  });
+});
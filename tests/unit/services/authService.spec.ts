@@ -1,7 +1,18 @@
 import { vi, describe, beforeEach, expect, it } from "vitest";
-import { AuthenticationService } from "../../../src/application/services";
-import type { ITokenRepository, IUserRepository } from "../../../src/core/interfaces";
-import type { User } from "../../../src/core/entities";
+import {
+  AuthenticationService,
+  type LoginThrottleService,
+  type MfaService,
+  type SigningKeyService,
+} from "../../../src/application/services";
+import type {
+  ICategoryRepository,
+  IEmailService,
+  ISecurityEventRepository,
+  ITokenRepository,
+  IUserRepository,
+} from "../../../src/core/interfaces";
+import { DEFAULT_CATEGORIES, type User } from "../../../src/core/entities";
 
 // Mock the JWT utilities
 vi.mock("../../../src/api/utils/jwtUtils", () => ({
@@ -20,6 +31,7 @@ global.crypto.randomUUID = vi.fn(
 );
 
 import { signJwt, verifyJwt } from "../../../src/api/utils/jwtUtils";
+import { ENVIRONMENT_CONFIG } from "@config";
 
 const mockUser: User = {
   id: "user-id-123",
@@ -36,6 +48,12 @@ const mockUser: User = {
 describe("AuthenticationService", () => {
   let mockUserRepository: IUserRepository;
   let mockTokenRepository: ITokenRepository;
+  let mockEmailService: IEmailService;
+  let mockCategoryRepository: ICategoryRepository;
+  let mockSecurityEventRepository: ISecurityEventRepository;
+  let mockMfaService: MfaService;
+  let mockLoginThrottleService: LoginThrottleService;
+  let mockSigningKeyService: SigningKeyService;
   let authService: AuthenticationService;
 
   beforeEach(() => {
@@ -45,16 +63,78 @@ describe("AuthenticationService", () => {
       getById: vi.fn(),
       getByEmail: vi.fn(),
       save: vi.fn(),
+      updatePassword: vi.fn(),
+      markVerified: vi.fn(),
       delete: vi.fn(),
     };
 
     mockTokenRepository = {
       saveRefreshToken: vi.fn(),
       revokeRefreshToken: vi.fn(),
+      rotateRefreshToken: vi.fn(),
+      revokeAllRefreshTokens: vi.fn(),
       findTokenRecordById: vi.fn(),
+      findActiveSessions: vi.fn(),
+      revokeSession: vi.fn(),
+      revokeOtherSessions: vi.fn(),
+      savePasswordResetToken: vi.fn(),
+      consumePasswordResetToken: vi.fn(),
+      saveActivationToken: vi.fn(),
+      findActivationTokenByUserId: vi.fn(),
+      consumeActivationToken: vi.fn(),
     };
 
-    authService = new AuthenticationService(mockUserRepository, mockTokenRepository);
+    mockEmailService = {
+      sendVerificationEmail: vi.fn(),
+      sendPasswordResetEmail: vi.fn(),
+      sendAccountLockedEmail: vi.fn(),
+      sendNotificationEmail: vi.fn(),
+    };
+
+    mockCategoryRepository = {
+      getById: vi.fn(),
+      getByName: vi.fn(),
+      getByUserId: vi.fn(),
+      save: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+      createDefaults: vi.fn(),
+      countUsage: vi.fn(),
+    };
+
+    mockSecurityEventRepository = {
+      record: vi.fn(),
+      listByUser: vi.fn(),
+    };
+
+    mockMfaService = {
+      isEnabled: vi.fn().mockResolvedValue(false),
+      verifyChallenge: vi.fn(),
+    } as unknown as MfaService;
+
+    mockLoginThrottleService = {
+      isLocked: vi.fn().mockResolvedValue(false),
+      recordFailure: vi
+        .fn()
+        .mockResolvedValue({ delayMs: 0, unlockToken: null, lockedUntil: null }),
+      reset: vi.fn(),
+      unlock: vi.fn(),
+    } as unknown as LoginThrottleService;
+
+    mockSigningKeyService = {
+      sign: vi.fn().mockResolvedValue("mocked-jwt-token"),
+    } as unknown as SigningKeyService;
+
+    authService = new AuthenticationService(
+      mockUserRepository,
+      mockTokenRepository,
+      mockEmailService,
+      mockCategoryRepository,
+      mockSecurityEventRepository,
+      mockMfaService,
+      mockLoginThrottleService,
+      mockSigningKeyService,
+    );
   });
 
   describe("register", () => {
@@ -91,6 +171,53 @@ describe("AuthenticationService", () => {
       expect(savedUser.account.isHashed).toBe(true);
     });
 
+    it("should seed the default categories for the new user", async () => {
+      (mockUserRepository.save as any).mockResolvedValue({ ...mockUser });
+
+      await authService.register({
+        firstName: "John",
+        lastName: "Doe",
+        email: "user@example.com",
+        password: "securePassword123",
+      });
+
+      expect(mockCategoryRepository.createDefaults).toHaveBeenCalledWith(
+        "user-id-123",
+        DEFAULT_CATEGORIES,
+      );
+    });
+
+    it("should issue an activation token and send a verification email", async () => {
+      (mockUserRepository.save as any).mockResolvedValue({ ...mockUser });
+
+      await authService.register({
+        firstName: "John",
+        lastName: "Doe",
+        email: "user@example.com",
+        password: "securePassword123",
+      });
+
+      const [userId, tokenHash] = (mockTokenRepository.saveActivationToken as any).mock.calls[0];
+      const [email, rawToken] = (mockEmailService.sendVerificationEmail as any).mock.calls[0];
+      expect(userId).toBe("user-id-123");
+      expect(email).toBe("user@example.com");
+      expect(tokenHash).not.toBe(rawToken);
+    });
+
+    it("should still register when the verification email cannot be sent", async () => {
+      (mockUserRepository.save as any).mockResolvedValue({ ...mockUser });
+      (mockEmailService.sendVerificationEmail as any).mockRejectedValue(new Error("SMTP down"));
+
+      await expect(
+        authService.register({
+          firstName: "John",
+          lastName: "Doe",
+          email: "user@example.com",
+          password: "securePassword123",
+        }),
+      ).resolves.toBeDefined();
+    });
+
     it("should handle errors during registration", async () => {
       (mockUserRepository.save as any).mockRejectedValue(new Error("Database error"));
 
@@ -117,12 +244,35 @@ describe("AuthenticationService", () => {
 
       expect(response).toBeDefined();
       expect(response.authUser).toBeDefined();
-      expect(response.authUser.token).toBe("mocked-jwt-token");
+      expect(response.authUser?.token).toBe("mocked-jwt-token");
       expect(response.refreshToken).toBe("mocked-jwt-token");
       expect(mockUserRepository.getByEmail).toHaveBeenCalledWith("user@example.com");
       expect(mockTokenRepository.saveRefreshToken).toHaveBeenCalled();
     });
 
+    it("should start a new session recording the client", async () => {
+      await authService.login("user@example.com", "securePassword123", {
+        ip: "203.0.113.7",
+        userAgent: "Firefox",
+      });
+
+      expect(mockTokenRepository.saveRefreshToken).toHaveBeenCalledWith(
+        "user-id-123",
+        expect.any(String),
+        expect.any(String),
+        expect.any(Date),
+        expect.any(Date),
+        "203.0.113.7",
+        "Firefox",
+      );
+      // The access token names the session the refresh token was stored under
+      const sessionId = (mockTokenRepository.saveRefreshToken as any).mock.calls[0][2];
+      expect(mockSigningKeyService.sign).toHaveBeenCalledWith(
+        expect.objectContaining({ sid: sessionId }),
+        expect.any(Date),
+      );
+    });
+
     it("should fail to login with non-existent email", async () => {
       (mockUserRepository.getByEmail as any).mockResolvedValue(null);
 
@@ -143,6 +293,18 @@ describe("AuthenticationService", () => {
       expect(mockUserRepository.getByEmail).toHaveBeenCalledWith("user@example.com");
     });
 
+    it("should block unverified accounts when verification is required", async () => {
+      ENVIRONMENT_CONFIG.REQUIRE_EMAIL_VERIFICATION = "true";
+      try {
+        await expect(authService.login("user@example.com", "securePassword123")).rejects.toThrow(
+          "Email address has not been verified",
+        );
+        expect(mockTokenRepository.saveRefreshToken).not.toHaveBeenCalled();
+      } finally {
+        ENVIRONMENT_CONFIG.REQUIRE_EMAIL_VERIFICATION = "false";
+      }
+    });
+
     it("should handle database errors during login", async () => {
       (mockUserRepository.getByEmail as any).mockRejectedValue(new Error("Database error"));
 
@@ -150,6 +312,183 @@ describe("AuthenticationService", () => {
         "Database error",
       );
     });
+
+    it("should hold back the session until the second factor when MFA is enabled", async () => {
+      (mockMfaService.isEnabled as any).mockResolvedValue(true);
+
+      const response = await authService.login("user@example.com", "securePassword123");
+
+      expect(response).toEqual({ mfaToken: "mocked-jwt-token" });
+      expect(signJwt).toHaveBeenCalledWith(
+        expect.objectContaining({ sub: "user-id-123", typ: "mfa" }),
+        expect.anything(),
+      );
+      expect(mockSigningKeyService.sign).not.toHaveBeenCalled();
+      expect(mockTokenRepository.saveRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it("should not reveal MFA before the password is checked", async () => {
+      (mockMfaService.isEnabled as any).mockResolvedValue(true);
+      (mockUser.account.verifyPassword as any).mockResolvedValue(false);
+
+      await expect(authService.login("user@example.com", "wrongPassword")).rejects.toThrow(
+        "Invalid email or password",
+      );
+      expect(signJwt).not.toHaveBeenCalled();
+    });
+
+    it("should count a wrong password against the account and the IP address", async () => {
+      (mockUser.account.verifyPassword as any).mockResolvedValue(false);
+
+      await expect(
+        authService.login("user@example.com", "wrongPassword", { ip: "203.0.113.7" }),
+      ).rejects.toThrow("Invalid email or password");
+      expect(mockLoginThrottleService.recordFailure).toHaveBeenCalledWith(
+        "user-id-123",
+        "203.0.113.7",
+      );
+    });
+
+    it("should count unknown emails against the IP address only", async () => {
+      (mockUserRepository.getByEmail as any).mockResolvedValue(null);
+
+      await expect(
+        authService.login("nobody@example.com", "password", { ip: "203.0.113.7" }),
+      ).rejects.toThrow("Invalid email or password");
+      expect(mockLoginThrottleService.recordFailure).toHaveBeenCalledWith(undefined, "203.0.113.7");
+    });
+
+    it("should refuse a locked out account with the usual error", async () => {
+      (mockLoginThrottleService.isLocked as any).mockResolvedValue(true);
+
+      await expect(authService.login("user@example.com", "securePassword123")).rejects.toThrow(
+        "Invalid email or password",
+      );
+      expect(mockUser.account.verifyPassword).not.toHaveBeenCalled();
+      expect(mockTokenRepository.saveRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it("should record the lockout and email an unlock link", async () => {
+      const lockedUntil = new Date("2026-10-19T12:15:00Z");
+      (mockUser.account.verifyPassword as any).mockResolvedValue(false);
+      (mockLoginThrottleService.recordFailure as any).mockResolvedValue({
+        delayMs: 0,
+        unlockToken: "unlock-token",
+        lockedUntil,
+      });
+
+      await expect(
+        authService.login("user@example.com", "wrongPassword", { ip: "203.0.113.7" }),
+      ).rejects.toThrow("Invalid email or password");
+
+      expect(mockSecurityEventRepository.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: "user-id-123",
+          type: "account_locked",
+          ip: "203.0.113.7",
+          details: { lockedUntil: lockedUntil.toISOString() },
+        }),
+      );
+      await vi.waitFor(() =>
+        expect(mockEmailService.sendAccountLockedEmail).toHaveBeenCalledWith(
+          "user@example.com",
+          "unlock-token",
+          lockedUntil,
+        ),
+      );
+    });
+
+    it("should answer without waiting for the lockout to be recorded and emailed", async () => {
+      (mockUser.account.verifyPassword as any).mockResolvedValue(false);
+      (mockLoginThrottleService.recordFailure as any).mockResolvedValue({
+        delayMs: 0,
+        unlockToken: "unlock-token",
+        lockedUntil: new Date("2026-10-19T12:15:00Z"),
+      });
+      (mockSecurityEventRepository.record as any).mockReturnValue(new Promise(() => {}));
+
+      await expect(authService.login("user@example.com", "wrongPassword")).rejects.toThrow(
+        "Invalid email or password",
+      );
+      expect(mockEmailService.sendAccountLockedEmail).not.toHaveBeenCalled();
+    });
+
+    it("should forget failed attempts after a successful login", async () => {
+      await authService.login("user@example.com", "securePassword123");
+
+      expect(mockLoginThrottleService.reset).toHaveBeenCalledWith("user-id-123");
+    });
+
+    it("should keep failed attempts until the second factor checks out", async () => {
+      (mockMfaService.isEnabled as any).mockResolvedValue(true);
+
+      await authService.login("user@example.com", "securePassword123");
+
+      expect(mockLoginThrottleService.reset).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("completeMfaLogin", () => {
+    beforeEach(() => {
+      (verifyJwt as any).mockResolvedValue({ sub: "user-id-123", typ: "mfa" });
+      (mockUserRepository.getById as any).mockResolvedValue(mockUser);
+      (mockMfaService.verifyChallenge as any).mockResolvedValue(true);
+    });
+
+    it("should start a session once the code checks out", async () => {
+      const response = await authService.completeMfaLogin("mfa-token", "287082", {
+        ip: "203.0.113.7",
+      });
+
+      expect(mockMfaService.verifyChallenge).toHaveBeenCalledWith("user-id-123", "287082");
+      expect(response.authUser.token).toBe("mocked-jwt-token");
+      expect(response.refreshToken).toBe("mocked-jwt-token");
+      expect(mockTokenRepository.saveRefreshToken).toHaveBeenCalledWith(
+        "user-id-123",
+        expect.any(String),
+        expect.any(String),
+        expect.any(Date),
+        expect.any(Date),
+        "203.0.113.7",
+        undefined,
+      );
+    });
+
+    it("should reject a wrong code", async () => {
+      (mockMfaService.verifyChallenge as any).mockResolvedValue(false);
+
+      await expect(authService.completeMfaLogin("mfa-token", "000000")).rejects.toThrow(
+        "Invalid authentication code",
+      );
+      expect(mockTokenRepository.saveRefreshToken).not.toHaveBeenCalled();
+      expect(mockLoginThrottleService.recordFailure).toHaveBeenCalledWith("user-id-123", undefined);
+    });
+
+    it("should refuse codes while the account is locked out", async () => {
+      (mockLoginThrottleService.isLocked as any).mockResolvedValue(true);
+
+      await expect(authService.completeMfaLogin("mfa-token", "287082")).rejects.toThrow(
+        "Invalid authentication code",
+      );
+      expect(mockMfaService.verifyChallenge).not.toHaveBeenCalled();
+    });
+
+    it("should reject an access token in place of the MFA token", async () => {
+      (verifyJwt as any).mockResolvedValue({ sub: "user-id-123", sid: "session-1" });
+
+      await expect(authService.completeMfaLogin("access-token", "287082")).rejects.toThrow(
+        "Invalid or expired MFA token",
+      );
+      expect(mockMfaService.verifyChallenge).not.toHaveBeenCalled();
+    });
+
+    it("should reject an expired MFA token", async () => {
+      (verifyJwt as any).mockRejectedValue(new Error("jwt expired"));
+
+      await expect(authService.completeMfaLogin("mfa-token", "287082")).rejects.toThrow(
+        "Invalid or expired MFA token",
+      );
+    });
   });
 
   describe("refresh", () => {
@@ -169,6 +508,7 @@ describe("AuthenticationService", () => {
     beforeEach(() => {
       (verifyJwt as any).mockResolvedValue(mockValidToken);
       (mockTokenRepository.findTokenRecordById as any).mockResolvedValue(mockTokenRecord);
+      (mockTokenRepository.rotateRefreshToken as any).mockResolvedValue(true);
       (mockTokenRepository.saveRefreshToken as any).mockResolvedValue(undefined);
     });
 
@@ -182,10 +522,77 @@ describe("AuthenticationService", () => {
       expect(mockTokenRepository.findTokenRecordById).toHaveBeenCalledWith(
         "refresh-token-id-valid",
       );
-      expect(mockTokenRepository.revokeRefreshToken).toHaveBeenCalledWith("refresh-token-id-valid");
+      expect(mockTokenRepository.rotateRefreshToken).toHaveBeenCalledWith(
+        "refresh-token-id-valid",
+        expect.any(String),
+      );
       expect(mockTokenRepository.saveRefreshToken).toHaveBeenCalled();
     });
 
+    it("should keep the session and its client when rotating", async () => {
+      (mockTokenRepository.findTokenRecordById as any).mockResolvedValue({
+        ...mockTokenRecord,
+        sessionId: "session-1",
+        ip: "203.0.113.7",
+        userAgent: "Firefox",
+      });
+
+      await authService.refresh({ rawRefresh: "valid-refresh-token", ip: "198.51.100.2" });
+
+      expect(mockTokenRepository.saveRefreshToken).toHaveBeenCalledWith(
+        "user-id-123",
+        expect.any(String),
+        "session-1",
+        expect.any(Date),
+        expect.any(Date),
+        "198.51.100.2",
+        "Firefox",
+      );
+    });
+
+    it("should sign the session out when a rotated token is reused", async () => {
+      (mockTokenRepository.findTokenRecordById as any).mockResolvedValue({
+        ...mockTokenRecord,
+        sessionId: "session-1",
+        revokedAt: new Date(),
+        replacedById: "refresh-token-id-next",
+      });
+      (mockUserRepository.getById as any).mockResolvedValue(mockUser);
+
+      await expect(
+        authService.refresh({ rawRefresh: "reused-token", ip: "198.51.100.2" }),
+      ).rejects.toThrow("Invalid refresh token");
+
+      expect(mockTokenRepository.revokeSession).toHaveBeenCalledWith("user-id-123", "session-1");
+      expect(mockSecurityEventRepository.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: "user-id-123",
+          type: "refresh_token_reuse",
+          ip: "198.51.100.2",
+        }),
+      );
+      expect(mockEmailService.sendNotificationEmail).toHaveBeenCalledWith(
+        "user@example.com",
+        expect.any(String),
+        expect.stringContaining("198.51.100.2"),
+      );
+      expect(mockTokenRepository.saveRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it("should treat losing a concurrent rotation as reuse", async () => {
+      (mockTokenRepository.findTokenRecordById as any).mockResolvedValue({
+        ...mockTokenRecord,
+        sessionId: "session-1",
+      });
+      (mockTokenRepository.rotateRefreshToken as any).mockResolvedValue(false);
+
+      await expect(authService.refresh({ rawRefresh: "valid-refresh-token" })).rejects.toThrow(
+        "Invalid refresh token",
+      );
+      expect(mockTokenRepository.revokeSession).toHaveBeenCalledWith("user-id-123", "session-1");
+      expect(mockTokenRepository.saveRefreshToken).not.toHaveBeenCalled();
+    });
+
     it("should fail to refresh with invalid token payload", async () => {
       (verifyJwt as any).mockResolvedValue(null);
 
@@ -212,6 +619,9 @@ describe("AuthenticationService", () => {
       await expect(authService.refresh({ rawRefresh: "revoked-token" })).rejects.toThrow(
         "Invalid refresh token",
       );
+      // A signed-out token was never exchanged, so presenting it is not reuse
+      expect(mockTokenRepository.revokeSession).not.toHaveBeenCalled();
+      expect(mockSecurityEventRepository.record).not.toHaveBeenCalled();
     });
 
     it("should fail to refresh when token userId does not match JWT sub", async () => {
@@ -292,4 +702,211 @@ describe("AuthenticationService", () => {
       );
     });
   });
-});
\ No newline at end of file
+
+  describe("sessions", () => {
+    const session = (id: string) => ({
+      id,
+      ip: "203.0.113.7",
+      userAgent: "Firefox",
+      createdAt: new Date(),
+      lastUsedAt: new Date(),
+      expiresAt: new Date(Date.now() + 1000 * 60 * 60),
+    });
+
+    it("should flag the session the request was made from", async () => {
+      (mockTokenRepository.findActiveSessions as any).mockResolvedValue([
+        session("session-1"),
+        session("session-2"),
+      ]);
+
+      const sessions = await authService.listSessions("user-id-123", "session-2");
+
+      expect(sessions.map((s) => [s.id, s.current])).toEqual([
+        ["session-1", false],
+        ["session-2", true],
+      ]);
+    });
+
+    it("should fail to revoke an unknown session", async () => {
+      (mockTokenRepository.revokeSession as any).mockResolvedValue(false);
+
+      await expect(authService.revokeSession("user-id-123", "session-9")).rejects.toThrow(
+        "Session not found",
+      );
+    });
+
+    it("should sign out every session but the current one", async () => {
+      (mockTokenRepository.revokeOtherSessions as any).mockResolvedValue(2);
+
+      await expect(authService.revokeOtherSessions("user-id-123", "session-1")).resolves.toBe(2);
+      expect(mockTokenRepository.revokeOtherSessions).toHaveBeenCalledWith(
+        "user-id-123",
+        "session-1",
+      );
+    });
+
+    it("should refuse to sign out other sessions when the current one is unknown", async () => {
+      await expect(authService.revokeOtherSessions("user-id-123")).rejects.toThrow(
+        "The current session is unknown",
+      );
+      expect(mockTokenRepository.revokeOtherSessions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("unlockAccount", () => {
+    it("should lift the lockout and record it", async () => {
+      (mockLoginThrottleService.unlock as any).mockResolvedValue("user-id-123");
+
+      await authService.unlockAccount("unlock-token", { ip: "203.0.113.7" });
+
+      expect(mockLoginThrottleService.unlock).toHaveBeenCalledWith("unlock-token");
+      expect(mockSecurityEventRepository.record).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: "user-id-123", type: "account_unlocked" }),
+      );
+    });
+
+    it("should reject invalid tokens or lockouts that are over", async () => {
+      (mockLoginThrottleService.unlock as any).mockResolvedValue(null);
+
+      await expect(authService.unlockAccount("unlock-token")).rejects.toThrow(
+        "Invalid or expired unlock token",
+      );
+      expect(mockSecurityEventRepository.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("requestPasswordReset", () => {
+    it("should store a hashed token and email the raw token", async () => {
+      (mockUserRepository.getByEmail as any).mockResolvedValue(mockUser);
+
+      await authService.requestPasswordReset("user@example.com");
+
+      await vi.waitFor(() => expect(mockEmailService.sendPasswordResetEmail).toHaveBeenCalled());
+      const [userId, tokenHash] = (mockTokenRepository.savePasswordResetToken as any).mock
+        .calls[0];
+      const [email, rawToken] = (mockEmailService.sendPasswordResetEmail as any).mock.calls[0];
+      expect(userId).toBe("user-id-123");
+      expect(email).toBe("user@example.com");
+      expect(tokenHash).not.toBe(rawToken);
+    });
+
+    it("should resolve silently for unknown emails", async () => {
+      (mockUserRepository.getByEmail as any).mockResolvedValue(null);
+
+      await expect(authService.requestPasswordReset("nobody@example.com")).resolves.toBeUndefined();
+      expect(mockEmailService.sendPasswordResetEmail).not.toHaveBeenCalled();
+    });
+
+    it("should not surface email delivery failures", async () => {
+      (mockUserRepository.getByEmail as any).mockResolvedValue(mockUser);
+      (mockEmailService.sendPasswordResetEmail as any).mockRejectedValue(new Error("SMTP down"));
+
+      await expect(authService.requestPasswordReset("user@example.com")).resolves.toBeUndefined();
+    });
+
+    it("should answer without waiting for the token to be stored and emailed", async () => {
+      (mockUserRepository.getByEmail as any).mockResolvedValue(mockUser);
+      (mockTokenRepository.savePasswordResetToken as any).mockReturnValue(new Promise(() => {}));
+
+      await expect(authService.requestPasswordReset("user@example.com")).resolves.toBeUndefined();
+      expect(mockEmailService.sendPasswordResetEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("resetPassword", () => {
+    it("should update the password and revoke every refresh token", async () => {
+      (mockTokenRepository.consumePasswordResetToken as any).mockResolvedValue("user-id-123");
+
+      await authService.resetPassword("raw-token", "newPassword123");
+
+      expect(mockUserRepository.updatePassword).toHaveBeenCalledWith(
+        "user-id-123",
+        "hashed-newPassword123",
+      );
+      expect(mockTokenRepository.revokeAllRefreshTokens).toHaveBeenCalledWith("user-id-123");
+      expect(mockLoginThrottleService.reset).toHaveBeenCalledWith("user-id-123");
+    });
+
+    it("should reject invalid, used or expired tokens", async () => {
+      (mockTokenRepository.consumePasswordResetToken as any).mockResolvedValue(null);
+
+      await expect(authService.resetPassword("raw-token", "newPassword123")).rejects.toThrow(
+        "Invalid or expired password reset token",
+      );
+      expect(mockUserRepository.updatePassword).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("verifyEmail", () => {
+    it("should mark the account as verified", async () => {
+      (mockTokenRepository.consumeActivationToken as any).mockResolvedValue("user-id-123");
+
+      await authService.verifyEmail("raw-token");
+
+      expect(mockUserRepository.markVerified).toHaveBeenCalledWith("user-id-123");
+    });
+
+    it("should reject invalid, used or expired tokens", async () => {
+      (mockTokenRepository.consumeActivationToken as any).mockResolvedValue(null);
+
+      await expect(authService.verifyEmail("raw-token")).rejects.toThrow(
+        "Invalid or expired verification token",
+      );
+      expect(mockUserRepository.markVerified).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("resendVerificationEmail", () => {
+    const unverifiedUser = { ...mockUser, account: { ...mockUser.account, isVerified: false } };
+
+    it("should send a new verification email once the cooldown has passed", async () => {
+      (mockUserRepository.getByEmail as any).mockResolvedValue(unverifiedUser);
+      (mockTokenRepository.findActivationTokenByUserId as any).mockResolvedValue({
+        createdAt: new Date(Date.now() - 1000 * 60 * 60),
+        expiresAt: new Date(),
+      });
+
+      await authService.resendVerificationEmail("user@example.com");
+
+      await vi.waitFor(() => expect(mockEmailService.sendVerificationEmail).toHaveBeenCalled());
+    });
+
+    it("should ignore requests inside the cooldown", async () => {
+      (mockUserRepository.getByEmail as any).mockResolvedValue(unverifiedUser);
+      (mockTokenRepository.findActivationTokenByUserId as any).mockResolvedValue({
+        createdAt: new Date(),
+        expiresAt: new Date(Date.now() + 1000 * 60 * 60),
+      });
+
+      await authService.resendVerificationEmail("user@example.com");
+
+      await vi.waitFor(() =>
+        expect(mockTokenRepository.findActivationTokenByUserId).toHaveBeenCalled(),
+      );
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(mockEmailService.sendVerificationEmail).not.toHaveBeenCalled();
+    });
+
+    it("should ignore already verified accounts", async () => {
+      (mockUserRepository.getByEmail as any).mockResolvedValue({
+        ...mockUser,
+        account: { ...mockUser.account, isVerified: true },
+      });
+
+      await authService.resendVerificationEmail("user@example.com");
+
+      expect(mockTokenRepository.saveActivationToken).not.toHaveBeenCalled();
+    });
+
+    it("should answer without waiting for the token to be stored and emailed", async () => {
+      (mockUserRepository.getByEmail as any).mockResolvedValue(unverifiedUser);
+      (mockTokenRepository.findActivationTokenByUserId as any).mockResolvedValue(null);
+      (mockTokenRepository.saveActivationToken as any).mockReturnValue(new Promise(() => {}));
+
+      await expect(
+        authService.resendVerificationEmail("user@example.com"),
+      ).resolves.toBeUndefined();
+      expect(mockEmailService.sendVerificationEmail).not.toHaveBeenCalled();
+    });
+  });
+});
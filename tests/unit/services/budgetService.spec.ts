@@ -0,0 +1,171 @@
+import { vi, describe, beforeEach, expect, it } from "vitest";
+import { BudgetService, ExchangeRateService } from "../../../src/application/services";
+import type {
+  IBudgetRepository,
+  ICategoryRepository,
+  IExchangeRateRepository,
+  ITransactionRepository,
+  IUserRepository,
+  TransactionTotalsQuery,
+} from "../../../src/core/interfaces";
+import { Budget, Category, type CategoryKind } from "../../../src/core/entities";
+
+const USER_ID = "user-id-123";
+
+const makeCategory = (
+  id: string,
+  parentId: string | null = null,
+  kind: CategoryKind = "expense",
+): Category =>
+  Category.fromStorage({
+    id,
+    userId: USER_ID,
+    name: `Category ${id}`,
+    kind,
+    parentId,
+    color: null,
+    icon: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+type StoredBudget = Parameters<typeof Budget.fromStorage>[0];
+
+const makeBudget = (overrides: Partial<StoredBudget> = {}) =>
+  Budget.fromStorage({
+    id: "budget-1",
+    userId: USER_ID,
+    categoryId: "food",
+    amount: 400,
+    currency: "USD",
+    period: "monthly",
+    startDate: new Date("2026-01-10T00:00:00Z"),
+    rollover: false,
+    alertThresholds: [80, 100],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+describe("BudgetService", () => {
+  let mockBudgetRepository: IBudgetRepository;
+  let mockTransactionRepository: ITransactionRepository;
+  let budgetService: BudgetService;
+  // spending per month ("YYYY-MM") and category
+  let spending: Record<string, Record<string, number>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    spending = {};
+
+    mockBudgetRepository = {
+      getById: vi.fn(),
+      getByUserId: vi.fn(),
+      getByCategoryAndPeriod: vi.fn().mockResolvedValue(null),
+      save: vi.fn(async (budget: Budget) => budget),
+      update: vi.fn(async (budget: Budget) => budget),
+      delete: vi.fn(),
+    };
+
+    mockTransactionRepository = {
+      sumByCurrency: vi.fn(async (query: TransactionTotalsQuery) => {
+        const month = spending[query.from.toISOString().slice(0, 7)] ?? {};
+        const amount = query.categoryIds.reduce((sum, id) => sum + (month[id] ?? 0), 0);
+        return amount > 0 ? [{ currency: "USD", amount }] : [];
+      }),
+    } as unknown as ITransactionRepository;
+
+    const mockCategoryRepository = {
+      getById: vi.fn(async (id: string) =>
+        makeCategory(id, null, id === "salary" ? "income" : "expense"),
+      ),
+      // food -> groceries
+      getByUserId: vi.fn().mockResolvedValue([
+        makeCategory("food"),
+        makeCategory("groceries", "food"),
+        makeCategory("travel"),
+      ]),
+    } as unknown as ICategoryRepository;
+
+    budgetService = new BudgetService(
+      mockBudgetRepository,
+      mockCategoryRepository,
+      mockTransactionRepository,
+      { getById: vi.fn().mockResolvedValue({ baseCurrency: "USD" }) } as unknown as IUserRepository,
+      new ExchangeRateService({} as IExchangeRateRepository),
+    );
+  });
+
+  describe("createBudget", () => {
+    it("should reject a second budget for the same category and period", async () => {
+      (mockBudgetRepository.getByCategoryAndPeriod as any).mockResolvedValue(makeBudget());
+
+      await expect(
+        budgetService.createBudget({ categoryId: "food", amount: 400, period: "monthly" }, USER_ID),
+      ).rejects.toThrow("already exists");
+      expect(mockBudgetRepository.save).not.toHaveBeenCalled();
+    });
+
+    it("should reject income categories", async () => {
+      await expect(
+        budgetService.createBudget(
+          { categoryId: "salary", amount: 400, period: "monthly" },
+          USER_ID,
+        ),
+      ).rejects.toThrow("expense categories");
+    });
+  });
+
+  describe("fetchBudgetStatus", () => {
+    it("should count subcategory spending and flag crossed thresholds", async () => {
+      (mockBudgetRepository.getById as any).mockResolvedValue(makeBudget());
+      spending["2026-03"] = { food: 150, groceries: 180, travel: 500 };
+
+      const status = await budgetService.fetchBudgetStatus(
+        "budget-1",
+        USER_ID,
+        new Date("2026-03-15T00:00:00Z"),
+      );
+
+      expect(status).toMatchObject({
+        periodStart: new Date("2026-03-01T00:00:00Z"),
+        periodEnd: new Date("2026-04-01T00:00:00Z"),
+        rolledOver: 0,
+        spent: 330,
+        remaining: 70,
+        percentage: 82.5,
+        thresholdsCrossed: [80],
+        status: "warning",
+      });
+    });
+
+    it("should roll over unspent amounts without carrying overspending", async () => {
+      (mockBudgetRepository.getById as any).mockResolvedValue(makeBudget({ rollover: true }));
+      // January leaves 100, February overspends, March leaves 50
+      spending["2026-01"] = { food: 300 };
+      spending["2026-02"] = { food: 900 };
+      spending["2026-03"] = { food: 350 };
+      spending["2026-04"] = { food: 460 };
+
+      const status = await budgetService.fetchBudgetStatus(
+        "budget-1",
+        USER_ID,
+        new Date("2026-04-20T00:00:00Z"),
+      );
+
+      expect(status.rolledOver).toBe(50);
+      expect(status.available).toBe(450);
+      expect(status.remaining).toBe(-10);
+      expect(status.status).toBe("exceeded");
+    });
+
+    it("should reject dates before the budget starts", async () => {
+      (mockBudgetRepository.getById as any).mockResolvedValue(makeBudget());
+
+      await expect(
+        budgetService.fetchBudgetStatus("budget-1", USER_ID, new Date("2025-12-31T00:00:00Z")),
+      ).rejects.toThrow("start date");
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { vi, describe, beforeEach, expect, it } from "vitest";
+import { CategoryService } from "../../../src/application/services";
+import type { ICategoryRepository } from "../../../src/core/interfaces";
+import { Category, type CategoryKind } from "../../../src/core/entities";
+
+const USER_ID = "user-id-123";
+
+const makeCategory = (
+  id: string,
+  parentId: string | null = null,
+  kind: CategoryKind = "expense",
+): Category =>
+  Category.fromStorage({
+    id,
+    userId: USER_ID,
+    name: `Category ${id}`,
+    kind,
+    parentId,
+    color: null,
+    icon: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+describe("CategoryService", () => {
+  let mockCategoryRepository: ICategoryRepository;
+  let categoryService: CategoryService;
+  let stored: Map<string, Category>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    // food -> groceries -> fruit
+    stored = new Map([
+      ["food", makeCategory("food")],
+      ["groceries", makeCategory("groceries", "food")],
+      ["fruit", makeCategory("fruit", "groceries")],
+      ["salary", makeCategory("salary", null, "income")],
+    ]);
+
+    mockCategoryRepository = {
+      getById: vi.fn(async (id: string) => stored.get(id) ?? null),
+      getByName: vi.fn().mockResolvedValue(null),
+      getByUserId: vi.fn(),
+      save: vi.fn(async (category: Category) => category),
+      update: vi.fn(async (category: Category) => category),
+      delete: vi.fn(),
+      createDefaults: vi.fn(),
+      countUsage: vi.fn().mockResolvedValue({ transactions: 0, recurring: 0, children: 0 }),
+    };
+
+    categoryService = new CategoryService(mockCategoryRepository);
+  });
+
+  describe("createCategory", () => {
+    it("should reject a name that already exists for the user", async () => {
+      (mockCategoryRepository.getByName as any).mockResolvedValue(stored.get("food"));
+
+      await expect(
+        categoryService.createCategory({ name: " category  FOOD ", kind: "expense" }, USER_ID),
+      ).rejects.toThrow("already exists");
+      expect(mockCategoryRepository.save).not.toHaveBeenCalled();
+    });
+
+    it("should reject a parent of a different kind", async () => {
+      await expect(
+        categoryService.createCategory(
+          { name: "Bonus", kind: "expense", parentId: "salary" },
+          USER_ID,
+        ),
+      ).rejects.toThrow("same kind");
+    });
+  });
+
+  describe("updateCategory", () => {
+    it("should reject moving a category under one of its descendants", async () => {
+      await expect(
+        categoryService.updateCategory("food", { parentId: "fruit" }, USER_ID),
+      ).rejects.toThrow("cannot be nested");
+      expect(mockCategoryRepository.update).not.toHaveBeenCalled();
+    });
+
+    it("should reject making a category its own parent", async () => {
+      await expect(
+        categoryService.updateCategory("food", { parentId: "food" }, USER_ID),
+      ).rejects.toThrow("cannot be nested");
+    });
+
+    it("should allow moving a category to the top level", async () => {
+      const result = await categoryService.updateCategory(
+        "groceries",
+        { parentId: null },
+        USER_ID,
+      );
+
+      expect(result.parentId).toBeNull();
+    });
+  });
+
+  describe("deleteCategory", () => {
+    it("should refuse to delete a category that is still in use", async () => {
+      (mockCategoryRepository.countUsage as any).mockResolvedValue({
+        transactions: 3,
+        recurring: 0,
+        children: 0,
+      });
+
+      await expect(categoryService.deleteCategory("food", USER_ID)).rejects.toThrow(
+        "used by existing transactions",
+      );
+      expect(mockCategoryRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+});
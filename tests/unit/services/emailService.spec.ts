@@ -1,5 +1,12 @@
-import { describe, it, expect, vi } from "vitest";
-import "../../../src/services/emailService";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { emailService } from "../../../src/infrastructure/services/emailService";
+import { ENVIRONMENT_CONFIG } from "@config";
+
+const { sendMail } = vi.hoisted(() => ({ sendMail: vi.fn() }));
+
+vi.mock("nodemailer", () => ({
+  default: { createTransport: vi.fn(() => ({ sendMail })) },
+}));
 
 describe("Email Service", () => {
   describe("sendVerificationEmail", () => {
@@ -15,6 +22,42 @@ describe("Email Service", () => {
     it.todo("should handle send failures");
   });
 
+  describe("sendAccountLockedEmail", () => {
+    const lockedUntil = new Date("2026-10-19T12:15:00Z");
+
+    beforeEach(() => {
+      sendMail.mockReset().mockResolvedValue(undefined);
+    });
+
+    it("should send an unlock link with the lockout end time", async () => {
+      await emailService({} as any).sendAccountLockedEmail(
+        "user@example.com",
+        "unlock-token",
+        lockedUntil,
+      );
+
+      const [message] = sendMail.mock.calls[0];
+      expect(message.to).toBe("user@example.com");
+      expect(message.subject).toBe("Sign-in to your ExpenseIt account has been paused");
+      expect(message.text).toContain(
+        `${ENVIRONMENT_CONFIG.APP_BASE_URL}/api/auth/unlock?token=unlock-token`,
+      );
+      expect(message.text).toContain("2026-10-19T12:15:00.000Z");
+    });
+
+    it("should handle send failures", async () => {
+      sendMail.mockRejectedValue(new Error("SMTP unavailable"));
+
+      await expect(
+        emailService({} as any).sendAccountLockedEmail(
+          "user@example.com",
+          "unlock-token",
+          lockedUntil,
+        ),
+      ).rejects.toThrow("SMTP unavailable");
+    });
+  });
+
   describe("sendNotificationEmail", () => {
     it.todo("should send notification email with custom subject and message");
     it.todo("should handle send failures");
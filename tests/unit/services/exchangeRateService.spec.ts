@@ -0,0 +1,87 @@
+import { vi, describe, beforeEach, expect, it } from "vitest";
+import { ExchangeRateService } from "../../../src/application/services";
+import type { ExchangeRate, IExchangeRateRepository } from "../../../src/core/interfaces";
+
+// EUR-based snapshots, as published by most reference-rate sources
+const STORED_RATES: ExchangeRate[] = [
+  { baseCurrency: "EUR", quoteCurrency: "USD", rate: 1.1, effectiveDate: "2026-01-01" },
+  { baseCurrency: "EUR", quoteCurrency: "GBP", rate: 0.8, effectiveDate: "2026-01-01" },
+  { baseCurrency: "EUR", quoteCurrency: "USD", rate: 1.2, effectiveDate: "2026-02-01" },
+];
+
+describe("ExchangeRateService", () => {
+  let mockExchangeRateRepository: IExchangeRateRepository;
+  let exchangeRateService: ExchangeRateService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockExchangeRateRepository = {
+      findLatest: vi.fn(async (base: string, quote: string, onOrBefore: string) => {
+        const matches = STORED_RATES.filter(
+          (rate) =>
+            rate.baseCurrency === base &&
+            rate.quoteCurrency === quote &&
+            rate.effectiveDate <= onOrBefore,
+        ).sort((a, b) => b.effectiveDate.localeCompare(a.effectiveDate));
+        return matches[0] ?? null;
+      }),
+      find: vi.fn(),
+      upsertMany: vi.fn(async (rates: ExchangeRate[]) => rates.length),
+    };
+
+    exchangeRateService = new ExchangeRateService(mockExchangeRateRepository);
+  });
+
+  describe("getRate", () => {
+    it("should return 1 for the same currency without a lookup", async () => {
+      expect(await exchangeRateService.getRate("GBP", "GBP", new Date("2026-01-15"))).toBe(1);
+      expect(mockExchangeRateRepository.findLatest).not.toHaveBeenCalled();
+    });
+
+    it("should use the latest direct rate on or before the date", async () => {
+      expect(await exchangeRateService.getRate("EUR", "USD", new Date("2026-01-15"))).toBe(1.1);
+      expect(await exchangeRateService.getRate("EUR", "USD", new Date("2026-02-15"))).toBe(1.2);
+    });
+
+    it("should invert the opposite pair", async () => {
+      expect(await exchangeRateService.getRate("GBP", "EUR", new Date("2026-01-15"))).toBe(1.25);
+    });
+
+    it("should cross-convert through the pivot currency", async () => {
+      const rate = await exchangeRateService.getRate("GBP", "USD", new Date("2026-01-15"));
+      expect(rate).toBeCloseTo(1.375, 10);
+    });
+
+    it("should return null when no rate was in effect yet", async () => {
+      expect(await exchangeRateService.getRate("EUR", "USD", new Date("2025-12-31"))).toBeNull();
+    });
+  });
+
+  describe("createConverter", () => {
+    it("should round converted amounts and reuse rates for the same day", async () => {
+      const convert = exchangeRateService.createConverter("USD");
+
+      const first = await convert(10, "EUR", new Date("2026-01-10T08:00:00.000Z"));
+      const second = await convert(33.33, "EUR", new Date("2026-01-10T20:00:00.000Z"));
+
+      expect(first).toEqual({ amount: 11, rate: 1.1 });
+      expect(second?.amount).toBe(36.66);
+      expect(mockExchangeRateRepository.findLatest).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("importRates", () => {
+    it("should store one rate per quoted currency", async () => {
+      const result = await exchangeRateService.importRates([
+        { base: "EUR", date: "2026-03-01", rates: { USD: 1.15, GBP: 0.85 } },
+      ]);
+
+      expect(result.imported).toBe(2);
+      expect(mockExchangeRateRepository.upsertMany).toHaveBeenCalledWith([
+        { baseCurrency: "EUR", quoteCurrency: "USD", rate: 1.15, effectiveDate: "2026-03-01" },
+        { baseCurrency: "EUR", quoteCurrency: "GBP", rate: 0.85, effectiveDate: "2026-03-01" },
+      ]);
+    });
+  });
+});
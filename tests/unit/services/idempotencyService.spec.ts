@@ -0,0 +1,119 @@
+import { vi, describe, beforeEach, expect, it } from "vitest";
+import { IdempotencyService } from "../../../src/application/services";
+import type { IdempotencyRecord, IIdempotencyKeyRepository } from "../../../src/core/interfaces";
+import { ConflictError, UnprocessableEntityError } from "../../../src/application/errors";
+
+const USER_ID = "user-id-123";
+const KEY = "5f2b8c4e-9a1d-4e3f-b6c7-0d8e9f1a2b3c";
+const RESPONSE = { status: 201, headers: { ETag: '"1"' }, body: { ok: true } };
+
+const makeRecord = (overrides: Partial<IdempotencyRecord> = {}): IdempotencyRecord => ({
+  userId: USER_ID,
+  key: KEY,
+  requestHash: "hash-a",
+  response: RESPONSE,
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  createdAt: new Date(),
+  ...overrides,
+});
+
+describe("IdempotencyService", () => {
+  let mockIdempotencyKeyRepository: IIdempotencyKeyRepository;
+  let idempotencyService: IdempotencyService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockIdempotencyKeyRepository = {
+      find: vi.fn().mockResolvedValue(null),
+      claim: vi.fn().mockResolvedValue(true),
+      complete: vi.fn(),
+      release: vi.fn(),
+      deleteExpired: vi.fn().mockResolvedValue(0),
+    };
+
+    idempotencyService = new IdempotencyService(mockIdempotencyKeyRepository);
+  });
+
+  describe("begin", () => {
+    it("should claim a new key", async () => {
+      const stored = await idempotencyService.begin(USER_ID, KEY, "hash-a");
+
+      expect(stored).toBeNull();
+      expect(mockIdempotencyKeyRepository.claim).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: USER_ID, key: KEY, requestHash: "hash-a" }),
+      );
+    });
+
+    it("should replay the response to a repeated request", async () => {
+      (mockIdempotencyKeyRepository.find as any).mockResolvedValue(makeRecord());
+
+      const stored = await idempotencyService.begin(USER_ID, KEY, "hash-a");
+
+      expect(stored).toEqual(RESPONSE);
+      expect(mockIdempotencyKeyRepository.claim).not.toHaveBeenCalled();
+    });
+
+    it("should refuse a key reused for a different request", async () => {
+      (mockIdempotencyKeyRepository.find as any).mockResolvedValue(makeRecord());
+
+      await expect(idempotencyService.begin(USER_ID, KEY, "hash-b")).rejects.toThrow(
+        UnprocessableEntityError,
+      );
+    });
+
+    it("should refuse a repeat while the first request is in progress", async () => {
+      (mockIdempotencyKeyRepository.find as any).mockResolvedValue(
+        makeRecord({ response: null }),
+      );
+
+      await expect(idempotencyService.begin(USER_ID, KEY, "hash-a")).rejects.toThrow(
+        ConflictError,
+      );
+    });
+
+    it("should report a key claimed concurrently as in progress", async () => {
+      (mockIdempotencyKeyRepository.find as any)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(makeRecord({ response: null }));
+      (mockIdempotencyKeyRepository.claim as any).mockResolvedValue(false);
+
+      await expect(idempotencyService.begin(USER_ID, KEY, "hash-a")).rejects.toThrow(
+        ConflictError,
+      );
+    });
+
+    it("should claim an expired key again", async () => {
+      (mockIdempotencyKeyRepository.find as any).mockResolvedValue(
+        makeRecord({ requestHash: "hash-b", expiresAt: new Date(Date.now() - 1000) }),
+      );
+
+      const stored = await idempotencyService.begin(USER_ID, KEY, "hash-a");
+
+      expect(stored).toBeNull();
+      expect(mockIdempotencyKeyRepository.release).toHaveBeenCalledWith(USER_ID, KEY);
+      expect(mockIdempotencyKeyRepository.claim).toHaveBeenCalled();
+    });
+
+    it("should take over a key whose request never finished", async () => {
+      (mockIdempotencyKeyRepository.find as any).mockResolvedValue(
+        makeRecord({ response: null, createdAt: new Date(Date.now() - 10 * 60 * 1000) }),
+      );
+
+      const stored = await idempotencyService.begin(USER_ID, KEY, "hash-a");
+
+      expect(stored).toBeNull();
+      expect(mockIdempotencyKeyRepository.release).toHaveBeenCalledWith(USER_ID, KEY);
+    });
+  });
+
+  describe("purgeExpired", () => {
+    it("should delete the keys that expired by the given time", async () => {
+      const now = new Date();
+      (mockIdempotencyKeyRepository.deleteExpired as any).mockResolvedValue(3);
+
+      await expect(idempotencyService.purgeExpired(now)).resolves.toBe(3);
+      expect(mockIdempotencyKeyRepository.deleteExpired).toHaveBeenCalledWith(now);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { vi, describe, beforeEach, expect, it } from "vitest";
+import { LoginThrottleService } from "../../../src/application/services";
+import type { ILoginThrottleRepository, LoginThrottle } from "../../../src/core/interfaces";
+import { hashToken } from "../../../src/application/utils/tokenUtils";
+
+// Defaults: 5 failures per account, 20 per IP address, 15 minute window and lockout, 1s delay
+const USER_ID = "user-id-123";
+const IP = "203.0.113.7";
+const NOW = new Date("2026-10-19T12:00:00Z");
+const minutes = (n: number) => new Date(NOW.getTime() + n * 60 * 1000);
+
+describe("LoginThrottleService", () => {
+  let throttles: Map<string, LoginThrottle & { unlockTokenHash?: string | null }>;
+  let mockRepository: ILoginThrottleRepository;
+  let service: LoginThrottleService;
+
+  beforeEach(() => {
+    throttles = new Map();
+
+    mockRepository = {
+      findMany: vi.fn(async (keys: string[]) =>
+        keys.flatMap((key) => (throttles.has(key) ? [throttles.get(key)!] : [])),
+      ),
+      recordFailure: vi.fn(async (key: string, now: Date, windowStart: Date) => {
+        const existing = throttles.get(key);
+        const failures =
+          existing && existing.lastFailedAt >= windowStart ? existing.failures + 1 : 1;
+        const throttle = {
+          key,
+          failures,
+          lastFailedAt: now,
+          lockedUntil: existing?.lockedUntil ?? null,
+        };
+        throttles.set(key, throttle);
+        return throttle;
+      }),
+      lock: vi.fn(async (key: string, lockedUntil: Date, unlockTokenHash: string | null) => {
+        throttles.set(key, { ...throttles.get(key)!, lockedUntil, unlockTokenHash });
+      }),
+      clear: vi.fn(async (key: string) => {
+        throttles.delete(key);
+      }),
+      consumeUnlockToken: vi.fn(async (unlockTokenHash: string, now: Date) => {
+        for (const throttle of throttles.values()) {
+          if (throttle.unlockTokenHash === unlockTokenHash && throttle.lockedUntil! > now) {
+            throttles.delete(throttle.key);
+            return throttle.key;
+          }
+        }
+        return null;
+      }),
+    };
+
+    service = new LoginThrottleService(mockRepository);
+  });
+
+  const fail = async (times: number) => {
+    for (let i = 0; i < times; i++) {
+      await service.recordFailure(USER_ID, IP, NOW);
+    }
+  };
+
+  it("should delay failed attempts progressively after the first", async () => {
+    const delays = [];
+    for (let i = 0; i < 4; i++) {
+      delays.push((await service.recordFailure(USER_ID, IP, NOW)).delayMs);
+    }
+
+    expect(delays).toEqual([0, 1000, 2000, 4000]);
+  });
+
+  it("should lock the account on the fifth failure and hand out an unlock token", async () => {
+    await fail(4);
+    expect(await service.isLocked(USER_ID, undefined, NOW)).toBe(false);
+
+    const result = await service.recordFailure(USER_ID, IP, NOW);
+
+    expect(result.unlockToken).toEqual(expect.any(String));
+    expect(result.lockedUntil).toEqual(minutes(15));
+    expect(mockRepository.lock).toHaveBeenCalledWith(
+      `user:${USER_ID}`,
+      minutes(15),
+      hashToken(result.unlockToken!),
+    );
+    expect(await service.isLocked(USER_ID, undefined, NOW)).toBe(true);
+    expect(await service.isLocked(USER_ID, undefined, minutes(16))).toBe(false);
+  });
+
+  it("should lock the IP address after failures across many accounts", async () => {
+    for (let i = 0; i < 20; i++) {
+      await service.recordFailure(`user-${i}`, IP, NOW);
+    }
+
+    expect(await service.isLocked("another-user", IP, NOW)).toBe(true);
+    expect(await service.isLocked("another-user", "198.51.100.1", NOW)).toBe(false);
+    expect(mockRepository.lock).toHaveBeenCalledWith(`ip:${IP}`, minutes(15), null);
+  });
+
+  it("should start counting again once the window has passed", async () => {
+    await fail(4);
+
+    const result = await service.recordFailure(USER_ID, IP, minutes(20));
+
+    expect(result.delayMs).toBe(0);
+    expect(result.unlockToken).toBeNull();
+  });
+
+  it("should forget the account's failures on reset but keep the IP address's", async () => {
+    await fail(4);
+
+    await service.reset(USER_ID);
+
+    expect(throttles.has(`user:${USER_ID}`)).toBe(false);
+    expect(throttles.get(`ip:${IP}`)?.failures).toBe(4);
+  });
+
+  it("should unlock the account with the emailed token", async () => {
+    await fail(4);
+    const { unlockToken } = await service.recordFailure(USER_ID, IP, NOW);
+
+    await expect(service.unlock(unlockToken!, minutes(1))).resolves.toBe(USER_ID);
+    expect(await service.isLocked(USER_ID, undefined, minutes(1))).toBe(false);
+    await expect(service.unlock(unlockToken!, minutes(1))).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,192 @@
+import { vi, describe, beforeEach, afterEach, expect, it } from "vitest";
+import { MfaService } from "../../../src/application/services";
+import type { IMfaRepository, IUserRepository, TotpFactor } from "../../../src/core/interfaces";
+import { base32Encode } from "../../../src/application/utils/totpUtils";
+import { hashToken } from "../../../src/application/utils/tokenUtils";
+import { decryptSecret, encryptSecret } from "../../../src/application/utils/encryptionUtils";
+import { ENVIRONMENT_CONFIG } from "@config";
+
+const USER_ID = "user-id-123";
+// RFC 6238 SHA-1 secret; at T = 59s its 6-digit code is 287082
+const SECRET = base32Encode(Buffer.from("12345678901234567890", "ascii"));
+const CODE_AT_59S = "287082";
+const ENCRYPTED_SECRET = encryptSecret(SECRET, ENVIRONMENT_CONFIG.TOTP_ENCRYPTION_SECRET, USER_ID);
+
+const mockUser = {
+  id: USER_ID,
+  email: "user@example.com",
+  account: { verifyPassword: vi.fn().mockResolvedValue(true) },
+};
+
+describe("MfaService", () => {
+  let factor: TotpFactor | null;
+  let mockMfaRepository: IMfaRepository;
+  let mfaService: MfaService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(59 * 1000);
+
+    factor = {
+      userId: USER_ID,
+      secret: ENCRYPTED_SECRET,
+      confirmedAt: new Date(),
+      lastUsedStep: null,
+    };
+
+    mockMfaRepository = {
+      getTotpFactor: vi.fn(async () => factor),
+      saveTotpFactor: vi.fn(),
+      replaceTotpSecret: vi.fn(),
+      confirmTotpFactor: vi.fn(),
+      useTotpStep: vi.fn().mockResolvedValue(true),
+      deleteTotpFactor: vi.fn(),
+      replaceRecoveryCodes: vi.fn(),
+      consumeRecoveryCode: vi.fn().mockResolvedValue(true),
+      countUnusedRecoveryCodes: vi.fn().mockResolvedValue(10),
+    };
+
+    mfaService = new MfaService(mockMfaRepository, {
+      getById: vi.fn().mockResolvedValue(mockUser),
+    } as unknown as IUserRepository);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("setupTotp", () => {
+    it("should store a pending secret and return it with an otpauth URI", async () => {
+      factor = null;
+
+      const setup = await mfaService.setupTotp(USER_ID);
+
+      const [userId, stored] = (mockMfaRepository.saveTotpFactor as any).mock.calls[0];
+      expect(userId).toBe(USER_ID);
+      expect(stored).not.toContain(setup.secret);
+      expect(decryptSecret(stored, ENVIRONMENT_CONFIG.TOTP_ENCRYPTION_SECRET, USER_ID)).toBe(
+        setup.secret,
+      );
+      expect(setup.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(setup.otpauthUri).toContain(`secret=${setup.secret}`);
+      expect(setup.otpauthUri).toContain("user%40example.com");
+    });
+
+    it("should refuse while two-factor authentication is enabled", async () => {
+      await expect(mfaService.setupTotp(USER_ID)).rejects.toThrow("already enabled");
+    });
+  });
+
+  describe("confirmTotp", () => {
+    beforeEach(() => {
+      factor = { userId: USER_ID, secret: ENCRYPTED_SECRET, confirmedAt: null, lastUsedStep: null };
+    });
+
+    it("should enable the factor and issue hashed recovery codes", async () => {
+      const { recoveryCodes } = await mfaService.confirmTotp(USER_ID, CODE_AT_59S);
+
+      expect(mockMfaRepository.useTotpStep).toHaveBeenCalledWith(USER_ID, 1);
+      expect(mockMfaRepository.confirmTotpFactor).toHaveBeenCalledWith(USER_ID, expect.any(Date));
+      expect(recoveryCodes).toHaveLength(10);
+      expect(recoveryCodes[0]).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/);
+
+      const stored = (mockMfaRepository.replaceRecoveryCodes as any).mock.calls[0][1];
+      expect(stored).toContain(hashToken(recoveryCodes[0].replace("-", "")));
+      expect(stored).not.toContain(recoveryCodes[0]);
+    });
+
+    it("should reject a wrong code", async () => {
+      await expect(mfaService.confirmTotp(USER_ID, "000000")).rejects.toThrow(
+        "Invalid authentication code",
+      );
+      expect(mockMfaRepository.confirmTotpFactor).not.toHaveBeenCalled();
+    });
+
+    it("should require setup to have been started", async () => {
+      factor = null;
+
+      await expect(mfaService.confirmTotp(USER_ID, CODE_AT_59S)).rejects.toThrow(
+        "setup has not been started",
+      );
+    });
+  });
+
+  describe("verifyChallenge", () => {
+    it("should accept a current authenticator code", async () => {
+      await expect(mfaService.verifyChallenge(USER_ID, CODE_AT_59S)).resolves.toBe(true);
+      expect(mockMfaRepository.replaceTotpSecret).not.toHaveBeenCalled();
+    });
+
+    it("should accept a secret stored before encryption and encrypt it", async () => {
+      factor = { userId: USER_ID, secret: SECRET, confirmedAt: new Date(), lastUsedStep: null };
+
+      await expect(mfaService.verifyChallenge(USER_ID, CODE_AT_59S)).resolves.toBe(true);
+
+      const [userId, stored] = (mockMfaRepository.replaceTotpSecret as any).mock.calls[0];
+      expect(userId).toBe(USER_ID);
+      expect(decryptSecret(stored, ENVIRONMENT_CONFIG.TOTP_ENCRYPTION_SECRET, USER_ID)).toBe(
+        SECRET,
+      );
+    });
+
+    it("should refuse a code whose time step was already used", async () => {
+      (mockMfaRepository.useTotpStep as any).mockResolvedValue(false);
+
+      await expect(mfaService.verifyChallenge(USER_ID, CODE_AT_59S)).resolves.toBe(false);
+    });
+
+    it("should consume a recovery code, ignoring case and separators", async () => {
+      await expect(mfaService.verifyChallenge(USER_ID, "K7QPA-3MZXD")).resolves.toBe(true);
+
+      expect(mockMfaRepository.consumeRecoveryCode).toHaveBeenCalledWith(
+        USER_ID,
+        hashToken("k7qpa3mzxd"),
+        expect.any(Date),
+      );
+    });
+
+    it("should refuse every code while the factor is unconfirmed", async () => {
+      factor = { userId: USER_ID, secret: ENCRYPTED_SECRET, confirmedAt: null, lastUsedStep: null };
+
+      await expect(mfaService.verifyChallenge(USER_ID, CODE_AT_59S)).resolves.toBe(false);
+      expect(mockMfaRepository.consumeRecoveryCode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("disable", () => {
+    it("should remove the factor with the password and a code", async () => {
+      await mfaService.disable(USER_ID, "password", CODE_AT_59S);
+
+      expect(mockMfaRepository.deleteTotpFactor).toHaveBeenCalledWith(USER_ID);
+    });
+
+    it("should refuse a wrong password", async () => {
+      mockUser.account.verifyPassword.mockResolvedValueOnce(false);
+
+      await expect(mfaService.disable(USER_ID, "wrong", CODE_AT_59S)).rejects.toThrow(
+        "Invalid password",
+      );
+      expect(mockMfaRepository.deleteTotpFactor).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("regenerateRecoveryCodes", () => {
+    it("should replace the recovery codes", async () => {
+      const { recoveryCodes } = await mfaService.regenerateRecoveryCodes(USER_ID, CODE_AT_59S);
+
+      expect(recoveryCodes).toHaveLength(10);
+      expect(mockMfaRepository.replaceRecoveryCodes).toHaveBeenCalledWith(
+        USER_ID,
+        expect.arrayContaining([hashToken(recoveryCodes[9].replace("-", ""))]),
+      );
+    });
+
+    it("should reject a wrong code", async () => {
+      await expect(mfaService.regenerateRecoveryCodes(USER_ID, "000000")).rejects.toThrow(
+        "Invalid authentication code",
+      );
+      expect(mockMfaRepository.replaceRecoveryCodes).not.toHaveBeenCalled();
+    });
+  });
+});
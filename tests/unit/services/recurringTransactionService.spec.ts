@@ -0,0 +1,154 @@
+import { vi, describe, beforeEach, expect, it } from "vitest";
+import { RecurringTransactionService } from "../../../src/application/services";
+import type { TransactionService } from "../../../src/application/services";
+import type {
+  ICategoryRepository,
+  IRecurringTransactionRepository,
+  IUserRepository,
+} from "../../../src/core/interfaces";
+import { RecurringTransaction } from "../../../src/core/entities";
+
+const USER_ID = "user-id-123";
+
+type StoredRecurring = Parameters<typeof RecurringTransaction.fromStorage>[0];
+
+const makeRecurring = (overrides: Partial<StoredRecurring> = {}) =>
+  RecurringTransaction.fromStorage({
+    id: "recurring-1",
+    userId: USER_ID,
+    amount: 1200,
+    currency: "USD",
+    type: "expense" as any,
+    categoryId: "rent",
+    description: "Rent",
+    frequency: "monthly",
+    interval: 1,
+    startDate: new Date("2026-01-31T09:00:00Z"),
+    endDate: null,
+    maxOccurrences: null,
+    nextOccurrenceIndex: 0,
+    nextRunAt: new Date("2026-01-31T09:00:00Z"),
+    lastOccurrenceAt: null,
+    isPaused: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+describe("RecurringTransactionService", () => {
+  let mockRecurringRepository: IRecurringTransactionRepository;
+  let mockTransactionService: TransactionService;
+  let recurringTransactionService: RecurringTransactionService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockRecurringRepository = {
+      getById: vi.fn(),
+      getByUserId: vi.fn(),
+      findDue: vi.fn(),
+      save: vi.fn(),
+      update: vi.fn(async (recurring: RecurringTransaction) => recurring),
+      advance: vi.fn().mockResolvedValue(true),
+      delete: vi.fn(),
+    };
+
+    mockTransactionService = {
+      createTransaction: vi.fn().mockResolvedValue({}),
+    } as unknown as TransactionService;
+
+    recurringTransactionService = new RecurringTransactionService(
+      mockRecurringRepository,
+      {} as ICategoryRepository,
+      {} as IUserRepository,
+      mockTransactionService,
+    );
+  });
+
+  describe("processDueOccurrences", () => {
+    it("should catch up on every missed occurrence, clamped to month ends", async () => {
+      const recurring = makeRecurring();
+      (mockRecurringRepository.findDue as any).mockResolvedValue([recurring]);
+
+      const result = await recurringTransactionService.processDueOccurrences(
+        new Date("2026-04-15T00:00:00Z"),
+      );
+
+      expect(result).toEqual({ processed: 3, failures: [] });
+      const dates = (mockTransactionService.createTransaction as any).mock.calls.map(
+        (call: any[]) => call[2].occurrenceDate.toISOString(),
+      );
+      expect(dates).toEqual([
+        "2026-01-31T09:00:00.000Z",
+        "2026-02-28T09:00:00.000Z",
+        "2026-03-31T09:00:00.000Z",
+      ]);
+      expect(recurring.nextRunAt?.toISOString()).toBe("2026-04-30T09:00:00.000Z");
+      expect(recurring.lastOccurrenceAt?.toISOString()).toBe("2026-03-31T09:00:00.000Z");
+    });
+
+    it("should stop when another run has already advanced the schedule", async () => {
+      (mockRecurringRepository.findDue as any).mockResolvedValue([makeRecurring()]);
+      (mockRecurringRepository.advance as any).mockResolvedValue(false);
+
+      const result = await recurringTransactionService.processDueOccurrences(
+        new Date("2026-04-15T00:00:00Z"),
+      );
+
+      expect(result.processed).toBe(0);
+      expect(mockTransactionService.createTransaction).toHaveBeenCalledTimes(1);
+    });
+
+    it("should complete the schedule after maxOccurrences", async () => {
+      const recurring = makeRecurring({ maxOccurrences: 2 });
+      (mockRecurringRepository.findDue as any).mockResolvedValue([recurring]);
+
+      const result = await recurringTransactionService.processDueOccurrences(
+        new Date("2026-12-31T00:00:00Z"),
+      );
+
+      expect(result.processed).toBe(2);
+      expect(recurring.isCompleted).toBe(true);
+    });
+
+    it("should report failures without advancing the failed schedule", async () => {
+      (mockRecurringRepository.findDue as any).mockResolvedValue([makeRecurring()]);
+      (mockTransactionService.createTransaction as any).mockRejectedValue(
+        new Error("Category not found"),
+      );
+
+      const result = await recurringTransactionService.processDueOccurrences(
+        new Date("2026-04-15T00:00:00Z"),
+      );
+
+      expect(result.processed).toBe(0);
+      expect(result.failures).toHaveLength(1);
+      expect(mockRecurringRepository.advance).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("resumeRecurringTransaction", () => {
+    it("should continue from the next future occurrence without backfilling", async () => {
+      (mockRecurringRepository.getById as any).mockResolvedValue(makeRecurring({ isPaused: true }));
+
+      const resumed = await recurringTransactionService.resumeRecurringTransaction(
+        "recurring-1",
+        USER_ID,
+        new Date("2026-05-10T00:00:00Z"),
+      );
+
+      expect(resumed.status).toBe("active");
+      expect(resumed.nextRunAt).toEqual(new Date("2026-05-31T09:00:00Z"));
+    });
+  });
+
+  describe("skipNextOccurrence", () => {
+    it("should reject a completed schedule", async () => {
+      (mockRecurringRepository.getById as any).mockResolvedValue(makeRecurring({ nextRunAt: null }));
+
+      await expect(
+        recurringTransactionService.skipNextOccurrence("recurring-1", USER_ID),
+      ).rejects.toThrow("already completed");
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { vi, describe, beforeEach, expect, it } from "vitest";
+import { SigningKeyService } from "../../../src/application/services";
+import type { ISigningKeyRepository, SigningKey } from "../../../src/core/interfaces";
+import { decodeJwtHeader } from "../../../src/api/utils/jwtUtils";
+
+// Defaults: RS256 keys, retired keys verify for a day
+const NOW = new Date("2026-10-19T12:00:00Z");
+const hours = (n: number) => new Date(NOW.getTime() + n * 60 * 60 * 1000);
+// Outlives every clock the tests verify at, so only the keyset decides
+const CLAIMS = { sub: "user-id-123", exp: hours(48).getTime() / 1000 };
+
+describe("SigningKeyService", () => {
+  let keys: SigningKey[];
+  let mockRepository: ISigningKeyRepository;
+  let service: SigningKeyService;
+
+  beforeEach(() => {
+    keys = [];
+
+    mockRepository = {
+      findVerifiable: vi.fn(async (retiredAfter: Date) =>
+        keys
+          .filter((key) => !key.retiredAt || key.retiredAt > retiredAfter)
+          .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()),
+      ),
+      create: vi.fn(async (key) => {
+        // Keys created later in a test are newer, whatever the clock passed to the service
+        const signingKey = {
+          ...key,
+          createdAt: new Date(NOW.getTime() + keys.length),
+          retiredAt: null,
+        };
+        keys.push(signingKey);
+        return signingKey;
+      }),
+      retireAllExcept: vi.fn(async (kid: string, retiredAt: Date) => {
+        const retiring = keys.filter((key) => key.kid !== kid && !key.retiredAt);
+        retiring.forEach((key) => (key.retiredAt = retiredAt));
+        return retiring.length;
+      }),
+      deleteRetiredBefore: vi.fn(async (retiredBefore: Date) => {
+        const count = keys.length;
+        keys = keys.filter((key) => !key.retiredAt || key.retiredAt > retiredBefore);
+        return count - keys.length;
+      }),
+    };
+
+    service = new SigningKeyService(mockRepository);
+  });
+
+  it("should generate the first key when the keyset is empty", async () => {
+    const token = await service.sign(CLAIMS, NOW);
+
+    expect(keys).toHaveLength(1);
+    expect(decodeJwtHeader(token)).toMatchObject({ alg: "RS256", kid: keys[0].kid });
+    await expect(service.verify(token, NOW)).resolves.toMatchObject({ sub: "user-id-123" });
+  });
+
+  it("should sign with the new key after a rotation and still verify the old key's tokens", async () => {
+    const oldToken = await service.sign(CLAIMS, NOW);
+
+    const key = await service.rotate(NOW);
+    const newToken = await service.sign(CLAIMS, NOW);
+
+    expect(decodeJwtHeader(newToken).kid).toBe(key.kid);
+    await expect(service.verify(oldToken, hours(1))).resolves.toMatchObject({
+      sub: "user-id-123",
+    });
+    expect((await service.getJwks(hours(1))).keys.map((jwk) => jwk.kid)).toEqual([
+      key.kid,
+      keys[0].kid,
+    ]);
+  });
+
+  it("should stop verifying a retired key once its retirement period is over", async () => {
+    const oldToken = await service.sign(CLAIMS, NOW);
+    const key = await service.rotate(NOW);
+
+    await expect(service.verify(oldToken, hours(25))).rejects.toThrow(
+      "Token signed with an unknown key",
+    );
+    expect((await service.getJwks(hours(25))).keys.map((jwk) => jwk.kid)).toEqual([key.kid]);
+  });
+
+  it("should delete keys past their retirement period on the next rotation", async () => {
+    await service.rotate(NOW);
+    await service.rotate(hours(1));
+
+    await service.rotate(hours(26));
+
+    expect(keys).toHaveLength(2);
+  });
+
+  it("should pick up a key rotated in by another instance", async () => {
+    await service.sign(CLAIMS, NOW);
+    const otherInstance = new SigningKeyService(mockRepository);
+    await otherInstance.rotate(NOW);
+    const token = await otherInstance.sign(CLAIMS, NOW);
+
+    // Still within the cache, but the unknown key id triggers a reload
+    const verifiedAt = new Date(NOW.getTime() + 10 * 1000);
+    await expect(service.verify(token, verifiedAt)).resolves.toMatchObject({
+      sub: "user-id-123",
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { vi, describe, beforeEach, expect, it } from "vitest";
+import { TagService } from "../../../src/application/services";
+import type { ITagRepository } from "../../../src/core/interfaces";
+import { Tag } from "../../../src/core/entities";
+
+const USER_ID = "user-id-123";
+
+const makeTag = (id: string, name: string): Tag =>
+  Tag.fromStorage({
+    id,
+    userId: USER_ID,
+    name,
+    color: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+describe("TagService", () => {
+  let mockTagRepository: ITagRepository;
+  let tagService: TagService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockTagRepository = {
+      getById: vi.fn(async (id: string) => (id === "business" ? makeTag(id, "Business") : null)),
+      getByName: vi.fn().mockResolvedValue(null),
+      getByUserId: vi.fn(),
+      getOrCreateByNames: vi.fn(),
+      save: vi.fn(async (tag: Tag) => tag),
+      update: vi.fn(async (tag: Tag) => tag),
+      delete: vi.fn(),
+    };
+
+    tagService = new TagService(mockTagRepository);
+  });
+
+  describe("createTag", () => {
+    it("should tidy up the whitespace in the name", async () => {
+      const tag = await tagService.createTag({ name: "  holiday   2026 " }, USER_ID);
+
+      expect(tag).toMatchObject({ name: "holiday 2026", color: null });
+      expect(mockTagRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ normalizedName: "holiday 2026" }),
+      );
+    });
+
+    it("should reject a name that already exists for the user, ignoring case", async () => {
+      (mockTagRepository.getByName as any).mockResolvedValue(makeTag("business", "Business"));
+
+      await expect(tagService.createTag({ name: "BUSINESS" }, USER_ID)).rejects.toThrow(
+        'A tag named "Business" already exists',
+      );
+      expect(mockTagRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("updateTag", () => {
+    it("should allow changing the case of the tag's own name", async () => {
+      (mockTagRepository.getByName as any).mockResolvedValue(makeTag("business", "Business"));
+
+      const tag = await tagService.updateTag("business", { name: "business" }, USER_ID);
+
+      expect(tag.name).toBe("business");
+    });
+
+    it("should reject unknown tags", async () => {
+      await expect(tagService.updateTag("missing", { color: "#FF8800" }, USER_ID)).rejects.toThrow(
+        "Tag not found",
+      );
+    });
+  });
+});
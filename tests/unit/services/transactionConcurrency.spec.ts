@@ -0,0 +1,160 @@
+import { vi, describe, beforeEach, expect, it } from "vitest";
+import {
+  type AttachmentService,
+  ExchangeRateService,
+  TransactionService,
+} from "../../../src/application/services";
+import type {
+  ICategoryRepository,
+  IExchangeRateRepository,
+  ITagRepository,
+  ITransactionHistoryRepository,
+  ITransactionRepository,
+  IUserRepository,
+} from "../../../src/core/interfaces";
+import { Transaction } from "../../../src/core/entities";
+import { ConflictError, PreconditionFailedError } from "../../../src/application/errors";
+import { toETag } from "../../../src/application/utils/etagUtils";
+
+const USER_ID = "user-id-123";
+
+const makeTransaction = (version: number) =>
+  Transaction.fromStorage({
+    id: "t1",
+    userId: USER_ID,
+    amount: 40,
+    currency: "USD",
+    type: "expense" as any,
+    categoryId: "groceries",
+    description: "Groceries",
+    date: new Date("2026-10-01T12:00:00Z"),
+    recurringTransactionId: null,
+    occurrenceDate: null,
+    importBatchId: null,
+    externalId: null,
+    splits: [],
+    tags: [],
+    version,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+describe("TransactionService", () => {
+  let mockTransactionRepository: ITransactionRepository;
+  let transactionService: TransactionService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockTransactionRepository = {
+      getById: vi.fn(async () => makeTransaction(3)),
+      update: vi.fn(async (transaction: Transaction) =>
+        makeTransaction(transaction.version + 1),
+      ),
+      moveToTrash: vi.fn().mockResolvedValue(true),
+    } as unknown as ITransactionRepository;
+
+    transactionService = new TransactionService(
+      mockTransactionRepository,
+      {} as ICategoryRepository,
+      {
+        getById: vi.fn().mockResolvedValue({ baseCurrency: "USD" }),
+      } as unknown as IUserRepository,
+      new ExchangeRateService({} as IExchangeRateRepository),
+      {} as ITagRepository,
+      {} as AttachmentService,
+      {} as ITransactionHistoryRepository,
+    );
+  });
+
+  // The ETag a read of the transaction answers with right now
+  const currentETag = async () =>
+    toETag(3, await transactionService.fetchTransactionById({ id: "t1", userId: USER_ID }));
+
+  describe("updateTransaction", () => {
+    it("should save when If-Match names the current ETag", async () => {
+      const dto = await transactionService.updateTransaction(
+        "t1",
+        { description: "Market" },
+        USER_ID,
+        undefined,
+        await currentETag(),
+      );
+
+      expect(mockTransactionRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ version: 3 }),
+        expect.any(Function),
+      );
+      expect(dto.version).toBe(4);
+    });
+
+    it("should refuse a stale If-Match", async () => {
+      await expect(
+        transactionService.updateTransaction(
+          "t1",
+          { description: "Market" },
+          USER_ID,
+          undefined,
+          '"2"',
+        ),
+      ).rejects.toThrow(PreconditionFailedError);
+      expect(mockTransactionRepository.update).not.toHaveBeenCalled();
+    });
+
+    it("should refuse an If-Match with the current version but another representation", async () => {
+      await expect(
+        transactionService.updateTransaction(
+          "t1",
+          { description: "Market" },
+          USER_ID,
+          undefined,
+          '"3-anything"',
+        ),
+      ).rejects.toThrow(PreconditionFailedError);
+      expect(mockTransactionRepository.update).not.toHaveBeenCalled();
+    });
+
+    it("should report a change saved in between as a failed precondition", async () => {
+      (mockTransactionRepository.update as any).mockResolvedValue(null);
+      const etag = await currentETag();
+
+      await expect(
+        transactionService.updateTransaction(
+          "t1",
+          { description: "Market" },
+          USER_ID,
+          undefined,
+          etag,
+        ),
+      ).rejects.toThrow(PreconditionFailedError);
+    });
+
+    it("should report a change saved in between as a conflict without If-Match", async () => {
+      (mockTransactionRepository.update as any).mockResolvedValue(null);
+
+      await expect(
+        transactionService.updateTransaction("t1", { description: "Market" }, USER_ID),
+      ).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe("deleteTransaction", () => {
+    it("should refuse a stale If-Match", async () => {
+      await expect(
+        transactionService.deleteTransaction("t1", USER_ID, undefined, '"1"'),
+      ).rejects.toThrow(PreconditionFailedError);
+      expect(mockTransactionRepository.moveToTrash).not.toHaveBeenCalled();
+    });
+
+    it("should trash the version the request was checked against", async () => {
+      await transactionService.deleteTransaction("t1", USER_ID, undefined, "*");
+
+      expect(mockTransactionRepository.moveToTrash).toHaveBeenCalledWith(
+        "t1",
+        expect.any(Date),
+        3,
+        expect.any(Function),
+      );
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { vi, describe, beforeEach, expect, it } from "vitest";
+import {
+  type AttachmentService,
+  ExchangeRateService,
+  TransactionService,
+} from "../../../src/application/services";
+import type {
+  ICategoryRepository,
+  IExchangeRateRepository,
+  ITagRepository,
+  ITransactionHistoryRepository,
+  ITransactionRepository,
+  IUserRepository,
+  TransactionQuery,
+} from "../../../src/core/interfaces";
+import { Category, Transaction, type TransactionSplit } from "../../../src/core/entities";
+import type { TransactionExportQueryDto } from "../../../src/application/dtos";
+import { TransactionExportQuerySchema } from "../../../src/application/dtos/transaction";
+
+const USER_ID = "user-id-123";
+
+const GROCERIES = Category.fromStorage({
+  id: "groceries",
+  userId: USER_ID,
+  name: "Groceries",
+  kind: "expense",
+  parentId: null,
+  color: null,
+  icon: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const HOUSEHOLD = Category.fromStorage({
+  id: "household",
+  userId: USER_ID,
+  name: "Household",
+  kind: "expense",
+  parentId: null,
+  color: null,
+  icon: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const makeTransaction = (
+  id: string,
+  amount: number,
+  description: string,
+  date: string,
+  splits: TransactionSplit[] = [],
+) =>
+  Transaction.fromStorage({
+    id,
+    userId: USER_ID,
+    amount,
+    currency: "USD",
+    type: "expense" as any,
+    categoryId: GROCERIES.id!,
+    category: GROCERIES,
+    description,
+    date: new Date(date),
+    recurringTransactionId: null,
+    occurrenceDate: null,
+    importBatchId: null,
+    externalId: null,
+    splits,
+    tags: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+const query = (params: Record<string, string> = {}): TransactionExportQueryDto =>
+  TransactionExportQuerySchema.parse(params);
+
+const read = async (content: AsyncIterable<string | Buffer>) => {
+  let text = "";
+  for await (const chunk of content) {
+    text += chunk.toString();
+  }
+  return text;
+};
+
+describe("TransactionService", () => {
+  let mockTransactionRepository: ITransactionRepository;
+  let transactionService: TransactionService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    // Two pages: the export has to follow the keyset from the first into the second
+    mockTransactionRepository = {
+      findByQuery: vi.fn(async ({ after }: TransactionQuery) =>
+        after
+          ? {
+              transactions: [makeTransaction("t2", 2.5, "=HYPERLINK()", "2026-03-01T12:00:00Z")],
+              hasMore: false,
+            }
+          : {
+              transactions: [makeTransaction("t1", 1234.5, "Shop, Inc.", "2026-03-05T23:30:00Z")],
+              hasMore: true,
+            },
+      ),
+    } as unknown as ITransactionRepository;
+
+    transactionService = new TransactionService(
+      mockTransactionRepository,
+      {} as ICategoryRepository,
+      {
+        getById: vi.fn().mockResolvedValue({
+          baseCurrency: "USD",
+          timezone: "Europe/Berlin",
+          locale: "en-GB",
+        }),
+      } as unknown as IUserRepository,
+      new ExchangeRateService({} as IExchangeRateRepository),
+      {} as ITagRepository,
+      {} as AttachmentService,
+      {} as ITransactionHistoryRepository,
+    );
+  });
+
+  describe("exportTransactions", () => {
+    it("should stream every page as CSV in the user's locale and time zone", async () => {
+      const file = await transactionService.exportTransactions({
+        userId: USER_ID,
+        query: query({ columns: "date,description,category,amount" }),
+      });
+
+      expect(file.contentType).toBe("text/csv; charset=utf-8");
+      expect(file.fileName).toMatch(/^transactions-\d{4}-\d{2}-\d{2}\.csv$/);
+      expect(await read(file.content)).toBe(
+        "\uFEFFDate,Description,Category,Amount\r\n" +
+          '06/03/2026,"Shop, Inc.",Groceries,1234.50\r\n' +
+          "01/03/2026,'=HYPERLINK(),Groceries,2.50\r\n",
+      );
+
+      expect(mockTransactionRepository.findByQuery).toHaveBeenCalledTimes(2);
+      expect((mockTransactionRepository.findByQuery as any).mock.calls[1][0]).toMatchObject({
+        sort: { field: "date", direction: "desc" },
+        limit: 500,
+        after: { id: "t1", value: new Date("2026-03-05T23:30:00Z") },
+      });
+    });
+
+    it("should separate cells with semicolons for locales with a decimal comma", async () => {
+      const file = await transactionService.exportTransactions({
+        userId: USER_ID,
+        query: query({ columns: "date,amount", locale: "de-DE", timezone: "UTC" }),
+      });
+
+      expect(await read(file.content)).toBe(
+        "\uFEFFDate;Amount\r\n05.03.2026;1234,50\r\n01.03.2026;2,50\r\n",
+      );
+    });
+
+    it("should write JSON with ISO days and plain numbers", async () => {
+      const file = await transactionService.exportTransactions({
+        userId: USER_ID,
+        query: query({ format: "json", columns: "id,date,amount,convertedAmount" }),
+      });
+
+      expect(JSON.parse(await read(file.content))).toEqual([
+        { id: "t1", date: "2026-03-06", amount: 1234.5, convertedAmount: 1234.5 },
+        { id: "t2", date: "2026-03-01", amount: 2.5, convertedAmount: 2.5 },
+      ]);
+    });
+
+    it("should write one row per line of a split transaction", async () => {
+      (mockTransactionRepository.findByQuery as any).mockResolvedValueOnce({
+        transactions: [
+          makeTransaction("t3", 30, "Supermarket", "2026-03-02T10:00:00Z", [
+            { categoryId: GROCERIES.id!, category: GROCERIES, amount: 18, note: null },
+            { categoryId: HOUSEHOLD.id!, category: HOUSEHOLD, amount: 12, note: "Detergent" },
+          ]),
+        ],
+        hasMore: false,
+      });
+
+      const file = await transactionService.exportTransactions({
+        userId: USER_ID,
+        query: query({ format: "json", columns: "id,category,amount,convertedAmount,note" }),
+      });
+
+      expect(JSON.parse(await read(file.content))).toEqual([
+        { id: "t3", category: "Groceries", amount: 18, convertedAmount: 18, note: null },
+        { id: "t3", category: "Household", amount: 12, convertedAmount: 12, note: "Detergent" },
+      ]);
+    });
+
+    it("should reject unknown columns", () => {
+      expect(TransactionExportQuerySchema.safeParse({ columns: "date,balance" }).success).toBe(
+        false,
+      );
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import { vi, describe, beforeEach, expect, it } from "vitest";
+import {
+  type AttachmentService,
+  ExchangeRateService,
+  TransactionService,
+} from "../../../src/application/services";
+import type {
+  AuditContext,
+  ICategoryRepository,
+  IExchangeRateRepository,
+  ITagRepository,
+  ITransactionHistoryRepository,
+  ITransactionRepository,
+  IUserRepository,
+  TransactionHistoryEntry,
+  TransactionHistoryRecorder,
+} from "../../../src/core/interfaces";
+import { Category, Tag, Transaction } from "../../../src/core/entities";
+
+const USER_ID = "user-id-123";
+
+const CONTEXT: AuditContext = {
+  actorId: USER_ID,
+  ipAddress: "203.0.113.7",
+  userAgent: "ExpenseIt/1.0",
+};
+
+const makeCategory = (id: string) =>
+  Category.fromStorage({
+    id,
+    userId: USER_ID,
+    name: id,
+    kind: "expense",
+    parentId: null,
+    color: null,
+    icon: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+const makeTag = (name: string) =>
+  Tag.fromStorage({
+    id: `tag-${name}`,
+    userId: USER_ID,
+    name,
+    color: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+const makeTransaction = (overrides: { amount?: number; description?: string } = {}) =>
+  Transaction.fromStorage({
+    id: "t1",
+    userId: USER_ID,
+    amount: overrides.amount ?? 40,
+    currency: "USD",
+    type: "expense" as any,
+    categoryId: "groceries",
+    category: makeCategory("groceries"),
+    description: overrides.description ?? "Groceries",
+    date: new Date("2026-10-01T12:00:00Z"),
+    recurringTransactionId: null,
+    occurrenceDate: null,
+    importBatchId: null,
+    externalId: null,
+    splits: [],
+    tags: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+const makeEntry = (version: number): TransactionHistoryEntry => ({
+  id: `entry-${version}`,
+  transactionId: "t1",
+  version,
+  action: "created",
+  changes: {},
+  snapshot: {
+    amount: 25,
+    currency: "EUR",
+    type: "expense",
+    categoryId: "household",
+    description: "Cleaning supplies",
+    date: "2026-09-30T08:00:00.000Z",
+    splits: [],
+    tags: ["home"],
+    deletedAt: null,
+  },
+  actorId: USER_ID,
+  ipAddress: null,
+  userAgent: null,
+  createdAt: new Date(),
+});
+
+describe("TransactionService", () => {
+  let mockTransactionRepository: ITransactionRepository;
+  let mockHistoryRepository: ITransactionHistoryRepository;
+  let transactionService: TransactionService;
+  // The entries the repository was given to write along with each change
+  let recorded: NonNullable<ReturnType<TransactionHistoryRecorder>>[];
+
+  const saveWith = (saved: Transaction, history: TransactionHistoryRecorder) => {
+    const entry = history(saved);
+    if (entry) {
+      recorded.push(entry);
+    }
+    return saved;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    recorded = [];
+
+    mockTransactionRepository = {
+      getById: vi.fn(async (id: string) => (id === "t1" ? makeTransaction() : null)),
+      getTrashedById: vi.fn().mockResolvedValue(null),
+      save: vi.fn(async (transaction: Transaction, history: TransactionHistoryRecorder) =>
+        saveWith(transaction, history),
+      ),
+      update: vi.fn(async (transaction: Transaction, history: TransactionHistoryRecorder) =>
+        saveWith(transaction, history),
+      ),
+      moveToTrash: vi.fn(
+        async (
+          _id: string,
+          deletedAt: Date,
+          _version: number,
+          history: TransactionHistoryRecorder,
+        ) => {
+          const trashed = makeTransaction();
+          trashed.deletedAt = deletedAt;
+          saveWith(trashed, history);
+          return true;
+        },
+      ),
+    } as unknown as ITransactionRepository;
+
+    mockHistoryRepository = {
+      getByTransactionId: vi.fn().mockResolvedValue([makeEntry(1)]),
+      getByVersion: vi.fn(async (_id: string, version: number) =>
+        version === 1 ? makeEntry(1) : null,
+      ),
+    } as unknown as ITransactionHistoryRepository;
+
+    transactionService = new TransactionService(
+      mockTransactionRepository,
+      {
+        getById: vi.fn(async (id: string) => makeCategory(id)),
+      } as unknown as ICategoryRepository,
+      {
+        getById: vi.fn().mockResolvedValue({ baseCurrency: "USD" }),
+      } as unknown as IUserRepository,
+      new ExchangeRateService({
+        findLatest: vi.fn().mockResolvedValue(null),
+      } as unknown as IExchangeRateRepository),
+      {
+        getOrCreateByNames: vi.fn(async (names: string[]) => names.map(makeTag)),
+      } as unknown as ITagRepository,
+      {} as AttachmentService,
+      mockHistoryRepository,
+    );
+  });
+
+  describe("createTransaction", () => {
+    it("should record the new transaction with who created it", async () => {
+      await transactionService.createTransaction(
+        {
+          amount: 40,
+          type: "expense",
+          categoryId: "groceries",
+          description: "Groceries",
+          date: new Date("2026-10-01T12:00:00Z"),
+        },
+        USER_ID,
+        undefined,
+        CONTEXT,
+      );
+
+      const [entry] = recorded;
+      expect(entry).toMatchObject({
+        action: "created",
+        actorId: USER_ID,
+        ipAddress: "203.0.113.7",
+        userAgent: "ExpenseIt/1.0",
+      });
+      expect(entry.changes.amount).toEqual({ from: null, to: 40 });
+      expect(entry.snapshot.date).toBe("2026-10-01T12:00:00.000Z");
+    });
+  });
+
+  describe("updateTransaction", () => {
+    it("should record only the fields that changed", async () => {
+      await transactionService.updateTransaction(
+        "t1",
+        { amount: 42.5, description: "Groceries" },
+        USER_ID,
+        CONTEXT,
+      );
+
+      expect(recorded).toEqual([
+        expect.objectContaining({
+          transactionId: "t1",
+          action: "updated",
+          changes: { amount: { from: 40, to: 42.5 } },
+        }),
+      ]);
+    });
+
+    it("should not record an update that changes nothing", async () => {
+      await transactionService.updateTransaction("t1", { description: "Groceries" }, USER_ID);
+
+      expect(mockTransactionRepository.update).toHaveBeenCalled();
+      expect(recorded).toEqual([]);
+    });
+  });
+
+  describe("deleteTransaction", () => {
+    it("should record when the transaction was moved to the trash", async () => {
+      await transactionService.deleteTransaction("t1", USER_ID, CONTEXT);
+
+      const [entry] = recorded;
+      expect(entry.action).toBe("deleted");
+      expect(Object.keys(entry.changes)).toEqual(["deletedAt"]);
+      expect(entry.changes.deletedAt?.from).toBeNull();
+    });
+  });
+
+  describe("fetchHistory", () => {
+    it("should list the history of the transaction", async () => {
+      const history = await transactionService.fetchHistory("t1", USER_ID);
+
+      expect(history).toHaveLength(1);
+      expect(history[0]).toMatchObject({ version: 1, action: "created", actorId: USER_ID });
+      expect(mockHistoryRepository.getByTransactionId).toHaveBeenCalledWith("t1");
+    });
+
+    it("should throw when the transaction does not belong to the user", async () => {
+      await expect(transactionService.fetchHistory("other", USER_ID)).rejects.toThrow(
+        "Transaction not found",
+      );
+      expect(mockHistoryRepository.getByTransactionId).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("revertTransaction", () => {
+    it("should restore the fields of the version and record the revert", async () => {
+      const dto = await transactionService.revertTransaction("t1", 1, USER_ID, CONTEXT);
+
+      expect(dto).toMatchObject({
+        amount: 25,
+        currency: "EUR",
+        categoryId: "household",
+        description: "Cleaning supplies",
+        tags: ["home"],
+      });
+      expect(dto.date).toEqual(new Date("2026-09-30T08:00:00Z"));
+      const [entry] = recorded;
+      expect(entry.action).toBe("reverted");
+      expect(entry.changes.amount).toEqual({ from: 40, to: 25 });
+      expect(entry.changes.tags).toEqual({ from: [], to: ["home"] });
+    });
+
+    it("should throw when the version does not exist", async () => {
+      await expect(transactionService.revertTransaction("t1", 7, USER_ID)).rejects.toThrow(
+        "Transaction version not found",
+      );
+      expect(mockTransactionRepository.update).not.toHaveBeenCalled();
+    });
+  });
+});
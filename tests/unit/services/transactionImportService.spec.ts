@@ -0,0 +1,399 @@
+import { vi, describe, beforeEach, expect, it } from "vitest";
+import { Decimal } from "@prisma/client/runtime/client";
+import {
+  TransactionImportService,
+  type AttachmentService,
+} from "../../../src/application/services";
+import { TransactionMapper } from "../../../src/application/mappers/transaction.mapper";
+import { TransactionImportRepository } from "../../../src/infrastructure/repositories";
+import type {
+  ICategoryRepository,
+  ITransactionImportRepository,
+  IUserRepository,
+} from "../../../src/core/interfaces";
+import { Category, type CategoryKind, type Transaction } from "../../../src/core/entities";
+import type { CsvMappingDto, ImportTransactionsDto } from "../../../src/application/dtos";
+import { CsvMappingSchema, StatementOptionsSchema } from "../../../src/application/dtos/import";
+
+const USER_ID = "user-id-123";
+const GROCERIES_ID = "6f1c2d3e-4a5b-4c6d-8e7f-8091a2b3c4d5";
+const SALARY_ID = "7a2b3c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d";
+
+const makeCategory = (id: string, name: string, kind: CategoryKind): Category =>
+  Category.fromStorage({
+    id,
+    userId: USER_ID,
+    name,
+    kind,
+    parentId: null,
+    color: null,
+    icon: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+const mapping = (overrides: Record<string, unknown> = {}): CsvMappingDto =>
+  CsvMappingSchema.parse({
+    columns: { date: "Date", description: "Details", amount: "Amount", category: "Category" },
+    dateFormat: "DD/MM/YYYY",
+    ...overrides,
+  });
+
+const request = (content: string, overrides: Partial<ImportTransactionsDto> = {}) =>
+  ({
+    content,
+    format: "csv",
+    mapping: mapping(),
+    dryRun: true,
+    skipInvalidRows: false,
+    ...overrides,
+  }) as ImportTransactionsDto;
+
+const STATEMENT = [
+  "Date,Details,Amount,Category",
+  "05/03/2026,Corner shop,-12.50,Groceries",
+  '06/03/2026,"ACME Ltd, March",2500.00,Salary',
+  "31/02/2026,Bad date,-3.00,Groceries",
+  "",
+].join("\n");
+
+// OFX 1.x (SGML): leaf elements are not closed
+const OFX_STATEMENT = `OFXHEADER:100
+DATA:OFXSGML
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>EUR
+<BANKACCTFROM><BANKID>123<ACCTID>9876<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260305120000[-5:EST]<TRNAMT>-12.50<FITID>A1<NAME>Corner shop
+</STMTTRN>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260306<TRNAMT>2500.00<FITID>A2<NAME>ACME Ltd
+</STMTTRN>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260307<TRNAMT>-12.50<FITID>A1<NAME>Corner shop
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+describe("TransactionImportService", () => {
+  let mockImportRepository: ITransactionImportRepository;
+  let mockCategoryRepository: ICategoryRepository;
+  let mockUserRepository: IUserRepository;
+  let mockAttachmentService: AttachmentService;
+  let importService: TransactionImportService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockImportRepository = {
+      createBatch: vi.fn(async (_batch, transactions: Transaction[]) => ({
+        id: "batch-1",
+        userId: USER_ID,
+        source: "csv",
+        fileName: null,
+        transactionCount: transactions.length,
+        createdAt: new Date(),
+      })),
+      findExistingExternalIds: vi.fn().mockResolvedValue([]),
+      getBatchById: vi.fn(),
+      getBatchesByUserId: vi.fn(),
+      getBatchTransactionIds: vi.fn().mockResolvedValue(["transaction-1", "transaction-2"]),
+      deleteBatch: vi.fn().mockResolvedValue(2),
+      getMappingById: vi.fn(),
+      getMappingByName: vi.fn(),
+      getMappingsByUserId: vi.fn(),
+      saveMapping: vi.fn(async (saved) => ({
+        id: "mapping-1",
+        ...saved,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })),
+      deleteMapping: vi.fn(),
+    };
+
+    const categories = [
+      makeCategory(GROCERIES_ID, "Groceries", "expense"),
+      makeCategory(SALARY_ID, "Salary", "income"),
+    ];
+    mockCategoryRepository = {
+      getByUserId: vi.fn().mockResolvedValue(categories),
+    } as unknown as ICategoryRepository;
+    mockUserRepository = {
+      getById: vi.fn().mockResolvedValue({ baseCurrency: "GBP" }),
+    } as unknown as IUserRepository;
+    mockAttachmentService = {
+      deleteTransactionAttachments: vi.fn(),
+    } as unknown as AttachmentService;
+
+    importService = new TransactionImportService(
+      mockImportRepository,
+      mockCategoryRepository,
+      mockUserRepository,
+      mockAttachmentService,
+    );
+  });
+
+  describe("importTransactions", () => {
+    it("should preview every row with its validation errors without storing anything", async () => {
+      const preview = await importService.importTransactions(request(STATEMENT), USER_ID);
+
+      expect(preview).toMatchObject({ dryRun: true, batchId: null, totalRows: 3, validRows: 2 });
+      expect(preview.rows[0]).toEqual({
+        row: 2,
+        transaction: {
+          amount: 12.5,
+          currency: "GBP",
+          type: "expense",
+          categoryId: GROCERIES_ID,
+          description: "Corner shop",
+          date: new Date("2026-03-05T00:00:00Z"),
+        },
+        duplicate: false,
+        errors: [],
+      });
+      expect(preview.rows[1].transaction).toMatchObject({
+        type: "income",
+        categoryId: SALARY_ID,
+        description: "ACME Ltd, March",
+      });
+      expect(preview.rows[2]).toMatchObject({
+        row: 4,
+        transaction: null,
+        errors: [{ field: "date", message: '"31/02/2026" is not a DD/MM/YYYY date' }],
+      });
+      expect(mockImportRepository.createBatch).not.toHaveBeenCalled();
+    });
+
+    it("should refuse to commit a file with invalid rows unless they are skipped", async () => {
+      await expect(
+        importService.importTransactions(request(STATEMENT, { dryRun: false }), USER_ID),
+      ).rejects.toThrow("1 of 3 rows are invalid");
+      expect(mockImportRepository.createBatch).not.toHaveBeenCalled();
+
+      const result = await importService.importTransactions(
+        request(STATEMENT, { dryRun: false, skipInvalidRows: true, fileName: "march.csv" }),
+        USER_ID,
+      );
+
+      expect(result).toMatchObject({ dryRun: false, batchId: "batch-1", validRows: 2 });
+      const [batch, transactions] = (mockImportRepository.createBatch as any).mock.calls[0];
+      expect(batch).toEqual({ userId: USER_ID, source: "csv", fileName: "march.csv" });
+      expect(transactions.map((transaction: Transaction) => transaction.amount)).toEqual([
+        12.5, 2500,
+      ]);
+    });
+
+    // Stands in for the database: amounts come back as Decimal, like from a Decimal(14, 2) column
+    const importIntoDatabase = async (content: string) => {
+      const rows: any[] = [];
+      const tx = {
+        importBatch: {
+          create: vi.fn(async ({ data }) => ({ id: "batch-1", createdAt: new Date(), ...data })),
+        },
+        transaction: {
+          createManyAndReturn: vi.fn(async ({ data }) => {
+            const created = data.map((row: any, index: number) => ({
+              ...row,
+              id: `transaction-${index + 1}`,
+              amount: new Decimal(row.amount),
+              version: 1,
+            }));
+            rows.push(...created);
+            return created;
+          }),
+        },
+        transactionHistory: { createMany: vi.fn() },
+      };
+      const client = { $transaction: (work: (tx: unknown) => unknown) => work(tx) } as any;
+      importService = new TransactionImportService(
+        new TransactionImportRepository(client),
+        mockCategoryRepository,
+        mockUserRepository,
+        mockAttachmentService,
+      );
+
+      await importService.importTransactions(request(content, { dryRun: false }), USER_ID, {
+        actorId: USER_ID,
+        ipAddress: "203.0.113.7",
+        userAgent: null,
+      });
+      return { rows, history: tx.transactionHistory.createMany.mock.calls[0][0].data };
+    };
+
+    it("should store amounts with cents as they were parsed", async () => {
+      const { rows } = await importIntoDatabase(
+        "Date,Details,Amount,Category\n05/03/2026,Interest,£12.50,Salary",
+      );
+
+      expect(rows[0].amount.toString()).toBe("12.5");
+      expect(TransactionMapper.toDomainFromPersistence(rows[0]).amount).toBe(12.5);
+    });
+
+    it("should start the history of each imported transaction with a created entry", async () => {
+      const { history } = await importIntoDatabase(
+        "Date,Details,Amount,Category\n05/03/2026,Interest,12.50,Salary\n06/03/2026,Bonus,100,Salary",
+      );
+
+      expect(history).toEqual([
+        expect.objectContaining({
+          transactionId: "transaction-1",
+          version: 1,
+          action: "created",
+          actorId: USER_ID,
+          ipAddress: "203.0.113.7",
+        }),
+        expect.objectContaining({ transactionId: "transaction-2", version: 1, action: "created" }),
+      ]);
+      expect(history[0].changes.amount).toEqual({ from: null, to: 12.5 });
+      expect(history[1].snapshot.description).toBe("Bonus");
+    });
+
+    it("should read debit and credit columns and fall back to default categories", async () => {
+      const content = "Date,Memo,Out,In\n2026-03-05,Rent,950.00,\n2026-03-06,Refund,,20";
+
+      const preview = await importService.importTransactions(
+        request(content, {
+          mapping: mapping({
+            columns: { date: "Date", description: "Memo", debit: "Out", credit: "In" },
+            dateFormat: "YYYY-MM-DD",
+            expenseCategoryId: GROCERIES_ID,
+          }),
+        }),
+        USER_ID,
+      );
+
+      expect(preview.rows[0].transaction).toMatchObject({
+        amount: 950,
+        type: "expense",
+        categoryId: GROCERIES_ID,
+      });
+      expect(preview.rows[1].errors).toEqual([
+        {
+          field: "categoryId",
+          message: "No category given and no default income category",
+        },
+      ]);
+    });
+
+    it("should reject mapped columns missing from the header", async () => {
+      await expect(
+        importService.importTransactions(request("Date,Details\n05/03/2026,Shop"), USER_ID),
+      ).rejects.toThrow('Column "Amount" was not found in the header row');
+    });
+
+    it("should skip OFX transactions whose FITID was already imported", async () => {
+      (mockImportRepository.findExistingExternalIds as any).mockResolvedValue(["9876:A2"]);
+      const options = StatementOptionsSchema.parse({
+        expenseCategoryId: GROCERIES_ID,
+        incomeCategoryId: SALARY_ID,
+      });
+
+      const result = await importService.importTransactions(
+        request(OFX_STATEMENT, { format: "ofx", mapping: undefined, options, dryRun: false }),
+        USER_ID,
+      );
+
+      expect(mockImportRepository.findExistingExternalIds).toHaveBeenCalledWith(USER_ID, [
+        "9876:A1",
+        "9876:A2",
+      ]);
+      expect(result).toMatchObject({ validRows: 1, invalidRows: 0, duplicateRows: 2 });
+      expect(result.rows.map((row) => row.duplicate)).toEqual([false, true, true]);
+      expect(result.rows[0].transaction).toMatchObject({
+        amount: 12.5,
+        currency: "EUR",
+        type: "expense",
+        categoryId: GROCERIES_ID,
+        date: new Date("2026-03-05T00:00:00Z"),
+      });
+
+      const [batch, transactions] = (mockImportRepository.createBatch as any).mock.calls[0];
+      expect(batch.source).toBe("ofx");
+      expect(transactions.map((transaction: Transaction) => transaction.externalId)).toEqual([
+        "9876:A1",
+      ]);
+    });
+
+    it("should read QIF records and report unreadable values per record", async () => {
+      const content = [
+        "!Type:Bank",
+        "D03/05'26",
+        "T-12.50",
+        "PCorner shop",
+        "LFood:Groceries",
+        "^",
+        "D13/45'26",
+        "TTwelve",
+        "PBroken",
+        "^",
+      ].join("\n");
+
+      const preview = await importService.importTransactions(
+        request(content, { format: "qif", mapping: undefined }),
+        USER_ID,
+      );
+
+      expect(preview.rows[0]).toMatchObject({
+        row: 1,
+        transaction: {
+          amount: 12.5,
+          currency: "GBP",
+          type: "expense",
+          categoryId: GROCERIES_ID,
+          description: "Corner shop",
+          date: new Date("2026-03-05T00:00:00Z"),
+        },
+      });
+      expect(preview.rows[1]).toMatchObject({
+        row: 2,
+        transaction: null,
+        errors: expect.arrayContaining([
+          { field: "date", message: `"13/45'26" is not a MM/DD/YYYY date` },
+          { field: "amount", message: 'Amount "Twelve" is not a number' },
+        ]),
+      });
+    });
+
+    it("should save the mapping when asked to", async () => {
+      const preview = await importService.importTransactions(
+        request(STATEMENT, { saveMappingAs: "My bank" }),
+        USER_ID,
+      );
+
+      expect(preview.mappingId).toBe("mapping-1");
+      expect(mockImportRepository.saveMapping).toHaveBeenCalledWith({
+        userId: USER_ID,
+        name: "My bank",
+        mapping: mapping(),
+      });
+    });
+  });
+
+  describe("undoImport", () => {
+    it("should delete the attachments of the batch's transactions before the transactions", async () => {
+      (mockImportRepository.getBatchById as any).mockResolvedValue({ id: "batch-1" });
+
+      await expect(importService.undoImport("batch-1", USER_ID)).resolves.toBe(2);
+
+      expect(mockAttachmentService.deleteTransactionAttachments).toHaveBeenCalledWith(
+        "transaction-1",
+      );
+      expect(mockAttachmentService.deleteTransactionAttachments).toHaveBeenCalledWith(
+        "transaction-2",
+      );
+      expect(
+        (mockAttachmentService.deleteTransactionAttachments as any).mock.invocationCallOrder[1],
+      ).toBeLessThan((mockImportRepository.deleteBatch as any).mock.invocationCallOrder[0]);
+    });
+
+    it("should only undo the user's own batches", async () => {
+      (mockImportRepository.getBatchById as any).mockResolvedValue(null);
+
+      await expect(importService.undoImport("batch-1", USER_ID)).rejects.toThrow(
+        "Import batch not found",
+      );
+      expect(mockImportRepository.deleteBatch).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { vi, describe, beforeEach, expect, it } from "vitest";
+import {
+  type AttachmentService,
+  ExchangeRateService,
+  TransactionService,
+} from "../../../src/application/services";
+import type {
+  ICategoryRepository,
+  IExchangeRateRepository,
+  ITagRepository,
+  ITransactionHistoryRepository,
+  ITransactionRepository,
+  IUserRepository,
+} from "../../../src/core/interfaces";
+import { Category, Tag, Transaction } from "../../../src/core/entities";
+import { UpdateTransactionSchema } from "../../../src/application/dtos/transaction";
+
+const USER_ID = "user-id-123";
+const GROCERIES = "7d0f3c4e-1a2b-4c5d-8e9f-0a1b2c3d4e5f";
+const HOUSEHOLD = "8e1a4d5f-2b3c-4d6e-9f0a-1b2c3d4e5f60";
+
+const makeCategory = (id: string) =>
+  Category.fromStorage({
+    id,
+    userId: USER_ID,
+    name: id,
+    kind: "expense",
+    parentId: null,
+    color: null,
+    icon: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+const makeTag = (name: string) =>
+  Tag.fromStorage({
+    id: `tag-${name}`,
+    userId: USER_ID,
+    name,
+    color: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+// A split, tagged transaction recorded in a currency other than the user's base currency
+const makeTransaction = () =>
+  Transaction.fromStorage({
+    id: "t1",
+    userId: USER_ID,
+    amount: 30,
+    currency: "USD",
+    type: "expense" as any,
+    categoryId: GROCERIES,
+    category: makeCategory(GROCERIES),
+    description: "Supermarket",
+    date: new Date("2026-03-02T10:00:00Z"),
+    recurringTransactionId: null,
+    occurrenceDate: null,
+    importBatchId: null,
+    externalId: null,
+    splits: [
+      { categoryId: GROCERIES, amount: 18, note: null },
+      { categoryId: HOUSEHOLD, amount: 12, note: null },
+    ],
+    tags: [makeTag("family")],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+describe("TransactionService", () => {
+  let mockTransactionRepository: ITransactionRepository;
+  let transactionService: TransactionService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockTransactionRepository = {
+      getById: vi.fn(async () => makeTransaction()),
+      update: vi.fn(async (transaction: Transaction) => transaction),
+    } as unknown as ITransactionRepository;
+
+    transactionService = new TransactionService(
+      mockTransactionRepository,
+      {
+        getById: vi.fn(async (id: string) => makeCategory(id)),
+      } as unknown as ICategoryRepository,
+      {
+        getById: vi.fn().mockResolvedValue({ baseCurrency: "GBP" }),
+      } as unknown as IUserRepository,
+      new ExchangeRateService({
+        findLatest: vi.fn().mockResolvedValue(null),
+      } as unknown as IExchangeRateRepository),
+      {
+        getOrCreateByNames: vi.fn(async (names: string[]) => names.map(makeTag)),
+      } as unknown as ITagRepository,
+      {} as AttachmentService,
+      {} as ITransactionHistoryRepository,
+    );
+  });
+
+  describe("replaceTransaction", () => {
+    it("should clear the optional fields left out", async () => {
+      const dto = await transactionService.replaceTransaction(
+        "t1",
+        {
+          amount: 30,
+          type: "expense",
+          categoryId: GROCERIES,
+          description: "Supermarket",
+          date: new Date("2026-03-02T10:00:00Z"),
+        },
+        USER_ID,
+      );
+
+      expect(dto.currency).toBe("GBP");
+      expect(dto.splits).toEqual([]);
+      expect(dto.tags).toEqual([]);
+    });
+  });
+
+  describe("updateTransaction", () => {
+    it("should keep the fields a merge patch leaves out", async () => {
+      const dto = await transactionService.updateTransaction(
+        "t1",
+        { description: "Corner shop" },
+        USER_ID,
+      );
+
+      expect(dto).toMatchObject({ description: "Corner shop", currency: "USD", tags: ["family"] });
+      expect(dto.splits).toHaveLength(2);
+    });
+
+    it("should clear the fields a merge patch sets to null", async () => {
+      const dto = await transactionService.updateTransaction(
+        "t1",
+        { currency: null, splits: null, tags: null },
+        USER_ID,
+      );
+
+      expect(dto.currency).toBe("GBP");
+      expect(dto.splits).toEqual([]);
+      expect(dto.tags).toEqual([]);
+    });
+
+    it("should replace the tags with the given list", async () => {
+      const dto = await transactionService.updateTransaction(
+        "t1",
+        { tags: ["holiday", "shared"] },
+        USER_ID,
+      );
+
+      expect(dto.tags).toEqual(["holiday", "shared"]);
+    });
+  });
+});
+
+describe("UpdateTransactionSchema", () => {
+  it("should reject null for a required field", () => {
+    expect(UpdateTransactionSchema.safeParse({ amount: null }).success).toBe(false);
+    expect(UpdateTransactionSchema.safeParse({ description: null }).success).toBe(false);
+  });
+
+  it("should accept null for an optional field", () => {
+    expect(UpdateTransactionSchema.safeParse({ currency: null, tags: null }).success).toBe(true);
+  });
+
+  it("should reject tags together with addTags or removeTags", () => {
+    const result = UpdateTransactionSchema.safeParse({ tags: ["a"], addTags: ["b"] });
+
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,161 @@
+import { vi, describe, beforeEach, expect, it } from "vitest";
+import {
+  type AttachmentService,
+  ExchangeRateService,
+  TransactionService,
+} from "../../../src/application/services";
+import type {
+  ICategoryRepository,
+  IExchangeRateRepository,
+  ITagRepository,
+  ITransactionHistoryRepository,
+  ITransactionRepository,
+  IUserRepository,
+} from "../../../src/core/interfaces";
+import { Category, DomainError, Transaction } from "../../../src/core/entities";
+import type { CreateTransactionDto } from "../../../src/application/dtos";
+
+const USER_ID = "user-id-123";
+
+const makeCategory = (id: string, kind: "income" | "expense") =>
+  Category.fromStorage({
+    id,
+    userId: USER_ID,
+    name: id,
+    kind,
+    parentId: null,
+    color: null,
+    icon: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+const CATEGORIES = [
+  makeCategory("groceries", "expense"),
+  makeCategory("household", "expense"),
+  makeCategory("salary", "income"),
+];
+
+const receipt = (overrides: Partial<CreateTransactionDto> = {}): CreateTransactionDto => ({
+  amount: 30,
+  type: "expense",
+  categoryId: "groceries",
+  description: "Supermarket",
+  date: new Date("2026-03-02T10:00:00Z"),
+  splits: [
+    { categoryId: "groceries", amount: 18.1 },
+    { categoryId: "household", amount: 11.9, note: "Detergent" },
+  ],
+  ...overrides,
+});
+
+describe("TransactionService", () => {
+  let mockTransactionRepository: ITransactionRepository;
+  let transactionService: TransactionService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockTransactionRepository = {
+      getById: vi.fn(),
+      save: vi.fn(async (transaction: Transaction) => transaction),
+      update: vi.fn(async (transaction: Transaction) => transaction),
+    } as unknown as ITransactionRepository;
+
+    transactionService = new TransactionService(
+      mockTransactionRepository,
+      {
+        getById: vi.fn(async (id: string) => CATEGORIES.find((category) => category.id === id)),
+      } as unknown as ICategoryRepository,
+      {
+        getById: vi.fn().mockResolvedValue({ baseCurrency: "USD" }),
+      } as unknown as IUserRepository,
+      new ExchangeRateService({} as IExchangeRateRepository),
+      { getOrCreateByNames: vi.fn().mockResolvedValue([]) } as unknown as ITagRepository,
+      {} as AttachmentService,
+      {} as ITransactionHistoryRepository,
+    );
+  });
+
+  describe("createTransaction", () => {
+    it("should save the split lines with their categories", async () => {
+      const dto = await transactionService.createTransaction(receipt(), USER_ID);
+
+      expect(dto.splits).toEqual([
+        {
+          categoryId: "groceries",
+          category: "groceries",
+          amount: 18.1,
+          convertedAmount: 18.1,
+          note: null,
+        },
+        {
+          categoryId: "household",
+          category: "household",
+          amount: 11.9,
+          convertedAmount: 11.9,
+          note: "Detergent",
+        },
+      ]);
+    });
+
+    it("should reject split lines that do not add up to the amount", async () => {
+      await expect(
+        transactionService.createTransaction(receipt({ amount: 31 }), USER_ID),
+      ).rejects.toThrow(DomainError);
+      expect(mockTransactionRepository.save).not.toHaveBeenCalled();
+    });
+
+    it("should reject a split line whose category does not match the type", async () => {
+      await expect(
+        transactionService.createTransaction(
+          receipt({
+            splits: [
+              { categoryId: "groceries", amount: 20 },
+              { categoryId: "salary", amount: 10 },
+            ],
+          }),
+          USER_ID,
+        ),
+      ).rejects.toThrow('Category "salary" cannot be used for expense transactions');
+    });
+  });
+
+  describe("updateTransaction", () => {
+    it("should keep the split lines consistent with a changed amount", async () => {
+      const existing = Transaction.fromStorage({
+        id: "t1",
+        userId: USER_ID,
+        amount: 30,
+        currency: "USD",
+        type: "expense" as any,
+        categoryId: "groceries",
+        description: "Supermarket",
+        date: new Date("2026-03-02T10:00:00Z"),
+        recurringTransactionId: null,
+        occurrenceDate: null,
+        importBatchId: null,
+        externalId: null,
+        splits: [
+          { categoryId: "groceries", amount: 18, note: null },
+          { categoryId: "household", amount: 12, note: null },
+        ],
+        tags: [],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      (mockTransactionRepository.getById as any).mockResolvedValue(existing);
+
+      await expect(
+        transactionService.updateTransaction("t1", { amount: 40 }, USER_ID),
+      ).rejects.toThrow("Split amounts add up to 30 but the transaction amount is 40");
+
+      const dto = await transactionService.updateTransaction(
+        "t1",
+        { amount: 40, splits: [] },
+        USER_ID,
+      );
+      expect(dto).toMatchObject({ amount: 40, splits: [] });
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { vi, describe, beforeEach, expect, it } from "vitest";
+import {
+  type AttachmentService,
+  ExchangeRateService,
+  TransactionService,
+} from "../../../src/application/services";
+import type {
+  ICategoryRepository,
+  IExchangeRateRepository,
+  ITagRepository,
+  ITransactionHistoryRepository,
+  ITransactionRepository,
+  IUserRepository,
+} from "../../../src/core/interfaces";
+import { Tag, Transaction } from "../../../src/core/entities";
+import { TransactionQuerySchema } from "../../../src/application/dtos/transaction";
+
+const USER_ID = "user-id-123";
+
+const makeTag = (name: string): Tag =>
+  Tag.fromStorage({
+    id: Tag.normalizeName(name),
+    userId: USER_ID,
+    name,
+    color: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+const makeTransaction = (tags: Tag[]) =>
+  Transaction.fromStorage({
+    id: "t1",
+    userId: USER_ID,
+    amount: 120,
+    currency: "USD",
+    type: "expense" as any,
+    categoryId: "travel",
+    description: "Hotel",
+    date: new Date("2026-07-01T12:00:00Z"),
+    recurringTransactionId: null,
+    occurrenceDate: null,
+    importBatchId: null,
+    externalId: null,
+    splits: [],
+    tags,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+describe("TransactionService", () => {
+  let mockTransactionRepository: ITransactionRepository;
+  let mockTagRepository: ITagRepository;
+  let transactionService: TransactionService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockTransactionRepository = {
+      getById: vi.fn(),
+      findByQuery: vi.fn().mockResolvedValue({ transactions: [], hasMore: false }),
+      update: vi.fn(async (transaction: Transaction) => transaction),
+    } as unknown as ITransactionRepository;
+
+    mockTagRepository = {
+      getOrCreateByNames: vi.fn(async (names: string[]) => names.map(makeTag)),
+    } as unknown as ITagRepository;
+
+    transactionService = new TransactionService(
+      mockTransactionRepository,
+      {} as ICategoryRepository,
+      {
+        getById: vi.fn().mockResolvedValue({ baseCurrency: "USD" }),
+      } as unknown as IUserRepository,
+      new ExchangeRateService({} as IExchangeRateRepository),
+      mockTagRepository,
+      {} as AttachmentService,
+      {} as ITransactionHistoryRepository,
+    );
+  });
+
+  describe("updateTransaction", () => {
+    it("should remove and add tags, keeping them sorted by name", async () => {
+      (mockTransactionRepository.getById as any).mockResolvedValue(
+        makeTransaction([makeTag("holiday-2026"), makeTag("reimbursable")]),
+      );
+
+      const dto = await transactionService.updateTransaction(
+        "t1",
+        { removeTags: ["REIMBURSABLE"], addTags: ["business", "holiday-2026"] },
+        USER_ID,
+      );
+
+      expect(dto.tags).toEqual(["business", "holiday-2026"]);
+      expect(mockTagRepository.getOrCreateByNames).toHaveBeenCalledWith(
+        ["business", "holiday-2026"],
+        USER_ID,
+      );
+    });
+
+    it("should leave the tags alone when neither list is given", async () => {
+      (mockTransactionRepository.getById as any).mockResolvedValue(
+        makeTransaction([makeTag("business")]),
+      );
+
+      const dto = await transactionService.updateTransaction("t1", { amount: 99 }, USER_ID);
+
+      expect(dto.tags).toEqual(["business"]);
+      expect(mockTagRepository.getOrCreateByNames).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("fetchTransactions", () => {
+    it("should filter by normalized tag names, repeated or comma-separated", async () => {
+      await transactionService.fetchTransactions({
+        userId: USER_ID,
+        query: TransactionQuerySchema.parse({
+          tag: ["Business, holiday-2026", "business"],
+          tagMatch: "all",
+        }),
+      });
+
+      expect((mockTransactionRepository.findByQuery as any).mock.calls[0][0].filters.tags).toEqual(
+        { names: ["business", "holiday-2026"], match: "all" },
+      );
+    });
+
+    it("should reject an empty tag filter", () => {
+      expect(TransactionQuerySchema.safeParse({ tag: " , " }).success).toBe(false);
+    });
+  });
+});
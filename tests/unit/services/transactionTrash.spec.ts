@@ -0,0 +1,149 @@
+import { vi, describe, beforeEach, expect, it } from "vitest";
+import {
+  type AttachmentService,
+  ExchangeRateService,
+  TransactionService,
+} from "../../../src/application/services";
+import type {
+  ICategoryRepository,
+  IExchangeRateRepository,
+  ITagRepository,
+  ITransactionHistoryRepository,
+  ITransactionRepository,
+  IUserRepository,
+} from "../../../src/core/interfaces";
+import { Transaction } from "../../../src/core/entities";
+
+const USER_ID = "user-id-123";
+
+const makeTransaction = (id: string, deletedAt: Date | null) =>
+  Transaction.fromStorage({
+    id,
+    userId: USER_ID,
+    amount: 40,
+    currency: "USD",
+    type: "expense" as any,
+    categoryId: "groceries",
+    description: "Groceries",
+    date: new Date("2026-10-01T12:00:00Z"),
+    recurringTransactionId: null,
+    occurrenceDate: null,
+    importBatchId: null,
+    externalId: null,
+    splits: [],
+    tags: [],
+    deletedAt,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+describe("TransactionService", () => {
+  let mockTransactionRepository: ITransactionRepository;
+  let mockAttachmentService: AttachmentService;
+  let transactionService: TransactionService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockTransactionRepository = {
+      getById: vi.fn(async (id: string) => (id === "live" ? makeTransaction(id, null) : null)),
+      getTrashedById: vi.fn(async (id: string) =>
+        id === "trashed" ? makeTransaction(id, new Date("2026-10-10T08:00:00Z")) : null,
+      ),
+      getTrashByUserId: vi.fn(),
+      findTrashedBefore: vi.fn(),
+      moveToTrash: vi.fn().mockResolvedValue(true),
+      restore: vi.fn().mockResolvedValue(true),
+      delete: vi.fn(),
+    } as unknown as ITransactionRepository;
+
+    mockAttachmentService = {
+      deleteTransactionAttachments: vi.fn(),
+    } as unknown as AttachmentService;
+
+    transactionService = new TransactionService(
+      mockTransactionRepository,
+      {} as ICategoryRepository,
+      {
+        getById: vi.fn().mockResolvedValue({ baseCurrency: "USD" }),
+      } as unknown as IUserRepository,
+      new ExchangeRateService({} as IExchangeRateRepository),
+      {} as ITagRepository,
+      mockAttachmentService,
+      {} as ITransactionHistoryRepository,
+    );
+  });
+
+  describe("deleteTransaction", () => {
+    it("should move the transaction to the trash and keep its attachments", async () => {
+      await transactionService.deleteTransaction("live", USER_ID);
+
+      expect(mockTransactionRepository.moveToTrash).toHaveBeenCalledWith(
+        "live",
+        expect.any(Date),
+        1,
+        expect.any(Function),
+      );
+      expect(mockTransactionRepository.delete).not.toHaveBeenCalled();
+      expect(mockAttachmentService.deleteTransactionAttachments).not.toHaveBeenCalled();
+    });
+
+    it("should not find a transaction that is already in the trash", async () => {
+      await expect(transactionService.deleteTransaction("trashed", USER_ID)).rejects.toThrow(
+        "Transaction not found",
+      );
+    });
+  });
+
+  describe("fetchTrash", () => {
+    it("should include when each transaction was deleted", async () => {
+      const deletedAt = new Date("2026-10-10T08:00:00Z");
+      (mockTransactionRepository.getTrashByUserId as any).mockResolvedValue([
+        makeTransaction("trashed", deletedAt),
+      ]);
+
+      const trash = await transactionService.fetchTrash(USER_ID);
+
+      expect(trash).toEqual([expect.objectContaining({ id: "trashed", deletedAt })]);
+    });
+  });
+
+  describe("restoreTransaction", () => {
+    it("should take the transaction out of the trash", async () => {
+      const transaction = await transactionService.restoreTransaction("trashed", USER_ID);
+
+      expect(mockTransactionRepository.restore).toHaveBeenCalledWith(
+        "trashed",
+        1,
+        expect.any(Function),
+      );
+      expect(transaction).toMatchObject({ id: "trashed", amount: 40 });
+      expect(transaction).not.toHaveProperty("deletedAt");
+    });
+
+    it("should reject transactions that are not in the trash", async () => {
+      await expect(transactionService.restoreTransaction("live", USER_ID)).rejects.toThrow(
+        "Transaction not found in the trash",
+      );
+      expect(mockTransactionRepository.restore).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("purgeTrash", () => {
+    it("should delete expired transactions with their attachments, chunk by chunk", async () => {
+      const firstChunk = Array.from({ length: 100 }, (_, index) => `old-${index}`);
+      (mockTransactionRepository.findTrashedBefore as any)
+        .mockResolvedValueOnce(firstChunk)
+        .mockResolvedValueOnce(["old-100"]);
+      const cutoff = new Date("2026-09-20T00:00:00Z");
+
+      const purged = await transactionService.purgeTrash(cutoff);
+
+      expect(purged).toBe(101);
+      expect(mockTransactionRepository.findTrashedBefore).toHaveBeenCalledTimes(2);
+      expect(mockTransactionRepository.findTrashedBefore).toHaveBeenCalledWith(cutoff, 100);
+      expect(mockAttachmentService.deleteTransactionAttachments).toHaveBeenCalledWith("old-100");
+      expect(mockTransactionRepository.delete).toHaveBeenCalledTimes(101);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { vi, describe, beforeEach, expect, it } from "vitest";
+import type { AttachmentService } from "../../../src/application/services";
+import { UserService } from "../../../src/application/services";
+import type {
+  IEmailService,
+  ITokenRepository,
+  IUserRepository,
+} from "../../../src/core/interfaces";
+import { Account, User } from "../../../src/core/entities";
+import { ConflictError } from "../../../src/application/errors";
+import { hashToken } from "../../../src/application/utils/tokenUtils";
+
+const USER_ID = "user-id-123";
+
+describe("UserService", () => {
+  let mockUserRepository: IUserRepository;
+  let mockTokenRepository: ITokenRepository;
+  let mockEmailService: IEmailService;
+  let mockAttachmentService: AttachmentService;
+  let userService: UserService;
+
+  const makeUser = () =>
+    User.fromStorage({
+      id: USER_ID,
+      email: "user@example.com",
+      firstName: "John",
+      lastName: "Doe",
+      account: new Account("hashed-password", true, true),
+      baseCurrency: "USD",
+      timezone: "UTC",
+      locale: "en-US",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+  beforeEach(() => {
+    mockUserRepository = {
+      getById: vi.fn().mockResolvedValue(makeUser()),
+      getByEmail: vi.fn(),
+      save: vi.fn(async (user) => user),
+      updatePassword: vi.fn(),
+      markVerified: vi.fn(),
+      delete: vi.fn(),
+    };
+
+    mockTokenRepository = {
+      saveActivationToken: vi.fn(),
+    } as unknown as ITokenRepository;
+
+    mockEmailService = {
+      sendVerificationEmail: vi.fn(),
+      sendPasswordResetEmail: vi.fn(),
+      sendAccountLockedEmail: vi.fn(),
+      sendNotificationEmail: vi.fn(),
+    };
+
+    mockAttachmentService = {
+      deleteUserAttachments: vi.fn(),
+    } as unknown as AttachmentService;
+
+    userService = new UserService(
+      mockUserRepository,
+      mockTokenRepository,
+      mockEmailService,
+      mockAttachmentService,
+    );
+  });
+
+  describe("UpdateUser", () => {
+    it("should email a verification link to a changed email address", async () => {
+      await userService.UpdateUser(USER_ID, { email: "new@example.com" });
+
+      const [userId, tokenHash] = (mockTokenRepository.saveActivationToken as any).mock.calls[0];
+      const [email, rawToken] = (mockEmailService.sendVerificationEmail as any).mock.calls[0];
+      expect(userId).toBe(USER_ID);
+      expect(email).toBe("new@example.com");
+      expect(tokenHash).toBe(hashToken(rawToken));
+    });
+
+    it("should not ask to verify an unchanged email address again", async () => {
+      await userService.UpdateUser(USER_ID, { email: "user@example.com", firstName: "Jane" });
+
+      expect(mockTokenRepository.saveActivationToken).not.toHaveBeenCalled();
+      expect(mockEmailService.sendVerificationEmail).not.toHaveBeenCalled();
+    });
+
+    it("should refuse an email address that belongs to another account", async () => {
+      (mockUserRepository.getByEmail as any).mockResolvedValue({
+        id: "other-user-id",
+        email: "taken@example.com",
+      });
+
+      await expect(userService.UpdateUser(USER_ID, { email: "taken@example.com" })).rejects.toThrow(
+        ConflictError,
+      );
+      expect(mockUserRepository.save).not.toHaveBeenCalled();
+    });
+
+    it("should keep the update when the verification email cannot be sent", async () => {
+      (mockEmailService.sendVerificationEmail as any).mockRejectedValue(new Error("SMTP down"));
+
+      const user = await userService.UpdateUser(USER_ID, { email: "new@example.com" });
+
+      expect(user.email).toBe("new@example.com");
+    });
+  });
+
+  describe("DeleteUser", () => {
+    it("should remove the user's attachment files before deleting the user", async () => {
+      await userService.DeleteUser(USER_ID);
+
+      expect(mockAttachmentService.deleteUserAttachments).toHaveBeenCalledWith(USER_ID);
+      expect(mockUserRepository.delete).toHaveBeenCalledWith(USER_ID);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, beforeEach, afterEach, expect, it } from "vitest";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { localFileStorage } from "../../../src/infrastructure/storage";
+
+const readAll = async (content: AsyncIterable<Uint8Array>) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of content) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+};
+
+describe("localFileStorage", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "expenseit-storage-"));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("should store, read back and delete a file", async () => {
+    const storage = localFileStorage(root);
+
+    await storage.put("user/tx/receipt", Buffer.from("receipt"), "image/png");
+    const file = await storage.get("user/tx/receipt");
+
+    expect(file?.size).toBe(7);
+    expect((await readAll(file!.content)).toString()).toBe("receipt");
+    // No temporary files are left behind
+    expect(await readdir(join(root, "user/tx"))).toEqual(["receipt"]);
+
+    await storage.delete("user/tx/receipt");
+    await storage.delete("user/tx/receipt");
+    expect(await storage.get("user/tx/receipt")).toBeNull();
+  });
+
+  it("should refuse keys outside the storage directory", async () => {
+    const storage = localFileStorage(root);
+
+    await expect(storage.put("../escape", Buffer.from("x"), "image/png")).rejects.toThrow(
+      "Invalid storage key",
+    );
+    await expect(storage.get("/etc/passwd")).rejects.toThrow("Invalid storage key");
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import {
+  isSupportedCurrency,
+  roundAmount,
+  toRateDate,
+} from "../../../src/application/utils/currencyUtils";
+
+describe("currencyUtils", () => {
+  describe("isSupportedCurrency", () => {
+    it("should accept ISO 4217 codes", () => {
+      expect(isSupportedCurrency("EUR")).toBe(true);
+      expect(isSupportedCurrency("GBP")).toBe(true);
+      expect(isSupportedCurrency("USD")).toBe(true);
+    });
+
+    it("should reject unknown or lowercase codes", () => {
+      expect(isSupportedCurrency("XYZ")).toBe(false);
+      expect(isSupportedCurrency("eur")).toBe(false);
+    });
+  });
+
+  describe("roundAmount", () => {
+    it("should round to two decimal places", () => {
+      expect(roundAmount(10.456)).toBe(10.46);
+      expect(roundAmount(1.005)).toBe(1.01);
+      expect(roundAmount(42)).toBe(42);
+    });
+  });
+
+  describe("toRateDate", () => {
+    it("should use the UTC calendar day", () => {
+      expect(toRateDate(new Date("2026-03-01T23:30:00.000Z"))).toBe("2026-03-01");
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { decodeCursor, encodeCursor } from "../../../src/application/utils/cursorUtils";
+
+describe("Cursor Utils", () => {
+  it("should round-trip a cursor payload", () => {
+    const payload = { id: "a1b2", sort: "date:desc", value: "2026-03-01T10:00:00.000Z" };
+
+    expect(decodeCursor(encodeCursor(payload))).toEqual(payload);
+  });
+
+  it("should produce a URL-safe string", () => {
+    const cursor = encodeCursor({ id: "???>>>", sort: "amount:asc", value: 42 });
+
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it("should keep null sort values", () => {
+    const payload = { id: "a1b2", sort: "date:asc", value: null };
+
+    expect(decodeCursor(encodeCursor(payload))).toEqual(payload);
+  });
+
+  it("should return null for malformed input", () => {
+    expect(decodeCursor("not-a-cursor")).toBeNull();
+    expect(decodeCursor(Buffer.from('{"id":1}').toString("base64url"))).toBeNull();
+    expect(
+      decodeCursor(Buffer.from('{"id":"a","sort":"date:asc","value":{}}').toString("base64url")),
+    ).toBeNull();
+  });
+});
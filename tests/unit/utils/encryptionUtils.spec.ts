@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { decryptSecret, encryptSecret } from "../../../src/application/utils/encryptionUtils";
+
+const SECRET = "test-encryption-secret";
+
+describe("Encryption Utils", () => {
+  it("should decrypt what it encrypted", () => {
+    const encrypted = encryptSecret("private key", SECRET, "kid-1");
+
+    expect(encrypted).not.toContain("private key");
+    expect(decryptSecret(encrypted, SECRET, "kid-1")).toBe("private key");
+  });
+
+  it("should use a fresh IV for every encryption", () => {
+    expect(encryptSecret("private key", SECRET, "kid-1")).not.toBe(
+      encryptSecret("private key", SECRET, "kid-1"),
+    );
+  });
+
+  it("should refuse another secret, other associated data or a tampered value", () => {
+    const encrypted = encryptSecret("private key", SECRET, "kid-1");
+    const [iv, tag, ciphertext] = encrypted.split(".");
+    const tampered = Buffer.from(ciphertext, "base64url");
+    tampered[0] ^= 1;
+
+    expect(() => decryptSecret(encrypted, "another-secret", "kid-1")).toThrow();
+    expect(() => decryptSecret(encrypted, SECRET, "kid-2")).toThrow();
+    expect(() =>
+      decryptSecret(`${iv}.${tag}.${tampered.toString("base64url")}`, SECRET, "kid-1"),
+    ).toThrow();
+    expect(() => decryptSecret("not-encrypted", SECRET, "kid-1")).toThrow(
+      "Malformed encrypted value",
+    );
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import {
+  matchesIfMatch,
+  matchesIfNoneMatch,
+  toETag,
+} from "../../../src/application/utils/etagUtils";
+
+describe("ETag Utils", () => {
+  it("should format a version and representation as a strong entity tag", () => {
+    expect(toETag(3, { amount: 10 })).toMatch(/^"3-[\w-]{16}"$/);
+  });
+
+  it("should change the entity tag when the representation changes at the same version", () => {
+    expect(toETag(3, { amount: 10, categoryName: "Food" })).toBe(
+      toETag(3, { amount: 10, categoryName: "Food" }),
+    );
+    expect(toETag(3, { amount: 10, categoryName: "Groceries" })).not.toBe(
+      toETag(3, { amount: 10, categoryName: "Food" }),
+    );
+  });
+
+  it("should compare If-Match strongly against the whole entity tag", () => {
+    const etag = toETag(3, { amount: 10 });
+
+    expect(matchesIfMatch(etag, etag)).toBe(true);
+    expect(matchesIfMatch(toETag(3, { amount: 20 }), etag)).toBe(false);
+    expect(matchesIfMatch('"3"', etag)).toBe(false);
+    expect(matchesIfMatch('"3-anything"', etag)).toBe(false);
+    expect(matchesIfMatch(`"1", ${etag}`, etag)).toBe(true);
+    expect(matchesIfMatch("*", etag)).toBe(true);
+  });
+
+  it("should never match a weak tag in If-Match", () => {
+    const etag = toETag(3, { amount: 10 });
+
+    expect(matchesIfMatch(`W/${etag}`, etag)).toBe(false);
+  });
+
+  it("should compare If-None-Match weakly against the whole entity tag", () => {
+    const etag = toETag(3, { amount: 10 });
+
+    expect(matchesIfNoneMatch(`W/${etag}`, etag)).toBe(true);
+    expect(matchesIfNoneMatch(etag, etag)).toBe(true);
+    expect(matchesIfNoneMatch(toETag(3, { amount: 20 }), etag)).toBe(false);
+    expect(matchesIfNoneMatch('"3"', etag)).toBe(false);
+    expect(matchesIfNoneMatch("*", etag)).toBe(true);
+  });
+
+  it("should not match a malformed header", () => {
+    expect(matchesIfMatch("3", toETag(3, {}))).toBe(false);
+    expect(matchesIfNoneMatch("", toETag(3, {}))).toBe(false);
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, it, expect } from "vitest";
+import { detectContentType } from "../../../src/application/utils/fileTypeUtils";
+
+describe("detectContentType", () => {
+  it.each([
+    ["image/jpeg", Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10])],
+    ["image/png", Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00])],
+    ["image/webp", Buffer.from("RIFF\x24\x00\x00\x00WEBPVP8 ", "latin1")],
+    ["application/pdf", Buffer.from("%PDF-1.7\n%âãÏÓ", "latin1")],
+  ])("should recognise %s from its signature", (contentType, content) => {
+    expect(detectContentType(content)).toBe(contentType);
+  });
+
+  it("should reject other files whatever they are named", () => {
+    expect(detectContentType(Buffer.from("<svg xmlns='http://www.w3.org/2000/svg'/>"))).toBeNull();
+    expect(detectContentType(Buffer.from("RIFF\x24\x00\x00\x00WAVEfmt ", "latin1"))).toBeNull();
+    expect(detectContentType(Buffer.alloc(0))).toBeNull();
+  });
+});
@@ -1,10 +1,83 @@
 import { describe, it, expect } from "vitest";
-import "../../../src/api/utils/jwtUtils";
+import {
+  decodeJwtHeader,
+  generateSigningKeyPair,
+  signKeyedJwt,
+  toPublicJwk,
+  verifyKeyedJwt,
+} from "../../../src/api/utils/jwtUtils";
+import type { SigningAlgorithm } from "../../../src/core/interfaces";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+const NOW_SECONDS = NOW.getTime() / 1000;
 
 describe("JWT Utils", () => {
-  it.todo("should generate valid JWT token");
-  it.todo("should verify JWT token");
-  it.todo("should reject invalid tokens");
-  it.todo("should reject expired tokens");
-  it.todo("should extract payload from token");
+  describe.each<SigningAlgorithm>(["RS256", "EdDSA"])("keyed tokens with %s", (algorithm) => {
+    const key = generateSigningKeyPair(algorithm);
+
+    it("should sign a token with the key id in its header", () => {
+      const token = signKeyedJwt({ sub: "user-id-123" }, key, NOW);
+
+      expect(decodeJwtHeader(token)).toEqual({ alg: algorithm, typ: "JWT", kid: key.kid });
+    });
+
+    it("should verify the token and return its claims", () => {
+      const token = signKeyedJwt({ sub: "user-id-123", exp: NOW_SECONDS + 60 }, key, NOW);
+
+      expect(verifyKeyedJwt(token, key, NOW)).toEqual({
+        sub: "user-id-123",
+        iat: NOW_SECONDS,
+        exp: NOW_SECONDS + 60,
+      });
+    });
+
+    it("should reject expired tokens", () => {
+      const token = signKeyedJwt({ sub: "user-id-123", exp: NOW_SECONDS + 60 }, key, NOW);
+
+      expect(() => verifyKeyedJwt(token, key, new Date(NOW.getTime() + 60 * 1000))).toThrow(
+        "jwt expired",
+      );
+    });
+
+    it("should reject tokens without an expiry", () => {
+      const token = signKeyedJwt({ sub: "user-id-123" }, key, NOW);
+
+      expect(() => verifyKeyedJwt(token, key, NOW)).toThrow("jwt has no expiry");
+    });
+
+    it("should reject tokens with a tampered payload", () => {
+      const [header, , signature] = signKeyedJwt({ sub: "user-id-123" }, key, NOW).split(".");
+      const payload = Buffer.from(JSON.stringify({ sub: "someone-else" })).toString("base64url");
+
+      expect(() => verifyKeyedJwt(`${header}.${payload}.${signature}`, key, NOW)).toThrow(
+        "invalid signature",
+      );
+    });
+
+    it("should reject tokens signed with another key", () => {
+      const otherKey = { ...generateSigningKeyPair(algorithm), kid: key.kid };
+      const token = signKeyedJwt({ sub: "user-id-123" }, otherKey, NOW);
+
+      expect(() => verifyKeyedJwt(token, key, NOW)).toThrow("invalid signature");
+    });
+
+    it("should export only the public key as a JWK", () => {
+      const jwk = toPublicJwk(key);
+
+      expect(jwk).toMatchObject({ kid: key.kid, alg: algorithm, use: "sig" });
+      expect(jwk).not.toHaveProperty("d");
+    });
+  });
+
+  it("should reject a token whose header names a different algorithm than its key", () => {
+    const rsaKey = generateSigningKeyPair("RS256");
+    const edKey = { ...generateSigningKeyPair("EdDSA"), kid: rsaKey.kid };
+    const token = signKeyedJwt({ sub: "user-id-123" }, edKey, NOW);
+
+    expect(() => verifyKeyedJwt(token, rsaKey, NOW)).toThrow("jwt signing key mismatch");
+  });
+
+  it("should reject malformed tokens", () => {
+    expect(() => decodeJwtHeader("not-a-jwt")).toThrow("jwt malformed");
+  });
 });
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import {
+  createAmountFormatter,
+  createDayFormatter,
+  decimalSeparatorOf,
+  isSupportedLocale,
+  spreadsheetDayFormatOf,
+} from "../../../src/application/utils/localeUtils";
+
+const DAY = new Date("2026-03-07T00:00:00Z");
+
+describe("localeUtils", () => {
+  describe("isSupportedLocale", () => {
+    it("should accept BCP 47 tags and reject anything else", () => {
+      expect(isSupportedLocale("en-GB")).toBe(true);
+      expect(isSupportedLocale("de")).toBe(true);
+      expect(isSupportedLocale("not a locale")).toBe(false);
+    });
+  });
+
+  describe("createDayFormatter", () => {
+    it("should write days in the locale's order", () => {
+      expect(createDayFormatter("en-US")(DAY)).toBe("03/07/2026");
+      expect(createDayFormatter("en-GB")(DAY)).toBe("07/03/2026");
+      expect(createDayFormatter("de-DE")(DAY)).toBe("07.03.2026");
+    });
+  });
+
+  describe("createAmountFormatter", () => {
+    it("should use the locale's decimal separator without grouping", () => {
+      expect(createAmountFormatter("en-US")(1234.5)).toBe("1234.50");
+      expect(createAmountFormatter("de-DE")(1234.5)).toBe("1234,50");
+      expect(decimalSeparatorOf("fr-FR")).toBe(",");
+    });
+  });
+
+  describe("spreadsheetDayFormatOf", () => {
+    it("should quote separators between the day, month and year", () => {
+      expect(spreadsheetDayFormatOf("en-US")).toBe('mm"/"dd"/"yyyy');
+      expect(spreadsheetDayFormatOf("de-DE")).toBe('dd"."mm"."yyyy');
+    });
+  });
+});
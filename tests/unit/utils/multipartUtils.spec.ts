@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { readMultipartFile } from "../../../src/api/utils/multipartUtils";
+
+const encode = async (form: FormData) => {
+  const request = new Request("http://localhost/", { method: "POST", body: form });
+  return {
+    body: Buffer.from(await request.arrayBuffer()),
+    contentType: request.headers.get("content-type")!,
+  };
+};
+
+describe("readMultipartFile", () => {
+  it("should return the name and bytes of the file field", async () => {
+    const form = new FormData();
+    form.append("note", "lunch");
+    form.append("file", new Blob([Buffer.from([1, 2, 3])]), "receipt café.png");
+    const { body, contentType } = await encode(form);
+
+    const file = await readMultipartFile(body, contentType, "file");
+
+    expect(file).toEqual({ fileName: "receipt café.png", content: Buffer.from([1, 2, 3]) });
+  });
+
+  it("should return null without a file in the field or for a malformed body", async () => {
+    const form = new FormData();
+    form.append("file", "not a file");
+    const { body, contentType } = await encode(form);
+
+    expect(await readMultipartFile(body, contentType, "file")).toBeNull();
+    expect(await readMultipartFile(body, "multipart/form-data; boundary=other", "file")).toBeNull();
+  });
+});
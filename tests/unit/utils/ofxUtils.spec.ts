@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import { parseOfx, parseOfxAmount, parseOfxDate } from "../../../src/application/utils/ofxUtils";
+
+describe("ofxUtils", () => {
+  describe("parseOfx", () => {
+    it("should read transactions from an SGML (OFX 1.x) file", () => {
+      const content = [
+        "OFXHEADER:100",
+        "DATA:OFXSGML",
+        "",
+        "<OFX>",
+        "<BANKMSGSRSV1><STMTTRNRS><STMTRS>",
+        "<CURDEF>GBP",
+        "<BANKACCTFROM><ACCTID>12345678<ACCTTYPE>CHECKING</BANKACCTFROM>",
+        "<BANKTRANLIST>",
+        "<STMTTRN>",
+        "<TRNTYPE>POS",
+        "<DTPOSTED>20260305",
+        "<TRNAMT>-12.50",
+        "<FITID>202603050001",
+        "<NAME>Smith &amp; Sons",
+        "<MEMO>Card 1234",
+        "</STMTTRN>",
+        "</BANKTRANLIST>",
+        "</STMTRS></STMTTRNRS></BANKMSGSRSV1>",
+        "</OFX>",
+      ].join("\r\n");
+
+      expect(parseOfx(content)).toEqual([
+        {
+          record: 1,
+          fitId: "202603050001",
+          accountId: "12345678",
+          type: "POS",
+          datePosted: "20260305",
+          amount: "-12.50",
+          name: "Smith & Sons",
+          memo: "Card 1234",
+          currency: "GBP",
+        },
+      ]);
+    });
+
+    it("should read transactions from an XML (OFX 2.x) file", () => {
+      const content = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220"?>
+<OFX>
+  <CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+    <CURDEF>USD</CURDEF>
+    <CCACCTFROM><ACCTID>4111</ACCTID></CCACCTFROM>
+    <BANKTRANLIST>
+      <STMTTRN>
+        <TRNTYPE>CREDIT</TRNTYPE>
+        <DTPOSTED>20260306120000.000[-5:EST]</DTPOSTED>
+        <TRNAMT>40.00</TRNAMT>
+        <FITID>X1</FITID>
+        <PAYEE><NAME>Refund</NAME></PAYEE>
+        <CURRENCY><CURRATE>1.0</CURRATE><CURSYM>EUR</CURSYM></CURRENCY>
+      </STMTTRN>
+      <STMTTRN>
+        <TRNTYPE>DEBIT</TRNTYPE>
+        <DTPOSTED>20260307</DTPOSTED>
+        <TRNAMT>-5.00</TRNAMT>
+      </STMTTRN>
+    </BANKTRANLIST>
+  </CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1>
+</OFX>`;
+
+      expect(parseOfx(content)).toMatchObject([
+        { record: 1, fitId: "X1", accountId: "4111", name: "Refund", currency: "EUR" },
+        { record: 2, fitId: null, amount: "-5.00", name: null, currency: "USD" },
+      ]);
+    });
+
+    it("should return no transactions when the file is not OFX", () => {
+      expect(parseOfx("Date,Amount\n2026-03-05,-12.50")).toEqual([]);
+    });
+  });
+
+  describe("parseOfxDate", () => {
+    it("should keep the calendar day and ignore the time and time zone", () => {
+      expect(parseOfxDate("20260305")?.toISOString()).toBe("2026-03-05T00:00:00.000Z");
+      expect(parseOfxDate("20260305233000.000[-8:PST]")?.toISOString()).toBe(
+        "2026-03-05T00:00:00.000Z",
+      );
+    });
+
+    it("should reject values that are not dates", () => {
+      expect(parseOfxDate("20260231")).toBeNull();
+      expect(parseOfxDate("05/03/2026")).toBeNull();
+    });
+  });
+
+  describe("parseOfxAmount", () => {
+    it("should read signed amounts with a decimal point or a lone decimal comma", () => {
+      expect(parseOfxAmount("-12.50")).toBe(-12.5);
+      expect(parseOfxAmount("+40")).toBe(40);
+      expect(parseOfxAmount("-0,99")).toBe(-0.99);
+    });
+
+    it("should reject values that are not numbers", () => {
+      expect(parseOfxAmount("")).toBeNull();
+      expect(parseOfxAmount("1,234.56")).toBeNull();
+      expect(parseOfxAmount("$5")).toBeNull();
+    });
+  });
+});
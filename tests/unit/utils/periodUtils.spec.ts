@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { periodBounds, periodStart, shiftPeriod } from "../../../src/application/utils/periodUtils";
+
+describe("periodUtils", () => {
+  describe("periodStart", () => {
+    it("should start weeks on Monday", () => {
+      // 2026-03-01 is a Sunday
+      expect(periodStart("weekly", new Date("2026-03-01T23:00:00Z"))).toEqual(
+        new Date("2026-02-23T00:00:00Z"),
+      );
+      expect(periodStart("weekly", new Date("2026-03-02T00:00:00Z"))).toEqual(
+        new Date("2026-03-02T00:00:00Z"),
+      );
+    });
+
+    it("should start months and years on their first day", () => {
+      const at = new Date("2026-07-19T12:30:00Z");
+
+      expect(periodStart("monthly", at)).toEqual(new Date("2026-07-01T00:00:00Z"));
+      expect(periodStart("yearly", at)).toEqual(new Date("2026-01-01T00:00:00Z"));
+    });
+  });
+
+  describe("shiftPeriod", () => {
+    it("should move across year boundaries in both directions", () => {
+      const january = new Date("2026-01-01T00:00:00Z");
+
+      expect(shiftPeriod("monthly", january, -1)).toEqual(new Date("2025-12-01T00:00:00Z"));
+      expect(shiftPeriod("monthly", january, 13)).toEqual(new Date("2027-02-01T00:00:00Z"));
+      expect(shiftPeriod("weekly", new Date("2025-12-29T00:00:00Z"), 1)).toEqual(
+        new Date("2026-01-05T00:00:00Z"),
+      );
+    });
+  });
+
+  describe("periodBounds", () => {
+    it("should end a period where the next one starts", () => {
+      expect(periodBounds("monthly", new Date("2028-02-15T00:00:00Z"))).toEqual({
+        start: new Date("2028-02-01T00:00:00Z"),
+        end: new Date("2028-03-01T00:00:00Z"),
+      });
+    });
+  });
+});
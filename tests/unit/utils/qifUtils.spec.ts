@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { parseQif } from "../../../src/application/utils/qifUtils";
+
+describe("qifUtils", () => {
+  describe("parseQif", () => {
+    it("should read each record up to its caret", () => {
+      const content = [
+        "!Type:Bank",
+        "D03/05'26",
+        "T-1,012.50",
+        "N101",
+        "PCorner shop",
+        "MWeekly shop",
+        "LFood:Groceries",
+        "^",
+        "D03/06'26",
+        "U2,500.00",
+        "PACME Ltd",
+        "L[Savings]",
+        "^",
+      ].join("\r\n");
+
+      expect(parseQif(content)).toEqual([
+        {
+          record: 1,
+          date: "03/05'26",
+          amount: "-1,012.50",
+          payee: "Corner shop",
+          memo: "Weekly shop",
+          category: "Groceries",
+          number: "101",
+        },
+        {
+          record: 2,
+          date: "03/06'26",
+          amount: "2,500.00",
+          payee: "ACME Ltd",
+          memo: null,
+          category: null,
+          number: null,
+        },
+      ]);
+    });
+
+    it("should keep the first value of codes repeated by split lines", () => {
+      const content = "!Type:CCard\nD1/2/26\nT-30\nLBills/Tag\nSBills\n$-20\nSFood\n$-10\n^";
+
+      expect(parseQif(content)).toMatchObject([{ amount: "-30", category: "Bills" }]);
+    });
+
+    it("should skip account, category and investment sections", () => {
+      const content = [
+        "!Account",
+        "NChecking",
+        "TBank",
+        "^",
+        "!Type:Cat",
+        "NGroceries",
+        "E",
+        "^",
+        "!Type:Invst",
+        "D1/2/26",
+        "T100",
+        "^",
+        "!Type:Cash",
+        "D1/3/26",
+        "T-4",
+      ].join("\n");
+
+      expect(parseQif(content)).toMatchObject([{ record: 1, date: "1/3/26", amount: "-4" }]);
+    });
+  });
+});
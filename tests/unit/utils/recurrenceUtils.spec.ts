@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import {
+  firstOccurrenceIndexAfter,
+  nextOccurrence,
+  occurrenceAt,
+  type RecurrenceRule,
+} from "../../../src/application/utils/recurrenceUtils";
+
+const rule = (overrides: Partial<RecurrenceRule>): RecurrenceRule => ({
+  frequency: "monthly",
+  interval: 1,
+  startDate: new Date("2026-01-31T09:00:00.000Z"),
+  endDate: null,
+  maxOccurrences: null,
+  ...overrides,
+});
+
+describe("recurrenceUtils", () => {
+  describe("occurrenceAt", () => {
+    it("should clamp monthly occurrences to the end of shorter months and recover afterwards", () => {
+      const monthly = rule({});
+
+      expect(occurrenceAt(monthly, 1).toISOString()).toBe("2026-02-28T09:00:00.000Z");
+      expect(occurrenceAt(monthly, 2).toISOString()).toBe("2026-03-31T09:00:00.000Z");
+      expect(occurrenceAt(monthly, 3).toISOString()).toBe("2026-04-30T09:00:00.000Z");
+    });
+
+    it("should apply the interval", () => {
+      const fortnightly = rule({ frequency: "weekly", interval: 2 });
+      expect(occurrenceAt(fortnightly, 3).toISOString()).toBe("2026-03-14T09:00:00.000Z");
+    });
+
+    it("should keep leap-day rules on the last day of February", () => {
+      const yearly = rule({ frequency: "yearly", startDate: new Date("2028-02-29T00:00:00.000Z") });
+      expect(occurrenceAt(yearly, 1).toISOString()).toBe("2029-02-28T00:00:00.000Z");
+      expect(occurrenceAt(yearly, 4).toISOString()).toBe("2032-02-29T00:00:00.000Z");
+    });
+  });
+
+  describe("nextOccurrence", () => {
+    it("should stop at the occurrence limit", () => {
+      const limited = rule({ maxOccurrences: 3 });
+      expect(nextOccurrence(limited, 2)).not.toBeNull();
+      expect(nextOccurrence(limited, 3)).toBeNull();
+    });
+
+    it("should stop after the end date", () => {
+      const bounded = rule({ frequency: "daily", endDate: new Date("2026-02-02T09:00:00.000Z") });
+      expect(nextOccurrence(bounded, 2)?.toISOString()).toBe("2026-02-02T09:00:00.000Z");
+      expect(nextOccurrence(bounded, 3)).toBeNull();
+    });
+  });
+
+  describe("firstOccurrenceIndexAfter", () => {
+    it("should return 0 when the rule starts in the future", () => {
+      expect(firstOccurrenceIndexAfter(rule({}), new Date("2025-12-01T00:00:00.000Z"))).toBe(0);
+    });
+
+    it("should skip occurrences on or before the given instant", () => {
+      const daily = rule({ frequency: "daily" });
+      expect(firstOccurrenceIndexAfter(daily, new Date("2026-01-31T09:00:00.000Z"))).toBe(1);
+      expect(firstOccurrenceIndexAfter(daily, new Date("2029-06-15T12:00:00.000Z"))).toBe(1232);
+    });
+
+    it("should find the next monthly occurrence after several years", () => {
+      const monthly = rule({});
+      const index = firstOccurrenceIndexAfter(monthly, new Date("2036-03-15T00:00:00.000Z"));
+      expect(occurrenceAt(monthly, index).toISOString()).toBe("2036-03-31T09:00:00.000Z");
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseCsv,
+  parseStatementAmount,
+  parseStatementDate,
+} from "../../../src/application/utils/statementUtils";
+
+describe("statementUtils", () => {
+  describe("parseCsv", () => {
+    it("should split records and cells on the delimiter", () => {
+      expect(parseCsv("date,amount\r\n2026-01-05,-12.50\n2026-01-06,40\n")).toEqual([
+        ["date", "amount"],
+        ["2026-01-05", "-12.50"],
+        ["2026-01-06", "40"],
+      ]);
+      expect(parseCsv("a;b\n1;2", ";")).toEqual([
+        ["a", "b"],
+        ["1", "2"],
+      ]);
+    });
+
+    it("should keep delimiters, line breaks and escaped quotes inside quoted cells", () => {
+      expect(parseCsv('\uFEFF"Shop, Inc.","Line one\nline two","Say ""hi"""')).toEqual([
+        ["Shop, Inc.", "Line one\nline two", 'Say "hi"'],
+      ]);
+    });
+
+    it("should keep empty cells", () => {
+      expect(parseCsv("a,,c\n,,")).toEqual([
+        ["a", "", "c"],
+        ["", "", ""],
+      ]);
+    });
+  });
+
+  describe("parseStatementDate", () => {
+    it("should read the day, month and year positions from the format", () => {
+      expect(parseStatementDate("2026-03-07", "YYYY-MM-DD")?.toISOString()).toBe(
+        "2026-03-07T00:00:00.000Z",
+      );
+      expect(parseStatementDate("07/03/2026", "DD/MM/YYYY")?.toISOString()).toBe(
+        "2026-03-07T00:00:00.000Z",
+      );
+      expect(parseStatementDate("3/7/2026", "MM/DD/YYYY")?.toISOString()).toBe(
+        "2026-03-07T00:00:00.000Z",
+      );
+      expect(parseStatementDate("07.03.26", "DD/MM/YY")?.toISOString()).toBe(
+        "2026-03-07T00:00:00.000Z",
+      );
+    });
+
+    it("should accept Quicken's apostrophe before the year and either year length", () => {
+      expect(parseStatementDate("3/ 7'26", "MM/DD/YYYY")?.toISOString()).toBe(
+        "2026-03-07T00:00:00.000Z",
+      );
+      expect(parseStatementDate("07/03/2026", "DD/MM/YY")?.toISOString()).toBe(
+        "2026-03-07T00:00:00.000Z",
+      );
+    });
+
+    it("should reject values that do not match the format or do not exist", () => {
+      expect(parseStatementDate("2026-03-07", "DD/MM/YYYY")).toBeNull();
+      expect(parseStatementDate("31/02/2026", "DD/MM/YYYY")).toBeNull();
+      expect(parseStatementDate("yesterday", "YYYY-MM-DD")).toBeNull();
+    });
+  });
+
+  describe("parseStatementAmount", () => {
+    it("should handle signs, thousands separators and currency symbols", () => {
+      expect(parseStatementAmount("-1,234.56")).toBe(-1234.56);
+      expect(parseStatementAmount("£12.50")).toBe(12.5);
+      expect(parseStatementAmount("(12.50)")).toBe(-12.5);
+      expect(parseStatementAmount("12.50-")).toBe(-12.5);
+      expect(parseStatementAmount("+40")).toBe(40);
+    });
+
+    it("should honour a comma decimal separator", () => {
+      expect(parseStatementAmount("1.234,56", ",")).toBe(1234.56);
+      expect(parseStatementAmount("-0,99 €", ",")).toBe(-0.99);
+    });
+
+    it("should reject values that are not numbers", () => {
+      expect(parseStatementAmount("")).toBeNull();
+      expect(parseStatementAmount("n/a")).toBeNull();
+      expect(parseStatementAmount("1.2.3")).toBeNull();
+    });
+  });
+});
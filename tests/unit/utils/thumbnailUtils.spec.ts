@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import { crc32, deflateSync, inflateSync } from "zlib";
+import { createThumbnail, encodePng } from "../../../src/application/utils/thumbnailUtils";
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const chunk = (type: string, data: Buffer) => {
+  const typeAndData = Buffer.concat([Buffer.from(type, "latin1"), data]);
+  const framed = Buffer.alloc(data.length + 12);
+  framed.writeUInt32BE(data.length, 0);
+  typeAndData.copy(framed, 4);
+  framed.writeUInt32BE(crc32(typeAndData), data.length + 8);
+  return framed;
+};
+
+// Reads back a PNG written by encodePng: a single IDAT of unfiltered 8-bit RGBA scanlines
+const decode = (png: Buffer) => {
+  const width = png.readUInt32BE(16);
+  const height = png.readUInt32BE(20);
+  const idatLength = png.readUInt32BE(33);
+  const raw = inflateSync(png.subarray(41, 41 + idatLength));
+  const pixel = (x: number, y: number) => [
+    ...raw.subarray(y * (width * 4 + 1) + 1 + x * 4, y * (width * 4 + 1) + 5 + x * 4),
+  ];
+  return { width, height, pixel };
+};
+
+describe("createThumbnail", () => {
+  it("should scale a PNG down to fit 256 pixels, keeping its aspect ratio", () => {
+    const width = 512;
+    const height = 256;
+    const pixels = Buffer.alloc(width * height * 4);
+    for (let i = 0; i < width * height; i++) {
+      // Left half red, right half half-transparent blue
+      pixels.set(i % width < width / 2 ? [255, 0, 0, 255] : [0, 0, 255, 128], i * 4);
+    }
+
+    const thumbnail = createThumbnail(encodePng({ width, height, pixels }), "image/png");
+
+    const image = decode(thumbnail!);
+    expect([image.width, image.height]).toEqual([256, 128]);
+    expect(image.pixel(0, 0)).toEqual([255, 0, 0, 255]);
+    expect(image.pixel(255, 127)).toEqual([0, 0, 255, 128]);
+  });
+
+  it("should decode palette images packed below one byte per pixel", () => {
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(8, 0);
+    header.writeUInt32BE(1, 4);
+    header[8] = 1; // bit depth
+    header[9] = 3; // palette
+    const png = Buffer.concat([
+      PNG_SIGNATURE,
+      chunk("IHDR", header),
+      chunk("PLTE", Buffer.from([0, 0, 0, 255, 255, 255])),
+      chunk("tRNS", Buffer.from([0])),
+      chunk("IDAT", deflateSync(Buffer.from([0, 0b01010101]))),
+      chunk("IEND", Buffer.alloc(0)),
+    ]);
+
+    const image = decode(createThumbnail(png, "image/png")!);
+
+    expect([image.width, image.height]).toEqual([8, 1]);
+    expect(image.pixel(0, 0)).toEqual([0, 0, 0, 0]);
+    expect(image.pixel(1, 0)).toEqual([255, 255, 255, 255]);
+  });
+
+  it("should use the preview embedded in a JPEG's EXIF data", () => {
+    const preview = Buffer.from([0xff, 0xd8, 0xff, 0xdb, 0x01, 0x02, 0xff, 0xd9]);
+    // Little-endian TIFF: an empty IFD0 followed by an IFD1 pointing at the preview
+    const tiff = Buffer.alloc(44);
+    tiff.write("II", 0, "latin1");
+    tiff.writeUInt16LE(42, 2);
+    tiff.writeUInt32LE(8, 4);
+    tiff.writeUInt16LE(0, 8);
+    tiff.writeUInt32LE(14, 10);
+    tiff.writeUInt16LE(2, 14);
+    tiff.writeUInt16LE(0x0201, 16);
+    tiff.writeUInt32LE(44, 24);
+    tiff.writeUInt16LE(0x0202, 28);
+    tiff.writeUInt32LE(preview.length, 36);
+    const exif = Buffer.concat([Buffer.from("Exif\0\0", "latin1"), tiff, preview]);
+    const segmentLength = Buffer.alloc(2);
+    segmentLength.writeUInt16BE(exif.length + 2);
+    const jpeg = Buffer.concat([
+      Buffer.from([0xff, 0xd8, 0xff, 0xe1]),
+      segmentLength,
+      exif,
+      Buffer.from([0xff, 0xda, 0x00, 0x02, 0xff, 0xd9]),
+    ]);
+
+    expect(createThumbnail(jpeg, "image/jpeg")).toEqual(preview);
+  });
+
+  it("should not decode a PNG larger than a few megapixels", () => {
+    // A valid 3000 x 2000 RGBA image that compresses to a few kilobytes
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(3000, 0);
+    header.writeUInt32BE(2000, 4);
+    header[8] = 8; // bit depth
+    header[9] = 6; // RGBA
+    const png = Buffer.concat([
+      PNG_SIGNATURE,
+      chunk("IHDR", header),
+      chunk("IDAT", deflateSync(Buffer.alloc((3000 * 4 + 1) * 2000))),
+      chunk("IEND", Buffer.alloc(0)),
+    ]);
+
+    expect(createThumbnail(png, "image/png")).toBeNull();
+  });
+
+  it("should return null when no thumbnail can be made", () => {
+    const truncated = encodePng({ width: 4, height: 4, pixels: Buffer.alloc(64) }).subarray(0, 40);
+
+    expect(createThumbnail(truncated, "image/png")).toBeNull();
+    expect(createThumbnail(Buffer.from([0xff, 0xd8, 0xff, 0xd9]), "image/jpeg")).toBeNull();
+    expect(createThumbnail(Buffer.from("%PDF-1.7"), "application/pdf")).toBeNull();
+  });
+});
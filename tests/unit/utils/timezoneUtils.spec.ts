@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import {
+  isValidTimeZone,
+  nextDay,
+  startOfDayInZone,
+  timeZoneOffsetMs,
+} from "../../../src/application/utils/timezoneUtils";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("timezoneUtils", () => {
+  describe("isValidTimeZone", () => {
+    it("should accept IANA names and reject anything else", () => {
+      expect(isValidTimeZone("Europe/London")).toBe(true);
+      expect(isValidTimeZone("UTC")).toBe(true);
+      expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+    });
+  });
+
+  describe("timeZoneOffsetMs", () => {
+    it("should follow daylight saving time", () => {
+      expect(timeZoneOffsetMs(new Date("2026-01-15T12:00:00Z"), "Europe/London")).toBe(0);
+      expect(timeZoneOffsetMs(new Date("2026-07-15T12:00:00Z"), "Europe/London")).toBe(HOUR);
+      expect(timeZoneOffsetMs(new Date("2026-07-15T12:00:00Z"), "America/New_York")).toBe(
+        -4 * HOUR,
+      );
+    });
+  });
+
+  describe("startOfDayInZone", () => {
+    it("should return local midnight as a UTC instant", () => {
+      expect(startOfDayInZone("2026-03-01", "Asia/Tokyo")).toEqual(
+        new Date("2026-02-28T15:00:00Z"),
+      );
+      expect(startOfDayInZone("2026-07-01", "America/New_York")).toEqual(
+        new Date("2026-07-01T04:00:00Z"),
+      );
+    });
+
+    it("should use the offset in effect after a daylight saving change", () => {
+      // Clocks in London go forward at 01:00 UTC on 2026-03-29
+      expect(startOfDayInZone("2026-03-29", "Europe/London")).toEqual(
+        new Date("2026-03-29T00:00:00Z"),
+      );
+      expect(startOfDayInZone("2026-03-30", "Europe/London")).toEqual(
+        new Date("2026-03-29T23:00:00Z"),
+      );
+    });
+  });
+
+  describe("nextDay", () => {
+    it("should roll over month and year ends", () => {
+      expect(nextDay("2028-02-28")).toBe("2028-02-29");
+      expect(nextDay("2026-12-31")).toBe("2027-01-01");
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateTotp,
+  totpStep,
+  verifyTotp,
+  type TotpAlgorithm,
+} from "../../../src/application/utils/totpUtils";
+
+// Test vectors from RFC 6238 appendix B: 8-digit codes, 30 second steps, one seed per algorithm
+const SEEDS: Record<TotpAlgorithm, Buffer> = {
+  sha1: Buffer.from("12345678901234567890"),
+  sha256: Buffer.from("12345678901234567890123456789012"),
+  sha512: Buffer.from("1234567890123456789012345678901234567890123456789012345678901234"),
+};
+
+const VECTORS: [number, string, TotpAlgorithm][] = [
+  [59, "94287082", "sha1"],
+  [59, "46119246", "sha256"],
+  [59, "90693936", "sha512"],
+  [1111111109, "07081804", "sha1"],
+  [1111111109, "68084774", "sha256"],
+  [1111111109, "25091201", "sha512"],
+  [1111111111, "14050471", "sha1"],
+  [1111111111, "67062674", "sha256"],
+  [1111111111, "99943326", "sha512"],
+  [1234567890, "89005924", "sha1"],
+  [1234567890, "91819424", "sha256"],
+  [1234567890, "93441116", "sha512"],
+  [2000000000, "69279037", "sha1"],
+  [2000000000, "90698825", "sha256"],
+  [2000000000, "38618901", "sha512"],
+  [20000000000, "65353130", "sha1"],
+  [20000000000, "77737706", "sha256"],
+  [20000000000, "47863826", "sha512"],
+];
+
+describe("TOTP Utils", () => {
+  it.each(VECTORS)("should give the RFC 6238 code at %i seconds: %s (%s)", (time, code, alg) => {
+    const step = totpStep(time * 1000);
+
+    expect(generateTotp(SEEDS[alg], step, { algorithm: alg, digits: 8 })).toBe(code);
+  });
+
+  it("should accept a code from the previous or next step only", () => {
+    const secret = SEEDS.sha1;
+    const time = 1111111111 * 1000;
+    const step = totpStep(time);
+
+    expect(verifyTotp(secret, generateTotp(secret, step - 1), time)).toBe(step - 1);
+    expect(verifyTotp(secret, generateTotp(secret, step + 1), time)).toBe(step + 1);
+    expect(verifyTotp(secret, generateTotp(secret, step - 2), time)).toBeNull();
+  });
+
+  it("should reject malformed codes", () => {
+    expect(verifyTotp(SEEDS.sha1, "12345", Date.now())).toBeNull();
+    expect(verifyTotp(SEEDS.sha1, "12a456", Date.now())).toBeNull();
+  });
+
+  it("should round-trip base32", () => {
+    // RFC 4648 section 10
+    expect(base32Encode(Buffer.from("foobar"))).toBe("MZXW6YTBOI");
+    expect(base32Decode("mzxw6ytboi======").toString()).toBe("foobar");
+    expect(() => base32Decode("MZXW1")).toThrow();
+  });
+
+  it("should build an otpauth URI", () => {
+    const uri = buildOtpauthUri(SEEDS.sha1, "ExpenseIt", "jane@example.com");
+
+    expect(uri).toBe(
+      "otpauth://totp/ExpenseIt%3Ajane%40example.com" +
+        "?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ&issuer=ExpenseIt" +
+        "&algorithm=SHA1&digits=6&period=30",
+    );
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { crc32, inflateRawSync } from "zlib";
+import { columnName, writeXlsx, type XlsxCell } from "../../../src/application/utils/xlsxUtils";
+
+// Reads every entry of a ZIP archive through its central directory
+const unzip = (archive: Buffer): Record<string, string> => {
+  const end = archive.length - 22;
+  expect(archive.readUInt32LE(end)).toBe(0x06054b50);
+
+  const files: Record<string, string> = {};
+  let position = archive.readUInt32LE(end + 16);
+  for (let i = 0; i < archive.readUInt16LE(end + 10); i++) {
+    const crc = archive.readUInt32LE(position + 16);
+    const compressedSize = archive.readUInt32LE(position + 20);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const offset = archive.readUInt32LE(position + 42);
+    const name = archive.toString("utf8", position + 46, position + 46 + nameLength);
+
+    const dataStart = offset + 30 + archive.readUInt16LE(offset + 26);
+    const data = inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+    expect(crc32(data)).toBe(crc);
+    files[name] = data.toString("utf8");
+    position += 46 + nameLength;
+  }
+  return files;
+};
+
+const collect = async (headers: string[], batches: XlsxCell[][][]) => {
+  async function* rows() {
+    yield* batches;
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of writeXlsx(headers, rows(), {
+    name: "Transactions",
+    dayFormat: "dd/mm/yyyy",
+    numberFormat: "0.00",
+  })) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+describe("xlsxUtils", () => {
+  describe("writeXlsx", () => {
+    it("should write a readable workbook with one sheet", async () => {
+      const files = unzip(await collect(["Date"], []));
+
+      expect(Object.keys(files)).toEqual([
+        "[Content_Types].xml",
+        "_rels/.rels",
+        "xl/workbook.xml",
+        "xl/_rels/workbook.xml.rels",
+        "xl/styles.xml",
+        "xl/worksheets/sheet1.xml",
+      ]);
+      expect(files["xl/workbook.xml"]).toContain('<sheet name="Transactions" sheetId="1"');
+      expect(files["xl/styles.xml"]).toContain('formatCode="dd/mm/yyyy"');
+    });
+
+    it("should write strings inline, numbers and days as values, and skip empty cells", async () => {
+      const sheet = unzip(
+        await collect(
+          ["Date", "Description", "Amount"],
+          [
+            [[new Date("2026-03-05T00:00:00Z"), "Smith & Sons <Ltd>", 12.5]],
+            [[null, "", 2500]],
+          ],
+        ),
+      )["xl/worksheets/sheet1.xml"];
+
+      expect(sheet).toContain('<c r="A1" t="inlineStr" s="1"><is>');
+      expect(sheet).toContain('<c r="A2" s="2"><v>46086</v></c>');
+      expect(sheet).toContain("<t xml:space=\"preserve\">Smith &amp; Sons &lt;Ltd&gt;</t>");
+      expect(sheet).toContain('<c r="C2" s="3"><v>12.5</v></c>');
+      expect(sheet).toContain('<row r="3"><c r="C3" s="3"><v>2500</v></c></row>');
+    });
+  });
+
+  describe("columnName", () => {
+    it("should name columns like a spreadsheet", () => {
+      expect([0, 25, 26, 27, 701, 702].map(columnName)).toEqual([
+        "A",
+        "Z",
+        "AA",
+        "AB",
+        "ZZ",
+        "AAA",
+      ]);
+    });
+  });
+});
@@ -4,6 +4,8 @@ import { ENVIRONMENT_CONFIG } from "@config";
 // Set required environment variables for tests
 ENVIRONMENT_CONFIG.JWT_ACCESS_SECRET = "test-access-secret";
 ENVIRONMENT_CONFIG.JWT_REFRESH_SECRET = "test-refresh-secret";
+ENVIRONMENT_CONFIG.JWT_KEY_ENCRYPTION_SECRET = "test-key-encryption-secret";
+ENVIRONMENT_CONFIG.TOTP_ENCRYPTION_SECRET = "test-totp-encryption-secret";
 
 const mockBcryptHash = vi.fn(
   (password: string, saltOrRounds: number | string, callback?: Function) => {
@@ -28,7 +28,6 @@ export default defineConfig({
       "**/types/*.spec.ts", // Skip placeholder type tests
       "**/routes/*.spec.ts", // Skip placeholder route tests
       "**/controllers/*.spec.ts", // Skip placeholder controller tests
-      "**/services/*.spec.ts", // Skip placeholder service tests
       "**/middleware/error.middleware.spec.ts", // Not yet implemented
       "**/config/db.spec.ts", // Not yet implemented
     ],